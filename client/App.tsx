@@ -20,12 +20,14 @@ import ProductCategory from "./pages/ProductCategory";
 import ProductDetail from "./pages/ProductDetail";
 import Cart from "./pages/Cart";
 import Checkout from "./pages/Checkout";
+import RequestQuote from "./pages/RequestQuote";
 import OrderConfirmation from "./pages/OrderConfirmation";
 import AdminPanel from "./pages/AdminPanel";
 import Profile from "./pages/Profile";
 import Orders from "./pages/Orders";
 import Wishlist from "./pages/Wishlist";
 import PaymentMethods from "./pages/PaymentMethods";
+import Search from "./pages/Search";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -74,6 +76,7 @@ const App = () => (
                 <Route path="/" element={<Index />} />
                 <Route path="/cart" element={<Cart />} />
                 <Route path="/checkout" element={<Checkout />} />
+                <Route path="/request-quote" element={<RequestQuote />} />
                 <Route
                   path="/order-confirmation"
                   element={<OrderConfirmation />}
@@ -84,7 +87,9 @@ const App = () => (
                 <Route path="/wishlist" element={<Wishlist />} />
                 <Route path="/payment-methods" element={<PaymentMethods />} />
                 <Route path="/product/:id" element={<ProductDetail />} />
-                <Route path="/:category" element={<ProductCategory />} />
+                <Route path="/search" element={<Search />} />
+                {/* Categories and nested subcategories, e.g. /workwear/safety-boots */}
+                <Route path="/:category/*" element={<ProductCategory />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                 <Route path="*" element={<NotFound />} />
               </Routes>
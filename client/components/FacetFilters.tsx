@@ -0,0 +1,241 @@
+import { ReactNode, useEffect, useState } from "react";
+import { Star } from "lucide-react";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Slider } from "./ui/slider";
+import {
+  FacetCount,
+  ProductFacets,
+  ProductFilters,
+  sortSizes,
+} from "@shared/facets";
+import {
+  DECORATION_METHOD_LABELS,
+  DecorationMethod,
+} from "@shared/customisation";
+
+interface FacetFiltersProps {
+  facets: ProductFacets | null;
+  filters: ProductFilters;
+  onChange: (filters: ProductFilters) => void;
+}
+
+// Values the shopper picked stay listed, with a zero count, so they can be unticked
+const withSelected = <T extends string>(
+  counts: FacetCount<T>[],
+  selected: T[],
+): FacetCount<T>[] => [
+  ...counts,
+  ...selected
+    .filter((value) => !counts.some((count) => count.value === value))
+    .map((value) => ({ value, count: 0 })),
+];
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+function FacetSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="space-y-3 border-b border-white/10 pb-5 last:border-0 last:pb-0">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-white/70">
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+function FacetOptions<T extends string>({
+  name,
+  counts,
+  selected,
+  label = (value) => value,
+  onToggle,
+}: {
+  name: string;
+  counts: FacetCount<T>[];
+  selected: T[];
+  label?: (value: T) => string;
+  onToggle: (value: T) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {counts.map(({ value, count }) => {
+        const id = `${name}-${value}`;
+        const checked = selected.includes(value);
+        return (
+          <div key={value} className="flex items-center space-x-2">
+            <Checkbox
+              id={id}
+              checked={checked}
+              disabled={count === 0 && !checked}
+              onCheckedChange={() => onToggle(value)}
+            />
+            <Label
+              htmlFor={id}
+              className="flex flex-1 cursor-pointer justify-between text-white/90"
+            >
+              <span>{label(value)}</span>
+              <span className="text-white/50">{count}</span>
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Price, rating, stock and variant filters for a product listing, each
+// value showing how many products it would leave
+export function FacetFilters({ facets, filters, onChange }: FacetFiltersProps) {
+  const priceMin = facets?.price?.min ?? 0;
+  const priceMax = facets?.price?.max ?? 0;
+  const [priceRange, setPriceRange] = useState<number[]>([0, 0]);
+
+  // Follow the URL and the category's price range, but not while dragging
+  useEffect(() => {
+    setPriceRange([filters.minPrice ?? priceMin, filters.maxPrice ?? priceMax]);
+  }, [filters.minPrice, filters.maxPrice, priceMin, priceMax]);
+
+  const update = (changes: Partial<ProductFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const colours = withSelected(facets?.colours ?? [], filters.colours);
+  const sizes = sortSizes(withSelected(facets?.sizes ?? [], filters.sizes));
+  const methods = withSelected<DecorationMethod>(
+    facets?.methods ?? [],
+    filters.methods,
+  );
+
+  return (
+    <div className="space-y-5">
+      {facets?.price && priceMax > priceMin && (
+        <FacetSection title="Price">
+          <Slider
+            min={priceMin}
+            max={priceMax}
+            step={1}
+            value={priceRange}
+            onValueChange={setPriceRange}
+            onValueCommit={([low, high]) =>
+              update({
+                minPrice: low > priceMin ? low : null,
+                maxPrice: high < priceMax ? high : null,
+              })
+            }
+            aria-label="Price range"
+          />
+          <div className="flex justify-between text-sm text-white/70">
+            <span>R{priceRange[0]}</span>
+            <span>R{priceRange[1]}</span>
+          </div>
+        </FacetSection>
+      )}
+
+      <FacetSection title="Rating">
+        <RadioGroup
+          value={filters.minRating === null ? "any" : String(filters.minRating)}
+          onValueChange={(value) =>
+            update({ minRating: value === "any" ? null : Number(value) })
+          }
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="any" id="rating-any" />
+            <Label
+              htmlFor="rating-any"
+              className="cursor-pointer text-white/90"
+            >
+              Any rating
+            </Label>
+          </div>
+          {(facets?.ratings ?? []).map(({ value, count }) => (
+            <div key={value} className="flex items-center space-x-2">
+              <RadioGroupItem
+                value={String(value)}
+                id={`rating-${value}`}
+                disabled={count === 0 && filters.minRating !== value}
+              />
+              <Label
+                htmlFor={`rating-${value}`}
+                className="flex flex-1 cursor-pointer items-center justify-between text-white/90"
+              >
+                <span className="flex items-center">
+                  {value}
+                  <Star className="mx-1 h-3.5 w-3.5 fill-current text-yellow-400" />
+                  & up
+                </span>
+                <span className="text-white/50">{count}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </FacetSection>
+
+      <FacetSection title="Availability">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="in-stock"
+            checked={filters.inStock}
+            onCheckedChange={(checked) => update({ inStock: checked === true })}
+          />
+          <Label
+            htmlFor="in-stock"
+            className="flex flex-1 cursor-pointer justify-between text-white/90"
+          >
+            <span>In stock only</span>
+            <span className="text-white/50">{facets?.in_stock ?? 0}</span>
+          </Label>
+        </div>
+      </FacetSection>
+
+      {colours.length > 0 && (
+        <FacetSection title="Colour">
+          <FacetOptions
+            name="colour"
+            counts={colours}
+            selected={filters.colours}
+            onToggle={(value) =>
+              update({ colours: toggle(filters.colours, value) })
+            }
+          />
+        </FacetSection>
+      )}
+
+      {sizes.length > 0 && (
+        <FacetSection title="Size">
+          <FacetOptions
+            name="size"
+            counts={sizes}
+            selected={filters.sizes}
+            onToggle={(value) =>
+              update({ sizes: toggle(filters.sizes, value) })
+            }
+          />
+        </FacetSection>
+      )}
+
+      {methods.length > 0 && (
+        <FacetSection title="Branding">
+          <FacetOptions
+            name="method"
+            counts={methods}
+            selected={filters.methods}
+            label={(value) => DECORATION_METHOD_LABELS[value] ?? value}
+            onToggle={(value) =>
+              update({ methods: toggle(filters.methods, value) })
+            }
+          />
+        </FacetSection>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { Link } from "react-router-dom";
+import { CONTACT_EMAIL } from "@/lib/contact";
 import {
   Facebook,
   Twitter,
@@ -69,7 +70,7 @@ export function Footer() {
               </div>
               <div className="flex items-center space-x-2 text-sm">
                 <Mail className="h-4 w-4 text-brand-red" />
-                <span>apex@w-o-s.co.za</span>
+                <span>{CONTACT_EMAIL}</span>
               </div>
               <div className="flex items-center space-x-2 text-sm">
                 <Clock className="h-4 w-4 text-brand-red" />
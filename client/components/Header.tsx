@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
 import { useCart } from "@/contexts/CartContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { AuthModal } from "@/components/auth/AuthModal";
 import { UserMenu } from "@/components/auth/UserMenu";
+import { SearchBox } from "@/components/SearchBox";
+import { CONTACT_EMAIL } from "@/lib/contact";
 import {
-  Search,
   ShoppingCart,
   Menu,
   X,
@@ -19,7 +20,6 @@ import {
   Package,
 } from "lucide-react";
 import { Button } from "./ui/button";
-import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { Avatar, AvatarFallback } from "./ui/avatar";
 
@@ -29,9 +29,7 @@ export function Header() {
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [authModalTab, setAuthModalTab] = useState<"signin" | "signup">("signin");
-  const [searchQuery, setSearchQuery] = useState("");
   const location = useLocation();
-  const navigate = useNavigate();
   const { state } = useCart();
   const { user, loading, isAdmin } = useAuth();
 
@@ -171,14 +169,14 @@ export function Header() {
               </span>
             </a>
             <a
-              href="mailto:apex@w-o-s.co.za"
+              href={`mailto:${CONTACT_EMAIL}`}
               className="hidden sm:flex items-center space-x-2 group cursor-pointer hover:scale-105 transition-transform duration-300 touch-manipulation"
             >
               <div className="p-2 rounded-xl bg-white/20 group-hover:bg-white/30 transition-all duration-300">
                 <Mail className="h-4 w-4" />
               </div>
               <span className="group-hover:text-yellow-300 transition-colors duration-300">
-                apex@w-o-s.co.za
+                {CONTACT_EMAIL}
               </span>
             </a>
           </div>
@@ -208,31 +206,10 @@ export function Header() {
             <div className="hidden lg:flex flex-1 max-w-2xl mx-8">
               <div className="relative w-full group">
                 <div className="absolute -inset-1 bg-gradient-to-r from-brand-red/30 to-red-600/30 rounded-2xl blur opacity-0 group-focus-within:opacity-100 transition-opacity duration-500"></div>
-                <div className="relative">
-                  <Input
-                    type="search"
-                    placeholder="Search products..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && searchQuery.trim()) {
-                        navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-                      }
-                    }}
-                    className="w-full pl-6 pr-14 py-3 bg-white/12 backdrop-blur-lg border-white/25 rounded-xl text-white placeholder-white/70 focus:bg-white/20 focus:border-brand-red/60 transition-all duration-300 text-lg"
-                  />
-                  <Button
-                    size="sm"
-                    onClick={() => {
-                      if (searchQuery.trim()) {
-                        navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-                      }
-                    }}
-                    className="absolute right-2 top-1/2 -translate-y-1/2 bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red rounded-lg px-4 py-2 shadow-lg hover:shadow-red-500/30 transition-all duration-300"
-                  >
-                    <Search className="h-4 w-4" />
-                  </Button>
-                </div>
+                <SearchBox
+                  inputClassName="w-full pl-6 pr-14 py-3 bg-white/12 backdrop-blur-lg border-white/25 rounded-xl text-white placeholder-white/70 focus:bg-white/20 focus:border-brand-red/60 transition-all duration-300 text-lg"
+                  buttonClassName="absolute right-2 top-1/2 -translate-y-1/2 bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red rounded-lg px-4 py-2 shadow-lg hover:shadow-red-500/30 transition-all duration-300"
+                />
               </div>
             </div>
 
@@ -412,33 +389,11 @@ export function Header() {
             aria-label="Mobile navigation menu"
           >
             <div className="p-6 space-y-6">
-              <div className="relative">
-                <Input
-                  type="search"
-                  placeholder="Search products..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && searchQuery.trim()) {
-                      navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-                      setIsMobileMenuOpen(false);
-                    }
-                  }}
-                  className="w-full pl-4 pr-12 py-4 bg-white/10 backdrop-blur-md border-white/20 rounded-xl text-white placeholder-white/60 focus:bg-white/20 focus:border-brand-red/50 transition-all duration-300"
-                />
-                <Button
-                  size="sm"
-                  onClick={() => {
-                    if (searchQuery.trim()) {
-                      navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-                      setIsMobileMenuOpen(false);
-                    }
-                  }}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 bg-gradient-to-r from-brand-red to-red-600 rounded-lg px-3 py-2"
-                >
-                  <Search className="h-4 w-4" />
-                </Button>
-              </div>
+              <SearchBox
+                inputClassName="w-full pl-4 pr-12 py-4 bg-white/10 backdrop-blur-md border-white/20 rounded-xl text-white placeholder-white/60 focus:bg-white/20 focus:border-brand-red/50 transition-all duration-300"
+                buttonClassName="absolute right-2 top-1/2 -translate-y-1/2 bg-gradient-to-r from-brand-red to-red-600 rounded-lg px-3 py-2"
+                onNavigate={() => setIsMobileMenuOpen(false)}
+              />
 
               <div className="grid grid-cols-2 gap-3">
                 <Button className="w-full bg-white/10 hover:bg:white/15 text-white font-bold py-4 rounded-xl">
@@ -617,12 +572,12 @@ export function Header() {
                     <span className="font-bold">+27 76 035 5295</span>
                   </a>
                   <a
-                    href="mailto:apex@w-o-s.co.za"
+                    href={`mailto:${CONTACT_EMAIL}`}
                     className="flex items-center space-x-3 text-white hover:text-yellow-300 transition-colors duration-300 p-4 rounded-lg hover:bg:white/10 min-h-[56px] touch-manipulation active:bg-white/20"
-                    aria-label="Email us at apex@w-o-s.co.za"
+                    aria-label={`Email us at ${CONTACT_EMAIL}`}
                   >
                     <Mail className="h-5 w-5" />
-                    <span className="font-bold">apex@w-o-s.co.za</span>
+                    <span className="font-bold">{CONTACT_EMAIL}</span>
                   </a>
                 </div>
               </div>
@@ -0,0 +1,28 @@
+import { highlightMatches } from "@shared/search";
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+// Marks the words of `text` that match a search query
+export function Highlight({ text, query }: HighlightProps) {
+  if (!query) return <>{text}</>;
+
+  return (
+    <>
+      {highlightMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-brand-red/30 px-0.5 text-inherit"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        ),
+      )}
+    </>
+  );
+}
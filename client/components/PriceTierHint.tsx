@@ -0,0 +1,20 @@
+import { Product } from "@/lib/supabaseClient";
+import { getLowestPriceTier } from "@shared/pricing";
+import { cn } from "@/lib/utils";
+
+interface PriceTierHintProps {
+  product: Product;
+  className?: string;
+}
+
+// "from R95.00 at 200+" for products with volume pricing
+export function PriceTierHint({ product, className }: PriceTierHintProps) {
+  const tier = getLowestPriceTier(product.price_tiers);
+  if (!tier || Number(tier.unit_price) >= product.price) return null;
+
+  return (
+    <span className={cn("text-xs font-medium text-green-400", className)}>
+      from R{Number(tier.unit_price).toFixed(2)} at {tier.min_quantity}+
+    </span>
+  );
+}
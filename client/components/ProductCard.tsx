@@ -6,31 +6,39 @@ import { OptimizedImage } from "./OptimizedImage";
 import { useCart } from "@/contexts/CartContext";
 import { Product } from "@/lib/supabaseClient";
 import { WishlistButton } from "@/components/wishlist/WishlistButton";
+import { PriceTierHint } from "@/components/PriceTierHint";
+import { Highlight } from "@/components/Highlight";
 import { Star, Heart, ShoppingCart, Eye, Zap, TrendingUp } from "lucide-react";
 
 interface ProductCardProps {
   product: Product;
   featured?: boolean;
   size?: "sm" | "md" | "lg";
+  highlight?: string; // search query whose matches are marked
 }
 
 export function ProductCard({
   product,
   featured = false,
   size = "md",
+  highlight,
 }: ProductCardProps) {
   const { addToCart } = useCart();
   const [isHovered, setIsHovered] = useState(false);
   const [isLiked, setIsLiked] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
 
+  // Products sold by size/colour are added from the detail page
+  const needsOptions = (product.variant_axes?.length ?? 0) > 0;
+
   const handleAddToCart = useCallback(
     (e: React.MouseEvent) => {
+      if (needsOptions) return; // let the card link open the product page
       e.preventDefault();
       e.stopPropagation();
       addToCart(product);
     },
-    [addToCart, product],
+    [addToCart, product, needsOptions],
   );
 
   const handleLike = useCallback(
@@ -138,7 +146,7 @@ export function ProductCard({
               className="w-full bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red text-white font-semibold py-3 rounded-2xl backdrop-blur-md shadow-lg hover:shadow-2xl transition-all duration-300 hover:scale-105 border border-white/20"
             >
               <ShoppingCart className="h-4 w-4 mr-2" />
-              Add to Cart
+              {needsOptions ? "Choose Options" : "Add to Cart"}
             </Button>
           </div>
         </div>
@@ -159,13 +167,13 @@ export function ProductCard({
 
           {/* Product Name */}
           <h3 className="font-bold text-white text-lg leading-tight line-clamp-2 group-hover:text-brand-red transition-colors duration-300">
-            {product.name}
+            <Highlight text={product.name} query={highlight} />
           </h3>
 
           {/* Description */}
           {product.description && (
             <p className="text-white/70 text-sm line-clamp-2 leading-relaxed">
-              {product.description}
+              <Highlight text={product.description} query={highlight} />
             </p>
           )}
 
@@ -183,6 +191,7 @@ export function ProductCard({
                   </Badge>
                 )}
               </div>
+              <PriceTierHint product={product} className="block" />
               <div className="text-xs text-white/50">
                 Free shipping eligible
               </div>
@@ -1,7 +1,7 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ProductCard } from './ProductCard';
+import { Skeleton } from './ui/skeleton';
 import { Product } from '@/lib/supabaseClient';
-import { Loader2 } from 'lucide-react';
 
 interface ProductGridProps {
   products: Product[];
@@ -9,22 +9,73 @@ interface ProductGridProps {
   error?: string | null;
   featured?: boolean;
   columns?: 2 | 3 | 4;
+  highlight?: string; // search query to mark in names and descriptions
+  hasMore?: boolean; // more pages to load; see usePagedProducts
+  loadingMore?: boolean;
+  onLoadMore?: () => void; // called as the end of the grid scrolls into view
 }
 
+const gridClasses = {
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4'
+};
+
+// Placeholder with the shape of a ProductCard while products load
+const ProductCardSkeleton = () => (
+  <div className="rounded-3xl bg-white/5 border border-white/10 overflow-hidden">
+    <Skeleton className="h-64 rounded-none bg-white/10" />
+    <div className="p-6 space-y-4">
+      <Skeleton className="h-4 w-20 bg-white/10" />
+      <Skeleton className="h-6 w-3/4 bg-white/10" />
+      <Skeleton className="h-4 w-full bg-white/10" />
+      <Skeleton className="h-8 w-28 bg-white/10" />
+    </div>
+  </div>
+);
+
 export const ProductGrid: React.FC<ProductGridProps> = ({
   products,
   loading = false,
   error = null,
   featured = false,
-  columns = 3
+  columns = 3,
+  highlight,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
 }) => {
+  // A callback ref, so the observer follows the sentinel when it remounts
+  const [sentinel, setSentinel] = useState<HTMLDivElement | null>(null);
+
+  // Callers pass a new function each render; reading the latest through a ref
+  // keeps the observer from re-subscribing every time
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  // Load the next page a little before the shopper reaches the end. The
+  // observer is set up again after each page arrives: it reports the
+  // sentinel's visibility straight away, so a page too short to push the
+  // sentinel out of view still leads on to the next one.
+  useEffect(() => {
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) onLoadMoreRef.current?.();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasMore, loadingMore]);
+
   if (loading) {
     return (
-      <div className="flex items-center justify-center py-12">
-        <div className="flex items-center space-x-2 text-white">
-          <Loader2 className="h-6 w-6 animate-spin" />
-          <span>Loading products...</span>
-        </div>
+      <div className={`grid ${gridClasses[columns]} gap-6 lg:gap-8`} aria-busy="true">
+        {Array.from({ length: columns * 2 }, (_, index) => (
+          <ProductCardSkeleton key={index} />
+        ))}
       </div>
     );
   }
@@ -51,21 +102,22 @@ export const ProductGrid: React.FC<ProductGridProps> = ({
     );
   }
 
-  const gridClasses = {
-    2: 'grid-cols-1 md:grid-cols-2',
-    3: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3',
-    4: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4'
-  };
-
   return (
-    <div className={`grid ${gridClasses[columns]} gap-6 lg:gap-8`}>
-      {products.map((product) => (
-        <ProductCard
-          key={product.id}
-          product={product}
-          featured={featured}
-        />
-      ))}
-    </div>
+    <>
+      <div className={`grid ${gridClasses[columns]} gap-6 lg:gap-8`}>
+        {products.map((product) => (
+          <ProductCard
+            key={product.id}
+            product={product}
+            featured={featured}
+            highlight={highlight}
+          />
+        ))}
+        {loadingMore && Array.from({ length: columns }, (_, index) => (
+          <ProductCardSkeleton key={`more-${index}`} />
+        ))}
+      </div>
+      {hasMore && <div ref={setSentinel} className="h-px" aria-hidden="true" />}
+    </>
   );
 };
\ No newline at end of file
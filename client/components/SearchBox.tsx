@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Clock, Package, Search, Tag, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "./ui/command";
+import { Highlight } from "@/components/Highlight";
+import { useCategories } from "@/hooks/useCategories";
+import { useSearchSuggestions } from "@/hooks/useProducts";
+import { recentSearches } from "@/lib/recentSearches";
+import { cn } from "@/lib/utils";
+import { categoryHref } from "@shared/categories";
+import { isSearchable, matchesQuery } from "@shared/search";
+
+// Selected by default, so Enter searches for what was typed
+const SEARCH_ITEM = "search";
+
+const CATEGORY_SUGGESTION_LIMIT = 3;
+
+const groupClassName =
+  "text-white [&_[cmdk-group-heading]]:text-white/50 [&_[cmdk-group-heading]]:uppercase [&_[cmdk-group-heading]]:tracking-wide";
+
+const itemClassName =
+  "cursor-pointer rounded-lg px-3 py-2 data-[selected='true']:bg-white/10 data-[selected=true]:text-white";
+
+interface SearchBoxProps {
+  inputClassName?: string;
+  buttonClassName?: string;
+  onNavigate?: () => void; // e.g. close the mobile menu
+}
+
+// Header search with a search-as-you-type dropdown of products, categories
+// and recent searches
+export function SearchBox({
+  inputClassName,
+  buttonClassName,
+  onNavigate,
+}: SearchBoxProps) {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState(SEARCH_ITEM);
+  const [recent, setRecent] = useState<string[]>(() => recentSearches.getAll());
+
+  const trimmed = query.trim();
+  const { suggestions, loading } = useSearchSuggestions(trimmed);
+  const { categories } = useCategories();
+
+  // Subcategories too, linked at their nested path
+  const matchingCategories = useMemo(
+    () =>
+      isSearchable(trimmed)
+        ? categories
+            .filter((category) => matchesQuery(category.name, trimmed))
+            .slice(0, CATEGORY_SUGGESTION_LIMIT)
+            .map((category) => ({
+              title: category.name,
+              href: categoryHref(categories, category.slug),
+            }))
+        : [],
+    [categories, trimmed],
+  );
+
+  useEffect(() => {
+    setSelected(SEARCH_ITEM);
+  }, [trimmed]);
+
+  const showList = open && (trimmed !== "" || recent.length > 0);
+
+  const goTo = (path: string) => {
+    setOpen(false);
+    inputRef.current?.blur();
+    navigate(path);
+    onNavigate?.();
+  };
+
+  const search = (text: string) => {
+    const value = text.trim();
+    if (!value) return;
+    setRecent(recentSearches.add(value));
+    setQuery(value);
+    goTo(`/search?q=${encodeURIComponent(value)}`);
+  };
+
+  const clearRecent = () => {
+    recentSearches.clear();
+    setRecent([]);
+  };
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      value={selected}
+      onValueChange={setSelected}
+      label="Search products"
+      className="relative h-auto overflow-visible rounded-none bg-transparent text-inherit"
+    >
+      <Input
+        ref={inputRef}
+        type="search"
+        placeholder="Search products..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          // With the dropdown open, the highlighted item handles Enter
+          if (e.key === "Enter" && !showList) {
+            search(query);
+          } else if (e.key === "Escape") {
+            setOpen(false);
+          }
+        }}
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        className={inputClassName}
+      />
+      <Button
+        size="sm"
+        onClick={() => search(query)}
+        className={buttonClassName}
+      >
+        <Search className="h-4 w-4" />
+      </Button>
+
+      {showList && (
+        <CommandList
+          // Keep focus in the input while clicking a suggestion
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute left-0 right-0 top-full z-50 mt-2 max-h-[420px] rounded-xl border border-white/20 bg-black/95 text-white shadow-2xl backdrop-blur-xl"
+        >
+          {trimmed && (
+            <CommandGroup className="text-white">
+              <CommandItem
+                value={SEARCH_ITEM}
+                onSelect={() => search(query)}
+                className={itemClassName}
+              >
+                <Search className="mr-3 h-4 w-4 text-white/60" />
+                Search for "{trimmed}"
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {suggestions.length > 0 && (
+            <CommandGroup heading="Products" className={groupClassName}>
+              {suggestions.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`product-${product.id}`}
+                  onSelect={() => {
+                    setRecent(recentSearches.add(trimmed));
+                    goTo(`/product/${product.id}`);
+                  }}
+                  className={itemClassName}
+                >
+                  <div className="mr-3 flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded-md bg-white/10">
+                    {product.image_url ? (
+                      <img
+                        src={product.image_url}
+                        alt=""
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <Package className="h-4 w-4 text-white/50" />
+                    )}
+                  </div>
+                  <span className="flex-1 truncate">
+                    <Highlight text={product.name} query={trimmed} />
+                  </span>
+                  <span className="ml-3 font-semibold">
+                    R{Number(product.price).toFixed(2)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {loading && suggestions.length === 0 && (
+            <p className="px-4 py-3 text-sm text-white/50">Searching...</p>
+          )}
+
+          {matchingCategories.length > 0 && (
+            <CommandGroup heading="Categories" className={groupClassName}>
+              {matchingCategories.map((category) => (
+                <CommandItem
+                  key={category.href}
+                  value={`category-${category.href}`}
+                  onSelect={() => goTo(category.href)}
+                  className={itemClassName}
+                >
+                  <Tag className="mr-3 h-4 w-4 text-white/60" />
+                  <Highlight text={category.title} query={trimmed} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {!trimmed && recent.length > 0 && (
+            <>
+              <CommandGroup
+                heading="Recent searches"
+                className={groupClassName}
+              >
+                {recent.map((item) => (
+                  <CommandItem
+                    key={item}
+                    value={`recent-${item}`}
+                    onSelect={() => search(item)}
+                    className={itemClassName}
+                  >
+                    <Clock className="mr-3 h-4 w-4 text-white/60" />
+                    {item}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandSeparator className="bg-white/10" />
+              <CommandGroup className="text-white">
+                <CommandItem
+                  value="clear-recent"
+                  onSelect={clearRecent}
+                  className={cn(itemClassName, "text-white/60")}
+                >
+                  <X className="mr-3 h-4 w-4" />
+                  Clear recent searches
+                </CommandItem>
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
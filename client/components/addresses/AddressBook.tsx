@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ProvinceSelect } from "@/components/addresses/ProvinceSelect";
+import { useToast } from "@/hooks/use-toast";
+import { Address, addresses } from "@/lib/supabaseClient";
+import {
+  DEFAULT_COUNTRY,
+  normalisePostalCode,
+  Province,
+  validateAddress,
+} from "@shared/addresses";
+import { Loader2, MapPin, Plus, Save, Trash2 } from "lucide-react";
+
+interface AddressBookProps {
+  userId: string;
+}
+
+type AddressDraft = Omit<
+  Address,
+  "id" | "province" | "created_at" | "updated_at"
+> & {
+  id?: string;
+  province: Province | "";
+};
+
+const emptyAddress = (userId: string, first: boolean): AddressDraft => ({
+  user_id: userId,
+  label: "",
+  recipient: "",
+  phone: "",
+  address: "",
+  city: "",
+  province: "",
+  postal_code: "",
+  country: DEFAULT_COUNTRY,
+  // The first address becomes the default for both
+  is_default_shipping: first,
+  is_default_billing: first,
+});
+
+/**
+ * Address book tab on the profile page. Saved addresses are offered at
+ * checkout, and the defaults are filled in for delivery and billing.
+ */
+export function AddressBook({ userId }: AddressBookProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saved, setSaved] = useState<Address[]>([]);
+  const [draft, setDraft] = useState<AddressDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    setSaved(await addresses.getAll(userId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [userId]);
+
+  // Runs an action, reports failures and reloads the addresses afterwards
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      await load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const problem = validateAddress({
+      ...draft,
+      postalCode: draft.postal_code,
+    });
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+    run(async () => {
+      const { error } = await addresses.save({
+        ...draft,
+        province: draft.province as Province,
+        postal_code: normalisePostalCode(draft.postal_code),
+      });
+      if (error) throw new Error("Failed to save address");
+      setDraft(null);
+    }, "Address saved");
+  };
+
+  const handleRemove = (addressId: string) => {
+    if (!confirm("Delete this address?")) return;
+    run(async () => {
+      const { error } = await addresses.remove(addressId);
+      if (error) throw new Error("Failed to delete address");
+    }, "Address deleted");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <MapPin className="h-5 w-5" />
+            <span>Address Book</span>
+          </span>
+          {!draft && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(emptyAddress(userId, saved.length === 0))}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Address
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-muted-foreground">
+          Offered at checkout. Your defaults are filled in for delivery and
+          billing.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {saved.length === 0 && !draft && (
+          <p className="text-sm text-muted-foreground">
+            No addresses saved yet.
+          </p>
+        )}
+
+        {saved.map((address) => (
+          <div
+            key={address.id}
+            className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+          >
+            <div className="text-sm">
+              <p className="font-medium">
+                {address.label}
+                {address.is_default_shipping && (
+                  <Badge variant="secondary" className="ml-2">
+                    Default delivery
+                  </Badge>
+                )}
+                {address.is_default_billing && (
+                  <Badge variant="secondary" className="ml-2">
+                    Default billing
+                  </Badge>
+                )}
+              </p>
+              {address.recipient && <p>{address.recipient}</p>}
+              <p className="text-muted-foreground">
+                {address.address}, {address.city}, {address.province},{" "}
+                {address.postal_code}
+              </p>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busy}
+                onClick={() => setDraft({ ...address })}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={busy}
+                onClick={() => handleRemove(address.id)}
+                aria-label="Delete address"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {draft && (
+          <form
+            onSubmit={handleSave}
+            className="space-y-4 p-4 border rounded-lg"
+          >
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="book_label">Label</Label>
+                <Input
+                  id="book_label"
+                  required
+                  value={draft.label}
+                  onChange={(e) =>
+                    setDraft({ ...draft, label: e.target.value })
+                  }
+                  placeholder="Home"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book_recipient">Recipient</Label>
+                <Input
+                  id="book_recipient"
+                  value={draft.recipient ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, recipient: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book_phone">Phone</Label>
+                <Input
+                  id="book_phone"
+                  value={draft.phone ?? ""}
+                  onChange={(e) =>
+                    setDraft({ ...draft, phone: e.target.value })
+                  }
+                  placeholder="+27 12 345 6789"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="book_street">Street Address</Label>
+              <Input
+                id="book_street"
+                required
+                value={draft.address}
+                onChange={(e) =>
+                  setDraft({ ...draft, address: e.target.value })
+                }
+              />
+            </div>
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="book_city">City</Label>
+                <Input
+                  id="book_city"
+                  required
+                  value={draft.city}
+                  onChange={(e) => setDraft({ ...draft, city: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book_province">Province</Label>
+                <ProvinceSelect
+                  id="book_province"
+                  value={draft.province}
+                  onChange={(province) => setDraft({ ...draft, province })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book_postal_code">Postal Code</Label>
+                <Input
+                  id="book_postal_code"
+                  required
+                  inputMode="numeric"
+                  maxLength={4}
+                  value={draft.postal_code}
+                  onChange={(e) =>
+                    setDraft({ ...draft, postal_code: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="book_default_shipping"
+                  checked={draft.is_default_shipping}
+                  onCheckedChange={(checked) =>
+                    setDraft({ ...draft, is_default_shipping: !!checked })
+                  }
+                />
+                <Label htmlFor="book_default_shipping" className="text-sm">
+                  Default delivery address
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="book_default_billing"
+                  checked={draft.is_default_billing}
+                  onCheckedChange={(checked) =>
+                    setDraft({ ...draft, is_default_billing: !!checked })
+                  }
+                />
+                <Label htmlFor="book_default_billing" className="text-sm">
+                  Default billing address
+                </Label>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={busy}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Address
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft(null)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ProvinceSelect } from "@/components/addresses/ProvinceSelect";
+import type { OrderAddress } from "@shared/api";
+
+interface AddressFieldsProps {
+  value: OrderAddress;
+  onChange: (value: OrderAddress) => void;
+  idPrefix: string; // keeps ids unique when a form has two addresses
+  inputClassName?: string;
+}
+
+/**
+ * Street, city, province and postal code inputs for a checkout or quote
+ * address. The country is fixed: we only deliver within South Africa.
+ */
+export function AddressFields({
+  value,
+  onChange,
+  idPrefix,
+  inputClassName = "h-12 rounded-xl text-base",
+}: AddressFieldsProps) {
+  const update = (field: keyof OrderAddress, fieldValue: string) =>
+    onChange({ ...value, [field]: fieldValue });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-address`} className="text-sm font-medium">
+          Street Address <span className="text-red-500">*</span>
+        </Label>
+        <Textarea
+          id={`${idPrefix}-address`}
+          required
+          rows={2}
+          value={value.address}
+          onChange={(e) => update("address", e.target.value)}
+          className="rounded-xl text-base"
+          placeholder="123 Main Street, Apt 4B"
+        />
+      </div>
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-city`} className="text-sm font-medium">
+            City <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id={`${idPrefix}-city`}
+            required
+            value={value.city}
+            onChange={(e) => update("city", e.target.value)}
+            className={inputClassName}
+            placeholder="Johannesburg"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label
+            htmlFor={`${idPrefix}-province`}
+            className="text-sm font-medium"
+          >
+            Province <span className="text-red-500">*</span>
+          </Label>
+          <ProvinceSelect
+            id={`${idPrefix}-province`}
+            value={value.province}
+            onChange={(province) => update("province", province)}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label
+            htmlFor={`${idPrefix}-postal-code`}
+            className="text-sm font-medium"
+          >
+            Postal Code <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id={`${idPrefix}-postal-code`}
+            required
+            inputMode="numeric"
+            maxLength={4}
+            pattern="[0-9]{4}"
+            title="4 digits"
+            value={value.postalCode}
+            onChange={(e) => update("postalCode", e.target.value)}
+            className={inputClassName}
+            placeholder="2000"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label
+            htmlFor={`${idPrefix}-country`}
+            className="text-sm font-medium"
+          >
+            Country
+          </Label>
+          <Input
+            id={`${idPrefix}-country`}
+            value={value.country}
+            readOnly
+            className={`${inputClassName} bg-muted`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { OrderAddress } from "@shared/api";
+
+interface OrderAddressLinesProps {
+  address?: Partial<OrderAddress> | null;
+}
+
+/** An order's delivery or billing address, one line per part. */
+export function OrderAddressLines({ address }: OrderAddressLinesProps) {
+  if (!address) return <p>Not provided</p>;
+
+  return (
+    <div>
+      <p>{address.address}</p>
+      <p>
+        {address.city}, {address.province}
+      </p>
+      <p>
+        {address.postalCode}, {address.country}
+      </p>
+    </div>
+  );
+}
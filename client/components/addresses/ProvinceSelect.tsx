@@ -0,0 +1,43 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Province, SA_PROVINCES } from "@shared/addresses";
+
+interface ProvinceSelectProps {
+  id?: string;
+  value: string;
+  onChange: (province: Province) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function ProvinceSelect({
+  id,
+  value,
+  onChange,
+  disabled,
+  className,
+}: ProvinceSelectProps) {
+  return (
+    <Select
+      value={value || undefined}
+      onValueChange={(province) => onChange(province as Province)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Choose a province" />
+      </SelectTrigger>
+      <SelectContent>
+        {SA_PROVINCES.map((province) => (
+          <SelectItem key={province} value={province}>
+            {province}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
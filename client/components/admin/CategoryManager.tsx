@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories, useRefreshCategories } from "@/hooks/useCategories";
+import { categories } from "@/lib/supabaseClient";
+import {
+  Category,
+  categoryHref,
+  descendantIds,
+  flattenCategoryTree,
+  slugify,
+  validateCategory,
+} from "@shared/categories";
+import { toast } from "sonner";
+import {
+  ExternalLink,
+  FolderTree,
+  Loader2,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+  X,
+} from "lucide-react";
+
+// Radix selects cannot use "" as a value
+const TOP_LEVEL = "top-level";
+
+// Form fields keep raw input strings until save
+interface CategoryDraft {
+  id?: string;
+  parent_id: string | null;
+  name: string;
+  slug: string;
+  slugEdited: boolean; // stop following the name once the slug is typed
+  description: string;
+  image_url: string;
+  sort_order: string;
+  is_active: boolean;
+}
+
+const toDraft = (category: Category): CategoryDraft => ({
+  id: category.id,
+  parent_id: category.parent_id,
+  name: category.name,
+  slug: category.slug,
+  slugEdited: true,
+  description: category.description ?? "",
+  image_url: category.image_url ?? "",
+  sort_order: category.sort_order.toString(),
+  is_active: category.is_active,
+});
+
+const emptyDraft = (
+  parent_id: string | null,
+  siblings: number,
+): CategoryDraft => ({
+  parent_id,
+  name: "",
+  slug: "",
+  slugEdited: false,
+  description: "",
+  image_url: "",
+  sort_order: siblings.toString(),
+  is_active: true,
+});
+
+// Postgres foreign_key_violation
+const FOREIGN_KEY_VIOLATION = "23503";
+
+/**
+ * The category tree behind the storefront navigation and product forms:
+ * add, rename, move, reorder and hide categories and subcategories
+ */
+export function CategoryManager() {
+  const { categories: list, tree, loading } = useCategories();
+  const refreshCategories = useRefreshCategories();
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const rows = flattenCategoryTree(tree);
+  const childCount = (parentId: string | null) =>
+    list.filter((category) => category.parent_id === parentId).length;
+
+  // A category cannot move under itself or its own subcategories
+  const excludedParents = draft?.id
+    ? new Set([draft.id, ...descendantIds(list, draft.id)])
+    : new Set<string>();
+
+  const update = (fields: Partial<CategoryDraft>) =>
+    setDraft((prev) => (prev ? { ...prev, ...fields } : prev));
+
+  const save = async () => {
+    if (!draft) return;
+    const category = {
+      id: draft.id,
+      parent_id: draft.parent_id,
+      name: draft.name.trim(),
+      slug: draft.slug,
+      description: draft.description.trim() || null,
+      image_url: draft.image_url.trim() || null,
+      sort_order: parseInt(draft.sort_order) || 0,
+      is_active: draft.is_active,
+    };
+    const problem = validateCategory(category, list);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await categories.save(category);
+    setSaving(false);
+    if (error) {
+      console.error("Error saving category:", error);
+      toast.error("Failed to save category");
+      return;
+    }
+    toast.success(draft.id ? "Category updated" : "Category added");
+    setDraft(null);
+    refreshCategories();
+  };
+
+  const remove = async (category: Category) => {
+    if (childCount(category.id) > 0) {
+      toast.error("Move or delete its subcategories first");
+      return;
+    }
+    if (!confirm(`Delete ${category.name}?`)) return;
+
+    const { error } = await categories.remove(category.id);
+    if (error) {
+      console.error("Error deleting category:", error);
+      toast.error(
+        error.code === FOREIGN_KEY_VIOLATION
+          ? "Move its products to another category first"
+          : "Failed to delete category",
+      );
+      return;
+    }
+    toast.success("Category deleted");
+    if (draft?.id === category.id) setDraft(null);
+    refreshCategories();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Categories</h2>
+          <p className="text-sm text-gray-400">
+            Subcategories appear at /category/subcategory, and a category's page
+            lists its subcategories' products too. Hidden categories are only
+            shown to admins.
+          </p>
+        </div>
+        <Button
+          onClick={() => setDraft(emptyDraft(null, childCount(null)))}
+          className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Category
+        </Button>
+      </div>
+
+      {draft && (
+        <Card className="bg-black/40 border-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-white text-base">
+              {draft.id ? `Edit ${draft.name || "category"}` : "New category"}
+            </CardTitle>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setDraft(null)}
+              aria-label="Close"
+              className="text-gray-400 hover:text-white"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="category-name" className="text-white">
+                  Name
+                </Label>
+                <Input
+                  id="category-name"
+                  value={draft.name}
+                  onChange={(e) =>
+                    update({
+                      name: e.target.value,
+                      ...(draft.slugEdited
+                        ? {}
+                        : { slug: slugify(e.target.value) }),
+                    })
+                  }
+                  placeholder="Safety Boots"
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-slug" className="text-white">
+                  URL name
+                </Label>
+                <Input
+                  id="category-slug"
+                  value={draft.slug}
+                  onChange={(e) =>
+                    update({ slug: e.target.value, slugEdited: true })
+                  }
+                  placeholder="safety-boots"
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+                {draft.id && (
+                  <p className="text-xs text-gray-500">
+                    Changing it changes the category's address; products follow
+                    automatically.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <Label className="text-white">Parent</Label>
+                <Select
+                  value={draft.parent_id ?? TOP_LEVEL}
+                  onValueChange={(value) =>
+                    update({ parent_id: value === TOP_LEVEL ? null : value })
+                  }
+                >
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    <SelectItem value={TOP_LEVEL} className="text-white">
+                      None (top level)
+                    </SelectItem>
+                    {rows
+                      .filter(
+                        ({ category }) => !excludedParents.has(category.id),
+                      )
+                      .map(({ category, depth }) => (
+                        <SelectItem
+                          key={category.id}
+                          value={category.id}
+                          className="text-white"
+                          style={
+                            depth > 0
+                              ? { paddingLeft: `${2 + depth}rem` }
+                              : undefined
+                          }
+                        >
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-order" className="text-white">
+                  Order
+                </Label>
+                <Input
+                  id="category-order"
+                  type="number"
+                  value={draft.sort_order}
+                  onChange={(e) => update({ sort_order: e.target.value })}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="category-description" className="text-white">
+                Description
+              </Label>
+              <Textarea
+                id="category-description"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                rows={2}
+                className="bg-gray-800 border-gray-700 text-white"
+              />
+            </div>
+            <div className="flex items-end gap-4">
+              <div className="space-y-1 flex-1">
+                <Label htmlFor="category-image" className="text-white">
+                  Image URL
+                </Label>
+                <Input
+                  id="category-image"
+                  value={draft.image_url}
+                  onChange={(e) => update({ image_url: e.target.value })}
+                  placeholder="https://..."
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              {draft.image_url.trim() && (
+                <img
+                  src={draft.image_url}
+                  alt=""
+                  className="h-16 w-16 rounded-md object-cover"
+                />
+              )}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="category-active"
+                  checked={draft.is_active}
+                  onCheckedChange={(checked) => update({ is_active: checked })}
+                />
+                <Label htmlFor="category-active" className="text-white">
+                  Visible in the store
+                </Label>
+              </div>
+              <Button
+                onClick={save}
+                disabled={saving}
+                className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+              >
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save Category
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-black/40 border-gray-800">
+        <CardContent className="p-0">
+          {rows.length === 0 ? (
+            <div className="text-center py-8">
+              <FolderTree className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+              <p className="text-gray-400">No categories yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-800">
+              {rows.map(({ category, depth }) => (
+                <div
+                  key={category.id}
+                  className="flex items-center gap-3 px-4 py-3"
+                  style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+                >
+                  <div className="h-10 w-10 shrink-0 overflow-hidden rounded-md bg-gray-800">
+                    {category.image_url && (
+                      <img
+                        src={category.image_url}
+                        alt=""
+                        loading="lazy"
+                        className="h-full w-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">
+                      {category.name}
+                      {!category.is_active && (
+                        <Badge
+                          variant="outline"
+                          className="ml-2 border-gray-600 text-gray-400"
+                        >
+                          Hidden
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {categoryHref(list, category.slug)}
+                    </p>
+                  </div>
+                  <span className="text-sm text-gray-400 whitespace-nowrap">
+                    {category.product_count} product
+                    {category.product_count !== 1 && "s"}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() =>
+                        setDraft(
+                          emptyDraft(category.id, childCount(category.id)),
+                        )
+                      }
+                      aria-label={`Add subcategory to ${category.name}`}
+                      className="text-gray-300 hover:text-white"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft(toDraft(category))}
+                      aria-label={`Edit ${category.name}`}
+                      className="text-gray-300 hover:text-white"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {category.is_active && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        asChild
+                        className="text-gray-300 hover:text-white"
+                      >
+                        <Link
+                          to={categoryHref(list, category.slug)}
+                          target="_blank"
+                          aria-label={`View ${category.name}`}
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => remove(category)}
+                      aria-label={`Delete ${category.name}`}
+                      className="text-red-400 hover:bg-red-500/20"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { flattenCategoryTree } from "@shared/categories";
+
+interface CategorySelectProps {
+  value: string; // category slug
+  onChange: (slug: string) => void;
+  triggerClassName?: string;
+  contentClassName?: string;
+  itemClassName?: string;
+}
+
+// Product category picker, subcategories indented under their parents
+export function CategorySelect({
+  value,
+  onChange,
+  triggerClassName,
+  contentClassName,
+  itemClassName,
+}: CategorySelectProps) {
+  const { tree } = useCategories();
+
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className={triggerClassName}>
+        <SelectValue placeholder="Select category" />
+      </SelectTrigger>
+      <SelectContent className={contentClassName}>
+        {flattenCategoryTree(tree).map(({ category, depth }) => (
+          <SelectItem
+            key={category.id}
+            value={category.slug}
+            className={itemClassName}
+          >
+            {"  ".repeat(depth)}
+            {category.name}
+            {!category.is_active && " (hidden)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
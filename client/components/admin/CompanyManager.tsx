@@ -0,0 +1,468 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { companies, CompanyAccount } from "@/lib/supabaseClient";
+import {
+  COMPANY_ROLE_LABELS,
+  COMPANY_ROLES,
+  CompanyRole,
+  normaliseVatNumber,
+  validateVatNumber,
+  wouldRemoveLastOwner,
+} from "@shared/companies";
+import { toast } from "sonner";
+import { Building, Loader2, Plus, Save, Trash2, UserPlus } from "lucide-react";
+
+interface CompanyManagerProps {
+  // Called after every change, e.g. to log it and refresh the users list
+  onCompanyChanged?: (action: string, companyId: string, payload?: any) => void;
+}
+
+interface MemberDraft {
+  email: string;
+  role: CompanyRole;
+}
+
+const emptyCompany = { name: "", vat_number: "", owner_email: "" };
+
+/**
+ * Admin view of company accounts: set them up for customers, correct their
+ * details and manage who belongs to them
+ */
+export function CompanyManager({ onCompanyChanged }: CompanyManagerProps) {
+  const [allCompanies, setAllCompanies] = useState<CompanyAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newCompany, setNewCompany] = useState(emptyCompany);
+  const [details, setDetails] = useState<
+    Record<string, { name: string; vat_number: string }>
+  >({});
+  const [memberDrafts, setMemberDrafts] = useState<Record<string, MemberDraft>>(
+    {},
+  );
+
+  const loadCompanies = async () => {
+    const list = await companies.getAll();
+    setAllCompanies(list);
+    setDetails(
+      Object.fromEntries(
+        list.map((c) => [
+          c.id,
+          { name: c.name, vat_number: c.vat_number ?? "" },
+        ]),
+      ),
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCompanies();
+  }, []);
+
+  // Runs a change, reports failures and reloads the list afterwards
+  const run = async (
+    action: () => Promise<void>,
+    success: string,
+    change: () => [string, string, any?], // read after the action ran
+  ) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      onCompanyChanged?.(...change());
+      await loadCompanies();
+    } catch (error) {
+      console.error("Error updating company:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update company",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const vatError = validateVatNumber(newCompany.vat_number);
+    if (vatError) {
+      toast.error(vatError);
+      return;
+    }
+    let companyId = "";
+    run(
+      async () => {
+        const company = await companies.create({
+          name: newCompany.name,
+          vat_number: normaliseVatNumber(newCompany.vat_number),
+          owner_email: newCompany.owner_email.trim(),
+        });
+        companyId = company.id;
+        setNewCompany(emptyCompany);
+      },
+      "Company created",
+      () => ["company_created", companyId, { owner: newCompany.owner_email }],
+    );
+  };
+
+  const handleSaveDetails = (company: CompanyAccount) => {
+    const draft = details[company.id];
+    const vatError = validateVatNumber(draft.vat_number);
+    if (vatError) {
+      toast.error(vatError);
+      return;
+    }
+    run(
+      async () => {
+        const { error } = await companies.update(company.id, {
+          name: draft.name.trim(),
+          vat_number: normaliseVatNumber(draft.vat_number),
+        });
+        if (error) throw new Error("Failed to update company details");
+      },
+      "Company details updated",
+      () => ["company_updated", company.id, draft],
+    );
+  };
+
+  // Customers join once they accept, so admins invite them like owners do
+  const handleInviteMember = (e: React.FormEvent, company: CompanyAccount) => {
+    e.preventDefault();
+    const draft = memberDrafts[company.id];
+    if (!draft?.email) return;
+    run(
+      async () => {
+        await companies.invite(company.id, draft);
+        setMemberDrafts((prev) => ({
+          ...prev,
+          [company.id]: { email: "", role: "buyer" },
+        }));
+      },
+      "Invitation sent",
+      () => ["company_member_invited", company.id, draft],
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-bold text-white">Company Accounts</h2>
+
+      <Card className="bg-black/40 border-gray-800">
+        <CardContent className="p-4">
+          <form
+            onSubmit={handleCreate}
+            className="grid grid-cols-1 md:grid-cols-4 gap-2"
+          >
+            <Input
+              required
+              value={newCompany.name}
+              onChange={(e) =>
+                setNewCompany({ ...newCompany, name: e.target.value })
+              }
+              placeholder="Company name"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              value={newCompany.vat_number}
+              onChange={(e) =>
+                setNewCompany({ ...newCompany, vat_number: e.target.value })
+              }
+              placeholder="VAT number (optional)"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="email"
+              required
+              value={newCompany.owner_email}
+              onChange={(e) =>
+                setNewCompany({ ...newCompany, owner_email: e.target.value })
+              }
+              placeholder="Owner's email"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Button
+              type="submit"
+              disabled={busy}
+              className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Company
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {allCompanies.length === 0 ? (
+        <div className="text-center py-8">
+          <Building className="h-12 w-12 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400">No company accounts yet</p>
+        </div>
+      ) : (
+        allCompanies.map((company) => {
+          const draft = details[company.id] ?? {
+            name: company.name,
+            vat_number: company.vat_number ?? "",
+          };
+          const memberDraft = memberDrafts[company.id] ?? {
+            email: "",
+            role: "buyer" as CompanyRole,
+          };
+          return (
+            <Card key={company.id} className="bg-black/40 border-gray-800">
+              <CardContent className="p-4 space-y-4">
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Input
+                    value={draft.name}
+                    onChange={(e) =>
+                      setDetails((prev) => ({
+                        ...prev,
+                        [company.id]: { ...draft, name: e.target.value },
+                      }))
+                    }
+                    className="bg-gray-800 border-gray-700 text-white"
+                  />
+                  <Input
+                    value={draft.vat_number}
+                    onChange={(e) =>
+                      setDetails((prev) => ({
+                        ...prev,
+                        [company.id]: { ...draft, vat_number: e.target.value },
+                      }))
+                    }
+                    placeholder="VAT number"
+                    className="bg-gray-800 border-gray-700 text-white md:w-48"
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => handleSaveDetails(company)}
+                    className="border-gray-700"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  {company.members.map((member) => (
+                    <div
+                      key={member.user_id}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <div>
+                        <p className="text-white">
+                          {member.profile?.full_name || member.profile?.email}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          {member.profile?.email}
+                          {member.spending_limit != null &&
+                            ` · limit R${Number(member.spending_limit).toFixed(2)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={member.role}
+                          disabled={busy}
+                          onValueChange={(value) =>
+                            run(
+                              async () => {
+                                if (
+                                  wouldRemoveLastOwner(
+                                    company.members,
+                                    member.user_id,
+                                    value as CompanyRole,
+                                  )
+                                ) {
+                                  throw new Error(
+                                    "A company needs at least one owner",
+                                  );
+                                }
+                                await companies.updateMember(
+                                  company.id,
+                                  member.user_id,
+                                  { role: value as CompanyRole },
+                                );
+                              },
+                              "Role updated",
+                              () => [
+                                "company_member_role_changed",
+                                company.id,
+                                { user_id: member.user_id, role: value },
+                              ],
+                            )
+                          }
+                        >
+                          <SelectTrigger className="w-32 bg-gray-800 border-gray-700 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COMPANY_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {COMPANY_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={
+                            busy ||
+                            wouldRemoveLastOwner(
+                              company.members,
+                              member.user_id,
+                              null,
+                            )
+                          }
+                          onClick={() =>
+                            run(
+                              () =>
+                                companies.removeMember(
+                                  company.id,
+                                  member.user_id,
+                                ),
+                              "Member removed",
+                              () => [
+                                "company_member_removed",
+                                company.id,
+                                { user_id: member.user_id },
+                              ],
+                            )
+                          }
+                          className="text-gray-400 hover:text-red-400"
+                          aria-label="Remove member"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {company.invites.map((invite) => (
+                    <div
+                      key={invite.user_id}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <div>
+                        <p className="text-gray-300">{invite.email}</p>
+                        <p className="text-xs text-gray-400">
+                          Invited as {COMPANY_ROLE_LABELS[invite.role]} ·
+                          waiting for them to accept
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={busy}
+                        onClick={() =>
+                          run(
+                            () =>
+                              companies.removeInvite(
+                                company.id,
+                                invite.user_id,
+                              ),
+                            "Invitation withdrawn",
+                            () => [
+                              "company_invite_withdrawn",
+                              company.id,
+                              { user_id: invite.user_id },
+                            ],
+                          )
+                        }
+                        className="text-gray-400 hover:text-red-400"
+                        aria-label="Withdraw invitation"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <form
+                  onSubmit={(e) => handleInviteMember(e, company)}
+                  className="flex flex-col md:flex-row gap-2"
+                >
+                  <Input
+                    type="email"
+                    required
+                    value={memberDraft.email}
+                    onChange={(e) =>
+                      setMemberDrafts((prev) => ({
+                        ...prev,
+                        [company.id]: { ...memberDraft, email: e.target.value },
+                      }))
+                    }
+                    placeholder="Invite member by email"
+                    className="bg-gray-800 border-gray-700 text-white"
+                  />
+                  <Select
+                    value={memberDraft.role}
+                    onValueChange={(value) =>
+                      setMemberDrafts((prev) => ({
+                        ...prev,
+                        [company.id]: {
+                          ...memberDraft,
+                          role: value as CompanyRole,
+                        },
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="md:w-36 bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPANY_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {COMPANY_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={busy}
+                    className="border-gray-700"
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Invite
+                  </Button>
+                </form>
+
+                {company.addresses.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {company.addresses.map((address) => (
+                      <Badge
+                        key={address.id}
+                        variant="secondary"
+                        title={`${address.address}, ${address.city}, ${address.postal_code}`}
+                      >
+                        {address.label}
+                        {address.is_default && " (default)"}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DECORATION_METHOD_LABELS,
+  DECORATION_METHODS,
+  DecorationMethod,
+  DecorationOption,
+} from "@shared/customisation";
+import { Plus, Trash2 } from "lucide-react";
+
+// Option as typed in the form; positions are comma separated until save
+export interface DecorationOptionRow {
+  method: DecorationMethod;
+  positions: string;
+  max_colours: string;
+  setup_fee: string;
+  unit_fee: string;
+}
+
+interface DecorationOptionsEditorProps {
+  rows: DecorationOptionRow[];
+  onChange: (rows: DecorationOptionRow[]) => void;
+}
+
+export const toDecorationOptionRow = (
+  option: DecorationOption,
+): DecorationOptionRow => ({
+  method: option.method,
+  positions: option.positions.join(", "),
+  max_colours: option.max_colours?.toString() ?? "",
+  setup_fee: Number(option.setup_fee).toString(),
+  unit_fee: Number(option.unit_fee).toString(),
+});
+
+/**
+ * Options to save for the product. Throws when a method is repeated or has
+ * no positions.
+ */
+export function buildDecorationPayload(rows: DecorationOptionRow[]) {
+  const options = rows.map((row) => ({
+    method: row.method,
+    positions: row.positions
+      .split(",")
+      .map((position) => position.trim())
+      .filter(Boolean),
+    max_colours: row.max_colours.trim()
+      ? Math.max(1, parseInt(row.max_colours) || 1)
+      : null,
+    setup_fee: Math.max(0, parseFloat(row.setup_fee) || 0),
+    unit_fee: Math.max(0, parseFloat(row.unit_fee) || 0),
+  }));
+
+  if (options.some((option) => option.positions.length === 0)) {
+    throw new Error("Every branding method needs at least one position.");
+  }
+  if (new Set(options.map((option) => option.method)).size !== options.length) {
+    throw new Error("Each branding method can only be added once.");
+  }
+
+  return options;
+}
+
+/**
+ * Branding methods offered on a product, with positions and fees
+ */
+export function DecorationOptionsEditor({
+  rows,
+  onChange,
+}: DecorationOptionsEditorProps) {
+  const updateRow = (index: number, changes: Partial<DecorationOptionRow>) => {
+    onChange(
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    );
+  };
+
+  const addRow = () => {
+    const used = new Set(rows.map((row) => row.method));
+    const method =
+      DECORATION_METHODS.find((m) => !used.has(m)) ?? DECORATION_METHODS[0];
+    onChange([
+      ...rows,
+      {
+        method,
+        positions: "",
+        max_colours: "",
+        setup_fee: "0",
+        unit_fee: "0",
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Branding Options</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addRow}
+          disabled={rows.length >= DECORATION_METHODS.length}
+          className="border-white/20 text-white hover:bg-white/10"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Method
+        </Button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-sm text-white/50">
+          No branding offered. Add a method (e.g. Embroidery on Left chest,
+          Back) to let customers upload a logo.
+        </p>
+      )}
+
+      {rows.map((row, index) => (
+        <div
+          key={index}
+          className="space-y-2 rounded-lg border border-white/10 p-3"
+        >
+          <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+            <Select
+              value={row.method}
+              onValueChange={(method) =>
+                updateRow(index, { method: method as DecorationMethod })
+              }
+            >
+              <SelectTrigger className="bg-white/10 border-white/20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DECORATION_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {DECORATION_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={row.positions}
+              onChange={(e) => updateRow(index, { positions: e.target.value })}
+              placeholder="Positions, comma separated (e.g. Left chest, Back)"
+              className="bg-white/10 border-white/20"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rows.filter((_, i) => i !== index))}
+              className="text-red-400 hover:bg-red-500/20"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              type="number"
+              min="1"
+              value={row.max_colours}
+              onChange={(e) =>
+                updateRow(index, { max_colours: e.target.value })
+              }
+              placeholder="Max colours (any)"
+              className="bg-white/10 border-white/20"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={row.setup_fee}
+              onChange={(e) => updateRow(index, { setup_fee: e.target.value })}
+              placeholder="Setup fee (R)"
+              className="bg-white/10 border-white/20"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={row.unit_fee}
+              onChange={(e) => updateRow(index, { unit_fee: e.target.value })}
+              placeholder="Per item (R)"
+              className="bg-white/10 border-white/20"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   Profile,
   adminActivity,
   admin,
+  refunds,
+  Refund,
   supabase 
 } from '@/lib/supabaseClient';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,6 +22,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { OrderStatusTimeline } from '@/components/orders/OrderStatusTimeline';
+import { CustomisationSummary } from '@/components/branding/CustomisationSummary';
+import { OrderAddressLines } from '@/components/addresses/OrderAddressLines';
+import { QuoteManager } from './QuoteManager';
+import { ShippingManager } from './ShippingManager';
+import { CategoryManager } from './CategoryManager';
+import { CategorySelect } from './CategorySelect';
+import { PaymentReconciliation } from './PaymentReconciliation';
+import { OrderRefundDialog } from './OrderRefundDialog';
+import { CompanyManager } from './CompanyManager';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS, getNextOrderStatuses } from '@shared/orderStatus';
+import { REFUND_METHOD_LABELS } from '@shared/refunds';
+import { COMPANY_ROLE_LABELS } from '@shared/companies';
+import { SHIPPING_SERVICE_LABELS } from '@shared/shipping';
+import { flattenCategoryTree } from '@shared/categories';
+import { useCategories, useRefreshCategories } from '@/hooks/useCategories';
 import {
   Plus,
   Edit,
@@ -42,7 +60,12 @@ import {
   Search,
   FileText,
   UserCheck,
-  Shield
+  Shield,
+  FileDown,
+  Landmark,
+  Undo2,
+  Building,
+  FolderTree
 } from 'lucide-react';
 
 interface ProductFormData {
@@ -76,24 +99,16 @@ interface AdminActivityLog {
   created_at: string;
 }
 
-const categories = [
-  'corporate-clothing',
-  'corporate-gifts', 
-  'workwear',
-  'headwear-and-accessories',
-  'gifting',
-  'display',
-  'footwear',
-  'custom-products'
-];
-
 export default function EnhancedAdminPanel() {
   const { user, profile, loading: authLoading } = useAuth();
   const [isAdmin, setIsAdmin] = useState(false);
   const [checkingAdmin, setCheckingAdmin] = useState(true);
+  const { tree: categoryTree } = useCategories();
+  const refreshCategories = useRefreshCategories();
 
   // Data states
   const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [productCounts, setProductCounts] = useState({ total: 0, active: 0 });
   const [allOrders, setAllOrders] = useState<Order[]>([]);
   const [allUsers, setAllUsers] = useState<Profile[]>([]);
   const [activityLogs, setActivityLogs] = useState<AdminActivityLog[]>([]);
@@ -109,6 +124,7 @@ export default function EnhancedAdminPanel() {
 
   // Loading states
   const [productsLoading, setProductsLoading] = useState(true);
+  const [loadingMoreProducts, setLoadingMoreProducts] = useState(false);
   const [ordersLoading, setOrdersLoading] = useState(true);
   const [usersLoading, setUsersLoading] = useState(true);
   const [activityLoading, setActivityLoading] = useState(true);
@@ -119,6 +135,8 @@ export default function EnhancedAdminPanel() {
   const [showProductForm, setShowProductForm] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedOrderStatus, setSelectedOrderStatus] = useState<string>('all');
+  const [statusNotes, setStatusNotes] = useState<Record<string, string>>({});
+  const [refundingOrder, setRefundingOrder] = useState<Order | null>(null);
 
   const [productForm, setProductForm] = useState<ProductFormData>({
     name: '',
@@ -194,8 +212,13 @@ export default function EnhancedAdminPanel() {
   const loadProducts = async () => {
     try {
       setProductsLoading(true);
-      const data = await products.getAllForAdmin();
-      setAllProducts(data);
+      const [page, counts] = await Promise.all([
+        products.getAllForAdmin(),
+        products.countForAdmin()
+      ]);
+      setAllProducts(page.products);
+      setProductCounts(counts);
+      refreshCategories();
     } catch (error) {
       console.error('Error loading products:', error);
       toast.error('Failed to load products');
@@ -204,6 +227,19 @@ export default function EnhancedAdminPanel() {
     }
   };
 
+  const loadMoreProducts = async () => {
+    try {
+      setLoadingMoreProducts(true);
+      const page = await products.getAllForAdmin({ offset: allProducts.length });
+      setAllProducts(prev => [...prev, ...page.products]);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+      toast.error('Failed to load more products');
+    } finally {
+      setLoadingMoreProducts(false);
+    }
+  };
+
   const loadOrders = async () => {
     try {
       setOrdersLoading(true);
@@ -222,7 +258,7 @@ export default function EnhancedAdminPanel() {
       setUsersLoading(true);
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, company_membership:company_members(role, company:companies(id, name))')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -250,8 +286,8 @@ export default function EnhancedAdminPanel() {
 
   const loadStats = async () => {
     try {
-      const totalProducts = allProducts.length;
-      const activeProducts = allProducts.filter(p => p.is_active).length;
+      const totalProducts = productCounts.total;
+      const activeProducts = productCounts.active;
       const totalOrders = allOrders.length;
       const pendingOrders = allOrders.filter(o => o.status === 'pending').length;
       const totalUsers = allUsers.length;
@@ -327,18 +363,43 @@ export default function EnhancedAdminPanel() {
     }
   };
 
+  const handleDownloadInvoice = async (orderId: string) => {
+    try {
+      await orders.downloadInvoice(orderId);
+      await logAdminActivity('invoice_downloaded', 'order', orderId);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download invoice');
+    }
+  };
+
+  const handleRefunded = async (refund: Refund) => {
+    await logAdminActivity('order_refunded', 'order', refund.order_id, {
+      credit_note_number: refund.credit_note_number,
+      total: refund.total,
+      method: refund.method
+    });
+    setRefundingOrder(null);
+    await loadOrders();
+    await loadStats();
+  };
+
   const handleOrderStatusUpdate = async (orderId: string, status: Order['status']) => {
     if (!user) return;
 
     try {
-      await orders.updateStatus(orderId, status);
-      await logAdminActivity('order_status_updated', 'order', orderId, { status });
+      const note = statusNotes[orderId]?.trim();
+      const { error } = await orders.updateStatus(orderId, status, note);
+      if (error) throw error;
+
+      await logAdminActivity('order_status_updated', 'order', orderId, { status, note });
+      setStatusNotes(prev => ({ ...prev, [orderId]: '' }));
       toast.success(`Order status updated to ${status}`);
       await loadOrders();
       await loadStats();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating order status:', error);
-      toast.error('Failed to update order status');
+      toast.error(error?.message || 'Failed to update order status');
     }
   };
 
@@ -374,7 +435,9 @@ export default function EnhancedAdminPanel() {
 
   const getStatusIcon = (status: Order['status']) => {
     switch (status) {
+      case 'awaiting_approval': return <UserCheck className="h-4 w-4" />;
       case 'pending': return <Clock className="h-4 w-4" />;
+      case 'processing': return <Package className="h-4 w-4" />;
       case 'shipped': return <Truck className="h-4 w-4" />;
       case 'completed': return <CheckCircle className="h-4 w-4" />;
       case 'cancelled': return <XCircle className="h-4 w-4" />;
@@ -384,7 +447,9 @@ export default function EnhancedAdminPanel() {
 
   const getStatusColor = (status: Order['status']) => {
     switch (status) {
+      case 'awaiting_approval': return 'bg-amber-500/20 text-amber-400 border-amber-500/30';
       case 'pending': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+      case 'processing': return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
       case 'shipped': return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
       case 'completed': return 'bg-green-500/20 text-green-400 border-green-500/30';
       case 'cancelled': return 'bg-red-500/20 text-red-400 border-red-500/30';
@@ -535,15 +600,31 @@ export default function EnhancedAdminPanel() {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="products" className="w-full">
-          <TabsList className="grid w-full grid-cols-5 bg-black/40">
+          <TabsList className="grid w-full grid-cols-9 bg-black/40">
             <TabsTrigger value="products" className="data-[state=active]:bg-brand-red">
               <Package className="h-4 w-4 mr-2" />
               Products
             </TabsTrigger>
+            <TabsTrigger value="categories" className="data-[state=active]:bg-brand-red">
+              <FolderTree className="h-4 w-4 mr-2" />
+              Categories
+            </TabsTrigger>
             <TabsTrigger value="orders" className="data-[state=active]:bg-brand-red">
               <ShoppingCart className="h-4 w-4 mr-2" />
               Orders
             </TabsTrigger>
+            <TabsTrigger value="quotes" className="data-[state=active]:bg-brand-red">
+              <FileText className="h-4 w-4 mr-2" />
+              Quotes
+            </TabsTrigger>
+            <TabsTrigger value="payments" className="data-[state=active]:bg-brand-red">
+              <Landmark className="h-4 w-4 mr-2" />
+              Payments
+            </TabsTrigger>
+            <TabsTrigger value="shipping" className="data-[state=active]:bg-brand-red">
+              <Truck className="h-4 w-4 mr-2" />
+              Shipping
+            </TabsTrigger>
             <TabsTrigger value="users" className="data-[state=active]:bg-brand-red">
               <Users className="h-4 w-4 mr-2" />
               Users
@@ -607,21 +688,13 @@ export default function EnhancedAdminPanel() {
                       </div>
                       <div>
                         <Label htmlFor="category" className="text-white">Category</Label>
-                        <Select 
-                          value={productForm.category} 
-                          onValueChange={(value) => setProductForm(prev => ({ ...prev, category: value }))}
-                        >
-                          <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent className="bg-gray-800 border-gray-700">
-                            {categories.map(cat => (
-                              <SelectItem key={cat} value={cat} className="text-white">
-                                {cat.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        <CategorySelect
+                          value={productForm.category}
+                          onChange={(value) => setProductForm(prev => ({ ...prev, category: value }))}
+                          triggerClassName="bg-gray-800 border-gray-700 text-white"
+                          contentClassName="bg-gray-800 border-gray-700"
+                          itemClassName="text-white"
+                        />
                       </div>
                     </div>
 
@@ -792,6 +865,25 @@ export default function EnhancedAdminPanel() {
                 ))
               )}
             </div>
+
+            {!productsLoading && allProducts.length < productCounts.total && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={loadMoreProducts}
+                  disabled={loadingMoreProducts}
+                  className="border-gray-700 text-white"
+                >
+                  {loadingMoreProducts && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more ({allProducts.length} of {productCounts.total})
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          {/* Category Tree */}
+          <TabsContent value="categories" className="space-y-4">
+            <CategoryManager />
           </TabsContent>
 
           {/* Orders Management */}
@@ -807,10 +899,9 @@ export default function EnhancedAdminPanel() {
                 </SelectTrigger>
                 <SelectContent className="bg-gray-800 border-gray-700">
                   <SelectItem value="all" className="text-white">All Orders</SelectItem>
-                  <SelectItem value="pending" className="text-white">Pending</SelectItem>
-                  <SelectItem value="shipped" className="text-white">Shipped</SelectItem>
-                  <SelectItem value="completed" className="text-white">Completed</SelectItem>
-                  <SelectItem value="cancelled" className="text-white">Cancelled</SelectItem>
+                  {ORDER_STATUSES.map(status => (
+                    <SelectItem key={status} value={status} className="text-white">{ORDER_STATUS_LABELS[status]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -833,24 +924,52 @@ export default function EnhancedAdminPanel() {
                         <div>
                           <h3 className="font-semibold text-white">Order #{order.id.slice(0, 8)}</h3>
                           <p className="text-sm text-gray-400">{formatDate(order.created_at)}</p>
+                          {order.company && (
+                            <p className="text-sm text-gray-300 flex items-center gap-1">
+                              <Building className="h-3 w-3" />
+                              {order.company.name}
+                            </p>
+                          )}
                         </div>
                         <div className="flex items-center gap-4">
                           <span className="text-lg font-semibold text-white">{formatCurrency(order.total)}</span>
+                          {order.status !== 'cancelled' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDownloadInvoice(order.id)}
+                              className="border-gray-700 text-gray-300 hover:text-white"
+                            >
+                              <FileDown className="h-4 w-4 mr-1" />
+                              Invoice
+                            </Button>
+                          )}
+                          {order.status !== 'cancelled' && order.items.some(item => item.cancelled_quantity < item.quantity) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRefundingOrder(order)}
+                              className="border-gray-700 text-gray-300 hover:text-white"
+                            >
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Refund
+                            </Button>
+                          )}
                           <Select 
                             value={order.status} 
                             onValueChange={(status) => handleOrderStatusUpdate(order.id, status as Order['status'])}
+                            disabled={getNextOrderStatuses(order.status).length === 0}
                           >
-                            <SelectTrigger className={`w-32 ${getStatusColor(order.status)} border`}>
+                            <SelectTrigger className={`w-36 ${getStatusColor(order.status)} border`}>
                               <div className="flex items-center gap-2">
                                 {getStatusIcon(order.status)}
                                 <SelectValue />
                               </div>
                             </SelectTrigger>
                             <SelectContent className="bg-gray-800 border-gray-700">
-                              <SelectItem value="pending" className="text-white">Pending</SelectItem>
-                              <SelectItem value="shipped" className="text-white">Shipped</SelectItem>
-                              <SelectItem value="completed" className="text-white">Completed</SelectItem>
-                              <SelectItem value="cancelled" className="text-white">Cancelled</SelectItem>
+                              {[order.status, ...getNextOrderStatuses(order.status)].map(status => (
+                                <SelectItem key={status} value={status} className="text-white">{ORDER_STATUS_LABELS[status]}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -859,25 +978,101 @@ export default function EnhancedAdminPanel() {
                       <div className="space-y-2">
                         <h4 className="text-sm font-medium text-white">Order Items:</h4>
                         <div className="space-y-1">
-                          {order.products.map((item: any, index: number) => (
-                            <div key={index} className="flex justify-between text-sm">
-                              <span className="text-gray-300">{item.title} × {item.quantity}</span>
-                              <span className="text-gray-300">{formatCurrency(item.price * item.quantity)}</span>
+                          {order.items.map(item => (
+                            <div key={item.id} className="flex justify-between text-sm">
+                              <span className="text-gray-300">
+                                {item.product_name}
+                                {item.variant_label && ` (${item.variant_label})`} × {item.quantity}
+                                {item.cancelled_quantity > 0 && (
+                                  <span className="text-red-400 ml-2">{item.cancelled_quantity} cancelled</span>
+                                )}
+                                {item.sku && <span className="text-gray-500 ml-2">SKU {item.sku}</span>}
+                                <CustomisationSummary
+                                  customisation={item.customisation}
+                                  setupFee={item.setup_fee}
+                                  className="text-xs text-gray-400"
+                                />
+                              </span>
+                              <span className="text-gray-300">{formatCurrency(item.line_total)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      {order.refunds && order.refunds.length > 0 && (
+                        <div className="mt-4 space-y-1">
+                          <h4 className="text-sm font-medium text-white">Credit Notes:</h4>
+                          {order.refunds.map(refund => (
+                            <div key={refund.id} className="flex justify-between items-center text-sm text-gray-300">
+                              <span>
+                                {refund.credit_note_number} · {formatDate(refund.created_at)} · {REFUND_METHOD_LABELS[refund.method]}
+                                <span className="text-gray-500 ml-2">{refund.reason}</span>
+                              </span>
+                              <span className="flex items-center gap-2">
+                                -{formatCurrency(refund.total)}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => refunds.downloadCreditNote(refund).catch((error) =>
+                                    toast.error(error instanceof Error ? error.message : 'Failed to download credit note')
+                                  )}
+                                  className="h-7 px-2 text-gray-400 hover:text-white"
+                                >
+                                  <FileDown className="h-4 w-4" />
+                                </Button>
+                              </span>
                             </div>
                           ))}
                         </div>
+                      )}
+
+                      <div className="mt-4 pt-4 border-t border-gray-700 grid md:grid-cols-2 gap-4">
+                        <div>
+                          <h4 className="text-sm font-medium text-white mb-3">Status History:</h4>
+                          <OrderStatusTimeline history={order.status_history} className="text-gray-300" />
+                        </div>
+                        {getNextOrderStatuses(order.status).length > 0 && (
+                          <div className="space-y-2">
+                            <Label htmlFor={`status-note-${order.id}`} className="text-sm text-white">
+                              Note for next status change (optional)
+                            </Label>
+                            <Textarea
+                              id={`status-note-${order.id}`}
+                              value={statusNotes[order.id] || ''}
+                              onChange={(e) => setStatusNotes(prev => ({ ...prev, [order.id]: e.target.value }))}
+                              placeholder="e.g. Courier waybill number"
+                              className="bg-gray-800 border-gray-700 text-white"
+                              rows={2}
+                            />
+                          </div>
+                        )}
                       </div>
 
                       {order.shipping_address && (
                         <div className="mt-4 pt-4 border-t border-gray-700">
                           <h4 className="text-sm font-medium text-white">Shipping Address:</h4>
                           <div className="text-sm text-gray-400">
-                            <p>{order.shipping_address.fullName}</p>
-                            <p>{order.shipping_address.addressLine1}</p>
-                            {order.shipping_address.addressLine2 && <p>{order.shipping_address.addressLine2}</p>}
-                            <p>{order.shipping_address.city}, {order.shipping_address.postalCode}</p>
-                            {order.shipping_address.phone && <p>Phone: {order.shipping_address.phone}</p>}
+                            {order.shipping_service && (
+                              <p className="text-white">{SHIPPING_SERVICE_LABELS[order.shipping_service]}</p>
+                            )}
+                            {order.shipping_address.customerInfo && (
+                              <p>
+                                {order.shipping_address.customerInfo.firstName} {order.shipping_address.customerInfo.lastName}
+                              </p>
+                            )}
+                            <OrderAddressLines address={order.shipping_address.shippingAddress} />
+                            {order.shipping_address.customerInfo?.phone && (
+                              <p>Phone: {order.shipping_address.customerInfo.phone}</p>
+                            )}
                           </div>
+                          {order.billing_address && (
+                            <>
+                              <h4 className="text-sm font-medium text-white mt-3">Billing Address:</h4>
+                              <div className="text-sm text-gray-400">
+                                <OrderAddressLines address={order.billing_address} />
+                              </div>
+                            </>
+                          )}
                         </div>
                       )}
                     </CardContent>
@@ -885,6 +1080,34 @@ export default function EnhancedAdminPanel() {
                 ))
               )}
             </div>
+
+            <OrderRefundDialog
+              order={refundingOrder}
+              onClose={() => setRefundingOrder(null)}
+              onRefunded={handleRefunded}
+            />
+          </TabsContent>
+
+          {/* Quotes Management */}
+          <TabsContent value="quotes" className="space-y-4">
+            <QuoteManager
+              onQuoteSent={(quote) => logAdminActivity('quote_sent', 'quote', quote.id)}
+            />
+          </TabsContent>
+
+          {/* Payment Reconciliation */}
+          <TabsContent value="payments" className="space-y-4">
+            <PaymentReconciliation
+              onPaymentRecorded={(order) => {
+                logAdminActivity('payment_recorded', 'order', order.id, { amount: order.amount_paid });
+                loadOrders();
+              }}
+            />
+          </TabsContent>
+
+          {/* Shipping Zones and Rates */}
+          <TabsContent value="shipping" className="space-y-4">
+            <ShippingManager />
           </TabsContent>
 
           {/* Users Management */}
@@ -928,6 +1151,16 @@ export default function EnhancedAdminPanel() {
                           </p>
                         </div>
 
+                        {userProfile.company_membership && (
+                          <div className="flex items-center gap-2 text-sm">
+                            <Building className="h-4 w-4 text-gray-400" />
+                            <span className="text-gray-300">{userProfile.company_membership.company.name}</span>
+                            <Badge variant="outline" className="text-xs">
+                              {COMPANY_ROLE_LABELS[userProfile.company_membership.role]}
+                            </Badge>
+                          </div>
+                        )}
+
                         {userProfile.address && (
                           <div className="text-xs text-gray-500">
                             <p>Address on file</p>
@@ -939,6 +1172,13 @@ export default function EnhancedAdminPanel() {
                 ))
               )}
             </div>
+
+            <CompanyManager
+              onCompanyChanged={(action, companyId, payload) => {
+                logAdminActivity(action, 'company', companyId, payload);
+                loadUsers();
+              }}
+            />
           </TabsContent>
 
           {/* Activity Logs */}
@@ -997,15 +1237,15 @@ export default function EnhancedAdminPanel() {
                   <CardTitle className="text-white">Order Status Distribution</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {['pending', 'shipped', 'completed', 'cancelled'].map(status => {
+                  {ORDER_STATUSES.map(status => {
                     const count = allOrders.filter(order => order.status === status).length;
                     const percentage = allOrders.length > 0 ? (count / allOrders.length * 100).toFixed(1) : 0;
                     
                     return (
                       <div key={status} className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
-                          {getStatusIcon(status as Order['status'])}
-                          <span className="text-white capitalize">{status}</span>
+                          {getStatusIcon(status)}
+                          <span className="text-white">{ORDER_STATUS_LABELS[status]}</span>
                         </div>
                         <div className="flex items-center gap-2">
                           <span className="text-gray-400">{count}</span>
@@ -1022,21 +1262,17 @@ export default function EnhancedAdminPanel() {
                   <CardTitle className="text-white">Product Categories</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  {categories.map(category => {
-                    const count = allProducts.filter(product => product.category === category).length;
-                    const activeCount = allProducts.filter(product => product.category === category && product.is_active).length;
-                    
-                    return (
-                      <div key={category} className="flex items-center justify-between">
-                        <span className="text-white capitalize">
-                          {category.replace('-', ' ')}
-                        </span>
-                        <div className="flex items-center gap-2">
-                          <span className="text-gray-400">{activeCount}/{count}</span>
-                        </div>
-                      </div>
-                    );
-                  })}
+                  {flattenCategoryTree(categoryTree).map(({ category, depth }) => (
+                    <div key={category.id} className="flex items-center justify-between">
+                      <span
+                        className={depth > 0 ? 'text-gray-300' : 'text-white'}
+                        style={{ paddingLeft: `${depth * 1.5}rem` }}
+                      >
+                        {category.name}
+                      </span>
+                      <span className="text-gray-400">{category.product_count} active</span>
+                    </div>
+                  ))}
                 </CardContent>
               </Card>
             </div>
@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Order, Refund, refunds } from "@/lib/supabaseClient";
+import {
+  calculateRefund,
+  getRemainingQuantity,
+  RefundSelection,
+  validateRefundSelection,
+} from "@shared/refunds";
+import { toast } from "sonner";
+import { Loader2, Undo2 } from "lucide-react";
+
+interface OrderRefundDialogProps {
+  order: Order | null; // open while set
+  onClose: () => void;
+  onRefunded: (refund: Refund) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+/**
+ * Cancel some units of an order's lines and refund them under a credit note
+ */
+export function OrderRefundDialog({
+  order,
+  onClose,
+  onRefunded,
+}: OrderRefundDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setQuantities({});
+    setReason("");
+    setRefundShipping(false);
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const items = order.items ?? [];
+  const selections: RefundSelection[] = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  const shippingRefunded = (order.refunds ?? []).some(
+    (refund) => Number(refund.shipping) > 0,
+  );
+  const shippingFee = Number(order.shipping_fee ?? 0);
+  const preview = calculateRefund(
+    items,
+    selections,
+    refundShipping ? shippingFee : 0,
+  );
+  const paidByCard =
+    order.payment_status === "paid" && order.payment_method === "card";
+
+  const handleSubmit = async () => {
+    const selectionError = validateRefundSelection(items, selections);
+    if (selectionError) {
+      toast.error(selectionError);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Please give a reason for the refund");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const refund = await refunds.create(order.id, {
+        items: selections,
+        reason: reason.trim(),
+        refund_shipping: refundShipping,
+      });
+      toast.success(`Credit note ${refund.credit_note_number} issued`);
+      onRefunded(refund);
+    } catch (error) {
+      console.error("Error refunding order:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to refund order",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !submitting && onClose()}>
+      <DialogContent className="bg-gray-900 border-gray-700 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            Refund Order #{order.id.slice(0, 8)}
+          </DialogTitle>
+          <DialogDescription>
+            Cancelled units are listed on a credit note, and go back into stock
+            if the order has not shipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {items.map((item) => {
+            const remaining = getRemainingQuantity(item);
+            return (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-4 text-sm"
+              >
+                <div className="text-gray-300">
+                  {item.product_name}
+                  {item.variant_label && ` (${item.variant_label})`}
+                  <div className="text-xs text-gray-500">
+                    {remaining} of {item.quantity} left
+                    {item.cancelled_quantity > 0 &&
+                      ` · ${item.cancelled_quantity} cancelled`}
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={remaining}
+                  disabled={remaining === 0}
+                  value={quantities[item.id] ?? 0}
+                  onChange={(e) =>
+                    setQuantities((prev) => ({
+                      ...prev,
+                      [item.id]: Math.min(
+                        remaining,
+                        Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                      ),
+                    }))
+                  }
+                  className="w-24 bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+            );
+          })}
+
+          {shippingFee > 0 && !shippingRefunded && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="refund-shipping"
+                checked={refundShipping}
+                onCheckedChange={(checked) => setRefundShipping(!!checked)}
+              />
+              <Label htmlFor="refund-shipping" className="text-sm text-white">
+                Also refund shipping ({formatCurrency(shippingFee)})
+              </Label>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason" className="text-sm text-white">
+              Reason
+            </Label>
+            <Textarea
+              id="refund-reason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Customer reduced the order to 250 units"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+          </div>
+
+          <div className="rounded-lg bg-gray-800/60 p-3 text-sm space-y-1">
+            <div className="flex justify-between text-gray-300">
+              <span>VAT</span>
+              <span>{formatCurrency(preview.tax)}</span>
+            </div>
+            <div className="flex justify-between font-semibold text-white">
+              <span>Refund total</span>
+              <span>{formatCurrency(preview.total)}</span>
+            </div>
+            <p className="text-xs text-gray-400 pt-1">
+              {paidByCard
+                ? "The amount is refunded to the customer's card."
+                : order.payment_status === "paid"
+                  ? "Pay this amount back to the customer by EFT; it is recorded as a manual refund."
+                  : "The order has not been paid, so no money is returned."}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={submitting}
+            onClick={onClose}
+            className="border-gray-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={submitting || selections.length === 0}
+            onClick={handleSubmit}
+            className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+          >
+            {submitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Undo2 className="h-4 w-4 mr-2" />
+            )}
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Order, payments } from "@/lib/supabaseClient";
+import { getPaymentShortfall, PAYMENT_STATUS_LABELS } from "@shared/payments";
+import { toast } from "sonner";
+import { CheckCircle, Eye, Landmark, Loader2, Search } from "lucide-react";
+
+interface PaymentReconciliationProps {
+  onPaymentRecorded?: (order: Order) => void;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  eft: "EFT",
+  card: "Card",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+/**
+ * Match bank statement lines to unpaid orders by payment reference and mark them paid
+ */
+export function PaymentReconciliation({
+  onPaymentRecorded,
+}: PaymentReconciliationProps) {
+  const [unpaidOrders, setUnpaidOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  const loadOrders = async () => {
+    setLoading(true);
+    const list = await payments.getUnreconciled();
+    setUnpaidOrders(list);
+    setAmounts(
+      Object.fromEntries(
+        list.map((order) => [order.id, Number(order.total).toFixed(2)]),
+      ),
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadOrders();
+  }, []);
+
+  const viewProof = async (path: string) => {
+    const url = await payments.getProofUrl(path);
+    if (url) {
+      window.open(url, "_blank", "noopener");
+    } else {
+      toast.error("Could not open proof of payment");
+    }
+  };
+
+  const handleRecord = async (order: Order) => {
+    const amount = parseFloat(amounts[order.id]);
+    if (!(amount > 0)) {
+      toast.error("Enter the amount received");
+      return;
+    }
+
+    const shortfall = getPaymentShortfall(Number(order.total), amount);
+    if (
+      shortfall > 0 &&
+      !confirm(
+        `This payment is ${formatCurrency(shortfall)} short of the order total. Mark the order paid anyway?`,
+      )
+    ) {
+      return;
+    }
+
+    setRecordingId(order.id);
+    const { data, error } = await payments.record(order.id, amount);
+    setRecordingId(null);
+
+    if (error?.message === "order_awaiting_approval") {
+      toast.error(
+        "This order is awaiting approval. Record the payment once it is approved.",
+      );
+      return;
+    }
+    if (error) {
+      console.error("Error recording payment:", error);
+      toast.error("Failed to record payment");
+      return;
+    }
+
+    toast.success(`Payment recorded for ${order.payment_reference}`);
+    onPaymentRecorded?.(data as Order);
+    loadOrders();
+  };
+
+  const term = search.trim().toLowerCase();
+  const filteredOrders = unpaidOrders.filter(
+    (order) =>
+      (statusFilter === "all" || order.payment_status === statusFilter) &&
+      (!term ||
+        order.payment_reference.toLowerCase().includes(term) ||
+        order.id.toLowerCase().includes(term)),
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-xl font-bold text-white">Payment Reconciliation</h2>
+        <div className="flex gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Payment reference"
+              className="pl-9 w-52 bg-gray-800 border-gray-700 text-white"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-56 bg-gray-800 border-gray-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-gray-700">
+              <SelectItem value="all" className="text-white">
+                All Unpaid
+              </SelectItem>
+              <SelectItem value="unpaid" className="text-white">
+                {PAYMENT_STATUS_LABELS.unpaid}
+              </SelectItem>
+              <SelectItem value="proof_submitted" className="text-white">
+                {PAYMENT_STATUS_LABELS.proof_submitted}
+              </SelectItem>
+              <SelectItem value="failed" className="text-white">
+                {PAYMENT_STATUS_LABELS.failed}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+        </div>
+      ) : filteredOrders.length === 0 ? (
+        <div className="text-center py-8">
+          <Landmark className="h-12 w-12 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400">No unpaid orders</p>
+        </div>
+      ) : (
+        filteredOrders.map((order) => {
+          const customer = order.shipping_address?.customerInfo;
+
+          return (
+            <Card key={order.id} className="bg-black/40 border-gray-800">
+              <CardContent className="p-4 flex flex-wrap items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <h3 className="font-semibold text-white font-mono">
+                    {order.payment_reference}
+                  </h3>
+                  <p className="text-sm text-gray-400">
+                    Order #{order.id.slice(0, 8)} ·{" "}
+                    {new Date(order.created_at).toLocaleDateString("en-ZA")} ·{" "}
+                    {PAYMENT_METHOD_LABELS[order.payment_method ?? ""] ??
+                      "Manual payment"}
+                  </p>
+                  {customer && (
+                    <p className="text-sm text-gray-400">
+                      {customer.firstName} {customer.lastName}
+                      {customer.company && `, ${customer.company}`}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-semibold">
+                      {formatCurrency(order.total)}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className="text-white border-gray-600"
+                    >
+                      {PAYMENT_STATUS_LABELS[order.payment_status]}
+                    </Badge>
+                  </div>
+                </div>
+
+                <div className="flex items-end gap-2">
+                  {order.proof_of_payment_path && (
+                    <Button
+                      variant="outline"
+                      onClick={() => viewProof(order.proof_of_payment_path!)}
+                      className="border-gray-700 text-gray-300 hover:text-white"
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      Proof
+                    </Button>
+                  )}
+                  <div className="space-y-1">
+                    <Label
+                      htmlFor={`amount-${order.id}`}
+                      className="text-xs text-gray-400"
+                    >
+                      Amount received (R)
+                    </Label>
+                    <Input
+                      id={`amount-${order.id}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amounts[order.id] ?? ""}
+                      onChange={(e) =>
+                        setAmounts((prev) => ({
+                          ...prev,
+                          [order.id]: e.target.value,
+                        }))
+                      }
+                      className="w-32 bg-gray-800 border-gray-700 text-white"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => handleRecord(order)}
+                    disabled={recordingId === order.id}
+                    className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+                  >
+                    {recordingId === order.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                    )}
+                    Mark Paid
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
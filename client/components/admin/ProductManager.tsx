@@ -6,15 +6,30 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
-import { supabase } from "@/lib/supabaseClient";
+import {
+  supabase,
+  products as productsApi,
+  type Product,
+  type ProductVariant,
+} from "@/lib/supabaseClient";
 import { useToast } from "@/hooks/use-toast";
+import { PriceTier, sortPriceTiers } from "@shared/pricing";
+import { VariantAxis, variantOptionsKey } from "@shared/variants";
+import { DecorationOption } from "@shared/customisation";
+import {
+  buildVariantPayload,
+  parseVariantAxes,
+  VariantAxisRow,
+  VariantMatrixEditor,
+  VariantRow,
+} from "./VariantMatrixEditor";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  buildDecorationPayload,
+  DecorationOptionRow,
+  DecorationOptionsEditor,
+  toDecorationOptionRow,
+} from "./DecorationOptionsEditor";
+import { CategorySelect } from "./CategorySelect";
 import {
   Dialog,
   DialogContent,
@@ -33,25 +48,20 @@ import {
   Eye,
   EyeOff,
   DollarSign,
+  Loader2,
 } from "lucide-react";
 
-interface Product {
-  id: number;
-  name: string;
-  description?: string;
-  price: number;
-  category: string;
-  image_url?: string;
-  rating: number;
-  reviews_count: number;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
+// Form rows keep raw input strings until save
+interface PriceTierRow {
+  min_quantity: string;
+  unit_price: string;
 }
 
 export function ProductManager() {
   const [products, setProducts] = useState<Product[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const { toast } = useToast();
@@ -65,32 +75,31 @@ export function ProductManager() {
     rating: "",
     reviews_count: "",
     is_active: true,
+    price_tiers: [] as PriceTierRow[],
+    variant_axes: [] as VariantAxisRow[],
+    variant_rows: {} as Record<string, VariantRow>,
+    decoration_options: [] as DecorationOptionRow[],
+    weight_kg: "",
+    length_cm: "",
+    width_cm: "",
+    height_cm: "",
   });
 
-  const categories = [
-    "corporate-gifts",
-    "corporate-clothing", 
-    "workwear",
-    "headwear-and-accessories",
-    "gifting",
-    "display",
-    "footwear",
-    "custom-products",
-  ];
-
   useEffect(() => {
     fetchProducts();
   }, []);
 
+  // One page of products, newest first, with their tiers, variants and branding
+  const fetchProductPage = async (offset: number) => {
+    const page = await productsApi.getAllForAdmin({ offset });
+    setTotalProducts(page.total);
+    return page.products;
+  };
+
+  // Reloads from the first page, e.g. after a product is saved
   const fetchProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setProducts(data || []);
+      setProducts(await fetchProductPage(0));
     } catch (error) {
       console.error("Error fetching products:", error);
       toast({
@@ -103,8 +112,67 @@ export function ProductManager() {
     }
   };
 
+  const loadMoreProducts = async () => {
+    try {
+      setLoadingMore(true);
+      const page = await fetchProductPage(products.length);
+      setProducts((prev) => [...prev, ...page]);
+    } catch (error) {
+      console.error("Error fetching more products:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch more products.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Tiers must each start above 1 unit, at distinct quantities
+  const parsePriceTiers = (): PriceTier[] => {
+    const tiers = formData.price_tiers.map((row) => ({
+      min_quantity: parseInt(row.min_quantity),
+      unit_price: parseFloat(row.unit_price),
+    }));
+
+    for (const tier of tiers) {
+      if (!(tier.min_quantity > 1) || !(tier.unit_price >= 0)) {
+        throw new Error("Each price tier needs a minimum quantity above 1 and a price.");
+      }
+    }
+    if (new Set(tiers.map((tier) => tier.min_quantity)).size !== tiers.length) {
+      throw new Error("Price tiers must have different minimum quantities.");
+    }
+
+    return sortPriceTiers(tiers);
+  };
+
+  const updatePriceTier = (index: number, field: keyof PriceTierRow, value: string) => {
+    setFormData({
+      ...formData,
+      price_tiers: formData.price_tiers.map((row, i) =>
+        i === index ? { ...row, [field]: value } : row
+      ),
+    });
+  };
+
+  // Blank shipping measurements fall back to the defaults in shared/shipping
+  const parseMeasurement = (value: string, label: string): number | null => {
+    if (value.trim() === "") return null;
+    const parsed = parseFloat(value);
+    if (!(parsed > 0)) {
+      throw new Error(`${label} must be more than 0.`);
+    }
+    return parsed;
+  };
+
   const handleSave = async () => {
     try {
+      const priceTiers = parsePriceTiers();
+      const variantAxes = parseVariantAxes(formData.variant_axes);
+      const variants = buildVariantPayload(formData.variant_axes, formData.variant_rows, formData.name);
+      const decorationOptions = buildDecorationPayload(formData.decoration_options);
       const productData = {
         name: formData.name,
         description: formData.description || null,
@@ -114,8 +182,14 @@ export function ProductManager() {
         rating: parseFloat(formData.rating) || 0,
         reviews_count: parseInt(formData.reviews_count) || 0,
         is_active: formData.is_active,
+        weight_kg: parseMeasurement(formData.weight_kg, "Weight"),
+        length_cm: parseMeasurement(formData.length_cm, "Length"),
+        width_cm: parseMeasurement(formData.width_cm, "Width"),
+        height_cm: parseMeasurement(formData.height_cm, "Height"),
       };
 
+      let productId = editingProduct?.id;
+
       if (editingProduct) {
         // Update existing product
         const { error } = await supabase
@@ -127,17 +201,43 @@ export function ProductManager() {
           .eq("id", editingProduct.id);
 
         if (error) throw error;
-        toast({
-          title: "Success",
-          description: "Product updated successfully.",
-        });
       } else {
         // Create new product
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from("products")
-          .insert(productData);
+          .insert(productData)
+          .select("id")
+          .single();
 
         if (error) throw error;
+        productId = data.id;
+      }
+
+      const { error: tiersError } = await supabase.rpc("set_product_price_tiers", {
+        p_product_id: productId,
+        p_tiers: priceTiers,
+      });
+      if (tiersError) throw tiersError;
+
+      const { error: variantsError } = await supabase.rpc("set_product_variants", {
+        p_product_id: productId,
+        p_axes: variantAxes,
+        p_variants: variants,
+      });
+      if (variantsError) throw variantsError;
+
+      const { error: decorationError } = await supabase.rpc("set_product_decoration_options", {
+        p_product_id: productId,
+        p_options: decorationOptions,
+      });
+      if (decorationError) throw decorationError;
+
+      if (editingProduct) {
+        toast({
+          title: "Success",
+          description: "Product updated successfully.",
+        });
+      } else {
         toast({
           title: "Success",
           description: "Product created successfully.",
@@ -155,6 +255,14 @@ export function ProductManager() {
         rating: "",
         reviews_count: "",
         is_active: true,
+        price_tiers: [],
+        variant_axes: [],
+        variant_rows: {},
+        decoration_options: [],
+        weight_kg: "",
+        length_cm: "",
+        width_cm: "",
+        height_cm: "",
       });
       fetchProducts();
     } catch (error: any) {
@@ -177,11 +285,35 @@ export function ProductManager() {
       rating: product.rating.toString(),
       reviews_count: product.reviews_count.toString(),
       is_active: product.is_active,
+      price_tiers: sortPriceTiers(product.price_tiers).map((tier) => ({
+        min_quantity: tier.min_quantity.toString(),
+        unit_price: Number(tier.unit_price).toString(),
+      })),
+      variant_axes: (product.variant_axes || []).map((axis) => ({
+        name: axis.name,
+        values: axis.values.join(", "),
+      })),
+      variant_rows: Object.fromEntries(
+        (product.variants || []).map((variant) => [
+          variantOptionsKey(variant.options),
+          {
+            sku: variant.sku,
+            price_delta: Number(variant.price_delta).toString(),
+            stock: variant.stock.toString(),
+            is_active: variant.is_active,
+          },
+        ])
+      ),
+      decoration_options: (product.decoration_options || []).map(toDecorationOptionRow),
+      weight_kg: product.weight_kg?.toString() ?? "",
+      length_cm: product.length_cm?.toString() ?? "",
+      width_cm: product.width_cm?.toString() ?? "",
+      height_cm: product.height_cm?.toString() ?? "",
     });
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (id: number) => {
+  const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this product?")) return;
 
     try {
@@ -205,7 +337,7 @@ export function ProductManager() {
     }
   };
 
-  const toggleProductStatus = async (id: number, currentStatus: boolean) => {
+  const toggleProductStatus = async (id: string, currentStatus: boolean) => {
     try {
       const { error } = await supabase
         .from("products")
@@ -272,6 +404,14 @@ export function ProductManager() {
                     rating: "",
                     reviews_count: "",
                     is_active: true,
+                    price_tiers: [],
+                    variant_axes: [],
+                    variant_rows: {},
+                    decoration_options: [],
+                    weight_kg: "",
+                    length_cm: "",
+                    width_cm: "",
+                    height_cm: "",
                   });
                 }}
                 className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
@@ -323,23 +463,84 @@ export function ProductManager() {
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="category">Category</Label>
-                    <Select
+                    <CategorySelect
                       value={formData.category}
-                      onValueChange={(value) => setFormData({ ...formData, category: value })}
+                      onChange={(value) => setFormData({ ...formData, category: value })}
+                      triggerClassName="bg-white/10 border-white/20"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Volume Pricing</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          price_tiers: [...formData.price_tiers, { min_quantity: "", unit_price: "" }],
+                        })
+                      }
+                      className="border-white/20 text-white hover:bg-white/10"
                     >
-                      <SelectTrigger className="bg-white/10 border-white/20">
-                        <SelectValue placeholder="Select category" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {categories.map((cat) => (
-                          <SelectItem key={cat} value={cat}>
-                            {cat.replace("-", " ").replace(/\b\w/g, l => l.toUpperCase())}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Tier
+                    </Button>
                   </div>
+                  {formData.price_tiers.length === 0 ? (
+                    <p className="text-sm text-white/50">
+                      No volume pricing. Every quantity pays the base price.
+                    </p>
+                  ) : (
+                    formData.price_tiers.map((tier, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                        <Input
+                          type="number"
+                          min="2"
+                          value={tier.min_quantity}
+                          onChange={(e) => updatePriceTier(index, "min_quantity", e.target.value)}
+                          placeholder="From qty (e.g. 50)"
+                          className="bg-white/10 border-white/20"
+                        />
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={tier.unit_price}
+                          onChange={(e) => updatePriceTier(index, "unit_price", e.target.value)}
+                          placeholder="Unit price (R)"
+                          className="bg-white/10 border-white/20"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setFormData({
+                              ...formData,
+                              price_tiers: formData.price_tiers.filter((_, i) => i !== index),
+                            })
+                          }
+                          className="text-red-400 hover:bg-red-500/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
                 </div>
+                <VariantMatrixEditor
+                  axes={formData.variant_axes}
+                  rows={formData.variant_rows}
+                  skuPrefix={formData.name}
+                  onAxesChange={(variant_axes) => setFormData({ ...formData, variant_axes })}
+                  onRowsChange={(variant_rows) => setFormData({ ...formData, variant_rows })}
+                />
+                <DecorationOptionsEditor
+                  rows={formData.decoration_options}
+                  onChange={(decoration_options) => setFormData({ ...formData, decoration_options })}
+                />
                 <div className="space-y-2">
                   <Label htmlFor="image_url">Image URL</Label>
                   <Input
@@ -350,6 +551,55 @@ export function ProductManager() {
                     className="bg-white/10 border-white/20"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Shipping (packed, per unit)</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={formData.weight_kg}
+                      onChange={(e) => setFormData({ ...formData, weight_kg: e.target.value })}
+                      placeholder="Weight (kg)"
+                      aria-label="Weight (kg)"
+                      className="bg-white/10 border-white/20"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={formData.length_cm}
+                      onChange={(e) => setFormData({ ...formData, length_cm: e.target.value })}
+                      placeholder="Length (cm)"
+                      aria-label="Length (cm)"
+                      className="bg-white/10 border-white/20"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={formData.width_cm}
+                      onChange={(e) => setFormData({ ...formData, width_cm: e.target.value })}
+                      placeholder="Width (cm)"
+                      aria-label="Width (cm)"
+                      className="bg-white/10 border-white/20"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={formData.height_cm}
+                      onChange={(e) => setFormData({ ...formData, height_cm: e.target.value })}
+                      placeholder="Height (cm)"
+                      aria-label="Height (cm)"
+                      className="bg-white/10 border-white/20"
+                    />
+                  </div>
+                  <p className="text-sm text-white/50">
+                    Unweighed products ship as 0.5 kg. Bulky items are charged on
+                    their volumetric weight.
+                  </p>
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="rating">Rating (0-5)</Label>
@@ -500,6 +750,20 @@ export function ProductManager() {
         ))}
       </div>
 
+      {products.length < totalProducts && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={loadMoreProducts}
+            disabled={loadingMore}
+            className="border-white/20 text-white hover:bg-white/10"
+          >
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more ({products.length} of {totalProducts})
+          </Button>
+        </div>
+      )}
+
       {products.length === 0 && (
         <Card className="bg-white/5 border-white/20">
           <CardContent className="p-12 text-center">
@@ -521,7 +785,7 @@ export function ProductManager() {
     </div>
   );
 
-  async function toggleProductStatus(id: number, currentStatus: boolean) {
+  async function toggleProductStatus(id: string, currentStatus: boolean) {
     try {
       const { error } = await supabase
         .from("products")
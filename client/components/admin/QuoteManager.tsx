@@ -0,0 +1,424 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { Quote, quotes } from "@/lib/supabaseClient";
+import {
+  calculateQuoteTotals,
+  canSendQuote,
+  defaultQuoteValidUntil,
+  getQuoteDisplayStatus,
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUSES,
+} from "@shared/quotes";
+import { toast } from "sonner";
+import { FileDown, FileText, Loader2, Send } from "lucide-react";
+
+// Editable pricing for one quote; values stay as typed until sent
+interface QuoteDraft {
+  prices: Record<string, { unit_price: string; setup_fee: string }>;
+  shipping_fee: string;
+  valid_until: string;
+  admin_notes: string;
+}
+
+interface QuoteManagerProps {
+  onQuoteSent?: (quote: Quote) => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+const toDraft = (quote: Quote): QuoteDraft => ({
+  prices: Object.fromEntries(
+    quote.items.map((item) => [
+      item.id,
+      {
+        unit_price: Number(item.unit_price).toString(),
+        setup_fee: Number(item.setup_fee).toString(),
+      },
+    ]),
+  ),
+  // A fresh request starts from the economy rate for its zone and weight
+  shipping_fee: Number(quote.shipping_fee).toString(),
+  valid_until: quote.valid_until ?? defaultQuoteValidUntil(),
+  admin_notes: quote.admin_notes ?? "",
+});
+
+/**
+ * Sales view of quote requests: reprice lines, set freight and validity, send
+ */
+export function QuoteManager({ onQuoteSent }: QuoteManagerProps) {
+  const [allQuotes, setAllQuotes] = useState<Quote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("requested");
+  const [drafts, setDrafts] = useState<Record<string, QuoteDraft>>({});
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const loadQuotes = async () => {
+    setLoading(true);
+    const list = await quotes.getAll();
+    setAllQuotes(list);
+    setDrafts(
+      Object.fromEntries(list.map((quote) => [quote.id, toDraft(quote)])),
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadQuotes();
+  }, []);
+
+  const updateDraft = (quoteId: string, changes: Partial<QuoteDraft>) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [quoteId]: { ...prev[quoteId], ...changes },
+    }));
+  };
+
+  const updatePrice = (
+    quoteId: string,
+    itemId: string,
+    field: "unit_price" | "setup_fee",
+    value: string,
+  ) => {
+    const draft = drafts[quoteId];
+    updateDraft(quoteId, {
+      prices: {
+        ...draft.prices,
+        [itemId]: { ...draft.prices[itemId], [field]: value },
+      },
+    });
+  };
+
+  const getDraftLines = (quote: Quote) =>
+    quote.items.map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      unit_price: parseFloat(drafts[quote.id]?.prices[item.id]?.unit_price),
+      setup_fee: parseFloat(drafts[quote.id]?.prices[item.id]?.setup_fee) || 0,
+    }));
+
+  const handleDownload = async (quote: Quote) => {
+    try {
+      await quotes.downloadPdf(quote.id);
+    } catch (error) {
+      console.error("Error downloading quote:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download quote",
+      );
+    }
+  };
+
+  const handleSend = async (quote: Quote) => {
+    const draft = drafts[quote.id];
+    const lines = getDraftLines(quote);
+    const shippingFee = parseFloat(draft.shipping_fee);
+
+    if (lines.some((line) => !(line.unit_price >= 0) || line.setup_fee < 0)) {
+      toast.error("Every line needs a unit price of zero or more");
+      return;
+    }
+    if (!(shippingFee >= 0)) {
+      toast.error("Enter a delivery amount of zero or more");
+      return;
+    }
+    if (!draft.valid_until) {
+      toast.error("Choose how long the quote is valid");
+      return;
+    }
+
+    setSendingId(quote.id);
+    const { error } = await quotes.send(
+      quote.id,
+      lines.map(({ id, unit_price, setup_fee }) => ({
+        id,
+        unit_price,
+        setup_fee,
+      })),
+      shippingFee,
+      draft.valid_until,
+      draft.admin_notes,
+    );
+    setSendingId(null);
+
+    if (error) {
+      console.error("Error sending quote:", error);
+      toast.error(error.message || "Failed to send quote");
+      return;
+    }
+
+    toast.success("Quote sent to customer");
+    onQuoteSent?.(quote);
+    loadQuotes();
+  };
+
+  const filteredQuotes =
+    statusFilter === "all"
+      ? allQuotes
+      : allQuotes.filter((quote) => quote.status === statusFilter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <h2 className="text-xl font-bold text-white">Quote Requests</h2>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-48 bg-gray-800 border-gray-700 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-gray-700">
+            <SelectItem value="all" className="text-white">
+              All Quotes
+            </SelectItem>
+            {QUOTE_STATUSES.map((status) => (
+              <SelectItem key={status} value={status} className="text-white">
+                {QUOTE_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+        </div>
+      ) : filteredQuotes.length === 0 ? (
+        <div className="text-center py-8">
+          <FileText className="h-12 w-12 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400">No quotes found</p>
+        </div>
+      ) : (
+        filteredQuotes.map((quote) => {
+          const draft = drafts[quote.id];
+          const editable = canSendQuote(quote.status);
+          const customer = quote.shipping_address?.customerInfo;
+          const preview = calculateQuoteTotals(
+            getDraftLines(quote).map((line) => ({
+              ...line,
+              unit_price: line.unit_price || 0,
+            })),
+            parseFloat(draft?.shipping_fee) || 0,
+          );
+
+          return (
+            <Card key={quote.id} className="bg-black/40 border-gray-800">
+              <CardContent className="p-4 space-y-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-semibold text-white">
+                      Quote #{quote.id.slice(0, 8)}
+                    </h3>
+                    {customer && (
+                      <p className="text-sm text-gray-400">
+                        {customer.firstName} {customer.lastName}
+                        {customer.company && `, ${customer.company}`} ·{" "}
+                        {customer.email} · {customer.phone}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Requested{" "}
+                      {new Date(quote.created_at).toLocaleString("en-ZA")}
+                    </p>
+                  </div>
+                  <Badge
+                    variant="outline"
+                    className="text-white border-gray-600"
+                  >
+                    {QUOTE_STATUS_LABELS[getQuoteDisplayStatus(quote)]}
+                  </Badge>
+                </div>
+
+                {quote.notes && (
+                  <p className="text-sm text-gray-300 rounded-lg bg-white/5 p-3">
+                    {quote.notes}
+                  </p>
+                )}
+
+                <div className="overflow-x-auto rounded-lg border border-white/10">
+                  <table className="w-full text-sm text-gray-300">
+                    <thead className="bg-white/5 text-white/70">
+                      <tr>
+                        <th className="p-2 text-left font-medium">Item</th>
+                        <th className="p-2 text-left font-medium">Qty</th>
+                        <th className="p-2 text-left font-medium">
+                          Unit price (R)
+                        </th>
+                        <th className="p-2 text-left font-medium">Setup (R)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {quote.items.map((item) => (
+                        <tr key={item.id} className="border-t border-white/10">
+                          <td className="p-2">
+                            {item.product_name}
+                            {item.variant_label && ` (${item.variant_label})`}
+                            {item.sku && (
+                              <span className="text-gray-500 ml-2">
+                                SKU {item.sku}
+                              </span>
+                            )}
+                            <CustomisationSummary
+                              customisation={item.customisation}
+                              className="text-xs text-gray-400"
+                            />
+                          </td>
+                          <td className="p-2">{item.quantity}</td>
+                          <td className="p-2">
+                            {editable ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={draft.prices[item.id].unit_price}
+                                onChange={(e) =>
+                                  updatePrice(
+                                    quote.id,
+                                    item.id,
+                                    "unit_price",
+                                    e.target.value,
+                                  )
+                                }
+                                className="h-8 w-28 bg-white/10 border-white/20 text-white"
+                              />
+                            ) : (
+                              formatCurrency(item.unit_price)
+                            )}
+                          </td>
+                          <td className="p-2">
+                            {editable ? (
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={draft.prices[item.id].setup_fee}
+                                onChange={(e) =>
+                                  updatePrice(
+                                    quote.id,
+                                    item.id,
+                                    "setup_fee",
+                                    e.target.value,
+                                  )
+                                }
+                                className="h-8 w-24 bg-white/10 border-white/20 text-white"
+                              />
+                            ) : (
+                              formatCurrency(item.setup_fee)
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {editable ? (
+                  <div className="grid md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label className="text-white">Delivery (R)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={draft.shipping_fee}
+                        onChange={(e) =>
+                          updateDraft(quote.id, {
+                            shipping_fee: e.target.value,
+                          })
+                        }
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-white">Valid until</Label>
+                      <Input
+                        type="date"
+                        value={draft.valid_until}
+                        onChange={(e) =>
+                          updateDraft(quote.id, { valid_until: e.target.value })
+                        }
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    </div>
+                    <div className="space-y-2 md:row-span-2">
+                      <Label className="text-white">Note to customer</Label>
+                      <Textarea
+                        rows={4}
+                        value={draft.admin_notes}
+                        onChange={(e) =>
+                          updateDraft(quote.id, { admin_notes: e.target.value })
+                        }
+                        placeholder="Lead time, payment terms..."
+                        className="bg-white/10 border-white/20 text-white"
+                      />
+                    </div>
+                    <div className="md:col-span-2 text-sm text-gray-300 space-y-1">
+                      <div>Subtotal: {formatCurrency(preview.subtotal)}</div>
+                      <div>VAT: {formatCurrency(preview.tax)}</div>
+                      <div className="font-semibold text-white">
+                        Total: {formatCurrency(preview.total)}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-300 space-y-1">
+                    <div>
+                      Total: {formatCurrency(quote.total)} (incl. delivery{" "}
+                      {formatCurrency(quote.shipping_fee)} and VAT)
+                    </div>
+                    {quote.valid_until && (
+                      <div>Valid until {quote.valid_until}</div>
+                    )}
+                    {quote.order_id && (
+                      <div>Order #{quote.order_id.slice(0, 8)}</div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  {quote.status !== "requested" && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownload(quote)}
+                      className="border-gray-700 text-gray-300 hover:text-white"
+                    >
+                      <FileDown className="h-4 w-4 mr-2" />
+                      PDF
+                    </Button>
+                  )}
+                  {editable && (
+                    <Button
+                      onClick={() => handleSend(quote)}
+                      disabled={sendingId === quote.id}
+                      className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+                    >
+                      {sendingId === quote.id ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-2" />
+                      )}
+                      {quote.status === "sent" ? "Update Quote" : "Send Quote"}
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,561 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ProvinceSelect } from "@/components/addresses/ProvinceSelect";
+import { shipping } from "@/lib/supabaseClient";
+import { Province, SA_PROVINCES } from "@shared/addresses";
+import {
+  getShippingOptions,
+  SHIPPING_SERVICE_LABELS,
+  SHIPPING_SERVICE_LEVELS,
+  ShippingConfig,
+  ShippingRate,
+  ShippingServiceLevel,
+  ShippingZone,
+  validatePostalCodeEntries,
+  validateShippingRate,
+} from "@shared/shipping";
+import { toast } from "sonner";
+import { Loader2, Plus, Save, Trash2, Truck } from "lucide-react";
+
+// Form rows keep raw input strings until save
+interface ZoneDraft {
+  id?: string;
+  name: string;
+  provinces: Province[];
+  postal_codes: string; // "8001, 7400-8099"
+  sort_order: string;
+}
+
+interface RateDraft {
+  id?: string;
+  zone_id: string | null;
+  service_level: ShippingServiceLevel;
+  min_weight_kg: string;
+  max_weight_kg: string;
+  base_fee: string;
+  per_kg_fee: string;
+  free_over: string;
+  delivery_estimate: string;
+}
+
+const toZoneDraft = (zone: ShippingZone): ZoneDraft => ({
+  id: zone.id,
+  name: zone.name,
+  provinces: zone.provinces,
+  postal_codes: zone.postal_codes.join(", "),
+  sort_order: zone.sort_order.toString(),
+});
+
+const optional = (value: number | null) =>
+  value == null ? "" : Number(value).toString();
+
+const toRateDraft = (rate: ShippingRate): RateDraft => ({
+  id: rate.id,
+  zone_id: rate.zone_id,
+  service_level: rate.service_level,
+  min_weight_kg: Number(rate.min_weight_kg).toString(),
+  max_weight_kg: optional(rate.max_weight_kg),
+  base_fee: Number(rate.base_fee).toString(),
+  per_kg_fee: Number(rate.per_kg_fee).toString(),
+  free_over: optional(rate.free_over),
+  delivery_estimate: rate.delivery_estimate ?? "",
+});
+
+const emptyRate = (zone_id: string | null): RateDraft => ({
+  zone_id,
+  service_level: "economy",
+  min_weight_kg: "0",
+  max_weight_kg: "",
+  base_fee: "",
+  per_kg_fee: "0",
+  free_over: "",
+  delivery_estimate: "",
+});
+
+const parseOptional = (value: string) =>
+  value.trim() === "" ? null : parseFloat(value);
+
+/**
+ * Shipping zones and their rate tables per service level and weight band,
+ * with a calculator to check what checkout will charge
+ */
+export function ShippingManager() {
+  const [loading, setLoading] = useState(true);
+  const [config, setConfig] = useState<ShippingConfig>({
+    zones: [],
+    rates: [],
+  });
+  const [zoneDrafts, setZoneDrafts] = useState<ZoneDraft[]>([]);
+  const [rateDrafts, setRateDrafts] = useState<RateDraft[]>([]);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [preview, setPreview] = useState({
+    province: "" as Province | "",
+    postalCode: "",
+    weight: "1",
+    subtotal: "500",
+  });
+
+  const load = async () => {
+    const loaded = await shipping.getConfig();
+    setConfig(loaded);
+    setZoneDrafts(loaded.zones.map(toZoneDraft));
+    setRateDrafts(loaded.rates.map(toRateDraft));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Runs a save or delete and reloads the rules afterwards
+  const run = async (
+    key: string,
+    action: () => PromiseLike<{ error: unknown }>,
+    success: string,
+  ) => {
+    setSavingKey(key);
+    const { error } = await action();
+    setSavingKey(null);
+    if (error) {
+      console.error("Error saving shipping rules:", error);
+      toast.error("Failed to save shipping rules");
+      return;
+    }
+    toast.success(success);
+    load();
+  };
+
+  const updateZone = (index: number, fields: Partial<ZoneDraft>) =>
+    setZoneDrafts((prev) =>
+      prev.map((zone, i) => (i === index ? { ...zone, ...fields } : zone)),
+    );
+
+  const updateRate = (index: number, fields: Partial<RateDraft>) =>
+    setRateDrafts((prev) =>
+      prev.map((rate, i) => (i === index ? { ...rate, ...fields } : rate)),
+    );
+
+  const saveZone = (draft: ZoneDraft, index: number) => {
+    const postalCodes = draft.postal_codes
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const problem = !draft.name.trim()
+      ? "Give the zone a name"
+      : validatePostalCodeEntries(postalCodes);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    run(
+      `zone-${index}`,
+      () =>
+        shipping.saveZone({
+          id: draft.id,
+          name: draft.name.trim(),
+          provinces: draft.provinces,
+          postal_codes: postalCodes,
+          sort_order: parseInt(draft.sort_order) || 0,
+        }),
+      "Zone saved",
+    );
+  };
+
+  const removeZone = (draft: ZoneDraft, index: number) => {
+    if (!draft.id) {
+      setZoneDrafts((prev) => prev.filter((_, i) => i !== index));
+      return;
+    }
+    if (!confirm(`Delete ${draft.name} and its rates?`)) return;
+    run(`zone-${index}`, () => shipping.removeZone(draft.id), "Zone deleted");
+  };
+
+  const saveRate = (draft: RateDraft, index: number) => {
+    const rate = {
+      id: draft.id,
+      zone_id: draft.zone_id,
+      service_level: draft.service_level,
+      min_weight_kg: parseFloat(draft.min_weight_kg),
+      max_weight_kg: parseOptional(draft.max_weight_kg),
+      base_fee: parseFloat(draft.base_fee),
+      per_kg_fee: parseFloat(draft.per_kg_fee) || 0,
+      free_over: parseOptional(draft.free_over),
+      delivery_estimate: draft.delivery_estimate.trim() || null,
+    };
+    const problem = validateShippingRate(rate);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    run(`rate-${index}`, () => shipping.saveRate(rate), "Rate saved");
+  };
+
+  const removeRate = (draft: RateDraft, index: number) => {
+    if (!draft.id) {
+      setRateDrafts((prev) => prev.filter((_, i) => i !== index));
+      return;
+    }
+    run(`rate-${index}`, () => shipping.removeRate(draft.id), "Rate deleted");
+  };
+
+  const previewOptions = getShippingOptions(config, {
+    items: [{ weight_kg: parseFloat(preview.weight) || 0, quantity: 1 }],
+    subtotal: parseFloat(preview.subtotal) || 0,
+    province: preview.province,
+    postalCode: preview.postalCode,
+  });
+
+  const renderRates = (zoneId: string | null) => (
+    <div className="space-y-2">
+      <div className="hidden md:grid grid-cols-[10rem_repeat(5,1fr)_1.5fr_auto] gap-2 text-xs text-gray-400">
+        <span>Service</span>
+        <span>From kg</span>
+        <span>Up to kg</span>
+        <span>Fee (R)</span>
+        <span>Per extra kg (R)</span>
+        <span>Free from (R)</span>
+        <span>Delivery time</span>
+        <span />
+      </div>
+      {rateDrafts.map((rate, index) =>
+        rate.zone_id !== zoneId ? null : (
+          <div
+            key={rate.id ?? `new-${index}`}
+            className="grid grid-cols-2 md:grid-cols-[10rem_repeat(5,1fr)_1.5fr_auto] gap-2 items-center"
+          >
+            <Select
+              value={rate.service_level}
+              onValueChange={(value) =>
+                updateRate(index, {
+                  service_level: value as ShippingServiceLevel,
+                })
+              }
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                {SHIPPING_SERVICE_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level} className="text-white">
+                    {SHIPPING_SERVICE_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={rate.min_weight_kg}
+              onChange={(e) =>
+                updateRate(index, { min_weight_kg: e.target.value })
+              }
+              aria-label="From kg"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={rate.max_weight_kg}
+              onChange={(e) =>
+                updateRate(index, { max_weight_kg: e.target.value })
+              }
+              placeholder="No limit"
+              aria-label="Up to kg"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate.base_fee}
+              onChange={(e) => updateRate(index, { base_fee: e.target.value })}
+              aria-label="Fee"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate.per_kg_fee}
+              onChange={(e) =>
+                updateRate(index, { per_kg_fee: e.target.value })
+              }
+              aria-label="Per extra kg"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate.free_over}
+              onChange={(e) => updateRate(index, { free_over: e.target.value })}
+              placeholder="Never"
+              aria-label="Free from"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              value={rate.delivery_estimate}
+              onChange={(e) =>
+                updateRate(index, { delivery_estimate: e.target.value })
+              }
+              placeholder="2-4 working days"
+              aria-label="Delivery time"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <div className="flex gap-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => saveRate(rate, index)}
+                disabled={savingKey === `rate-${index}`}
+                aria-label="Save rate"
+                className="text-gray-300 hover:text-white"
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeRate(rate, index)}
+                disabled={savingKey === `rate-${index}`}
+                aria-label="Delete rate"
+                className="text-red-400 hover:bg-red-500/20"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ),
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setRateDrafts((prev) => [...prev, emptyRate(zoneId)])}
+        className="border-gray-700 text-gray-300 hover:text-white"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Rate
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white">Shipping Rules</h2>
+          <p className="text-sm text-gray-400">
+            Postal codes are matched before provinces. A parcel is charged on
+            its actual or volumetric weight, whichever is more.
+          </p>
+        </div>
+        <Button
+          onClick={() =>
+            setZoneDrafts((prev) => [
+              ...prev,
+              {
+                name: "",
+                provinces: [],
+                postal_codes: "",
+                sort_order: prev.length.toString(),
+              },
+            ])
+          }
+          className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Zone
+        </Button>
+      </div>
+
+      <Card className="bg-black/40 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white text-base">
+            Shipping Calculator
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <ProvinceSelect
+              value={preview.province}
+              onChange={(province) => setPreview({ ...preview, province })}
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              value={preview.postalCode}
+              onChange={(e) =>
+                setPreview({ ...preview, postalCode: e.target.value })
+              }
+              placeholder="Postal code"
+              inputMode="numeric"
+              maxLength={4}
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={preview.weight}
+              onChange={(e) =>
+                setPreview({ ...preview, weight: e.target.value })
+              }
+              aria-label="Parcel weight (kg)"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={preview.subtotal}
+              onChange={(e) =>
+                setPreview({ ...preview, subtotal: e.target.value })
+              }
+              aria-label="Order subtotal (R)"
+              className="bg-gray-800 border-gray-700 text-white"
+            />
+          </div>
+          {previewOptions.length === 0 ? (
+            <p className="text-sm text-gray-400">No delivery options.</p>
+          ) : (
+            previewOptions.map((option) => (
+              <p key={option.service_level} className="text-sm text-gray-300">
+                {option.label}
+                {option.zone && ` (${option.zone})`}: R{option.fee.toFixed(2)}
+                {option.delivery_estimate && `, ${option.delivery_estimate}`}
+              </p>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {zoneDrafts.map((zone, index) => (
+        <Card
+          key={zone.id ?? `new-${index}`}
+          className="bg-black/40 border-gray-800"
+        >
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1 flex-1 min-w-48">
+                <Label className="text-xs text-gray-400">Zone</Label>
+                <Input
+                  value={zone.name}
+                  onChange={(e) => updateZone(index, { name: e.target.value })}
+                  placeholder="Cape Town Metro"
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-1 flex-1 min-w-48">
+                <Label className="text-xs text-gray-400">
+                  Postal codes and ranges
+                </Label>
+                <Input
+                  value={zone.postal_codes}
+                  onChange={(e) =>
+                    updateZone(index, { postal_codes: e.target.value })
+                  }
+                  placeholder="7400-8099, 7100"
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <div className="space-y-1 w-24">
+                <Label className="text-xs text-gray-400">Order</Label>
+                <Input
+                  type="number"
+                  value={zone.sort_order}
+                  onChange={(e) =>
+                    updateZone(index, { sort_order: e.target.value })
+                  }
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => saveZone(zone, index)}
+                disabled={savingKey === `zone-${index}`}
+                className="border-gray-700 text-gray-300 hover:text-white"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Zone
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeZone(zone, index)}
+                disabled={savingKey === `zone-${index}`}
+                aria-label="Delete zone"
+                className="text-red-400 hover:bg-red-500/20"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {SA_PROVINCES.map((province) => (
+                <div key={province} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`zone-${index}-${province}`}
+                    checked={zone.provinces.includes(province)}
+                    onCheckedChange={(checked) =>
+                      updateZone(index, {
+                        provinces: checked
+                          ? [...zone.provinces, province]
+                          : zone.provinces.filter((p) => p !== province),
+                      })
+                    }
+                  />
+                  <Label
+                    htmlFor={`zone-${index}-${province}`}
+                    className="text-sm text-gray-300"
+                  >
+                    {province}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {zone.id ? (
+              renderRates(zone.id)
+            ) : (
+              <p className="text-sm text-gray-400">
+                Save the zone to add its rates.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card className="bg-black/40 border-gray-800">
+        <CardHeader>
+          <CardTitle className="text-white text-base flex items-center">
+            <Truck className="h-4 w-4 mr-2" />
+            Every Address
+          </CardTitle>
+          <p className="text-sm text-gray-400">
+            Used where the customer's zone has no rate for the service, such as
+            collection from the Cape Town warehouse.
+          </p>
+        </CardHeader>
+        <CardContent>{renderRates(null)}</CardContent>
+      </Card>
+    </div>
+  );
+}
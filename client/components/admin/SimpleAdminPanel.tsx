@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { products, Product } from '@/lib/supabaseClient';
+import { PRODUCT_PAGE_SIZE } from '@shared/pagination';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,8 +10,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { CategorySelect } from './CategorySelect';
 import {
   Plus,
   Edit,
@@ -39,21 +40,12 @@ interface ProductFormData {
   is_active: boolean;
 }
 
-const categories = [
-  'corporate-clothing',
-  'corporate-gifts', 
-  'workwear',
-  'headwear-and-accessories',
-  'gifting',
-  'display',
-  'footwear',
-  'custom-products'
-];
-
 export default function SimpleAdminPanel() {
   const { user, loading: authLoading } = useAuth();
   const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [productCounts, setProductCounts] = useState({ total: 0, active: 0 });
   const [productsLoading, setProductsLoading] = useState(true);
+  const [loadingMoreProducts, setLoadingMoreProducts] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [showProductForm, setShowProductForm] = useState(false);
   const [formLoading, setFormLoading] = useState(false);
@@ -73,17 +65,21 @@ export default function SimpleAdminPanel() {
     is_active: true
   });
 
-  // Load products directly from Supabase
+  // Load the first page of products directly from Supabase
   const loadProducts = async () => {
     try {
       setProductsLoading(true);
-      const data = await products.getAllForAdmin();
-      setAllProducts(data);
+      const [page, counts] = await Promise.all([
+        products.getAllForAdmin(),
+        products.countForAdmin()
+      ]);
+      setAllProducts(page.products);
+      setProductCounts(counts);
     } catch (error) {
       console.error('Error loading products:', error);
       // Fallback to direct fetch if helper fails
       try {
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/products?select=*`, {
+        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/rest/v1/products?select=*&order=created_at.desc&limit=${PRODUCT_PAGE_SIZE}`, {
           headers: {
             'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
             'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
@@ -110,6 +106,19 @@ export default function SimpleAdminPanel() {
     }
   }, [user]);
 
+  const loadMoreProducts = async () => {
+    try {
+      setLoadingMoreProducts(true);
+      const page = await products.getAllForAdmin({ offset: allProducts.length });
+      setAllProducts(prev => [...prev, ...page.products]);
+    } catch (error) {
+      console.error('Error loading more products:', error);
+      toast.error('Failed to load more products');
+    } finally {
+      setLoadingMoreProducts(false);
+    }
+  };
+
   // Simple admin check - if user is logged in, treat as admin for demo
   const isAdmin = user?.email === 'jantjieskurt7@gmail.com' || user?.email?.includes('admin');
 
@@ -251,8 +260,8 @@ export default function SimpleAdminPanel() {
   };
 
   const stats = {
-    totalProducts: allProducts.length,
-    activeProducts: allProducts.filter(p => p.is_active).length,
+    totalProducts: productCounts.total,
+    activeProducts: productCounts.active,
     totalRevenue: allProducts.reduce((sum, product) => sum + (product.price * product.reviews_count), 0)
   };
 
@@ -365,21 +374,13 @@ export default function SimpleAdminPanel() {
                       </div>
                       <div>
                         <Label htmlFor="category" className="text-white">Category</Label>
-                        <Select 
-                          value={productForm.category} 
-                          onValueChange={(value) => setProductForm(prev => ({ ...prev, category: value }))}
-                        >
-                          <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent className="bg-gray-800 border-gray-700">
-                            {categories.map(cat => (
-                              <SelectItem key={cat} value={cat} className="text-white">
-                                {cat.replace('-', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        <CategorySelect
+                          value={productForm.category}
+                          onChange={(value) => setProductForm(prev => ({ ...prev, category: value }))}
+                          triggerClassName="bg-gray-800 border-gray-700 text-white"
+                          contentClassName="bg-gray-800 border-gray-700"
+                          itemClassName="text-white"
+                        />
                       </div>
                     </div>
 
@@ -560,6 +561,20 @@ export default function SimpleAdminPanel() {
                 ))
               )}
             </div>
+
+            {!productsLoading && allProducts.length < productCounts.total && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={loadMoreProducts}
+                  disabled={loadingMoreProducts}
+                  className="border-gray-700 text-white"
+                >
+                  {loadingMoreProducts && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more ({allProducts.length} of {productCounts.total})
+                </Button>
+              </div>
+            )}
           </TabsContent>
 
           {/* Design Management */}
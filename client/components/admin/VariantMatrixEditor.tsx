@@ -0,0 +1,249 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  buildVariantMatrix,
+  formatVariantLabel,
+  VariantAxis,
+  VariantOptions,
+  variantOptionsKey,
+} from "@shared/variants";
+import { Plus, Trash2 } from "lucide-react";
+
+// Axis as typed in the form; values are comma separated until save
+export interface VariantAxisRow {
+  name: string;
+  values: string;
+}
+
+// Per-combination fields, keyed by variantOptionsKey(options)
+export interface VariantRow {
+  sku: string;
+  price_delta: string;
+  stock: string;
+  is_active: boolean;
+}
+
+interface VariantMatrixEditorProps {
+  axes: VariantAxisRow[];
+  rows: Record<string, VariantRow>;
+  skuPrefix: string;
+  onAxesChange: (axes: VariantAxisRow[]) => void;
+  onRowsChange: (rows: Record<string, VariantRow>) => void;
+}
+
+export const parseVariantAxes = (axes: VariantAxisRow[]): VariantAxis[] =>
+  axes
+    .map((axis) => ({
+      name: axis.name.trim(),
+      values: axis.values
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean),
+    }))
+    .filter((axis) => axis.name && axis.values.length > 0);
+
+const defaultSku = (prefix: string, options: VariantOptions) =>
+  [prefix, ...Object.values(options)]
+    .join("-")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-");
+
+const getVariantRow = (
+  rows: Record<string, VariantRow>,
+  skuPrefix: string,
+  options: VariantOptions,
+): VariantRow =>
+  rows[variantOptionsKey(options)] ?? {
+    sku: defaultSku(skuPrefix, options),
+    price_delta: "0",
+    stock: "0",
+    is_active: true,
+  };
+
+/**
+ * Variants to save for the current axes; rows for removed values are dropped.
+ * Throws when a SKU is missing or repeated.
+ */
+export function buildVariantPayload(
+  axes: VariantAxisRow[],
+  rows: Record<string, VariantRow>,
+  skuPrefix: string,
+) {
+  const variants = buildVariantMatrix(parseVariantAxes(axes)).map((options) => {
+    const row = getVariantRow(rows, skuPrefix, options);
+    return {
+      sku: row.sku.trim(),
+      options,
+      price_delta: parseFloat(row.price_delta) || 0,
+      stock: Math.max(0, parseInt(row.stock) || 0),
+      is_active: row.is_active,
+    };
+  });
+
+  if (variants.some((variant) => !variant.sku)) {
+    throw new Error("Every variant needs a SKU.");
+  }
+  if (
+    new Set(variants.map((variant) => variant.sku)).size !== variants.length
+  ) {
+    throw new Error("Variant SKUs must be unique.");
+  }
+
+  return variants;
+}
+
+/**
+ * Option axes (e.g. Size, Colour) plus one editable row per combination
+ */
+export function VariantMatrixEditor({
+  axes,
+  rows,
+  skuPrefix,
+  onAxesChange,
+  onRowsChange,
+}: VariantMatrixEditorProps) {
+  const parsedAxes = parseVariantAxes(axes);
+  const matrix = buildVariantMatrix(parsedAxes);
+
+  const getRow = (options: VariantOptions) =>
+    getVariantRow(rows, skuPrefix, options);
+
+  const updateRow = (options: VariantOptions, changes: Partial<VariantRow>) => {
+    onRowsChange({
+      ...rows,
+      [variantOptionsKey(options)]: { ...getRow(options), ...changes },
+    });
+  };
+
+  const updateAxis = (index: number, changes: Partial<VariantAxisRow>) => {
+    onAxesChange(
+      axes.map((axis, i) => (i === index ? { ...axis, ...changes } : axis)),
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Variants</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onAxesChange([...axes, { name: "", values: "" }])}
+          className="border-white/20 text-white hover:bg-white/10"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      </div>
+
+      {axes.length === 0 && (
+        <p className="text-sm text-white/50">
+          No options. Add one (e.g. Size: S, M, L) to sell this product by
+          variant.
+        </p>
+      )}
+
+      {axes.map((axis, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center"
+        >
+          <Input
+            value={axis.name}
+            onChange={(e) => updateAxis(index, { name: e.target.value })}
+            placeholder="Option (e.g. Size)"
+            className="bg-white/10 border-white/20"
+          />
+          <Input
+            value={axis.values}
+            onChange={(e) => updateAxis(index, { values: e.target.value })}
+            placeholder="Values, comma separated (e.g. S, M, L)"
+            className="bg-white/10 border-white/20"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onAxesChange(axes.filter((_, i) => i !== index))}
+            className="text-red-400 hover:bg-red-500/20"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {matrix.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-white/10">
+          <table className="w-full text-sm">
+            <thead className="bg-white/5 text-white/70">
+              <tr>
+                <th className="p-2 text-left font-medium">Variant</th>
+                <th className="p-2 text-left font-medium">SKU</th>
+                <th className="p-2 text-left font-medium">Price +/- (R)</th>
+                <th className="p-2 text-left font-medium">Stock</th>
+                <th className="p-2 text-left font-medium">Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((options) => {
+                const row = getRow(options);
+                return (
+                  <tr
+                    key={variantOptionsKey(options)}
+                    className="border-t border-white/10"
+                  >
+                    <td className="p-2 whitespace-nowrap">
+                      {formatVariantLabel(options, parsedAxes)}
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        value={row.sku}
+                        onChange={(e) =>
+                          updateRow(options, { sku: e.target.value })
+                        }
+                        className="h-8 bg-white/10 border-white/20"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={row.price_delta}
+                        onChange={(e) =>
+                          updateRow(options, { price_delta: e.target.value })
+                        }
+                        className="h-8 w-24 bg-white/10 border-white/20"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={row.stock}
+                        onChange={(e) =>
+                          updateRow(options, { stock: e.target.value })
+                        }
+                        className="h-8 w-20 bg-white/10 border-white/20"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Switch
+                        checked={row.is_active}
+                        onCheckedChange={(checked) =>
+                          updateRow(options, { is_active: checked })
+                        }
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AuthModal } from "@/components/auth/AuthModal";
+import { useAuth } from "@/contexts/AuthContext";
+import { artwork, Product } from "@/lib/supabaseClient";
+import {
+  DECORATION_METHOD_LABELS,
+  LineCustomisation,
+} from "@shared/customisation";
+import { toast } from "sonner";
+import { Loader2, Upload } from "lucide-react";
+
+const NO_BRANDING = "none";
+
+const ARTWORK_TYPES =
+  "image/png,image/jpeg,image/svg+xml,application/pdf,application/postscript";
+const MAX_ARTWORK_BYTES = 20 * 1024 * 1024;
+
+interface BrandingOptionsProps {
+  product: Product;
+  value: LineCustomisation | null;
+  onChange: (customisation: LineCustomisation | null) => void;
+}
+
+/**
+ * Branding method, position, colours and logo upload for a product line
+ */
+export function BrandingOptions({
+  product,
+  value,
+  onChange,
+}: BrandingOptionsProps) {
+  const { user } = useAuth();
+  const [uploading, setUploading] = useState(false);
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+  const options = product.decoration_options ?? [];
+  const selected = options.find((option) => option.id === value?.option_id);
+
+  if (options.length === 0) return null;
+
+  const selectMethod = (optionId: string) => {
+    const option = options.find((o) => o.id === optionId);
+    onChange(
+      option
+        ? {
+            option_id: option.id,
+            method: option.method,
+            position: option.positions[0] ?? "",
+            colours: [],
+            artwork_file_id: value?.artwork_file_id ?? null,
+            artwork_path: value?.artwork_path ?? null,
+            artwork_name: value?.artwork_name ?? null,
+            notes: value?.notes ?? "",
+          }
+        : null,
+    );
+  };
+
+  const update = (changes: Partial<LineCustomisation>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleArtworkUpload = async (file: File | undefined) => {
+    if (!file || !user) return;
+    if (file.size > MAX_ARTWORK_BYTES) {
+      toast.error("Artwork must be smaller than 20 MB");
+      return;
+    }
+
+    setUploading(true);
+    const { data, error } = await artwork.upload(user.id, file);
+    setUploading(false);
+
+    if (error) {
+      console.error("Error uploading artwork:", error);
+      toast.error("Failed to upload artwork");
+      return;
+    }
+
+    update({
+      artwork_file_id: data.id,
+      artwork_path: data.file_path,
+      artwork_name: data.filename,
+    });
+    toast.success("Artwork uploaded");
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-white/20 bg-white/5 p-4">
+      <div className="space-y-2">
+        <Label className="text-white font-medium">Branding</Label>
+        <Select
+          value={value?.option_id ?? NO_BRANDING}
+          onValueChange={(optionId) =>
+            selectMethod(optionId === NO_BRANDING ? "" : optionId)
+          }
+        >
+          <SelectTrigger className="bg-white/10 border-white/20 text-white">
+            <SelectValue placeholder="Choose branding" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BRANDING}>No branding</SelectItem>
+            {options.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {DECORATION_METHOD_LABELS[option.method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <p className="text-xs text-gray-400">
+            {Number(selected.setup_fee) > 0 &&
+              `R${Number(selected.setup_fee).toFixed(2)} once-off setup`}
+            {Number(selected.setup_fee) > 0 &&
+              Number(selected.unit_fee) > 0 &&
+              " + "}
+            {Number(selected.unit_fee) > 0 &&
+              `R${Number(selected.unit_fee).toFixed(2)} per item`}
+          </p>
+        )}
+      </div>
+
+      {selected && value && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-white">Position</Label>
+              <Select
+                value={value.position}
+                onValueChange={(position) => update({ position })}
+              >
+                <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                  <SelectValue placeholder="Choose position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selected.positions.map((position) => (
+                    <SelectItem key={position} value={position}>
+                      {position}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-white">
+                Colours
+                {selected.max_colours !== null &&
+                  ` (up to ${selected.max_colours})`}
+              </Label>
+              <Input
+                value={value.colours.join(", ")}
+                onChange={(e) =>
+                  update({
+                    colours: e.target.value
+                      .split(",")
+                      .map((colour) => colour.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="e.g. Navy, White"
+                className="bg-white/10 border-white/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white">Artwork</Label>
+            {user ? (
+              <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-dashed border-white/30 px-4 py-3 text-sm text-gray-300 hover:bg-white/5">
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4" />
+                )}
+                {value.artwork_name ||
+                  "Upload your logo (PNG, JPG, SVG, PDF, AI)"}
+                <input
+                  type="file"
+                  accept={ARTWORK_TYPES}
+                  className="hidden"
+                  disabled={uploading}
+                  onChange={(e) => handleArtworkUpload(e.target.files?.[0])}
+                />
+              </label>
+            ) : (
+              <p className="text-sm text-gray-400">
+                <button
+                  type="button"
+                  onClick={() => setAuthModalOpen(true)}
+                  className="text-brand-red hover:underline"
+                >
+                  Sign in
+                </button>{" "}
+                to upload your logo, or describe it below and we will contact
+                you for artwork.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white">Notes for production</Label>
+            <Textarea
+              value={value.notes ?? ""}
+              onChange={(e) => update({ notes: e.target.value })}
+              placeholder="Logo size, Pantone references, names per item..."
+              rows={2}
+              className="bg-white/10 border-white/20 text-white"
+            />
+          </div>
+        </>
+      )}
+
+      <AuthModal
+        isOpen={authModalOpen}
+        onClose={() => setAuthModalOpen(false)}
+      />
+    </div>
+  );
+}
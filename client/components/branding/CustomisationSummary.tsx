@@ -0,0 +1,56 @@
+import { artwork } from "@/lib/supabaseClient";
+import {
+  describeCustomisation,
+  LineCustomisation,
+} from "@shared/customisation";
+import { toast } from "sonner";
+import { Paperclip } from "lucide-react";
+
+interface CustomisationSummaryProps {
+  customisation: LineCustomisation | null | undefined;
+  setupFee?: number;
+  className?: string;
+}
+
+/**
+ * One-line description of a line's branding, with its setup fee and artwork
+ */
+export function CustomisationSummary({
+  customisation,
+  setupFee,
+  className = "text-xs text-gray-400",
+}: CustomisationSummaryProps) {
+  if (!customisation?.option_id) return null;
+
+  const openArtwork = async () => {
+    if (!customisation.artwork_path) return;
+    const url = await artwork.getUrl(customisation.artwork_path);
+    if (url) {
+      window.open(url, "_blank", "noopener");
+    } else {
+      toast.error("Could not open artwork");
+    }
+  };
+
+  return (
+    <div className={className}>
+      <p>
+        {describeCustomisation(customisation)}
+        {Number(setupFee) > 0 && ` · R${Number(setupFee).toFixed(2)} setup`}
+      </p>
+      {customisation.artwork_path && (
+        <button
+          type="button"
+          onClick={openArtwork}
+          className="inline-flex items-center gap-1 hover:underline"
+        >
+          <Paperclip className="h-3 w-3" />
+          {customisation.artwork_name || "Artwork"}
+        </button>
+      )}
+      {customisation.notes?.trim() && (
+        <p className="italic">“{customisation.notes.trim()}”</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,830 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ProvinceSelect } from "@/components/addresses/ProvinceSelect";
+import { useToast } from "@/hooks/use-toast";
+import {
+  companies,
+  CompanyAccount,
+  CompanyAddress,
+  CompanyInvite,
+  CompanyMember,
+} from "@/lib/supabaseClient";
+import {
+  DEFAULT_COUNTRY,
+  normalisePostalCode,
+  Province,
+  validateAddress,
+} from "@shared/addresses";
+import {
+  canManageCompany,
+  COMPANY_ROLE_LABELS,
+  COMPANY_ROLES,
+  CompanyRole,
+  normaliseVatNumber,
+  validateVatNumber,
+  wouldRemoveLastOwner,
+} from "@shared/companies";
+import {
+  Building,
+  Check,
+  Loader2,
+  LogOut,
+  MapPin,
+  Plus,
+  Save,
+  Trash2,
+  UserPlus,
+  Users,
+  X,
+} from "lucide-react";
+
+interface CompanySettingsProps {
+  userId: string;
+}
+
+type AddressDraft = Omit<
+  CompanyAddress,
+  "created_at" | "updated_at" | "id" | "province"
+> & {
+  id?: string;
+  province: Province | "";
+};
+
+const emptyAddress = (companyId: string): AddressDraft => ({
+  company_id: companyId,
+  label: "",
+  recipient: "",
+  phone: "",
+  address: "",
+  city: "",
+  province: "",
+  postal_code: "",
+  country: DEFAULT_COUNTRY,
+  is_default: false,
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+/**
+ * Company account tab on the profile page. Anyone can set up a company;
+ * owners manage its details, members and shared delivery addresses.
+ */
+export function CompanySettings({ userId }: CompanySettingsProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [company, setCompany] = useState<CompanyAccount | null>(null);
+  const [role, setRole] = useState<CompanyRole | null>(null);
+  // Invitations to join a company, for customers who are not in one yet
+  const [invites, setInvites] = useState<CompanyInvite[]>([]);
+  const [details, setDetails] = useState({ name: "", vat_number: "" });
+  const [newMember, setNewMember] = useState<{
+    email: string;
+    role: CompanyRole;
+  }>({ email: "", role: "buyer" });
+  const [addressDraft, setAddressDraft] = useState<AddressDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    const [membership, pendingInvites] = await Promise.all([
+      companies.getForUser(userId),
+      companies.getInvitesForUser(userId),
+    ]);
+    setCompany(membership?.company ?? null);
+    setInvites(membership ? [] : pendingInvites);
+    setRole(membership?.role ?? null);
+    setDetails({
+      name: membership?.company.name ?? "",
+      vat_number: membership?.company.vat_number ?? "",
+    });
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [userId]);
+
+  const isOwner = canManageCompany(role);
+
+  // Runs an action, reports failures and reloads the company afterwards
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      await load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Something went wrong"),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkVatNumber = () => {
+    const vatError = validateVatNumber(details.vat_number);
+    if (vatError) {
+      toast({ title: "Error", description: vatError, variant: "destructive" });
+    }
+    return !vatError;
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkVatNumber()) return;
+    run(async () => {
+      await companies.create({
+        name: details.name,
+        vat_number: normaliseVatNumber(details.vat_number),
+      });
+    }, "Company account created");
+  };
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!company || !checkVatNumber()) return;
+    run(async () => {
+      const { error } = await companies.update(company.id, {
+        name: details.name.trim(),
+        vat_number: normaliseVatNumber(details.vat_number),
+      });
+      if (error) throw new Error("Failed to update company details");
+    }, "Company details updated");
+  };
+
+  const handleInviteMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!company) return;
+    run(async () => {
+      await companies.invite(company.id, newMember);
+      setNewMember({ email: "", role: "buyer" });
+    }, "Invitation sent");
+  };
+
+  const handleAcceptInvite = (invite: CompanyInvite) => {
+    if (
+      !confirm(
+        `Join ${invite.company?.name ?? "this company"}? Orders you place from now on will belong to the company, and its owners and approvers will see them.`,
+      )
+    ) {
+      return;
+    }
+    run(
+      async () => {
+        await companies.acceptInvite(invite.company_id);
+      },
+      `You have joined ${invite.company?.name ?? "the company"}`,
+    );
+  };
+
+  // The invitee declining and an owner withdrawing are the same call
+  const handleRemoveInvite = (invite: CompanyInvite, success: string) => {
+    run(
+      () => companies.removeInvite(invite.company_id, invite.user_id),
+      success,
+    );
+  };
+
+  const handleRemoveMember = (memberId: string) => {
+    if (!company) return;
+    const leaving = memberId === userId;
+    if (
+      !confirm(
+        leaving
+          ? "Leave this company? Your future orders will be placed as an individual."
+          : "Remove this member from the company?",
+      )
+    ) {
+      return;
+    }
+    run(
+      () => companies.removeMember(company.id, memberId),
+      leaving ? "You have left the company" : "Member removed",
+    );
+  };
+
+  const handleSpendingLimit = (member: CompanyMember, value: string) => {
+    if (!company) return;
+    const limit = value.trim() === "" ? null : Number(value);
+    if (limit !== null && (Number.isNaN(limit) || limit < 0)) {
+      toast({
+        title: "Error",
+        description: "Enter a spending limit in Rand, or leave it empty",
+        variant: "destructive",
+      });
+      return;
+    }
+    const current =
+      member.spending_limit == null ? null : Number(member.spending_limit);
+    if (limit === current) return;
+    run(async () => {
+      await companies.updateMember(company.id, member.user_id, {
+        spending_limit: limit,
+      });
+    }, "Spending limit updated");
+  };
+
+  const handleSaveAddress = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addressDraft) return;
+    const problem = validateAddress({
+      ...addressDraft,
+      postalCode: addressDraft.postal_code,
+    });
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+    run(async () => {
+      const { error } = await companies.saveAddress({
+        ...addressDraft,
+        province: addressDraft.province as Province,
+        postal_code: normalisePostalCode(addressDraft.postal_code),
+      });
+      if (error) throw new Error("Failed to save address");
+      setAddressDraft(null);
+    }, "Address saved");
+  };
+
+  const handleRemoveAddress = (addressId: string) => {
+    if (!confirm("Delete this address?")) return;
+    run(async () => {
+      const { error } = await companies.removeAddress(addressId);
+      if (error) throw new Error("Failed to delete address");
+    }, "Address deleted");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!company) {
+    return (
+      <div className="space-y-6">
+        {invites.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <UserPlus className="h-5 w-5" />
+                <span>Invitations</span>
+              </CardTitle>
+              <p className="text-muted-foreground">
+                Once you join, the orders you place belong to the company.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invites.map((invite) => (
+                <div
+                  key={invite.company_id}
+                  className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {invite.company?.name ?? "A company"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Invited as {COMPANY_ROLE_LABELS[invite.role]}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => handleAcceptInvite(invite)}
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Join
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() =>
+                        handleRemoveInvite(invite, "Invitation declined")
+                      }
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Building className="h-5 w-5" />
+              <span>Company Account</span>
+            </CardTitle>
+            <p className="text-muted-foreground">
+              Order on behalf of your company, share delivery addresses with
+              colleagues and get invoices with your VAT number. To join an
+              existing company account, ask its owner to invite your email.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="company_name">Company Name</Label>
+                  <Input
+                    id="company_name"
+                    required
+                    value={details.name}
+                    onChange={(e) =>
+                      setDetails({ ...details, name: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="company_vat">VAT Number (Optional)</Label>
+                  <Input
+                    id="company_vat"
+                    value={details.vat_number}
+                    onChange={(e) =>
+                      setDetails({ ...details, vat_number: e.target.value })
+                    }
+                    placeholder="4123456789"
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                disabled={busy}
+                className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+              >
+                {busy ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Create Company Account
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <Building className="h-5 w-5" />
+              <span>{company.name}</span>
+            </span>
+            <Badge variant="secondary">{COMPANY_ROLE_LABELS[role!]}</Badge>
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Orders you place are attributed to this company.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isOwner ? (
+            <form onSubmit={handleSaveDetails} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="company_name">Company Name</Label>
+                  <Input
+                    id="company_name"
+                    required
+                    value={details.name}
+                    onChange={(e) =>
+                      setDetails({ ...details, name: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="company_vat">VAT Number</Label>
+                  <Input
+                    id="company_vat"
+                    value={details.vat_number}
+                    onChange={(e) =>
+                      setDetails({ ...details, vat_number: e.target.value })
+                    }
+                    placeholder="4123456789"
+                  />
+                </div>
+              </div>
+              <Button type="submit" disabled={busy} variant="outline">
+                <Save className="h-4 w-4 mr-2" />
+                Save Details
+              </Button>
+            </form>
+          ) : (
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">VAT number: </span>
+                {company.vat_number || "Not registered"}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={() => handleRemoveMember(userId)}
+                className="mt-3"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Leave Company
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Members</span>
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Buyers order for the company. Approvers and owners also see every
+            company order and approve those over a member's spending limit, and
+            owners manage the account.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {company.members.map((member) => (
+            <div
+              key={member.user_id}
+              className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div>
+                <p className="font-medium">
+                  {member.profile?.full_name || member.profile?.email}
+                  {member.user_id === userId && " (you)"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {member.profile?.email}
+                </p>
+                {!isOwner && member.spending_limit != null && (
+                  <p className="text-sm text-muted-foreground">
+                    Spending limit {formatCurrency(member.spending_limit)}
+                  </p>
+                )}
+              </div>
+              {isOwner ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    key={`${member.user_id}-${member.spending_limit}`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    defaultValue={member.spending_limit ?? ""}
+                    disabled={busy}
+                    onBlur={(e) => handleSpendingLimit(member, e.target.value)}
+                    placeholder="No limit"
+                    aria-label="Spending limit"
+                    title="Orders above this amount (incl. VAT) need approval"
+                    className="w-32"
+                  />
+                  <Select
+                    value={member.role}
+                    disabled={busy}
+                    onValueChange={(value) =>
+                      run(async () => {
+                        if (
+                          wouldRemoveLastOwner(
+                            company.members,
+                            member.user_id,
+                            value as CompanyRole,
+                          )
+                        ) {
+                          throw new Error("A company needs at least one owner");
+                        }
+                        await companies.updateMember(
+                          company.id,
+                          member.user_id,
+                          { role: value as CompanyRole },
+                        );
+                      }, "Role updated")
+                    }
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPANY_ROLES.map((r) => (
+                        <SelectItem key={r} value={r}>
+                          {COMPANY_ROLE_LABELS[r]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={
+                      busy ||
+                      wouldRemoveLastOwner(
+                        company.members,
+                        member.user_id,
+                        null,
+                      )
+                    }
+                    onClick={() => handleRemoveMember(member.user_id)}
+                    aria-label="Remove member"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Badge variant="outline">
+                  {COMPANY_ROLE_LABELS[member.role]}
+                </Badge>
+              )}
+            </div>
+          ))}
+
+          {isOwner &&
+            company.invites.map((invite) => (
+              <div
+                key={invite.user_id}
+                className="flex items-center justify-between gap-4 p-3 border border-dashed rounded-lg"
+              >
+                <div>
+                  <p className="font-medium">{invite.email}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Invited as {COMPANY_ROLE_LABELS[invite.role]}, waiting for
+                    them to accept
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={busy}
+                  onClick={() =>
+                    handleRemoveInvite(invite, "Invitation withdrawn")
+                  }
+                  aria-label="Withdraw invitation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+          {isOwner && (
+            <form
+              onSubmit={handleInviteMember}
+              className="flex flex-col sm:flex-row gap-2 pt-2"
+            >
+              <Input
+                type="email"
+                required
+                value={newMember.email}
+                onChange={(e) =>
+                  setNewMember({ ...newMember, email: e.target.value })
+                }
+                placeholder="colleague@company.co.za"
+              />
+              <Select
+                value={newMember.role}
+                onValueChange={(value) =>
+                  setNewMember({ ...newMember, role: value as CompanyRole })
+                }
+              >
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPANY_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {COMPANY_ROLE_LABELS[r]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={busy}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <MapPin className="h-5 w-5" />
+              <span>Delivery Addresses</span>
+            </span>
+            {isOwner && !addressDraft && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setAddressDraft(emptyAddress(company.id))}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Address
+              </Button>
+            )}
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Shared with everyone in the company and offered at checkout.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {company.addresses.length === 0 && !addressDraft && (
+            <p className="text-sm text-muted-foreground">
+              No delivery addresses saved yet.
+            </p>
+          )}
+
+          {company.addresses.map((address) => (
+            <div
+              key={address.id}
+              className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+            >
+              <div className="text-sm">
+                <p className="font-medium">
+                  {address.label}
+                  {address.is_default && (
+                    <Badge variant="secondary" className="ml-2">
+                      Default
+                    </Badge>
+                  )}
+                </p>
+                {address.recipient && <p>{address.recipient}</p>}
+                <p className="text-muted-foreground">
+                  {address.address}, {address.city}, {address.province},{" "}
+                  {address.postal_code}
+                </p>
+              </div>
+              {isOwner && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => setAddressDraft({ ...address })}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busy}
+                    onClick={() => handleRemoveAddress(address.id)}
+                    aria-label="Delete address"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {addressDraft && (
+            <form
+              onSubmit={handleSaveAddress}
+              className="space-y-4 p-4 border rounded-lg"
+            >
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="address_label">Label</Label>
+                  <Input
+                    id="address_label"
+                    required
+                    value={addressDraft.label}
+                    onChange={(e) =>
+                      setAddressDraft({
+                        ...addressDraft,
+                        label: e.target.value,
+                      })
+                    }
+                    placeholder="Head office"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="address_recipient">Recipient</Label>
+                  <Input
+                    id="address_recipient"
+                    value={addressDraft.recipient ?? ""}
+                    onChange={(e) =>
+                      setAddressDraft({
+                        ...addressDraft,
+                        recipient: e.target.value,
+                      })
+                    }
+                    placeholder="Receiving desk"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address_street">Street Address</Label>
+                <Input
+                  id="address_street"
+                  required
+                  value={addressDraft.address}
+                  onChange={(e) =>
+                    setAddressDraft({
+                      ...addressDraft,
+                      address: e.target.value,
+                    })
+                  }
+                />
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="address_city">City</Label>
+                  <Input
+                    id="address_city"
+                    required
+                    value={addressDraft.city}
+                    onChange={(e) =>
+                      setAddressDraft({ ...addressDraft, city: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="address_province">Province</Label>
+                  <ProvinceSelect
+                    id="address_province"
+                    value={addressDraft.province}
+                    onChange={(province) =>
+                      setAddressDraft({ ...addressDraft, province })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="address_postal_code">Postal Code</Label>
+                  <Input
+                    id="address_postal_code"
+                    required
+                    inputMode="numeric"
+                    maxLength={4}
+                    value={addressDraft.postal_code}
+                    onChange={(e) =>
+                      setAddressDraft({
+                        ...addressDraft,
+                        postal_code: e.target.value,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="address_default"
+                  checked={addressDraft.is_default}
+                  onCheckedChange={(checked) =>
+                    setAddressDraft({ ...addressDraft, is_default: !!checked })
+                  }
+                />
+                <Label htmlFor="address_default" className="text-sm">
+                  Default delivery address
+                </Label>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={busy}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Address
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setAddressDraft(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { Order } from "@/lib/supabaseClient";
+import { ApprovalDecision, validateApprovalDecision } from "@shared/approvals";
+import {
+  Calendar,
+  CheckCircle,
+  Loader2,
+  UserCheck,
+  XCircle,
+} from "lucide-react";
+
+interface ApprovalRequestCardProps {
+  order: Order;
+  onDecide: (
+    order: Order,
+    decision: ApprovalDecision,
+    comment: string,
+  ) => Promise<void>;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-ZA", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * A company order over the buyer's spending limit, for an owner or approver
+ * to approve or reject with a comment
+ */
+export function ApprovalRequestCard({
+  order,
+  onDecide,
+}: ApprovalRequestCardProps) {
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [deciding, setDeciding] = useState<ApprovalDecision | null>(null);
+  const buyer = order.shipping_address?.customerInfo;
+
+  const decide = async (decision: ApprovalDecision) => {
+    const problem = validateApprovalDecision(decision, comment);
+    setError(problem);
+    if (problem) return;
+    setDeciding(decision);
+    try {
+      await onDecide(order, decision, comment.trim());
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <UserCheck className="h-5 w-5 mr-2 text-amber-600" />
+            Order #{order.id.slice(-8).toUpperCase()}
+          </CardTitle>
+          <span className="font-semibold text-brand-red">
+            {formatCurrency(order.total)}
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-4 w-4" />
+            <span>{formatDate(order.created_at)}</span>
+          </div>
+          {buyer && (
+            <div>
+              Placed by {[buyer.firstName, buyer.lastName].join(" ").trim()}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          {order.items.map((item) => (
+            <div
+              key={item.id}
+              className="flex justify-between items-center text-sm"
+            >
+              <div className="flex-1">
+                <span className="font-medium">{item.product_name}</span>
+                {item.variant_label && (
+                  <span className="text-muted-foreground ml-1">
+                    ({item.variant_label})
+                  </span>
+                )}
+                <span className="text-muted-foreground ml-2">
+                  × {item.quantity} @ {formatCurrency(item.unit_price)}
+                </span>
+                <CustomisationSummary
+                  customisation={item.customisation}
+                  setupFee={item.setup_fee}
+                  className="text-xs text-muted-foreground"
+                />
+              </div>
+              <span className="font-semibold">
+                {formatCurrency(item.line_total)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Comment for the buyer (required when rejecting)"
+          rows={2}
+        />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => decide("approved")}
+            disabled={deciding !== null}
+            className="flex-1 bg-green-600 hover:bg-green-700"
+          >
+            {deciding === "approved" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            )}
+            Approve
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => decide("rejected")}
+            disabled={deciding !== null}
+            className="flex-1"
+          >
+            {deciding === "rejected" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <XCircle className="h-4 w-4 mr-2" />
+            )}
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { CONTACT_EMAIL } from "@/lib/contact";
+import { payments } from "@/lib/supabaseClient";
+import {
+  PAYMENT_STATUS_LABELS,
+  PaymentStatus,
+  PROOF_OF_PAYMENT_TYPES,
+  validateProofOfPayment,
+} from "@shared/payments";
+import { toast } from "sonner";
+import { Copy, Landmark, Loader2, Upload } from "lucide-react";
+
+// Configured per deployment; see the environment variables in replit.md
+const BANK_DETAILS = [
+  ["Bank", import.meta.env.VITE_EFT_BANK_NAME],
+  ["Account name", import.meta.env.VITE_EFT_ACCOUNT_NAME],
+  ["Account number", import.meta.env.VITE_EFT_ACCOUNT_NUMBER],
+  ["Branch code", import.meta.env.VITE_EFT_BRANCH_CODE],
+].filter(([, value]) => value) as [string, string][];
+
+const STATUS_COLORS: Record<PaymentStatus, string> = {
+  unpaid: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  proof_submitted: "bg-blue-100 text-blue-800 border-blue-300",
+  paid: "bg-green-100 text-green-800 border-green-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+  refunded: "bg-gray-100 text-gray-800 border-gray-300",
+};
+
+interface EftPaymentDetailsProps {
+  paymentReference: string;
+  total: number;
+  paymentStatus?: PaymentStatus;
+  // Proof of payment can only be uploaded to a signed-in customer's order;
+  // guests are asked to email it
+  orderId?: string;
+  onProofUploaded?: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+/**
+ * Bank details and payment reference for an EFT order, with proof-of-payment upload
+ */
+export function EftPaymentDetails({
+  paymentReference,
+  total,
+  paymentStatus = "unpaid",
+  orderId,
+  onProofUploaded,
+}: EftPaymentDetailsProps) {
+  const { user } = useAuth();
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const copyReference = async () => {
+    try {
+      await navigator.clipboard.writeText(paymentReference);
+      toast.success("Payment reference copied");
+    } catch {
+      toast.error("Could not copy the reference");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !user || !orderId) return;
+
+    const problem = validateProofOfPayment(file);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setUploading(true);
+    const { error } = await payments.uploadProof(user.id, orderId, file);
+    setUploading(false);
+
+    if (error) {
+      console.error("Proof of payment upload failed:", error);
+      toast.error("Failed to upload proof of payment");
+      return;
+    }
+
+    toast.success("Proof of payment received. We'll confirm once it clears.");
+    onProofUploaded?.();
+  };
+
+  return (
+    <div className="rounded-xl border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 p-4 space-y-3 text-left text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center font-semibold text-foreground">
+          <Landmark className="h-4 w-4 mr-2 text-blue-600" />
+          Pay by EFT
+        </div>
+        <Badge className={STATUS_COLORS[paymentStatus]}>
+          {PAYMENT_STATUS_LABELS[paymentStatus]}
+        </Badge>
+      </div>
+
+      {paymentStatus !== "paid" && (
+        <>
+          <p className="text-muted-foreground">
+            Transfer {formatCurrency(total)} using the reference below. We start
+            processing your order once the payment reflects.
+          </p>
+
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {BANK_DETAILS.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="font-medium text-foreground">{value}</dd>
+              </div>
+            ))}
+            <dt className="text-muted-foreground">Reference</dt>
+            <dd className="flex items-center font-mono font-bold text-foreground">
+              {paymentReference}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 ml-1"
+                onClick={copyReference}
+                aria-label="Copy payment reference"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </dd>
+          </dl>
+
+          {orderId && user ? (
+            <>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={PROOF_OF_PAYMENT_TYPES.join(",")}
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={uploading}
+                onClick={() => fileInput.current?.click()}
+              >
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {paymentStatus === "proof_submitted"
+                  ? "Replace Proof of Payment"
+                  : "Upload Proof of Payment"}
+              </Button>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Email your proof of payment to{" "}
+              <a
+                href={`mailto:${CONTACT_EMAIL}?subject=${encodeURIComponent(`Proof of payment ${paymentReference}`)}`}
+                className="font-medium text-blue-600 underline"
+              >
+                {CONTACT_EMAIL}
+              </a>{" "}
+              with the reference above as the subject. We'll confirm your
+              payment once it clears.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { OrderStatusChange } from "@/lib/supabaseClient";
+import { cn } from "@/lib/utils";
+import { ORDER_STATUS_LABELS } from "@shared/orderStatus";
+
+interface OrderStatusTimelineProps {
+  history?: OrderStatusChange[];
+  className?: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-ZA", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function OrderStatusTimeline({
+  history = [],
+  className,
+}: OrderStatusTimelineProps) {
+  const entries = [...history].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  );
+
+  if (entries.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted-foreground", className)}>
+        No status history yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className={cn("relative border-l border-border ml-2", className)}>
+      {entries.map((entry, index) => (
+        <li key={entry.id} className="mb-4 ml-4 last:mb-0">
+          <span
+            className={cn(
+              "absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full",
+              index === entries.length - 1
+                ? "bg-brand-red"
+                : "bg-muted-foreground",
+            )}
+          />
+          <p className="text-sm font-medium">
+            {entry.from_status
+              ? ORDER_STATUS_LABELS[entry.to_status]
+              : "Order placed"}
+          </p>
+          <time className="text-xs text-muted-foreground">
+            {formatDate(entry.created_at)}
+          </time>
+          {entry.note && (
+            <p className="text-sm text-muted-foreground mt-1">{entry.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { Quote } from "@/lib/supabaseClient";
+import {
+  canAcceptQuote,
+  getQuoteDisplayStatus,
+  QUOTE_STATUS_LABELS,
+  QuoteDisplayStatus,
+} from "@shared/quotes";
+import type { OrderPaymentMethod } from "@shared/api";
+import {
+  Calendar,
+  CheckCircle,
+  FileDown,
+  FileText,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+
+interface QuoteCardProps {
+  quote: Quote;
+  onAccept: (quote: Quote, paymentMethod: OrderPaymentMethod) => Promise<void>;
+  onDecline: (quote: Quote) => Promise<void>;
+  onDownload: (quote: Quote) => Promise<void>;
+}
+
+const STATUS_COLORS: Record<QuoteDisplayStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  sent: "bg-blue-100 text-blue-800 border-blue-300",
+  accepted: "bg-green-100 text-green-800 border-green-300",
+  declined: "bg-red-100 text-red-800 border-red-300",
+  expired: "bg-gray-100 text-gray-800 border-gray-300",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-ZA", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+/**
+ * A customer's quote with its lines, and accept/decline once sales have sent it
+ */
+export function QuoteCard({
+  quote,
+  onAccept,
+  onDecline,
+  onDownload,
+}: QuoteCardProps) {
+  const [paymentMethod, setPaymentMethod] = useState<OrderPaymentMethod>("eft");
+  const [responding, setResponding] = useState(false);
+  const status = getQuoteDisplayStatus(quote);
+  const priced = quote.status !== "requested";
+
+  const respond = async (action: () => Promise<void>) => {
+    setResponding(true);
+    try {
+      await action();
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow duration-200">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center">
+            <FileText className="h-5 w-5 mr-2 text-brand-red" />
+            Quote #{quote.id.slice(-8).toUpperCase()}
+          </CardTitle>
+          <Badge className={STATUS_COLORS[status]}>
+            {QUOTE_STATUS_LABELS[status]}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-sm text-muted-foreground">
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-4 w-4" />
+            <span>Requested {formatDate(quote.created_at)}</span>
+          </div>
+          {quote.valid_until && (
+            <div>Valid until {formatDate(quote.valid_until)}</div>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          {quote.items.map((item) => (
+            <div
+              key={item.id}
+              className="flex justify-between items-center text-sm"
+            >
+              <div className="flex-1">
+                <span className="font-medium">{item.product_name}</span>
+                {item.variant_label && (
+                  <span className="text-muted-foreground ml-1">
+                    ({item.variant_label})
+                  </span>
+                )}
+                <span className="text-muted-foreground ml-2">
+                  × {item.quantity}
+                  {priced && ` @ ${formatCurrency(item.unit_price)}`}
+                </span>
+                <CustomisationSummary
+                  customisation={item.customisation}
+                  setupFee={priced ? item.setup_fee : undefined}
+                  className="text-xs text-muted-foreground"
+                />
+              </div>
+              {priced && (
+                <span className="font-semibold">
+                  {formatCurrency(item.line_total)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {quote.notes && (
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">Your notes: </span>
+            {quote.notes}
+          </p>
+        )}
+
+        {priced ? (
+          <>
+            <Separator />
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(quote.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Delivery</span>
+                <span>{formatCurrency(quote.shipping_fee)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">VAT</span>
+                <span>{formatCurrency(quote.tax)}</span>
+              </div>
+              <div className="flex justify-between font-bold text-base">
+                <span>Total</span>
+                <span className="text-brand-red">
+                  {formatCurrency(quote.total)}
+                </span>
+              </div>
+            </div>
+            {quote.admin_notes && (
+              <p className="text-sm rounded-lg bg-muted/50 p-3">
+                {quote.admin_notes}
+              </p>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onDownload(quote)}
+              className="w-full"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              Download Quote PDF
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Our sales team is preparing your quote.
+          </p>
+        )}
+
+        {canAcceptQuote(quote) && (
+          <div className="space-y-3 pt-2">
+            <Select
+              value={paymentMethod}
+              onValueChange={(value) =>
+                setPaymentMethod(value as OrderPaymentMethod)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="eft">EFT/Bank Transfer</SelectItem>
+                <SelectItem value="pending">
+                  Pay on Delivery / Manual Payment
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => respond(() => onAccept(quote, paymentMethod))}
+                disabled={responding}
+                className="flex-1 bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+              >
+                {responding ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                )}
+                Accept &amp; Place Order
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => respond(() => onDecline(quote))}
+                disabled={responding}
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {quote.order_id && (
+          <p className="text-sm text-muted-foreground">
+            Ordered as #{quote.order_id.slice(-8).toUpperCase()}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,141 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { isValidCardNumber, parseCardExpiry } from "@shared/payments";
+import type { CardDetails } from "@shared/api";
+
+// Values as typed; parseCardForm() turns them into CardDetails
+export interface CardFormState {
+  name: string;
+  number: string;
+  expiry: string; // MM/YY
+  cvc: string;
+}
+
+export const emptyCardForm: CardFormState = {
+  name: "",
+  number: "",
+  expiry: "",
+  cvc: "",
+};
+
+/**
+ * Validate the typed card, returning the first problem to show the customer
+ */
+export function parseCardForm(
+  form: CardFormState,
+): { card: CardDetails } | { error: string } {
+  if (!isValidCardNumber(form.number)) {
+    return { error: "Please check your card number" };
+  }
+  const expiry = parseCardExpiry(form.expiry);
+  if (!expiry) {
+    return { error: "Please enter a valid expiry date (MM/YY)" };
+  }
+  if (!/^\d{3,4}$/.test(form.cvc.trim())) {
+    return { error: "Please enter the 3 or 4 digit security code" };
+  }
+
+  return {
+    card: {
+      number: form.number.replace(/[\s-]/g, ""),
+      ...expiry,
+      cvc: form.cvc.trim(),
+      name: form.name.trim() || undefined,
+    },
+  };
+}
+
+// Group digits in fours as the customer types
+const formatCardNumber = (value: string) =>
+  value
+    .replace(/\D/g, "")
+    .slice(0, 19)
+    .replace(/(\d{4})(?=\d)/g, "$1 ");
+
+const formatExpiry = (value: string) => {
+  const digits = value.replace(/\D/g, "").slice(0, 4);
+  return digits.length > 2
+    ? `${digits.slice(0, 2)}/${digits.slice(2)}`
+    : digits;
+};
+
+interface CardDetailsFormProps {
+  value: CardFormState;
+  onChange: (value: CardFormState) => void;
+  inputClassName?: string;
+  labelClassName?: string;
+}
+
+/**
+ * Card number, expiry and CVC fields. The card is only sent to our server,
+ * which exchanges it for a payment provider token.
+ */
+export function CardDetailsForm({
+  value,
+  onChange,
+  inputClassName,
+  labelClassName,
+}: CardDetailsFormProps) {
+  const update = (field: keyof CardFormState, fieldValue: string) =>
+    onChange({ ...value, [field]: fieldValue });
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor="cardName" className={labelClassName}>
+          Name on Card
+        </Label>
+        <Input
+          id="cardName"
+          autoComplete="cc-name"
+          value={value.name}
+          onChange={(e) => update("name", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="col-span-2 space-y-2">
+        <Label htmlFor="cardNumber" className={labelClassName}>
+          Card Number *
+        </Label>
+        <Input
+          id="cardNumber"
+          inputMode="numeric"
+          autoComplete="cc-number"
+          placeholder="1234 5678 9012 3456"
+          value={value.number}
+          onChange={(e) => update("number", formatCardNumber(e.target.value))}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cardExpiry" className={labelClassName}>
+          Expiry *
+        </Label>
+        <Input
+          id="cardExpiry"
+          inputMode="numeric"
+          autoComplete="cc-exp"
+          placeholder="MM/YY"
+          value={value.expiry}
+          onChange={(e) => update("expiry", formatExpiry(e.target.value))}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="cardCvc" className={labelClassName}>
+          CVC *
+        </Label>
+        <Input
+          id="cardCvc"
+          inputMode="numeric"
+          autoComplete="cc-csc"
+          placeholder="123"
+          maxLength={4}
+          value={value.cvc}
+          onChange={(e) => update("cvc", e.target.value.replace(/\D/g, ""))}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface ThreeDSecureDialogProps {
+  open: boolean;
+  amount: number;
+  submitting: boolean;
+  onComplete: (authentication: "approved" | "rejected") => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", { style: "currency", currency: "ZAR" }).format(
+    amount,
+  );
+
+/**
+ * 3-D Secure challenge for gateways that authenticate in-page, such as the
+ * mock provider. A gateway that redirects to the bank would replace this.
+ */
+export function ThreeDSecureDialog({
+  open,
+  amount,
+  submitting,
+  onComplete,
+}: ThreeDSecureDialogProps) {
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !next && !submitting && onComplete("rejected")}
+    >
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-brand-red" />
+            Verify Your Payment
+          </DialogTitle>
+          <DialogDescription>
+            Your bank needs you to approve a payment of {formatCurrency(amount)}
+            .
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            disabled={submitting}
+            onClick={() => onComplete("rejected")}
+          >
+            Cancel Payment
+          </Button>
+          <Button
+            disabled={submitting}
+            onClick={() => onComplete("approved")}
+            className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,54 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from "react";
 import { useAuth } from "./AuthContext";
-import { cart, Product, CartItem as DBCartItem } from "@/lib/supabaseClient";
+import { cart, CartLineRef, isSameCartLine, Product, ProductVariant } from "@/lib/supabaseClient";
+import { guestCart, GuestCartLine } from "@/lib/guestCart";
+import { cartQueue, isOfflineError, openCartChannel } from "@/lib/cartSync";
+import type { StockIssue } from "@shared/api";
+import { resolveUnitPrice } from "@shared/pricing";
+import { customisationKey, LineCustomisation } from "@shared/customisation";
 import { toast } from "sonner";
 
-export interface CartItem {
-  id: string;
-  product_id: string;
+export interface CartItem extends CartLineRef {
+  id: string; // cart_items id, or `guest:<line key>` for a guest cart line
   quantity: number;
   product: Product;
+  variant?: ProductVariant | null;
 }
 
+/**
+ * Unit price for the line as the server will charge it: volume tiers count
+ * every line of the product in the cart, then the variant's price delta and
+ * any per-unit branding fee apply
+ */
+export const getCartItemUnitPrice = (item: CartItem, items: CartItem[] = [item]) => {
+  const productQuantity = items
+    .filter(i => i.product_id === item.product_id)
+    .reduce((sum, i) => sum + i.quantity, 0);
+  return resolveUnitPrice(item.product.price, item.product.price_tiers, productQuantity)
+    + Number(item.variant?.price_delta ?? 0)
+    + Number(getCartItemDecoration(item)?.unit_fee ?? 0);
+};
+
+// Branding option chosen for the line, if any
+export const getCartItemDecoration = (item: CartItem) =>
+  item.customisation
+    ? item.product.decoration_options?.find(option => option.id === item.customisation.option_id)
+    : undefined;
+
+// Line total excluding VAT, including the once-off branding setup fee
+export const getCartItemTotal = (item: CartItem, items: CartItem[] = [item]) =>
+  getCartItemUnitPrice(item, items) * item.quantity + Number(getCartItemDecoration(item)?.setup_fee ?? 0);
+
+const lineKey = (line: CartLineRef) =>
+  `${line.product_id}:${line.variant_id ?? ''}:${line.customisation_key}`;
+
+const toLineRef = (line: CartLineRef): CartLineRef => ({
+  product_id: line.product_id,
+  variant_id: line.variant_id ?? null,
+  customisation: line.customisation ?? null,
+  customisation_key: line.customisation_key ?? ''
+});
+
 interface CartState {
   items: CartItem[];
   total: number;
@@ -19,7 +58,14 @@ interface CartState {
 
 interface CartContextType {
   state: CartState;
-  addToCart: (product: Product, quantity?: number) => Promise<void>;
+  stockIssues: StockIssue[];
+  reportStockIssues: (issues: StockIssue[]) => void;
+  addToCart: (
+    product: Product,
+    quantity?: number,
+    variant?: ProductVariant | null,
+    customisation?: LineCustomisation | null
+  ) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
@@ -48,38 +94,100 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     itemCount: 0,
     loading: false
   });
+  // Lines the server rejected at checkout; cleared once the shopper edits that line
+  const [stockIssues, setStockIssues] = useState<StockIssue[]>([]);
+
+  // Latest items for optimistic updates that run back to back (e.g. stepper taps)
+  const itemsRef = useRef<CartItem[]>([]);
+  // Server writes run one at a time so they land in the order they were made
+  const writeChainRef = useRef<Promise<void>>(Promise.resolve());
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const clearStockIssue = (itemId: string) => {
+    const item = state.items.find(i => i.id === itemId);
+    if (!item) return;
+    setStockIssues(prev => prev.filter(issue =>
+      !(issue.product_id === item.product_id && (issue.variant_id ?? null) === item.variant_id)
+    ));
+  };
 
   const calculateTotals = (items: CartItem[]) => {
-    const total = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
+    const total = items.reduce((sum, item) => sum + getCartItemTotal(item, items), 0);
     const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
     return { total, itemCount };
   };
 
+  const toGuestItems = (lines: GuestCartLine[]): CartItem[] =>
+    lines.map(line => ({
+      ...toLineRef(line),
+      id: `guest:${lineKey(line)}`,
+      quantity: line.quantity,
+      product: line.product,
+      variant: line.variant
+    }));
+
+  const setItems = (items: CartItem[]) => {
+    itemsRef.current = items;
+    const { total, itemCount } = calculateTotals(items);
+    setState({ items, total, itemCount, loading: false });
+  };
+
+  const getItem = (itemId: string) =>
+    itemsRef.current.find(i => i.id === itemId);
+
+  const notifyOtherTabs = () => {
+    channelRef.current?.postMessage({ type: 'cart-updated', user_id: user?.id ?? null });
+  };
+
+  // Replace, add or (quantity 0) drop a cart line
+  const withLine = (
+    items: CartItem[],
+    line: CartLineRef,
+    quantity: number,
+    product?: Product,
+    variant?: ProductVariant | null
+  ): CartItem[] => {
+    const existing = items.find(item => isSameCartLine(item, line));
+    if (quantity <= 0) {
+      return items.filter(item => !isSameCartLine(item, line));
+    }
+    if (existing) {
+      return items.map(item => isSameCartLine(item, line) ? { ...item, quantity } : item);
+    }
+    return [...items, { ...toLineRef(line), id: `pending:${lineKey(line)}`, quantity, product, variant }];
+  };
+
+  // Queued offline writes are shown on top of whatever the server last returned
+  const applyPendingWrites = (items: CartItem[]) =>
+    user
+      ? cartQueue.forUser(user.id).reduce((next, write) => {
+          const known = items.find(i => isSameCartLine(i, write));
+          return withLine(next, write, write.quantity, known?.product, known?.variant);
+        }, items).filter(item => item.product)
+      : items;
+
   const refreshCart = async () => {
     if (!user) {
-      setState(prev => ({ ...prev, items: [], total: 0, itemCount: 0 }));
+      setItems(toGuestItems(guestCart.getItems()));
       return;
     }
 
+    // Keep the optimistic cart rather than replacing it with a failed fetch
+    if (!navigator.onLine) return;
+
     setState(prev => ({ ...prev, loading: true }));
     
     try {
       const cartItems = await cart.getItems(user.id);
       const transformedItems: CartItem[] = cartItems.map(item => ({
+        ...toLineRef(item),
         id: item.id,
-        product_id: item.product_id,
         quantity: item.quantity,
-        product: item.product!
+        product: item.product!,
+        variant: item.variant
       }));
       
-      const { total, itemCount } = calculateTotals(transformedItems);
-      
-      setState({
-        items: transformedItems,
-        total,
-        itemCount,
-        loading: false
-      });
+      setItems(applyPendingWrites(transformedItems));
     } catch (error) {
       console.error('Error refreshing cart:', error);
       toast.error('Failed to load cart');
@@ -87,68 +195,215 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     }
   };
 
-  useEffect(() => {
-    if (!authLoading) {
-      refreshCart();
+  // Send queued offline writes once we are back online
+  const flushQueue = async () => {
+    if (!user || !navigator.onLine) return;
+
+    const writes = cartQueue.forUser(user.id);
+    if (writes.length === 0) return;
+
+    for (const write of writes) {
+      const { error } = await cart.setQuantity(write.user_id, write, write.quantity);
+      if (error && isOfflineError(error)) return;
+      if (error) {
+        // Dropped, so the refresh below takes the line back to what the server has
+        console.error('Error syncing queued cart change:', error);
+        const name = itemsRef.current.find(item => isSameCartLine(item, write))?.product?.name;
+        toast.error(`Failed to update ${name ?? 'an item'} in your cart`);
+      }
+      cartQueue.remove(write);
     }
-  }, [user, authLoading]);
 
-  const addToCart = async (product: Product, quantity: number = 1) => {
+    await refreshCart();
+    notifyOtherTabs();
+  };
+
+  /**
+   * Optimistically set a line's quantity, then persist it. Offline writes are
+   * queued for retry; any other failure rolls the line back.
+   */
+  const writeLine = (
+    line: CartLineRef,
+    quantity: number,
+    product?: Product,
+    variant?: ProductVariant | null
+  ): Promise<boolean> => {
+    const ref = toLineRef(line);
+    const previous = itemsRef.current.find(item => isSameCartLine(item, ref));
+    setItems(withLine(itemsRef.current, ref, quantity, product ?? previous?.product, variant ?? previous?.variant));
+
     if (!user) {
-      toast.error('Please log in to add items to cart');
+      const lines = quantity <= 0
+        ? guestCart.removeItem(ref)
+        : previous
+          ? guestCart.updateQuantity(ref, quantity)
+          : guestCart.addItem(product!, quantity, variant, ref.customisation);
+      setItems(toGuestItems(lines));
+      notifyOtherTabs();
+      return Promise.resolve(true);
+    }
+
+    const write = { ...ref, user_id: user.id, quantity };
+    const queueWrite = () => {
+      if (cartQueue.forUser(user.id).length === 0) {
+        toast.info("You're offline. Cart changes will sync when you reconnect");
+      }
+      cartQueue.enqueue(write);
+    };
+
+    const result = writeChainRef.current.then(async () => {
+      if (!navigator.onLine) {
+        queueWrite();
+        return true;
+      }
+
+      const { error } = await cart.setQuantity(user.id, ref, quantity);
+      if (error && isOfflineError(error)) {
+        queueWrite();
+        return true;
+      }
+      if (error) {
+        console.error('Error updating cart:', error);
+        setItems(withLine(itemsRef.current, ref, previous?.quantity ?? 0, previous?.product, previous?.variant));
+        return false;
+      }
+
+      notifyOtherTabs();
+      return true;
+    });
+
+    writeChainRef.current = result.then(() => undefined);
+    return result;
+  };
+
+  // Move anything added while signed out into the account's cart
+  const mergeGuestCart = async () => {
+    const guestLines = guestCart.getItems();
+    if (guestLines.length === 0) return;
+
+    const { error } = await cart.mergeGuestItems(
+      guestLines.map(line => ({ ...toLineRef(line), quantity: line.quantity }))
+    );
+    if (error) {
+      console.error('Error merging guest cart:', error);
+      toast.error('Failed to add your saved items to your account cart');
       return;
     }
 
-    try {
-      await cart.addItem(user.id, product.id, quantity);
+    guestCart.clear();
+    toast.success('Items from your cart were saved to your account');
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const loadCart = async () => {
+      if (user) {
+        await mergeGuestCart();
+        await flushQueue();
+      }
       await refreshCart();
-      toast.success(`${product.title} added to cart`);
-    } catch (error) {
-      console.error('Error adding to cart:', error);
-      toast.error('Failed to add item to cart');
+    };
+
+    loadCart();
+  }, [user, authLoading]);
+
+  // Retry queued writes on reconnect and follow changes made in other tabs
+  useEffect(() => {
+    if (authLoading) return;
+
+    const handleOnline = () => {
+      flushQueue();
+    };
+    window.addEventListener('online', handleOnline);
+
+    channelRef.current = openCartChannel(message => {
+      if (message.type === 'cart-updated' && message.user_id === (user?.id ?? null)) {
+        refreshCart();
+      }
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      channelRef.current?.close();
+      channelRef.current = null;
+    };
+  }, [user, authLoading]);
+
+  const addToCart = async (
+    product: Product,
+    quantity: number = 1,
+    variant: ProductVariant | null = null,
+    customisation: LineCustomisation | null = null
+  ) => {
+    const line: CartLineRef = {
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      customisation,
+      customisation_key: customisationKey(customisation)
+    };
+    const current = itemsRef.current.find(item => isSameCartLine(item, line));
+    toast.success(`${product.name} added to cart`);
+
+    const saved = await writeLine(line, (current?.quantity ?? 0) + quantity, product, variant);
+    if (!saved) {
+      toast.error(`Failed to add ${product.name} to cart`);
     }
   };
 
   const removeFromCart = async (itemId: string) => {
-    if (!user) return;
+    const item = getItem(itemId);
+    if (!item) return;
 
-    try {
-      await cart.removeItem(itemId);
-      await refreshCart();
-      toast.success('Item removed from cart');
-    } catch (error) {
-      console.error('Error removing from cart:', error);
+    clearStockIssue(itemId);
+    toast.success('Item removed from cart');
+
+    const saved = await writeLine(item, 0);
+    if (!saved) {
       toast.error('Failed to remove item from cart');
     }
   };
 
   const updateQuantity = async (itemId: string, quantity: number) => {
-    if (!user) return;
+    const item = getItem(itemId);
+    if (!item) return;
 
-    try {
-      await cart.updateQuantity(itemId, quantity);
-      await refreshCart();
-    } catch (error) {
-      console.error('Error updating quantity:', error);
+    clearStockIssue(itemId);
+
+    const saved = await writeLine(item, quantity);
+    if (!saved) {
       toast.error('Failed to update quantity');
     }
   };
 
   const clearCart = async () => {
-    if (!user) return;
+    setStockIssues([]);
+    const previous = itemsRef.current;
+    setItems([]);
 
-    try {
-      await cart.clearCart(user.id);
-      await refreshCart();
+    if (!user) {
+      guestCart.clear();
+      notifyOtherTabs();
       toast.success('Cart cleared');
-    } catch (error) {
+      return;
+    }
+
+    const { error } = await cart.clearCart(user.id);
+    if (error) {
       console.error('Error clearing cart:', error);
+      setItems(previous);
       toast.error('Failed to clear cart');
+      return;
     }
+
+    notifyOtherTabs();
+    toast.success('Cart cleared');
   };
 
   const value = {
     state,
+    stockIssues,
+    reportStockIssues: setStockIssues,
     addToCart,
     removeFromCart,
     updateQuantity,
@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { categories } from '@/lib/supabaseClient';
+import { buildCategoryTree } from '@shared/categories';
+
+const CATEGORIES_KEY = ['categories'];
+
+// The category tree changes rarely; one fetch serves the header search,
+// home page and category pages
+export const useCategories = () => {
+  const query = useQuery({
+    queryKey: CATEGORIES_KEY,
+    queryFn: () => categories.getAll(),
+    staleTime: 5 * 60 * 1000
+  });
+
+  const list = useMemo(() => query.data ?? [], [query.data]);
+  const tree = useMemo(() => buildCategoryTree(list), [list]);
+
+  return {
+    categories: list,
+    tree,
+    loading: query.isPending,
+    error: query.error ? 'Failed to load categories' : null
+  };
+};
+
+// Refetch after the admin changes a category, or a product's category
+export const useRefreshCategories = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: CATEGORIES_KEY });
+};
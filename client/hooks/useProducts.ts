@@ -1,68 +1,67 @@
 import { useState, useEffect } from 'react';
-import { products, Product } from '@/lib/supabaseClient';
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { products, Product, ProductPage } from '@/lib/supabaseClient';
+import { isSearchable } from '@shared/search';
+import { toFilterPayload, type ProductFilters } from '@shared/facets';
+import { nextPageOffset, PRODUCT_PAGE_SIZE, type PageRequest } from '@shared/pagination';
 
-export const useProducts = () => {
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchProducts = async () => {
-    try {
-      setLoading(true);
-      const productList = await products.getAll();
-      setAllProducts(productList);
-      setError(null);
-    } catch (err) {
-      console.error('Error fetching products:', err);
-      setError('Failed to load products');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchProducts();
-  }, []);
+// Product listings load a page at a time; loadMore fetches the next one.
+// React Query caches pages, so going back to a listing shows it at once.
+const usePagedProducts = (
+  queryKey: unknown[],
+  fetchPage: (page: PageRequest) => Promise<ProductPage>,
+  enabled = true
+) => {
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => fetchPage({ offset: pageParam, limit: PRODUCT_PAGE_SIZE }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) =>
+      nextPageOffset(
+        pages.reduce((loaded, page) => loaded + page.products.length, 0),
+        lastPage.total,
+        lastPage.products.length
+      ),
+    enabled
+  });
 
   return {
-    products: allProducts,
-    loading,
-    error,
-    refetch: fetchProducts
+    products: query.data?.pages.flatMap(page => page.products) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+    loading: query.isPending && enabled,
+    error: query.error ? 'Failed to load products' : null,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: () => {
+      if (query.hasNextPage && !query.isFetchingNextPage) query.fetchNextPage();
+    },
+    refetch: query.refetch
   };
 };
 
-export const useProductsByCategory = (category: string) => {
-  const [categoryProducts, setCategoryProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+export const useProducts = () =>
+  usePagedProducts(['products'], page => products.getAll(page));
 
-  const fetchCategoryProducts = async () => {
-    try {
-      setLoading(true);
-      const productList = await products.getByCategory(category);
-      setCategoryProducts(productList);
-      setError(null);
-    } catch (err) {
-      console.error('Error fetching category products:', err);
-      setError('Failed to load products');
-    } finally {
-      setLoading(false);
-    }
-  };
+export const useProductsByCategory = (category: string) =>
+  usePagedProducts(['products', 'category', category], page => products.getByCategory(category, page), !!category);
 
-  useEffect(() => {
-    if (category) {
-      fetchCategoryProducts();
-    }
-  }, [category]);
+// Category listing with filters applied in the database, plus facet counts
+export const useFilteredProducts = (category: string, filters: ProductFilters) => {
+  const listing = usePagedProducts(
+    ['products', 'category', category, filters],
+    page => products.filter(category, filters, page),
+    !!category
+  );
 
-  return {
-    products: categoryProducts,
-    loading,
-    error,
-    refetch: fetchCategoryProducts
-  };
+  // Keep the previous counts on screen while new ones load
+  const { data: facets = null } = useQuery({
+    queryKey: ['product-facets', category, toFilterPayload(filters)],
+    queryFn: () => products.getFacets(category, filters),
+    placeholderData: keepPreviousData,
+    enabled: !!category
+  });
+
+  return { ...listing, facets };
 };
 
 export const useProduct = (id: string) => {
@@ -96,4 +95,57 @@ export const useProduct = (id: string) => {
     error,
     refetch: fetchProduct
   };
-};
\ No newline at end of file
+};
+
+// One page of ranked results; each query and page is cached under its own key,
+// so a slower response for a query the shopper has since changed is ignored
+export const useProductSearch = (query: string, page: number) => {
+  const enabled = isSearchable(query);
+  const search = useQuery({
+    queryKey: ['product-search', query, page],
+    queryFn: () => products.search(query, page),
+    enabled
+  });
+
+  return {
+    products: search.data?.products ?? [],
+    total: search.data?.total ?? 0,
+    loading: search.isPending && enabled,
+    error: search.error ? 'Failed to search products' : null,
+    refetch: search.refetch
+  };
+};
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGESTION_DELAY_MS = 200;
+
+const useDebouncedValue = <T>(value: T, delay: number) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+export const useSearchSuggestions = (query: string) => {
+  const debouncedQuery = useDebouncedValue(query, SUGGESTION_DELAY_MS);
+  const enabled = isSearchable(debouncedQuery);
+
+  // Keep the previous suggestions on screen while the next ones load
+  const { data, isFetching } = useQuery({
+    queryKey: ['product-suggestions', debouncedQuery],
+    queryFn: () => products.suggest(debouncedQuery),
+    placeholderData: keepPreviousData,
+    enabled
+  });
+
+  if (!isSearchable(query)) return { suggestions: [], loading: false };
+
+  return {
+    suggestions: enabled ? (data ?? []) : [],
+    loading: query !== debouncedQuery || isFetching
+  };
+};
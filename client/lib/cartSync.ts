@@ -0,0 +1,60 @@
+import { CartLineRef, isSameCartLine } from './supabaseClient';
+
+// Offline retry queue and cross-tab notifications for the shopping cart.
+// Queued writes store absolute quantities, so replaying them is idempotent.
+
+const QUEUE_KEY = 'apex-cart-queue';
+const CHANNEL_NAME = 'apex-cart';
+
+export interface PendingCartWrite extends CartLineRef {
+  user_id: string;
+  quantity: number; // 0 removes the line
+}
+
+const sameLine = (a: PendingCartWrite, b: PendingCartWrite) =>
+  a.user_id === b.user_id && isSameCartLine(a, b);
+
+export interface CartSyncMessage {
+  type: 'cart-updated';
+  user_id: string | null; // null for guest carts
+}
+
+export const cartQueue = {
+  getAll(): PendingCartWrite[] {
+    try {
+      const stored = localStorage.getItem(QUEUE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading cart queue:', error);
+      return [];
+    }
+  },
+
+  forUser(userId: string): PendingCartWrite[] {
+    return this.getAll().filter(write => write.user_id === userId);
+  },
+
+  // Later writes for the same line replace earlier ones
+  enqueue(write: PendingCartWrite) {
+    const writes = this.getAll().filter(w => !sameLine(w, write));
+    localStorage.setItem(QUEUE_KEY, JSON.stringify([...writes, write]));
+  },
+
+  remove(write: PendingCartWrite) {
+    const writes = this.getAll().filter(w => !(sameLine(w, write) && w.quantity === write.quantity));
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(writes));
+  }
+};
+
+// Supabase resolves network failures as errors rather than throwing
+export const isOfflineError = (error: { message?: string } | null) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed/i.test(error?.message || '');
+
+// Returns null where BroadcastChannel is unavailable (older Safari)
+export function openCartChannel(onMessage: (message: CartSyncMessage) => void) {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CartSyncMessage>) => onMessage(event.data);
+  return channel;
+}
@@ -0,0 +1,3 @@
+// The storefront's contact address, shown in the header and footer and used
+// wherever customers are asked to email us
+export const CONTACT_EMAIL = "apex@w-o-s.co.za";
@@ -0,0 +1,87 @@
+import { CartLineRef, isSameCartLine, Product, ProductVariant } from './supabaseClient';
+import { customisationKey, LineCustomisation } from '@shared/customisation';
+
+// Cart kept in localStorage for shoppers who are not signed in.
+// Merged into cart_items (see cart.mergeGuestItems) once they sign in.
+
+const GUEST_CART_KEY = 'apex-guest-cart';
+
+export interface GuestCartLine extends CartLineRef {
+  quantity: number;
+  product: Product; // snapshot for display only; the server reprices at checkout
+  variant?: ProductVariant | null;
+}
+
+export const guestCart = {
+  getItems(): GuestCartLine[] {
+    try {
+      const stored = localStorage.getItem(GUEST_CART_KEY);
+      const lines = stored ? JSON.parse(stored) : [];
+      // Carts saved before variants and branding existed lack those fields
+      return Array.isArray(lines)
+        ? lines.map(line => ({
+            ...line,
+            variant_id: line.variant_id ?? null,
+            customisation: line.customisation ?? null,
+            customisation_key: line.customisation_key ?? ''
+          }))
+        : [];
+    } catch (error) {
+      console.error('Error reading guest cart:', error);
+      return [];
+    }
+  },
+
+  save(lines: GuestCartLine[]) {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines));
+  },
+
+  addItem(
+    product: Product,
+    quantity: number = 1,
+    variant: ProductVariant | null = null,
+    customisation: LineCustomisation | null = null
+  ): GuestCartLine[] {
+    const lines = this.getItems();
+    const ref: CartLineRef = {
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      customisation,
+      customisation_key: customisationKey(customisation)
+    };
+    const existing = lines.find(line => isSameCartLine(line, ref));
+
+    const updated = existing
+      ? lines.map(line =>
+          isSameCartLine(line, ref)
+            ? { ...line, quantity: line.quantity + quantity, product, variant }
+            : line
+        )
+      : [...lines, { ...ref, quantity, product, variant }];
+
+    this.save(updated);
+    return updated;
+  },
+
+  updateQuantity(ref: CartLineRef, quantity: number): GuestCartLine[] {
+    if (quantity <= 0) {
+      return this.removeItem(ref);
+    }
+
+    const updated = this.getItems().map(line =>
+      isSameCartLine(line, ref) ? { ...line, quantity } : line
+    );
+    this.save(updated);
+    return updated;
+  },
+
+  removeItem(ref: CartLineRef): GuestCartLine[] {
+    const updated = this.getItems().filter(line => !isSameCartLine(line, ref));
+    this.save(updated);
+    return updated;
+  },
+
+  clear() {
+    localStorage.removeItem(GUEST_CART_KEY);
+  }
+};
@@ -0,0 +1,28 @@
+import { addRecentSearch } from '@shared/search';
+
+// The shopper's last few searches, offered again in the header search box
+
+const RECENT_SEARCHES_KEY = 'apex-recent-searches';
+
+export const recentSearches = {
+  getAll(): string[] {
+    try {
+      const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
+      const items = stored ? JSON.parse(stored) : [];
+      return Array.isArray(items) ? items.filter(item => typeof item === 'string') : [];
+    } catch (error) {
+      console.error('Error reading recent searches:', error);
+      return [];
+    }
+  },
+
+  add(query: string): string[] {
+    const items = addRecentSearch(this.getAll(), query);
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(items));
+    return items;
+  },
+
+  clear() {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+  }
+};
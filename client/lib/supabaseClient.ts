@@ -1,4 +1,38 @@
 import { createClient } from '@supabase/supabase-js';
+import type {
+  AcceptQuoteRequest,
+  ApiErrorResponse,
+  ConfirmPaymentRequest,
+  CreateCompanyRequest,
+  CreateRefundRequest,
+  DecideOrderApprovalRequest,
+  InviteCompanyMemberRequest,
+  OrderAddress,
+  PaymentIntentResponse,
+  PaymentOptionsResponse,
+  PayOrderRequest,
+  PlaceOrderRequest,
+  PlaceOrderResponse,
+  RequestQuoteRequest,
+  RequestQuoteResponse,
+  SavePaymentMethodRequest,
+  UpdateCompanyMemberRequest
+} from '@shared/api';
+import type { Province } from '@shared/addresses';
+import type { ApprovalDecision } from '@shared/approvals';
+import type { Category } from '@shared/categories';
+import type { CompanyRole } from '@shared/companies';
+import type { OrderStatus } from '@shared/orderStatus';
+import type { PaymentStatus } from '@shared/payments';
+import type { RefundMethod } from '@shared/refunds';
+import type { QuoteStatus } from '@shared/quotes';
+import type { ShippingConfig, ShippingRate, ShippingServiceLevel, ShippingZone } from '@shared/shipping';
+import type { PriceTier } from '@shared/pricing';
+import { EMPTY_PRODUCT_FILTERS, toFilterPayload, type ProductFacets, type ProductFilters } from '@shared/facets';
+import { SEARCH_PAGE_SIZE, SUGGESTION_LIMIT } from '@shared/search';
+import { normalisePage, pageRange, type PageRequest } from '@shared/pagination';
+import type { VariantAxis, VariantOptions } from '@shared/variants';
+import type { DecorationOption, LineCustomisation } from '@shared/customisation';
 
 const url = import.meta.env.VITE_SUPABASE_URL;
 const anon = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -6,6 +40,58 @@ if (!url || !anon) throw new Error('VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY
 
 export const supabase = createClient(url, anon);
 
+// Error thrown by apiRequest; `body` carries any extra fields the route returned
+export class ApiError<T extends ApiErrorResponse = ApiErrorResponse> extends Error {
+  constructor(public status: number, public body: T) {
+    super(body.error);
+    this.name = 'ApiError';
+  }
+}
+
+// Call one of our own /api routes with the current user's access token
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+      ...init.headers
+    }
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, body?.error ? body : { error: `Request failed with status ${response.status}` });
+  }
+
+  return body as T;
+}
+
+// Download a file from one of our own /api routes, which need the access token
+// so a plain link will not do. The route's Content-Disposition name wins.
+export async function apiDownload(path: string, fallbackFilename: string): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(path, {
+    headers: session ? { Authorization: `Bearer ${session.access_token}` } : {}
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error ? body : { error: `Download failed with status ${response.status}` });
+  }
+
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackFilename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 // Database Types
 export interface Product {
   id: string; // UUID type
@@ -18,6 +104,35 @@ export interface Product {
   rating: number;
   reviews_count: number;
   is_active: boolean;
+  price_tiers?: PriceTier[]; // bulk prices; see resolveUnitPrice in shared/pricing
+  variant_axes?: VariantAxis[]; // empty for products without sizes/colours
+  variants?: ProductVariant[];
+  decoration_options?: DecorationOption[]; // branding methods offered for this product
+  weight_kg?: number | null; // packed, per unit; see shared/shipping
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One page of a product listing and the number of matching products
+export interface ProductPage {
+  products: Product[];
+  total: number;
+}
+
+// What the header search dropdown shows for a product
+export type ProductSuggestion = Pick<Product, 'id' | 'name' | 'price' | 'image_url' | 'category'>;
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  options: VariantOptions;
+  price_delta: number; // added to the (tiered) product price
+  stock: number;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -27,13 +142,84 @@ export interface Profile {
   email: string;
   full_name?: string;
   phone?: string;
-  address?: any;
+  address?: any; // superseded by the address book (addresses table)
   is_admin: boolean;
   role?: string; // Add role field for admin checks
+  company_membership?: { role: CompanyRole; company: Pick<Company, 'id' | 'name'> } | null; // admin users list only
   created_at: string;
   updated_at: string;
 }
 
+export interface Company {
+  id: string;
+  name: string;
+  vat_number: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CompanyMember {
+  company_id: string;
+  user_id: string;
+  role: CompanyRole;
+  spending_limit: number | null; // orders above this need approval; null = no limit
+  created_at: string;
+  profile?: Pick<Profile, 'id' | 'email' | 'full_name'>;
+}
+
+// Pending until the invited customer accepts; only then are they a member
+export interface CompanyInvite {
+  company_id: string;
+  user_id: string;
+  email: string;
+  role: CompanyRole;
+  invited_by: string | null;
+  created_at: string;
+  company?: Pick<Company, 'id' | 'name'>;
+}
+
+// Delivery address shared by everyone in the company
+export interface CompanyAddress {
+  id: string;
+  company_id: string;
+  label: string;
+  recipient: string | null;
+  phone: string | null;
+  address: string;
+  city: string;
+  province: Province;
+  postal_code: string;
+  country: string;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Saved address in a customer's own address book
+export interface Address {
+  id: string;
+  user_id: string;
+  label: string;
+  recipient: string | null;
+  phone: string | null;
+  address: string;
+  city: string;
+  province: Province;
+  postal_code: string;
+  country: string;
+  is_default_shipping: boolean;
+  is_default_billing: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CompanyAccount extends Company {
+  members: CompanyMember[];
+  invites: CompanyInvite[]; // visible to owners and admins only
+  addresses: CompanyAddress[];
+}
+
 // New interfaces for wishlist and payment methods
 export interface WishlistItem {
   id: string;
@@ -43,11 +229,16 @@ export interface WishlistItem {
   product?: Product;
 }
 
+// A saved card: the gateway's token plus the details we may show the customer
 export interface PaymentMethod {
   id: string;
   user_id: string;
-  provider: string; // 'stripe', 'mock', etc.
+  provider: string; // gateway name, see server/lib/paymentProviders.ts
   provider_pm_id: string;
+  brand: string | null;
+  last4: string | null;
+  exp_month: number | null;
+  exp_year: number | null;
   is_default: boolean;
   metadata?: any;
   created_at: string;
@@ -67,19 +258,175 @@ export interface CartItem {
   id: string;
   user_id: string;
   product_id: string;
+  variant_id: string | null;
+  customisation: LineCustomisation | null;
+  customisation_key: string; // '' for unbranded lines
   quantity: number;
   created_at: string;
   updated_at: string;
   product?: Product;
+  variant?: ProductVariant | null;
 }
 
-export interface Order {
+// Identifies a cart line: product, variant and branding
+export interface CartLineRef {
+  product_id: string;
+  variant_id: string | null;
+  customisation: LineCustomisation | null;
+  customisation_key: string;
+}
+
+export const isSameCartLine = (
+  a: Pick<CartLineRef, 'product_id' | 'variant_id' | 'customisation_key'>,
+  b: Pick<CartLineRef, 'product_id' | 'variant_id' | 'customisation_key'>
+) =>
+  a.product_id === b.product_id &&
+  (a.variant_id ?? null) === (b.variant_id ?? null) &&
+  (a.customisation_key ?? '') === (b.customisation_key ?? '');
+
+export interface OrderItem {
+  id: string;
+  order_id: string;
+  product_id: string | null; // null once the product has been deleted
+  variant_id: string | null;
+  sku: string | null;
+  variant_label: string | null; // e.g. "M / Navy"
+  product_name: string;
+  unit_price: number;
+  quantity: number;
+  vat_rate: number;
+  vat_amount: number;
+  customisation: LineCustomisation | null;
+  setup_fee: number; // once-off branding setup
+  line_total: number; // unit_price * quantity + setup_fee, excluding VAT
+  cancelled_quantity: number; // units cancelled and refunded so far
+  created_at: string;
+}
+
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  subtotal: number; // excluding VAT
+  tax: number;
+  amount: number;
+}
+
+// One credit note; see shared/refunds.ts
+export interface Refund {
+  id: string;
+  order_id: string;
+  credit_note_number: string;
+  reason: string;
+  method: RefundMethod;
+  provider: string | null;
+  provider_refund_id: string | null;
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  created_by: string | null;
+  created_at: string;
+  items: RefundItem[];
+}
+
+export interface OrderStatusChange {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null; // null for the order's creation
+  to_status: OrderStatus;
+  changed_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+// One approver's decision on an order that was over the buyer's spending limit
+export interface OrderApproval {
+  id: string;
+  order_id: string;
+  company_id: string | null;
+  decision: ApprovalDecision;
+  comment: string | null;
+  decided_by: string | null;
+  created_at: string;
+  decider?: Pick<Profile, 'full_name' | 'email'> | null;
+}
+
+// In-app message, e.g. an approval request or decision
+export interface AppNotification {
   id: string;
   user_id: string;
-  products: any[]; // Array of {product_id, title, price, quantity}
+  kind: 'approval_requested' | 'order_approved' | 'order_rejected';
+  order_id: string | null;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface Order {
+  id: string;
+  user_id: string | null; // null for guest orders
+  guest_email?: string | null;
+  company_id?: string | null; // set when placed by a company member
+  company?: Pick<Company, 'id' | 'name'> | null;
+  items: OrderItem[];
+  approvals?: OrderApproval[];
+  status_history?: OrderStatusChange[];
+  refunds?: Refund[];
+  subtotal?: number;
+  shipping_fee?: number;
+  tax?: number;
   total: number;
-  status: 'pending' | 'shipped' | 'completed' | 'cancelled';
+  status: OrderStatus;
   shipping_address: any;
+  billing_address?: OrderAddress | null; // null when billed to the delivery address
+  shipping_service?: ShippingServiceLevel;
+  payment_method?: string;
+  payment_reference: string;
+  payment_status: PaymentStatus;
+  proof_of_payment_path?: string | null;
+  proof_submitted_at?: string | null;
+  paid_at?: string | null;
+  amount_paid?: number | null;
+  stock_reserved?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QuoteItem {
+  id: string;
+  quote_id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  sku: string | null;
+  variant_label: string | null;
+  product_name: string;
+  unit_price: number;
+  quantity: number;
+  vat_rate: number;
+  customisation: LineCustomisation | null;
+  setup_fee: number;
+  line_total: number; // unit_price * quantity + setup_fee, excluding VAT
+  created_at: string;
+}
+
+export interface Quote {
+  id: string;
+  user_id: string;
+  status: QuoteStatus; // see getQuoteDisplayStatus for expiry
+  notes: string | null; // from the customer
+  admin_notes: string | null; // from sales
+  valid_until: string | null; // YYYY-MM-DD, set when sent
+  shipping_address: any;
+  items: QuoteItem[];
+  subtotal: number;
+  shipping_fee: number;
+  tax: number;
+  total: number;
+  order_id: string | null; // set once accepted
+  sent_at: string | null;
+  responded_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -131,41 +478,80 @@ export const auth = {
   }
 };
 
+// Products are always loaded with their volume price tiers, variants and branding options
+const PRODUCT_SELECT = '*, price_tiers:product_price_tiers(min_quantity, unit_price), variants:product_variants(*), decoration_options:product_decoration_options(*)';
+
+// Full product rows for ids ranked by a database function, in the same order
+async function getProductsInOrder(ids: string[]): Promise<Product[]> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(PRODUCT_SELECT)
+    .in('id', ids);
+
+  if (error) {
+    console.error('Error fetching products by id:', error);
+    throw error;
+  }
+
+  const byId = new Map((data || []).map((product: Product) => [product.id, product]));
+  return ids.map(id => byId.get(id)).filter(Boolean) as Product[];
+}
+
 // Product helper functions
 export const products = {
-  async getAll(): Promise<Product[]> {
-    const { data, error } = await supabase
+  // Newest first, one page at a time; see shared/pagination
+  async getAll(page: PageRequest = {}): Promise<ProductPage> {
+    const { data, error, count } = await supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT, { count: 'exact' })
       .eq('is_active', true)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(...pageRange(page));
 
     if (error) {
       console.error('Error fetching products:', error);
-      return [];
+      throw error;
     }
 
-    return data || [];
+    return { products: data || [], total: count ?? 0 };
   },
 
-  async getAllForAdmin(): Promise<Product[]> {
-    const { data, error } = await supabase
+  async getAllForAdmin(page: PageRequest = {}): Promise<ProductPage> {
+    const { data, error, count } = await supabase
       .from('products')
-      .select('*')
-      .order('created_at', { ascending: false });
+      .select(PRODUCT_SELECT, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(...pageRange(page));
 
     if (error) {
       console.error('Error fetching all products for admin:', error);
-      return [];
+      throw error;
     }
 
-    return data || [];
+    return { products: data || [], total: count ?? 0 };
+  },
+
+  // Totals for the admin dashboards, without downloading the rows
+  async countForAdmin(): Promise<{ total: number; active: number }> {
+    const [all, active] = await Promise.all([
+      supabase.from('products').select('id', { count: 'exact', head: true }),
+      supabase.from('products').select('id', { count: 'exact', head: true }).eq('is_active', true)
+    ]);
+
+    if (all.error || active.error) {
+      console.error('Error counting products:', all.error || active.error);
+      return { total: 0, active: 0 };
+    }
+
+    return { total: all.count ?? 0, active: active.count ?? 0 };
   },
 
   async getById(id: string): Promise<Product | null> {
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .eq('id', id)
       .eq('is_active', true)
       .single();
@@ -178,22 +564,84 @@ export const products = {
     return data;
   },
 
-  async getByCategory(category: string): Promise<Product[]> {
-    const { data, error } = await supabase
-      .from('products')
-      .select('*')
-      .eq('category', category)
-      .eq('is_active', true)
-      .order('created_at', { ascending: false });
+  // Newest first, subcategories included
+  async getByCategory(category: string, page: PageRequest = {}): Promise<ProductPage> {
+    return await this.filter(category, EMPTY_PRODUCT_FILTERS, page);
+  },
+
+  async suggest(query: string, limit = SUGGESTION_LIMIT): Promise<ProductSuggestion[]> {
+    const { data, error } = await supabase.rpc('suggest_products', {
+      p_query: query,
+      p_limit: limit
+    });
 
     if (error) {
-      console.error('Error fetching products by category:', error);
+      console.error('Error fetching search suggestions:', error);
       return [];
     }
 
     return data || [];
   },
 
+  // Ranked page of search results; search_products() does the matching
+  async search(query: string, page = 1, pageSize = SEARCH_PAGE_SIZE): Promise<ProductPage> {
+    const { data: hits, error } = await supabase.rpc('search_products', {
+      p_query: query,
+      p_limit: pageSize,
+      p_offset: (page - 1) * pageSize
+    });
+
+    if (error) {
+      console.error('Error searching products:', error);
+      throw error;
+    }
+
+    if (!hits?.length) return { products: [], total: 0 };
+
+    return {
+      products: await getProductsInOrder(hits.map((hit: { id: string }) => hit.id)),
+      total: Number(hits[0].total_count)
+    };
+  },
+
+  // Category listing filtered and sorted by filter_products()
+  async filter(category: string, filters: ProductFilters, page: PageRequest = {}): Promise<ProductPage> {
+    const { offset, limit } = normalisePage(page);
+    const { data: hits, error } = await supabase.rpc('filter_products', {
+      p_category: category,
+      p_filters: toFilterPayload(filters),
+      p_sort: filters.sort,
+      p_limit: limit,
+      p_offset: offset
+    });
+
+    if (error) {
+      console.error('Error filtering products:', error);
+      throw error;
+    }
+
+    if (!hits?.length) return { products: [], total: 0 };
+
+    return {
+      products: await getProductsInOrder(hits.map((hit: { id: string }) => hit.id)),
+      total: Number(hits[0].total_count)
+    };
+  },
+
+  async getFacets(category: string, filters: ProductFilters): Promise<ProductFacets | null> {
+    const { data, error } = await supabase.rpc('product_facets', {
+      p_category: category,
+      p_filters: toFilterPayload(filters)
+    });
+
+    if (error) {
+      console.error('Error fetching product facets:', error);
+      return null;
+    }
+
+    return data;
+  },
+
   async create(product: Omit<Product, 'id' | 'created_at' | 'updated_at'>) {
     return await supabase
       .from('products')
@@ -229,6 +677,51 @@ export const products = {
   }
 };
 
+// Category tree helper functions
+export const categories = {
+  // Every category the caller may see (admins also see hidden ones), with
+  // live product counts from category_product_counts()
+  async getAll(): Promise<Category[]> {
+    const [rows, counts] = await Promise.all([
+      supabase.from('categories').select('*').order('sort_order').order('name'),
+      supabase.rpc('category_product_counts')
+    ]);
+
+    if (rows.error || counts.error) {
+      console.error('Error fetching categories:', rows.error ?? counts.error);
+      throw rows.error ?? counts.error;
+    }
+
+    const productCounts = new Map<string, number>(
+      (counts.data || []).map((row: { category_id: string; product_count: number }) => [
+        row.category_id,
+        Number(row.product_count)
+      ])
+    );
+
+    return (rows.data || []).map(row => ({
+      ...row,
+      product_count: productCounts.get(row.id) ?? 0
+    }));
+  },
+
+  async save(category: Omit<Category, 'id' | 'product_count'> & { id?: string }) {
+    const { id, ...fields } = category;
+    const query = id
+      ? supabase.from('categories').update(fields).eq('id', id)
+      : supabase.from('categories').insert(fields);
+    return await query.select().single();
+  },
+
+  // Fails while the category still has subcategories or products
+  async remove(categoryId: string) {
+    return await supabase
+      .from('categories')
+      .delete()
+      .eq('id', categoryId);
+  }
+};
+
 // Cart helper functions
 export const cart = {
   async getItems(userId: string): Promise<CartItem[]> {
@@ -236,7 +729,8 @@ export const cart = {
       .from('cart_items')
       .select(`
         *,
-        product:products(*)
+        product:products(${PRODUCT_SELECT}),
+        variant:product_variants(*)
       `)
       .eq('user_id', userId);
 
@@ -288,6 +782,33 @@ export const cart = {
       .single();
   },
 
+  // Set an absolute quantity for a cart line; 0 removes it. Safe to replay.
+  async setQuantity(userId: string, line: CartLineRef, quantity: number) {
+    if (quantity <= 0) {
+      const query = supabase
+        .from('cart_items')
+        .delete()
+        .match({ user_id: userId, product_id: line.product_id, customisation_key: line.customisation_key });
+      return await (line.variant_id ? query.eq('variant_id', line.variant_id) : query.is('variant_id', null));
+    }
+
+    return await supabase
+      .from('cart_items')
+      .upsert(
+        {
+          user_id: userId,
+          product_id: line.product_id,
+          variant_id: line.variant_id,
+          customisation: line.customisation,
+          customisation_key: line.customisation_key,
+          quantity
+        },
+        { onConflict: 'user_id,product_id,variant_id,customisation_key' }
+      )
+      .select()
+      .single();
+  },
+
   async removeItem(itemId: string) {
     return await supabase
       .from('cart_items')
@@ -300,23 +821,37 @@ export const cart = {
       .from('cart_items')
       .delete()
       .eq('user_id', userId);
+  },
+
+  // Add guest cart lines to the signed-in user's cart, summing quantities per line
+  async mergeGuestItems(items: (CartLineRef & { quantity: number })[]) {
+    return await supabase.rpc('merge_guest_cart', { p_items: items });
   }
 };
 
 // Orders helper functions
+const ORDER_SELECT = `
+  *,
+  items:order_items(*),
+  status_history:order_status_history(*),
+  refunds(*, items:refund_items(*)),
+  company:companies(id, name),
+  approvals:order_approvals(*, decider:profiles(full_name, email))
+`;
+
 export const orders = {
-  async create(order: Omit<Order, 'id' | 'created_at' | 'updated_at'>) {
-    return await supabase
-      .from('orders')
-      .insert([order])
-      .select()
-      .single();
+  // Totals are recomputed server-side; only product ids and quantities are trusted
+  async place(request: PlaceOrderRequest): Promise<PlaceOrderResponse> {
+    return apiRequest<PlaceOrderResponse>('/api/orders', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
   },
 
   async getUserOrders(userId: string): Promise<Order[]> {
     const { data, error } = await supabase
       .from('orders')
-      .select('*')
+      .select(ORDER_SELECT)
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
 
@@ -328,10 +863,25 @@ export const orders = {
     return data || [];
   },
 
+  async getById(orderId: string): Promise<Order | null> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_SELECT)
+      .eq('id', orderId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching order:', error);
+      return null;
+    }
+
+    return data;
+  },
+
   async getAll(): Promise<Order[]> {
     const { data, error } = await supabase
       .from('orders')
-      .select('*')
+      .select(ORDER_SELECT)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -342,13 +892,361 @@ export const orders = {
     return data || [];
   },
 
-  async updateStatus(orderId: string, status: Order['status']) {
-    return await supabase
+  // Company orders over a buyer's spending limit; readable by owners and approvers
+  async getAwaitingApproval(companyId: string): Promise<Order[]> {
+    const { data, error } = await supabase
       .from('orders')
-      .update({ status })
-      .eq('id', orderId)
+      .select(ORDER_SELECT)
+      .eq('company_id', companyId)
+      .eq('status', 'awaiting_approval')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching orders awaiting approval:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Approve or reject; recorded in the order's approval trail
+  async decideApproval(orderId: string, request: DecideOrderApprovalRequest): Promise<OrderApproval> {
+    return apiRequest<OrderApproval>(`/api/orders/${orderId}/approval`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  // Transitions are validated by the database; see shared/orderStatus.ts
+  async updateStatus(orderId: string, status: Order['status'], note?: string) {
+    return await supabase
+      .rpc('update_order_status', {
+        p_order_id: orderId,
+        p_status: status,
+        p_note: note || null
+      })
+      .single();
+  },
+
+  // Tax invoice PDF; the invoice number is issued on the first download
+  async downloadInvoice(orderId: string): Promise<void> {
+    await apiDownload(`/api/orders/${orderId}/invoice.pdf`, `Invoice-${orderId.slice(-8).toUpperCase()}.pdf`);
+  }
+};
+
+export const refunds = {
+  // Admin only: cancels the chosen units and refunds them under a credit note
+  async create(orderId: string, request: CreateRefundRequest): Promise<Refund> {
+    return apiRequest<Refund>(`/api/orders/${orderId}/refunds`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  async downloadCreditNote(refund: Pick<Refund, 'id' | 'credit_note_number'>): Promise<void> {
+    await apiDownload(`/api/refunds/${refund.id}/credit-note.pdf`, `${refund.credit_note_number}.pdf`);
+  }
+};
+
+export const quotes = {
+  async request(request: RequestQuoteRequest): Promise<RequestQuoteResponse> {
+    return apiRequest<RequestQuoteResponse>('/api/quotes', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  async getUserQuotes(userId: string): Promise<Quote[]> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*, items:quote_items(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching user quotes:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async getAll(): Promise<Quote[]> {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('*, items:quote_items(*)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching all quotes:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Admin only: reprice lines and send the quote to the customer
+  async send(
+    quoteId: string,
+    items: { id: string; unit_price: number; setup_fee: number }[],
+    shippingFee: number,
+    validUntil: string,
+    adminNotes?: string
+  ) {
+    return await supabase
+      .rpc('send_quote', {
+        p_quote_id: quoteId,
+        p_items: items,
+        p_shipping_fee: shippingFee,
+        p_valid_until: validUntil,
+        p_admin_notes: adminNotes || null
+      })
+      .single();
+  },
+
+  // Places an order at the quoted prices
+  async accept(quoteId: string, request: AcceptQuoteRequest): Promise<PlaceOrderResponse> {
+    return apiRequest<PlaceOrderResponse>(`/api/quotes/${quoteId}/accept`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  async decline(quoteId: string): Promise<void> {
+    await apiRequest<null>(`/api/quotes/${quoteId}/decline`, { method: 'POST' });
+  },
+
+  async downloadPdf(quoteId: string): Promise<void> {
+    await apiDownload(`/api/quotes/${quoteId}/quote.pdf`, `Quote-${quoteId.slice(-8).toUpperCase()}.pdf`);
+  }
+};
+
+// Company (B2B) account helper functions
+const COMPANY_SELECT = `
+  *,
+  members:company_members(*, profile:profiles(id, email, full_name)),
+  invites:company_invites(*),
+  addresses:company_addresses(*)
+`;
+
+export const companies = {
+  // The company the user belongs to, with their role in it
+  async getForUser(userId: string): Promise<{ company: CompanyAccount; role: CompanyRole } | null> {
+    const { data, error } = await supabase
+      .from('company_members')
+      .select(`role, company:companies(${COMPANY_SELECT})`)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching company:', error);
+      return null;
+    }
+
+    return data ? { company: data.company as unknown as CompanyAccount, role: data.role } : null;
+  },
+
+  async getAll(): Promise<CompanyAccount[]> {
+    const { data, error } = await supabase
+      .from('companies')
+      .select(COMPANY_SELECT)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching companies:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async create(request: CreateCompanyRequest): Promise<Company> {
+    return apiRequest<Company>('/api/companies', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  // Owners and admins only (RLS)
+  async update(companyId: string, updates: Pick<Company, 'name' | 'vat_number'>) {
+    return await supabase
+      .from('companies')
+      .update(updates)
+      .eq('id', companyId)
       .select()
       .single();
+  },
+
+  // The person joins once they accept
+  async invite(companyId: string, request: InviteCompanyMemberRequest): Promise<CompanyInvite> {
+    return apiRequest<CompanyInvite>(`/api/companies/${companyId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  // Invitations waiting for the user to accept or decline
+  async getInvitesForUser(userId: string): Promise<CompanyInvite[]> {
+    const { data, error } = await supabase
+      .from('company_invites')
+      .select('*, company:companies(id, name)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching company invitations:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async acceptInvite(companyId: string): Promise<CompanyMember> {
+    return apiRequest<CompanyMember>(`/api/companies/${companyId}/invites/accept`, { method: 'POST' });
+  },
+
+  // Declined by the invitee or withdrawn by an owner
+  async removeInvite(companyId: string, userId: string): Promise<void> {
+    await apiRequest<null>(`/api/companies/${companyId}/invites/${userId}`, { method: 'DELETE' });
+  },
+
+  async updateMember(companyId: string, userId: string, request: UpdateCompanyMemberRequest): Promise<CompanyMember> {
+    return apiRequest<CompanyMember>(`/api/companies/${companyId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(request)
+    });
+  },
+
+  // Also used by members leaving the company
+  async removeMember(companyId: string, userId: string): Promise<void> {
+    await apiRequest<null>(`/api/companies/${companyId}/members/${userId}`, { method: 'DELETE' });
+  },
+
+  // Owners and admins only (RLS); a new default replaces the old one
+  async saveAddress(address: Omit<CompanyAddress, 'id' | 'created_at' | 'updated_at'> & { id?: string }) {
+    const { id, ...fields } = address;
+    const query = id
+      ? supabase.from('company_addresses').update(fields).eq('id', id)
+      : supabase.from('company_addresses').insert(fields);
+    return await query.select().single();
+  },
+
+  async removeAddress(addressId: string) {
+    return await supabase
+      .from('company_addresses')
+      .delete()
+      .eq('id', addressId);
+  }
+};
+
+// Address book helper functions
+export const addresses = {
+  // Defaults first, then oldest first
+  async getAll(userId: string): Promise<Address[]> {
+    const { data, error } = await supabase
+      .from('addresses')
+      .select('*')
+      .eq('user_id', userId)
+      .order('is_default_shipping', { ascending: false })
+      .order('is_default_billing', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching addresses:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // A new default replaces the old one
+  async save(address: Omit<Address, 'id' | 'created_at' | 'updated_at'> & { id?: string }) {
+    const { id, ...fields } = address;
+    const query = id
+      ? supabase.from('addresses').update(fields).eq('id', id)
+      : supabase.from('addresses').insert(fields);
+    return await query.select().single();
+  },
+
+  async remove(addressId: string) {
+    return await supabase
+      .from('addresses')
+      .delete()
+      .eq('id', addressId);
+  }
+};
+
+// Shipping zones and rate tables; read by checkout, managed by admins
+export const shipping = {
+  async getConfig(): Promise<ShippingConfig> {
+    const [zones, rates] = await Promise.all([
+      supabase.from('shipping_zones').select('*').order('sort_order'),
+      supabase.from('shipping_rates').select('*').order('min_weight_kg')
+    ]);
+
+    if (zones.error || rates.error) {
+      console.error('Error fetching shipping rules:', zones.error ?? rates.error);
+      return { zones: [], rates: [] };
+    }
+
+    return { zones: zones.data || [], rates: rates.data || [] };
+  },
+
+  async saveZone(zone: Omit<ShippingZone, 'id'> & { id?: string }) {
+    const { id, ...fields } = zone;
+    const query = id
+      ? supabase.from('shipping_zones').update(fields).eq('id', id)
+      : supabase.from('shipping_zones').insert(fields);
+    return await query.select().single();
+  },
+
+  // Also removes the zone's rates
+  async removeZone(zoneId: string) {
+    return await supabase
+      .from('shipping_zones')
+      .delete()
+      .eq('id', zoneId);
+  },
+
+  async saveRate(rate: Omit<ShippingRate, 'id'> & { id?: string }) {
+    const { id, ...fields } = rate;
+    const query = id
+      ? supabase.from('shipping_rates').update(fields).eq('id', id)
+      : supabase.from('shipping_rates').insert(fields);
+    return await query.select().single();
+  },
+
+  async removeRate(rateId: string) {
+    return await supabase
+      .from('shipping_rates')
+      .delete()
+      .eq('id', rateId);
+  }
+};
+
+// In-app notifications helper functions
+export const notifications = {
+  async getUnread(userId: string): Promise<AppNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  async markRead(notificationId: string) {
+    return await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId);
   }
 };
 
@@ -405,6 +1303,7 @@ export const paymentMethods = {
       .from('payment_methods')
       .select('*')
       .eq('user_id', userId)
+      .order('is_default', { ascending: false })
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -415,12 +1314,12 @@ export const paymentMethods = {
     return data || [];
   },
 
-  async add(userId: string, method: Omit<PaymentMethod, 'id' | 'user_id' | 'created_at'>) {
-    return await supabase
-      .from('payment_methods')
-      .insert([{ user_id: userId, ...method }])
-      .select()
-      .single();
+  // Cards are tokenised by the payment provider on the server; we only keep the token
+  async saveCard(request: SavePaymentMethodRequest): Promise<PaymentMethod> {
+    return apiRequest<PaymentMethod>('/api/payment-methods', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
   },
 
   async remove(methodId: string) {
@@ -430,23 +1329,142 @@ export const paymentMethods = {
       .eq('id', methodId);
   },
 
-  async setDefault(userId: string, methodId: string) {
-    // First, unset all defaults for user
-    await supabase
-      .from('payment_methods')
-      .update({ is_default: false })
-      .eq('user_id', userId);
-
-    // Then set the selected one as default
+  // Clears the old default and sets the new one in a single transaction
+  async setDefault(methodId: string) {
     return await supabase
-      .from('payment_methods')
-      .update({ is_default: true })
-      .eq('id', methodId)
-      .eq('user_id', userId);
+      .rpc('set_default_payment_method', { p_method_id: methodId })
+      .single();
   }
 };
 
 // Admin Activity helper functions
+// Customer logo uploads for branded products (private 'artwork' bucket)
+export const artwork = {
+  async upload(userId: string, file: File) {
+    const path = `${userId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('artwork')
+      .upload(path, file, { contentType: file.type });
+    if (uploadError) {
+      return { data: null, error: uploadError };
+    }
+
+    return await supabase
+      .from('media_files')
+      .insert([{
+        filename: file.name,
+        file_path: path,
+        file_type: file.type || 'application/octet-stream',
+        file_size: file.size,
+        uploaded_by: userId,
+        bucket: 'artwork',
+        is_public: false
+      }])
+      .select()
+      .single();
+  },
+
+  // Short-lived link for viewing an uploaded file
+  async getUrl(path: string): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from('artwork')
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('Error creating artwork link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  }
+};
+
+// Card payments, EFT proof of payment and admin reconciliation
+export const payments = {
+  // Cards are only offered when the server has a payment provider configured
+  async getOptions(): Promise<PaymentOptionsResponse> {
+    try {
+      return await apiRequest<PaymentOptionsResponse>('/api/payment-options');
+    } catch (error) {
+      console.error('Error loading payment options:', error);
+      return { card: false };
+    }
+  },
+
+  // Charges a card order; `requires_action` means 3-D Secure comes next
+  async payOrder(orderId: string, request: PayOrderRequest): Promise<PaymentIntentResponse> {
+    return apiRequest<PaymentIntentResponse>(`/api/orders/${orderId}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  async confirmPayment(orderId: string, request: ConfirmPaymentRequest): Promise<PaymentIntentResponse> {
+    return apiRequest<PaymentIntentResponse>(`/api/orders/${orderId}/payments/confirm`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  },
+
+  async uploadProof(userId: string, orderId: string, file: File) {
+    const path = `${userId}/${orderId}-${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('payment-proofs')
+      .upload(path, file, { contentType: file.type });
+    if (uploadError) {
+      return { data: null, error: uploadError };
+    }
+
+    return await supabase
+      .rpc('submit_proof_of_payment', { p_order_id: orderId, p_path: path })
+      .single();
+  },
+
+  // Short-lived link for viewing an uploaded proof
+  async getProofUrl(path: string): Promise<string | null> {
+    const { data, error } = await supabase.storage
+      .from('payment-proofs')
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('Error creating proof of payment link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  },
+
+  // Open orders still waiting for their payment to be matched
+  async getUnreconciled(): Promise<Order[]> {
+    const { data, error } = await supabase
+      .from('orders')
+      .select(ORDER_SELECT)
+      .in('payment_status', ['unpaid', 'proof_submitted', 'failed'])
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching unpaid orders:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
+  // Marks the order paid; pending orders move on to processing
+  async record(orderId: string, amount: number, note?: string) {
+    return await supabase
+      .rpc('record_order_payment', {
+        p_order_id: orderId,
+        p_amount: amount,
+        p_note: note || null
+      })
+      .single();
+  }
+};
+
 export const adminActivity = {
   async log(adminId: string, action: string, targetType?: string, targetId?: string, payload?: any) {
     return await supabase
@@ -2,7 +2,15 @@ import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { useCart } from "@/contexts/CartContext";
+import {
+  CartItem,
+  getCartItemDecoration,
+  getCartItemTotal,
+  getCartItemUnitPrice,
+  useCart,
+} from "@/contexts/CartContext";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { formatVariantLabel } from "@shared/variants";
 import {
   ArrowLeft,
   Plus,
@@ -13,10 +21,19 @@ import {
   Tag,
   Truck,
   Shield,
+  AlertCircle,
+  FileText,
 } from "lucide-react";
 
 export default function Cart() {
-  const { state, updateQuantity, removeFromCart, clearCart } = useCart();
+  const { state, stockIssues, updateQuantity, removeFromCart, clearCart } =
+    useCart();
+
+  // Price before volume tiers, for the "was" hint
+  const getListPrice = (item: CartItem) =>
+    item.product.price +
+    Number(item.variant?.price_delta ?? 0) +
+    Number(getCartItemDecoration(item)?.unit_fee ?? 0);
 
   const handleQuantityChange = async (id: string, newQuantity: number) => {
     if (newQuantity <= 0) {
@@ -123,9 +140,39 @@ export default function Cart() {
                         <h3 className="font-semibold text-foreground mb-1 text-base sm:text-lg leading-tight">
                           {item.product.title}
                         </h3>
+                        {item.variant && (
+                          <p className="text-sm font-medium text-foreground/80 mb-1">
+                            {formatVariantLabel(
+                              item.variant.options,
+                              item.product.variant_axes,
+                            )}
+                          </p>
+                        )}
+                        <CustomisationSummary
+                          customisation={item.customisation}
+                          setupFee={getCartItemDecoration(item)?.setup_fee}
+                          className="text-sm text-foreground/80 mb-1"
+                        />
                         <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
                           {item.product.description}
                         </p>
+                        {stockIssues
+                          .filter(
+                            (issue) =>
+                              issue.product_id === item.product_id &&
+                              (issue.variant_id ?? null) === item.variant_id,
+                          )
+                          .map((issue) => (
+                            <p
+                              key={`${issue.product_id}-${issue.variant_id}`}
+                              className="text-sm text-destructive font-medium flex items-center"
+                            >
+                              <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                              {issue.available > 0
+                                ? `Insufficient stock: only ${issue.available} left`
+                                : "Insufficient stock: sold out"}
+                            </p>
+                          ))}
                       </div>
                     </div>
 
@@ -171,11 +218,16 @@ export default function Cart() {
                       <div className="flex items-center space-x-4 sm:space-x-2">
                         <div className="text-right">
                           <div className="font-bold text-foreground text-lg sm:text-base">
-                            R{(item.product.price * item.quantity).toFixed(2)}
+                            R{getCartItemTotal(item, state.items).toFixed(2)}
                           </div>
                           <div className="text-sm text-muted-foreground">
-                            R{item.product.price.toFixed(2)} each
+                            R{getCartItemUnitPrice(item, state.items).toFixed(2)} each
                           </div>
+                          {getCartItemUnitPrice(item, state.items) < getListPrice(item) && (
+                            <div className="text-xs text-green-600">
+                              Volume price (was R{getListPrice(item).toFixed(2)})
+                            </div>
+                          )}
                         </div>
                         <Button
                           variant="ghost"
@@ -217,12 +269,8 @@ export default function Cart() {
                       <Truck className="h-3 w-3 mr-1" />
                       Shipping
                     </span>
-                    <span className="text-foreground font-medium">
-                      {state.total >= 500 ? (
-                        <span className="text-green-600 font-bold">Free</span>
-                      ) : (
-                        "R50.00"
-                      )}
+                    <span className="text-muted-foreground">
+                      Calculated at checkout
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
@@ -233,32 +281,14 @@ export default function Cart() {
                   </div>
                   <div className="border-t border-border pt-3">
                     <div className="flex justify-between text-lg font-bold">
-                      <span className="text-foreground">Total</span>
+                      <span className="text-foreground">Total excl. shipping</span>
                       <span className="text-brand-red">
-                        R
-                        {(
-                          state.total +
-                          (state.total >= 500 ? 0 : 50) +
-                          state.total * 0.15
-                        ).toFixed(2)}
+                        R{(state.total + state.total * 0.15).toFixed(2)}
                       </span>
                     </div>
                   </div>
                 </div>
 
-                {/* Free Shipping Alert */}
-                {state.total < 500 && (
-                  <div className="bg-gradient-to-r from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-4 mb-6 mobile-shadow">
-                    <div className="flex items-start space-x-2">
-                      <Truck className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-                      <p className="text-sm text-yellow-800 dark:text-yellow-200 font-medium">
-                        Add R{(500 - state.total).toFixed(2)} more for free
-                        shipping!
-                      </p>
-                    </div>
-                  </div>
-                )}
-
                 {/* Action Buttons */}
                 <div className="space-y-3">
                   <Link to="/checkout" className="block w-full">
@@ -268,6 +298,16 @@ export default function Cart() {
                     </Button>
                   </Link>
 
+                  <Link to="/request-quote" className="block w-full">
+                    <Button
+                      variant="outline"
+                      className="w-full py-4 rounded-xl border-2 border-brand-red/40 hover:border-brand-red transition-all duration-300 touch-manipulation"
+                    >
+                      <FileText className="h-4 w-4 mr-2" />
+                      Request a Quote
+                    </Button>
+                  </Link>
+
                   <Link to="/" className="block w-full">
                     <Button
                       variant="outline"
@@ -4,12 +4,69 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useCart } from "@/contexts/CartContext";
+import {
+  getCartItemDecoration,
+  getCartItemTotal,
+  getCartItemUnitPrice,
+  useCart,
+} from "@/contexts/CartContext";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { AddressFields } from "@/components/addresses/AddressFields";
 import { useAuth } from "@/contexts/AuthContext";
-import { orders } from "@/lib/supabaseClient";
+import {
+  addresses,
+  ApiError,
+  companies,
+  orders,
+  paymentMethods,
+  payments,
+  shipping as shippingRules,
+  type Address,
+  type CompanyAddress,
+  type PaymentMethod,
+} from "@/lib/supabaseClient";
+import {
+  CardDetailsForm,
+  emptyCardForm,
+  parseCardForm,
+  type CardFormState,
+} from "@/components/payments/CardDetailsForm";
+import { ThreeDSecureDialog } from "@/components/payments/ThreeDSecureDialog";
+import { guestCart } from "@/lib/guestCart";
+import { calculateOrderTotals } from "@shared/pricing";
+import {
+  DEFAULT_COUNTRY,
+  toOrderAddress,
+  validateAddress,
+} from "@shared/addresses";
+import { requiresApproval } from "@shared/approvals";
+import { getCardExpiryStatus } from "@shared/payments";
+import {
+  DEFAULT_SHIPPING_SERVICE,
+  getShippingOptions,
+  type ShippingConfig,
+  type ShippingServiceLevel,
+} from "@shared/shipping";
+import { formatVariantLabel } from "@shared/variants";
+import type {
+  OrderAddress,
+  OrderCustomerInfo,
+  OrderPaymentMethod,
+  PayOrderRequest,
+  PlaceOrderErrorResponse,
+  PlaceOrderResponse,
+} from "@shared/api";
 import { toast } from "sonner";
 import {
   ArrowLeft,
@@ -27,37 +84,26 @@ import {
   Timer,
 } from "lucide-react";
 
-interface CustomerInfo {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  company?: string;
-}
-
-interface ShippingAddress {
-  address: string;
-  city: string;
-  province: string;
-  postalCode: string;
-  country: string;
-}
+const emptyAddress: OrderAddress = {
+  address: "",
+  city: "",
+  province: "",
+  postalCode: "",
+  country: DEFAULT_COUNTRY,
+};
 
 interface PaymentInfo {
-  method: "eft" | "pending";
-  // Payment processing temporarily disabled
-  // cardNumber?: string;
-  // expiryDate?: string;
-  // cvv?: string;
-  // cardName?: string;
+  method: OrderPaymentMethod;
+  savedMethodId: string | null; // null = pay with a new card
+  card: CardFormState;
 }
 
 export default function Checkout() {
-  const { state, clearCart } = useCart();
-  const { user } = useAuth();
+  const { state, refreshCart, reportStockIssues } = useCart();
+  const { user, profile } = useAuth();
   const navigate = useNavigate();
 
-  const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
+  const [customerInfo, setCustomerInfo] = useState<OrderCustomerInfo>({
     firstName: "",
     lastName: "",
     email: "",
@@ -65,26 +111,167 @@ export default function Checkout() {
     company: "",
   });
 
-  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
-    address: "",
-    city: "",
-    province: "",
-    postalCode: "",
-    country: "South Africa",
-  });
+  const [shippingAddress, setShippingAddress] = useState<OrderAddress>(emptyAddress);
+  const [billingDifferent, setBillingDifferent] = useState(false);
+  const [billingAddress, setBillingAddress] = useState<OrderAddress>(emptyAddress);
 
   const [paymentInfo, setPaymentInfo] = useState<PaymentInfo>({
     method: "pending",
+    savedMethodId: null,
+    card: emptyCardForm,
   });
+  const [savedCards, setSavedCards] = useState<PaymentMethod[]>([]);
+  // Left out until the server confirms a card gateway is configured
+  const [cardsAvailable, setCardsAvailable] = useState(false);
+
+  useEffect(() => {
+    payments.getOptions().then((options) => setCardsAvailable(options.card));
+  }, []);
+
+  useEffect(() => {
+    if (user?.email) {
+      setCustomerInfo((prev) => (prev.email ? prev : { ...prev, email: user.email! }));
+    }
+  }, [user]);
+
+  // Fill in what the customer has not typed yet from their profile
+  useEffect(() => {
+    if (!profile) return;
+    const [firstName = "", ...lastNames] = (profile.full_name ?? "").trim().split(/\s+/);
+    setCustomerInfo((prev) => ({
+      ...prev,
+      firstName: prev.firstName || firstName,
+      lastName: prev.lastName || lastNames.join(" "),
+      phone: prev.phone || profile.phone || "",
+    }));
+  }, [profile]);
+
+  useEffect(() => {
+    if (!user) return;
+    paymentMethods
+      .getAll(user.id)
+      .then((methods) => {
+        // Expired cards are left for the customer to remove on the Payment Methods page
+        const usable = methods.filter(
+          (m) => !m.exp_month || !m.exp_year || getCardExpiryStatus(m.exp_month, m.exp_year) !== "expired"
+        );
+        setSavedCards(usable);
+        const preferred = usable.find((m) => m.is_default) ?? usable[0];
+        if (preferred) {
+          setPaymentInfo((prev) => ({ ...prev, savedMethodId: preferred.id }));
+        }
+      })
+      .catch((error) => console.error('Error loading saved cards:', error));
+  }, [user]);
+
+  // Saved addresses: the customer's address book, and for company members the
+  // company's shared delivery addresses
+  const [savedAddresses, setSavedAddresses] = useState<Address[]>([]);
+  const [companyAddresses, setCompanyAddresses] = useState<CompanyAddress[]>([]);
+  // Orders above the member's limit are held until a company approver signs off
+  const [spendingLimit, setSpendingLimit] = useState<number | null>(null);
+
+  const findSavedAddress = (id: string) =>
+    savedAddresses.find((a) => a.id === id) ?? companyAddresses.find((a) => a.id === id);
+
+  useEffect(() => {
+    if (!user) return;
+    Promise.all([addresses.getAll(user.id), companies.getForUser(user.id)]).then(
+      ([book, membership]) => {
+        setSavedAddresses(book);
+        if (membership) {
+          const { company } = membership;
+          setCustomerInfo((prev) => (prev.company ? prev : { ...prev, company: company.name }));
+          setCompanyAddresses(company.addresses);
+          setSpendingLimit(company.members.find((m) => m.user_id === user.id)?.spending_limit ?? null);
+        }
+
+        // The customer's own default comes before the company's
+        const shipping =
+          book.find((a) => a.is_default_shipping) ??
+          membership?.company.addresses.find((a) => a.is_default);
+        const billing = book.find((a) => a.is_default_billing);
+        if (shipping) setShippingAddress(toOrderAddress(shipping));
+        if (billing && billing.id !== shipping?.id) {
+          setBillingAddress(toOrderAddress(billing));
+          setBillingDifferent(true);
+        }
+      }
+    );
+  }, [user]);
+
+  const savedAddressOptions = (
+    <>
+      {savedAddresses.length > 0 && (
+        <SelectGroup>
+          <SelectLabel>My addresses</SelectLabel>
+          {savedAddresses.map((address) => (
+            <SelectItem key={address.id} value={address.id}>
+              {address.label} - {address.city}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      )}
+      {companyAddresses.length > 0 && (
+        <SelectGroup>
+          <SelectLabel>Company addresses</SelectLabel>
+          {companyAddresses.map((address) => (
+            <SelectItem key={address.id} value={address.id}>
+              {address.label} - {address.city}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      )}
+    </>
+  );
+  const hasSavedAddresses = savedAddresses.length > 0 || companyAddresses.length > 0;
 
-  const [billingDifferent, setBillingDifferent] = useState(false);
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // A card order that was placed but not yet paid; resubmitting only retries payment
+  const [pendingOrder, setPendingOrder] = useState<PlaceOrderResponse | null>(null);
+  const [authenticating, setAuthenticating] = useState(false);
+  const [confirmingPayment, setConfirmingPayment] = useState(false);
 
-  const subtotal = state.total;
-  const shipping = subtotal >= 500 ? 0 : 50;
-  const tax = subtotal * 0.15;
-  const total = subtotal + shipping + tax;
+  const [shippingConfig, setShippingConfig] = useState<ShippingConfig | null>(null);
+  const [shippingService, setShippingService] = useState<ShippingServiceLevel>(DEFAULT_SHIPPING_SERVICE);
+
+  useEffect(() => {
+    shippingRules.getConfig().then(setShippingConfig);
+  }, []);
+
+  // Offered for the delivery address and the cart's weight
+  const shippingOptions = shippingConfig
+    ? getShippingOptions(shippingConfig, {
+        items: state.items.map((item) => ({
+          weight_kg: item.product.weight_kg,
+          length_cm: item.product.length_cm,
+          width_cm: item.product.width_cm,
+          height_cm: item.product.height_cm,
+          quantity: item.quantity,
+        })),
+        subtotal: state.total,
+        province: shippingAddress.province,
+        postalCode: shippingAddress.postalCode,
+      })
+    : [];
+  // The first option stands in while the address doesn't offer the chosen one
+  const selectedShipping =
+    shippingOptions.find((o) => o.service_level === shippingService) ?? shippingOptions[0];
+
+  // Preview only - the server reprices the order when it is placed
+  const { subtotal, shipping, tax, total } = calculateOrderTotals(
+    state.total,
+    selectedShipping?.fee ?? 0
+  );
+  const needsApproval = !pendingOrder && requiresApproval(total, spendingLimit);
+
+  // Cards can't be charged before the order is approved
+  useEffect(() => {
+    if (needsApproval && paymentInfo.method === "card") {
+      setPaymentInfo((prev) => ({ ...prev, method: "eft" }));
+    }
+  }, [needsApproval, paymentInfo.method]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -94,45 +281,127 @@ export default function Checkout() {
       return;
     }
 
+    const shippingError = validateAddress(shippingAddress);
+    if (shippingError) {
+      toast.error(`Shipping address: ${shippingError}`);
+      return;
+    }
+    const billingError = billingDifferent ? validateAddress(billingAddress) : null;
+    if (billingError) {
+      toast.error(`Billing address: ${billingError}`);
+      return;
+    }
+    if (!selectedShipping) {
+      toast.error("Please choose a delivery option.");
+      return;
+    }
+
+    let cardPayment: PayOrderRequest | null = null;
+    if (paymentInfo.method === "card") {
+      if (paymentInfo.savedMethodId) {
+        cardPayment = { payment_method_id: paymentInfo.savedMethodId };
+      } else {
+        const parsed = parseCardForm(paymentInfo.card);
+        if ("error" in parsed) {
+          toast.error(parsed.error);
+          return;
+        }
+        cardPayment = { card: parsed.card };
+      }
+    }
+
     setIsProcessing(true);
 
     // Create order in database
+    let placed = pendingOrder;
     try {
-      if (!user) {
-        toast.error('Please log in to place an order');
-        return;
+      if (!placed) {
+        placed = await orders.place({
+          items: state.items.map(item => ({
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+            customisation: item.customisation,
+            quantity: item.quantity
+          })),
+          customer: customerInfo,
+          shipping_address: shippingAddress,
+          billing_address: billingDifferent ? billingAddress : null,
+          shipping_service: selectedShipping.service_level,
+          payment_method: paymentInfo.method
+        });
       }
 
-      const orderData = {
-        user_id: user.id,
-        products: state.items.map(item => ({
-          product_id: item.product_id,
-          name: item.product.name,
-          price: item.product.price,
-          quantity: item.quantity
-        })),
-        total,
-        status: 'pending' as const,
-        shipping_address: {
-          customerInfo,
-          shippingAddress
+      if (cardPayment && placed.status !== "awaiting_approval") {
+        setPendingOrder(placed);
+        const intent = await payments.payOrder(placed.order_id, cardPayment);
+        if (intent.status === "requires_action") {
+          // finishCheckout() runs once the customer completes 3-D Secure
+          setAuthenticating(true);
+          return;
         }
-      };
+      }
 
-      await orders.create(orderData);
-      await clearCart();
-      
-      toast.success('Order placed successfully!');
-      navigate("/order-confirmation");
+      await finishCheckout(placed);
     } catch (error) {
+      const stockIssues =
+        error instanceof ApiError
+          ? (error.body as PlaceOrderErrorResponse).stock_issues
+          : undefined;
+      if (stockIssues?.length) {
+        // Send the shopper back to the cart where each short line is flagged
+        reportStockIssues(stockIssues);
+        toast.error(error.message);
+        navigate("/cart");
+        return;
+      }
+
+      if (placed) {
+        // The order exists; the customer can fix their card and try again
+        console.error('Card payment failed:', error);
+        toast.error(error instanceof Error ? error.message : 'Payment failed. Please try again.');
+        return;
+      }
+
       console.error('Order creation failed:', error);
-      toast.error('Failed to place order. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to place order. Please try again.');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  if (state.items.length === 0) {
+  const finishCheckout = async (placed: PlaceOrderResponse) => {
+    if (!user) {
+      // Signed-in carts are cleared by the server; guest carts live in this browser
+      guestCart.clear();
+    }
+    await refreshCart();
+
+    toast.success(
+      placed.status === 'awaiting_approval'
+        ? 'Order sent to your company for approval'
+        : 'Order placed successfully!'
+    );
+    navigate("/order-confirmation", { state: { order: placed } });
+  };
+
+  const handleAuthentication = async (authentication: "approved" | "rejected") => {
+    if (!pendingOrder) return;
+
+    setConfirmingPayment(true);
+    try {
+      await payments.confirmPayment(pendingOrder.order_id, { authentication });
+      setAuthenticating(false);
+      await finishCheckout(pendingOrder);
+    } catch (error) {
+      setAuthenticating(false);
+      console.error('Card authentication failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Payment failed. Please try again.');
+    } finally {
+      setConfirmingPayment(false);
+    }
+  };
+
+  if (state.items.length === 0 && !pendingOrder) {
     return (
       <div className="min-h-screen bg-background">
         <div className="container mx-auto px-4 py-12 sm:py-16">
@@ -204,6 +473,13 @@ export default function Checkout() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  {!user && (
+                    <p className="text-sm text-muted-foreground">
+                      Checking out as a guest. Keep the order number and
+                      payment reference shown on the confirmation page; you'll
+                      need them if you contact us about this order.
+                    </p>
+                  )}
                   <div className="grid sm:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label
@@ -332,113 +608,138 @@ export default function Checkout() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <Label
-                      htmlFor="address"
-                      className="flex items-center text-sm font-medium"
-                    >
-                      <span>Street Address</span>
-                      <span className="text-red-500 ml-1">*</span>
-                    </Label>
-                    <Textarea
-                      id="address"
-                      required
-                      rows={3}
-                      value={shippingAddress.address}
-                      onChange={(e) =>
-                        setShippingAddress({
-                          ...shippingAddress,
-                          address: e.target.value,
-                        })
-                      }
-                      className="rounded-xl text-base"
-                      placeholder="123 Main Street, Apt 4B"
-                    />
-                  </div>
-                  <div className="grid sm:grid-cols-2 gap-4">
+                  {hasSavedAddresses && (
                     <div className="space-y-2">
-                      <Label
-                        htmlFor="city"
-                        className="flex items-center text-sm font-medium"
-                      >
-                        <span>City</span>
-                        <span className="text-red-500 ml-1">*</span>
+                      <Label className="flex items-center text-sm font-medium">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        <span>Saved Address</span>
                       </Label>
-                      <Input
-                        id="city"
-                        required
-                        value={shippingAddress.city}
-                        onChange={(e) =>
-                          setShippingAddress({
-                            ...shippingAddress,
-                            city: e.target.value,
-                          })
-                        }
-                        className="h-12 rounded-xl text-base"
-                        placeholder="Johannesburg"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label
-                        htmlFor="province"
-                        className="flex items-center text-sm font-medium"
+                      <Select
+                        onValueChange={(id) => {
+                          const address = findSavedAddress(id);
+                          if (address) setShippingAddress(toOrderAddress(address));
+                        }}
                       >
-                        <span>Province</span>
-                        <span className="text-red-500 ml-1">*</span>
-                      </Label>
-                      <Input
-                        id="province"
-                        required
-                        value={shippingAddress.province}
-                        onChange={(e) =>
-                          setShippingAddress({
-                            ...shippingAddress,
-                            province: e.target.value,
-                          })
-                        }
-                        className="h-12 rounded-xl text-base"
-                        placeholder="Gauteng"
-                      />
-                    </div>
-                  </div>
-                  <div className="grid sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label
-                        htmlFor="postalCode"
-                        className="flex items-center text-sm font-medium"
-                      >
-                        <span>Postal Code</span>
-                        <span className="text-red-500 ml-1">*</span>
-                      </Label>
-                      <Input
-                        id="postalCode"
-                        required
-                        value={shippingAddress.postalCode}
-                        onChange={(e) =>
-                          setShippingAddress({
-                            ...shippingAddress,
-                            postalCode: e.target.value,
-                          })
-                        }
-                        className="h-12 rounded-xl text-base"
-                        placeholder="2000"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="country" className="text-sm font-medium">
-                        Country
-                      </Label>
-                      <Input
-                        id="country"
-                        value={shippingAddress.country}
-                        readOnly
-                        className="h-12 rounded-xl text-base bg-muted"
-                      />
+                        <SelectTrigger className="h-12 rounded-xl text-base">
+                          <SelectValue placeholder="Choose a saved address" />
+                        </SelectTrigger>
+                        <SelectContent>{savedAddressOptions}</SelectContent>
+                      </Select>
                     </div>
+                  )}
+                  <AddressFields
+                    idPrefix="shipping"
+                    value={shippingAddress}
+                    onChange={setShippingAddress}
+                  />
+                  <div className="flex items-center space-x-3 pt-2">
+                    <Checkbox
+                      id="billingDifferent"
+                      checked={billingDifferent}
+                      onCheckedChange={(checked) => setBillingDifferent(!!checked)}
+                    />
+                    <Label htmlFor="billingDifferent" className="text-sm font-medium">
+                      Bill to a different address
+                    </Label>
                   </div>
                 </CardContent>
               </Card>
 
+              {/* Billing Address */}
+              {billingDifferent && (
+                <Card className="mobile-card">
+                  <CardHeader className="pb-4">
+                    <CardTitle className="flex items-center text-lg sm:text-xl">
+                      <Building className="h-5 w-5 mr-2 text-brand-red" />
+                      Billing Address
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {hasSavedAddresses && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center text-sm font-medium">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          <span>Saved Address</span>
+                        </Label>
+                        <Select
+                          onValueChange={(id) => {
+                            const address = findSavedAddress(id);
+                            if (address) setBillingAddress(toOrderAddress(address));
+                          }}
+                        >
+                          <SelectTrigger className="h-12 rounded-xl text-base">
+                            <SelectValue placeholder="Choose a saved address" />
+                          </SelectTrigger>
+                          <SelectContent>{savedAddressOptions}</SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    <AddressFields
+                      idPrefix="billing"
+                      value={billingAddress}
+                      onChange={setBillingAddress}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Printed on your tax invoice.
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Delivery Options */}
+              <Card className="mobile-card">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-lg sm:text-xl">
+                    <Truck className="h-5 w-5 mr-2 text-brand-red" />
+                    Delivery Options
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {shippingOptions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {shippingConfig
+                        ? "We can't deliver this order to your address yet. Please contact us for a quote."
+                        : "Loading delivery options..."}
+                    </p>
+                  ) : (
+                    <RadioGroup
+                      value={selectedShipping?.service_level}
+                      onValueChange={(value) => setShippingService(value as ShippingServiceLevel)}
+                      className="space-y-3"
+                      disabled={!!pendingOrder}
+                    >
+                      {shippingOptions.map((option) => (
+                        <div
+                          key={option.service_level}
+                          className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-brand-red/50 transition-colors touch-manipulation"
+                        >
+                          <RadioGroupItem
+                            value={option.service_level}
+                            id={`shipping-${option.service_level}`}
+                            className="w-5 h-5"
+                          />
+                          <Label htmlFor={`shipping-${option.service_level}`} className="flex-1 font-medium">
+                            {option.label}
+                            {option.delivery_estimate && (
+                              <span className="block text-sm text-muted-foreground font-normal">
+                                {option.delivery_estimate}
+                              </span>
+                            )}
+                          </Label>
+                          <span className="font-medium">
+                            {option.fee === 0 ? (
+                              <span className="text-green-600 font-bold">Free</span>
+                            ) : (
+                              `R${option.fee.toFixed(2)}`
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Payment Method */}
               <Card className="mobile-card">
                 <CardHeader className="pb-4">
@@ -453,11 +754,34 @@ export default function Checkout() {
                     onValueChange={(value) =>
                       setPaymentInfo({
                         ...paymentInfo,
-                        method: value as "eft" | "pending",
+                        method: value as OrderPaymentMethod,
                       })
                     }
                     className="space-y-3"
+                    disabled={!!pendingOrder}
                   >
+                    {needsApproval && (
+                      <p className="text-sm rounded-xl bg-amber-50 text-amber-800 border border-amber-200 p-4">
+                        This order is over your spending limit of R{Number(spendingLimit).toFixed(2)}.
+                        It will be sent to your company's approvers, and you can pay once it is approved.
+                      </p>
+                    )}
+                    {cardsAvailable && (
+                      <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-brand-red/50 transition-colors touch-manipulation">
+                        <RadioGroupItem
+                          value="card"
+                          id="card"
+                          className="w-5 h-5"
+                          disabled={needsApproval}
+                        />
+                        <Label htmlFor="card" className="flex-1 font-medium">
+                          Credit/Debit Card
+                          <span className="block text-sm text-muted-foreground font-normal">
+                            Pay now - your order is processed straight away
+                          </span>
+                        </Label>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-3 p-4 rounded-xl border border-border hover:border-brand-red/50 transition-colors touch-manipulation">
                       <RadioGroupItem
                         value="eft"
@@ -486,16 +810,60 @@ export default function Checkout() {
                     </div>
                   </RadioGroup>
 
-                  {/* Card payment form removed - payment processing disabled */}
+                  {paymentInfo.method === "card" && (
+                    <div className="space-y-4 p-4 rounded-xl border border-border">
+                      {savedCards.length > 0 && (
+                        <RadioGroup
+                          value={paymentInfo.savedMethodId ?? "new"}
+                          onValueChange={(value) =>
+                            setPaymentInfo({
+                              ...paymentInfo,
+                              savedMethodId: value === "new" ? null : value,
+                            })
+                          }
+                          className="space-y-2"
+                        >
+                          {savedCards.map((method) => (
+                            <div key={method.id} className="flex items-center space-x-3">
+                              <RadioGroupItem value={method.id} id={`card-${method.id}`} />
+                              <Label htmlFor={`card-${method.id}`} className="font-medium">
+                                {method.brand || 'Card'} ending in {method.last4 || '****'}
+                              </Label>
+                            </div>
+                          ))}
+                          <div className="flex items-center space-x-3">
+                            <RadioGroupItem value="new" id="card-new" />
+                            <Label htmlFor="card-new" className="font-medium">
+                              Use a new card
+                            </Label>
+                          </div>
+                        </RadioGroup>
+                      )}
+                      {!paymentInfo.savedMethodId && (
+                        <CardDetailsForm
+                          value={paymentInfo.card}
+                          onChange={(card) => setPaymentInfo({ ...paymentInfo, card })}
+                          inputClassName="h-12 rounded-xl text-base"
+                          labelClassName="text-sm font-medium"
+                        />
+                      )}
+                      {pendingOrder && (
+                        <p className="text-sm text-muted-foreground">
+                          Order {pendingOrder.payment_reference} has been placed
+                          and is waiting for payment.
+                        </p>
+                      )}
+                    </div>
+                  )}
 
                   {paymentInfo.method === "eft" && (
                     <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl mobile-glass">
                       <div className="flex items-start space-x-3">
                         <Truck className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
                         <p className="text-sm text-blue-800 dark:text-blue-200 font-medium">
-                          Bank transfer details will be provided after order
-                          confirmation. Your order will be processed once
-                          payment is received.
+                          Our bank details and your payment reference are
+                          shown once you place the order. Your order will be
+                          processed once payment is received.
                         </p>
                       </div>
                     </div>
@@ -572,13 +940,20 @@ export default function Checkout() {
                         <div className="flex-1 pr-2">
                           <div className="font-medium line-clamp-1">
                             {item.product.name}
+                            {item.variant &&
+                              ` (${formatVariantLabel(item.variant.options, item.product.variant_axes)})`}
                           </div>
                           <div className="text-muted-foreground">
-                            Qty: {item.quantity} × R{item.product.price.toFixed(2)}
+                            Qty: {item.quantity} × R{getCartItemUnitPrice(item, state.items).toFixed(2)}
                           </div>
+                          <CustomisationSummary
+                            customisation={item.customisation}
+                            setupFee={getCartItemDecoration(item)?.setup_fee}
+                            className="text-xs text-muted-foreground"
+                          />
                         </div>
                         <div className="font-bold text-brand-red">
-                          R{(item.product.price * item.quantity).toFixed(2)}
+                          R{getCartItemTotal(item, state.items).toFixed(2)}
                         </div>
                       </div>
                     ))}
@@ -598,7 +973,9 @@ export default function Checkout() {
                         Shipping
                       </span>
                       <span className="font-medium">
-                        {shipping === 0 ? (
+                        {!selectedShipping ? (
+                          <span className="text-muted-foreground">-</span>
+                        ) : shipping === 0 ? (
                           <span className="text-green-600 font-bold">Free</span>
                         ) : (
                           `R${shipping.toFixed(2)}`
@@ -634,7 +1011,7 @@ export default function Checkout() {
                       ) : (
                         <>
                           <Lock className="h-5 w-5 mr-2" />
-                          Place Order - R{total.toFixed(2)}
+                          {pendingOrder ? "Pay" : "Place Order"} - R{(pendingOrder?.total ?? total).toFixed(2)}
                         </>
                       )}
                     </Button>
@@ -682,6 +1059,13 @@ export default function Checkout() {
           </div>
         </form>
       </div>
+
+      <ThreeDSecureDialog
+        open={authenticating}
+        amount={pendingOrder?.total ?? total}
+        submitting={confirmingPayment}
+        onComplete={handleAuthentication}
+      />
     </div>
   );
 }
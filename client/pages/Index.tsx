@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from "react";
-import { Link, useSearchParams } from "react-router-dom";
+import { Link, Navigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,7 +7,7 @@ import { OptimizedImage } from "@/components/OptimizedImage";
 import { SEO, generateFAQSchema } from "@/components/SEO";
 import { EditableText, EditableImage } from "@/components/EditableText";
 import { useEditing } from "@/contexts/EditingContext";
-import { categories } from "@/data/products";
+import { useCategories } from "@/hooks/useCategories";
 import { useProducts } from "@/hooks/useProducts";
 import { ProductGrid } from "@/components/ProductGrid";
 import {
@@ -48,20 +48,9 @@ export default function Index() {
   const searchQuery = searchParams.get('search');
   const { products: allProducts, loading, error } = useProducts();
   const { getContent } = useEditing();
+  const { tree: categoryTree } = useCategories();
   
-  // Filter products based on search query
-  const searchResults = useMemo(() => {
-    if (!searchQuery || !allProducts.length) return [];
-    
-    const query = searchQuery.toLowerCase().trim();
-    return allProducts.filter(product => 
-      product.name.toLowerCase().includes(query) ||
-      product.description?.toLowerCase().includes(query) ||
-      product.category.toLowerCase().includes(query)
-    );
-  }, [searchQuery, allProducts]);
-
-  // Featured products (random selection of 6 products)
+  // Featured products (random selection of 6 from the newest page)
   const featuredProducts = useMemo(() => {
     if (!allProducts.length) return [];
     const shuffled = [...allProducts].sort(() => 0.5 - Math.random());
@@ -92,7 +81,13 @@ export default function Index() {
     },
   ];
 
-  const featuredCategories = categories.slice(0, 6);
+  const featuredCategories = categoryTree.slice(0, 6).map((category) => ({
+    title: category.name,
+    description: category.description ?? "",
+    image: category.image_url || "/placeholder.svg",
+    href: `/${category.slug}`,
+    count: category.product_count,
+  }));
 
   // Marketing slideshow banners - using dynamic content
   const marketingSlides = [
@@ -159,6 +154,11 @@ export default function Index() {
     setCurrentSlide(index);
   };
 
+  // Old links searched on the home page; search has its own page now
+  if (searchQuery) {
+    return <Navigate to={`/search?q=${encodeURIComponent(searchQuery)}`} replace />;
+  }
+
   return (
     <div className="min-h-screen">
       <SEO
@@ -427,50 +427,8 @@ export default function Index() {
         </div>
       </section>
 
-      {/* Search Results Section - Only show when there's a search query */}
-      {searchQuery && (
-        <section className="py-16 sm:py-20 relative">
-          <div className="container mx-auto px-4">
-            <div className="text-center mb-12">
-              <h2 className="text-3xl sm:text-4xl font-bold text-white mb-4">
-                Search Results for "{searchQuery}"
-              </h2>
-              <p className="text-gray-300">
-                {loading ? (
-                  "Searching products..."
-                ) : searchResults.length > 0 ? (
-                  `Found ${searchResults.length} product${searchResults.length !== 1 ? 's' : ''}`
-                ) : (
-                  "No products found. Try adjusting your search terms."
-                )}
-              </p>
-            </div>
-            
-            <ProductGrid 
-              products={searchResults}
-              loading={loading}
-              error={error}
-              columns={3}
-            />
-            
-            {!loading && searchResults.length === 0 && (
-              <div className="text-center mt-12">
-                <p className="text-gray-400 mb-6">
-                  Try browsing our categories or searching for different keywords.
-                </p>
-                <Link to="/">
-                  <Button className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red">
-                    Browse All Categories
-                  </Button>
-                </Link>
-              </div>
-            )}
-          </div>
-        </section>
-      )}
-
-      {/* Featured Products Section - Only show when not searching */}
-      {!searchQuery && featuredProducts.length > 0 && (
+      {/* Featured Products Section */}
+      {featuredProducts.length > 0 && (
         <section className="py-16 sm:py-20 relative overflow-hidden">
           <div className="absolute inset-0 bg-gradient-to-b from-gray-900 to-black" />
           <div className="container mx-auto px-4 relative z-10">
@@ -590,7 +548,7 @@ export default function Index() {
                       <div className="absolute top-4 left-4 z-20">
                         <Badge className="bg-black/50 backdrop-blur-lg text-white border-0 font-bold px-3 py-1">
                           <Layers className="h-3 w-3 mr-1" />
-                          {category.count}+ Products
+                          {category.count} {category.count === 1 ? "Product" : "Products"}
                         </Badge>
                       </div>
                     </div>
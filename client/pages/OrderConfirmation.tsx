@@ -1,6 +1,14 @@
-import { Link } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { orders, Order } from "@/lib/supabaseClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { EftPaymentDetails } from "@/components/orders/EftPaymentDetails";
+import type { PlaceOrderResponse } from "@shared/api";
+import { PAYMENT_STATUS_LABELS } from "@shared/payments";
+import { toast } from "sonner";
 import {
   CheckCircle,
   Package,
@@ -8,13 +16,55 @@ import {
   Mail,
   ArrowRight,
   Download,
+  Loader2,
+  UserCheck,
 } from "lucide-react";
 
+interface OrderConfirmationState {
+  order?: PlaceOrderResponse;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-ZA", {
+    style: "currency",
+    currency: "ZAR",
+  }).format(amount);
+
 export default function OrderConfirmation() {
-  // In a real app, this would come from URL params or state
-  const orderNumber =
-    "APX-" + Math.random().toString(36).substr(2, 9).toUpperCase();
-  const estimatedDelivery = new Date();
+  const location = useLocation();
+  const { user } = useAuth();
+  const placed = (location.state as OrderConfirmationState | null)?.order;
+  const [order, setOrder] = useState<Order | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    // Guest orders are not readable through RLS; the totals from checkout still show
+    if (placed?.order_id && user) {
+      orders.getById(placed.order_id).then(setOrder);
+    }
+  }, [placed?.order_id, user]);
+
+  const handleDownloadInvoice = async () => {
+    if (!placed) return;
+    setDownloading(true);
+    try {
+      await orders.downloadInvoice(placed.order_id);
+    } catch (error) {
+      console.error("Invoice download failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to download invoice",
+      );
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Over the buyer's spending limit: nothing is payable until it is approved
+  const awaitingApproval =
+    (order?.status ?? placed?.status) === "awaiting_approval";
+  const orderNumber = placed ? placed.order_id.slice(-8).toUpperCase() : "—";
+  const orderDate = order ? new Date(order.created_at) : new Date();
+  const estimatedDelivery = new Date(orderDate);
   estimatedDelivery.setDate(estimatedDelivery.getDate() + 7);
 
   return (
@@ -22,16 +72,30 @@ export default function OrderConfirmation() {
       <div className="container mx-auto px-4 py-16">
         <div className="max-w-2xl mx-auto text-center">
           {/* Success Icon */}
-          <div className="mb-8">
-            <CheckCircle className="h-20 w-20 text-green-500 mx-auto mb-4" />
-            <h1 className="text-3xl font-bold text-foreground mb-2">
-              Order Confirmed!
-            </h1>
-            <p className="text-muted-foreground">
-              Thank you for your purchase. Your order has been successfully
-              placed.
-            </p>
-          </div>
+          {awaitingApproval ? (
+            <div className="mb-8">
+              <UserCheck className="h-20 w-20 text-amber-500 mx-auto mb-4" />
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                Sent for Approval
+              </h1>
+              <p className="text-muted-foreground">
+                This order is over your spending limit, so your company's
+                approvers have been asked to approve it. We'll let you know
+                their decision on your orders page.
+              </p>
+            </div>
+          ) : (
+            <div className="mb-8">
+              <CheckCircle className="h-20 w-20 text-green-500 mx-auto mb-4" />
+              <h1 className="text-3xl font-bold text-foreground mb-2">
+                Order Confirmed!
+              </h1>
+              <p className="text-muted-foreground">
+                Thank you for your purchase. Your order has been successfully
+                placed.
+              </p>
+            </div>
+          )}
 
           {/* Order Details */}
           <Card className="mb-8">
@@ -49,7 +113,7 @@ export default function OrderConfirmation() {
                 <div className="text-left">
                   <div className="text-muted-foreground">Order Date</div>
                   <div className="font-semibold text-foreground">
-                    {new Date().toLocaleDateString()}
+                    {orderDate.toLocaleDateString()}
                   </div>
                 </div>
                 <div className="text-left">
@@ -62,9 +126,68 @@ export default function OrderConfirmation() {
                 </div>
                 <div className="text-left">
                   <div className="text-muted-foreground">Payment Status</div>
-                  <div className="font-semibold text-green-600">Confirmed</div>
+                  <div className="font-semibold text-foreground">
+                    {PAYMENT_STATUS_LABELS[order?.payment_status ?? "unpaid"]}
+                  </div>
                 </div>
               </div>
+
+              {order && order.items.length > 0 && (
+                <div className="border-t pt-4 space-y-2 text-sm">
+                  {order.items.map((item) => (
+                    <div key={item.id} className="flex justify-between">
+                      <span className="text-left text-foreground">
+                        {item.product_name}
+                        {item.variant_label && ` (${item.variant_label})`}
+                        <span className="text-muted-foreground ml-2">
+                          × {item.quantity}
+                        </span>
+                        <CustomisationSummary
+                          customisation={item.customisation}
+                          setupFee={item.setup_fee}
+                          className="text-xs text-muted-foreground"
+                        />
+                      </span>
+                      <span className="font-medium">
+                        {formatCurrency(item.line_total)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {placed && (
+                <div className="border-t pt-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Subtotal</span>
+                    <span>{formatCurrency(placed.subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Shipping</span>
+                    <span>{formatCurrency(placed.shipping)}</span>
+                  </div>
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>VAT (15%)</span>
+                    <span>{formatCurrency(placed.tax)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-foreground">
+                    <span>Total</span>
+                    <span>{formatCurrency(placed.total)}</span>
+                  </div>
+                </div>
+              )}
+
+              {placed?.payment_method === "eft" && !awaitingApproval && (
+                <EftPaymentDetails
+                  paymentReference={placed.payment_reference}
+                  total={placed.total}
+                  paymentStatus={order?.payment_status}
+                  orderId={order?.id}
+                  onProofUploaded={() =>
+                    orders.getById(placed.order_id).then(setOrder)
+                  }
+                />
+              )}
             </CardContent>
           </Card>
 
@@ -116,15 +239,24 @@ export default function OrderConfirmation() {
 
           {/* Action Buttons */}
           <div className="space-y-4">
-            <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <Button
-                variant="outline"
-                className="flex items-center justify-center"
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Download Invoice
-              </Button>
-            </div>
+            {/* The invoice route needs a signed-in owner, so guests do not get the button */}
+            {placed && user && !awaitingApproval && (
+              <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                <Button
+                  variant="outline"
+                  className="flex items-center justify-center"
+                  onClick={handleDownloadInvoice}
+                  disabled={downloading}
+                >
+                  {downloading ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Download Tax Invoice
+                </Button>
+              </div>
+            )}
 
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Link to="/">
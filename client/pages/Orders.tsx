@@ -1,11 +1,34 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { orders, Order } from "@/lib/supabaseClient";
+import {
+  ApiError,
+  AppNotification,
+  companies,
+  notifications,
+  orders,
+  Order,
+  Quote,
+  quotes,
+  Refund,
+  refunds,
+} from "@/lib/supabaseClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { OrderStatusTimeline } from "@/components/orders/OrderStatusTimeline";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import { QuoteCard } from "@/components/orders/QuoteCard";
+import { EftPaymentDetails } from "@/components/orders/EftPaymentDetails";
+import { ApprovalRequestCard } from "@/components/orders/ApprovalRequestCard";
+import { OrderAddressLines } from "@/components/addresses/OrderAddressLines";
+import type { OrderPaymentMethod, PlaceOrderErrorResponse } from "@shared/api";
+import { APPROVAL_DECISION_LABELS, ApprovalDecision } from "@shared/approvals";
+import { canApproveOrders } from "@shared/companies";
+import { ORDER_STATUS_LABELS } from "@shared/orderStatus";
+import { REFUND_METHOD_LABELS } from "@shared/refunds";
+import { SHIPPING_SERVICE_LABELS } from "@shared/shipping";
 import {
   Package,
   Calendar,
@@ -17,21 +40,30 @@ import {
   XCircle,
   Clock,
   Eye,
+  FileDown,
+  Undo2,
+  UserCheck,
+  Bell,
+  X,
 } from "lucide-react";
 
-interface OrderItemDetail {
-  product_id: string;
-  title: string;
-  price: number;
-  quantity: number;
-}
+// Company orders other members are waiting on this user to approve
+const getApprovalQueue = async (userId: string): Promise<Order[]> => {
+  const membership = await companies.getForUser(userId);
+  if (!membership || !canApproveOrders(membership.role)) return [];
+  const awaiting = await orders.getAwaitingApproval(membership.company.id);
+  return awaiting.filter((order) => order.user_id !== userId);
+};
 
 export default function Orders() {
   const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
   const [userOrders, setUserOrders] = useState<Order[]>([]);
+  const [userQuotes, setUserQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [approvalQueue, setApprovalQueue] = useState<Order[]>([]);
+  const [userNotifications, setUserNotifications] = useState<AppNotification[]>([]);
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -42,8 +74,16 @@ export default function Orders() {
 
       try {
         setLoading(true);
-        const ordersList = await orders.getUserOrders(user.id);
+        const [ordersList, quotesList, queue, unread] = await Promise.all([
+          orders.getUserOrders(user.id),
+          quotes.getUserQuotes(user.id),
+          getApprovalQueue(user.id),
+          notifications.getUnread(user.id),
+        ]);
         setUserOrders(ordersList);
+        setUserQuotes(quotesList);
+        setApprovalQueue(queue);
+        setUserNotifications(unread);
       } catch (error) {
         console.error("Error fetching orders:", error);
         toast({
@@ -61,10 +101,135 @@ export default function Orders() {
     }
   }, [user, authLoading, toast]);
 
+  const refresh = async () => {
+    if (!user) return;
+    const [ordersList, quotesList, queue, unread] = await Promise.all([
+      orders.getUserOrders(user.id),
+      quotes.getUserQuotes(user.id),
+      getApprovalQueue(user.id),
+      notifications.getUnread(user.id),
+    ]);
+    setUserOrders(ordersList);
+    setUserQuotes(quotesList);
+    setApprovalQueue(queue);
+    setUserNotifications(unread);
+  };
+
+  const handleAcceptQuote = async (quote: Quote, paymentMethod: OrderPaymentMethod) => {
+    try {
+      const placed = await quotes.accept(quote.id, { payment_method: paymentMethod });
+      toast({
+        title: "Quote accepted",
+        description: placed.status === 'awaiting_approval'
+          ? "Your order is over your spending limit and has been sent to your company's approvers."
+          : "Your order has been placed at the quoted prices.",
+      });
+      await refresh();
+    } catch (error) {
+      const stockIssues =
+        error instanceof ApiError
+          ? (error.body as PlaceOrderErrorResponse).stock_issues
+          : undefined;
+      toast({
+        title: "Could not accept quote",
+        description: stockIssues?.length
+          ? `Not enough stock for ${stockIssues.map((issue) => issue.name).join(", ")}. Please contact us to update the quote.`
+          : error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDecideApproval = async (
+    order: Order,
+    decision: ApprovalDecision,
+    comment: string,
+  ) => {
+    try {
+      await orders.decideApproval(order.id, { decision, comment: comment || undefined });
+      toast({
+        title: `Order ${APPROVAL_DECISION_LABELS[decision].toLowerCase()}`,
+        description: decision === 'approved'
+          ? "The buyer has been notified and the order can go ahead."
+          : "The buyer has been notified and the order was cancelled.",
+      });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Could not record your decision",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDismissNotification = async (notification: AppNotification) => {
+    const { error } = await notifications.markRead(notification.id);
+    if (error) {
+      console.error("Error dismissing notification:", error);
+      return;
+    }
+    setUserNotifications((prev) => prev.filter((n) => n.id !== notification.id));
+  };
+
+  const handleDownloadInvoice = async (order: Order) => {
+    try {
+      await orders.downloadInvoice(order.id);
+    } catch (error) {
+      toast({
+        title: "Could not download invoice",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadCreditNote = async (refund: Refund) => {
+    try {
+      await refunds.downloadCreditNote(refund);
+    } catch (error) {
+      toast({
+        title: "Could not download credit note",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadQuote = async (quote: Quote) => {
+    try {
+      await quotes.downloadPdf(quote.id);
+    } catch (error) {
+      toast({
+        title: "Could not download quote",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeclineQuote = async (quote: Quote) => {
+    try {
+      await quotes.decline(quote.id);
+      toast({ title: "Quote declined" });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Could not decline quote",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusIcon = (status: Order['status']) => {
     switch (status) {
+      case 'awaiting_approval':
+        return <UserCheck className="h-4 w-4" />;
       case 'pending':
         return <Clock className="h-4 w-4" />;
+      case 'processing':
+        return <Package className="h-4 w-4" />;
       case 'shipped':
         return <Truck className="h-4 w-4" />;
       case 'completed':
@@ -78,8 +243,12 @@ export default function Orders() {
 
   const getStatusColor = (status: Order['status']) => {
     switch (status) {
+      case 'awaiting_approval':
+        return 'bg-amber-100 text-amber-800 border-amber-300';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+      case 'processing':
+        return 'bg-purple-100 text-purple-800 border-purple-300';
       case 'shipped':
         return 'bg-blue-100 text-blue-800 border-blue-300';
       case 'completed':
@@ -150,6 +319,68 @@ export default function Orders() {
           </p>
         </div>
 
+        {userNotifications.length > 0 && (
+          <div className="mb-8 space-y-2">
+            {userNotifications.map((notification) => (
+              <div
+                key={notification.id}
+                className="flex items-start justify-between gap-3 rounded-lg border bg-muted/50 p-3 text-sm"
+              >
+                <div className="flex items-start gap-2">
+                  <Bell className="h-4 w-4 mt-0.5 text-brand-red" />
+                  <div>
+                    <p>{notification.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(notification.created_at)}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleDismissNotification(notification)}
+                  aria-label="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {approvalQueue.length > 0 && (
+          <div className="mb-10">
+            <h2 className="text-2xl font-semibold mb-4">Awaiting Your Approval</h2>
+            <div className="grid gap-6 lg:grid-cols-2">
+              {approvalQueue.map((order) => (
+                <ApprovalRequestCard
+                  key={order.id}
+                  order={order}
+                  onDecide={handleDecideApproval}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {userQuotes.length > 0 && (
+          <div className="mb-10">
+            <h2 className="text-2xl font-semibold mb-4">Quotes</h2>
+            <div className="grid gap-6 lg:grid-cols-2">
+              {userQuotes.map((quote) => (
+                <QuoteCard
+                  key={quote.id}
+                  quote={quote}
+                  onAccept={handleAcceptQuote}
+                  onDecline={handleDeclineQuote}
+                  onDownload={handleDownloadQuote}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {userOrders.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
@@ -180,7 +411,7 @@ export default function Orders() {
                       className={`${getStatusColor(order.status)} flex items-center space-x-1`}
                     >
                       {getStatusIcon(order.status)}
-                      <span className="capitalize">{order.status}</span>
+                      <span>{ORDER_STATUS_LABELS[order.status]}</span>
                     </Badge>
                   </div>
                 </CardHeader>
@@ -204,52 +435,150 @@ export default function Orders() {
                   <div>
                     <h4 className="font-medium mb-3">Order Items</h4>
                     <div className="space-y-2">
-                      {(order.products as OrderItemDetail[]).map((item, index) => (
-                        <div key={index} className="flex justify-between items-center text-sm">
+                      {order.items.map((item) => (
+                        <div key={item.id} className="flex justify-between items-center text-sm">
                           <div className="flex-1">
-                            <span className="font-medium">{item.title}</span>
+                            <span className="font-medium">{item.product_name}</span>
+                            {item.variant_label && (
+                              <span className="text-muted-foreground ml-1">({item.variant_label})</span>
+                            )}
                             <span className="text-muted-foreground ml-2">
-                              × {item.quantity}
+                              × {item.quantity} @ {formatCurrency(item.unit_price)}
                             </span>
+                            {item.cancelled_quantity > 0 && (
+                              <span className="text-red-600 ml-2">
+                                ({item.cancelled_quantity} cancelled)
+                              </span>
+                            )}
+                            <CustomisationSummary
+                              customisation={item.customisation}
+                              setupFee={item.setup_fee}
+                              className="text-xs text-muted-foreground"
+                            />
                           </div>
                           <span className="font-semibold">
-                            {formatCurrency(item.price * item.quantity)}
+                            {formatCurrency(item.line_total)}
                           </span>
                         </div>
                       ))}
                     </div>
                   </div>
 
+                  {order.refunds && order.refunds.length > 0 && (
+                    <>
+                      <Separator />
+                      <div>
+                        <h4 className="font-medium mb-3 flex items-center">
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Refunds
+                        </h4>
+                        <div className="space-y-3">
+                          {order.refunds.map((refund) => (
+                            <div key={refund.id} className="text-sm border rounded-lg p-3 space-y-1">
+                              <div className="flex justify-between items-center">
+                                <span className="font-medium">
+                                  Credit note {refund.credit_note_number}
+                                </span>
+                                <span className="font-semibold">
+                                  -{formatCurrency(refund.total)}
+                                </span>
+                              </div>
+                              <div className="text-muted-foreground">
+                                {formatDate(refund.created_at)} · {REFUND_METHOD_LABELS[refund.method]}
+                              </div>
+                              {refund.items.map((refundItem) => (
+                                <div key={refundItem.id} className="text-muted-foreground">
+                                  {order.items.find((item) => item.id === refundItem.order_item_id)?.product_name ?? "Item"} × {refundItem.quantity}
+                                </div>
+                              ))}
+                              {Number(refund.shipping) > 0 && (
+                                <div className="text-muted-foreground">
+                                  Shipping {formatCurrency(refund.shipping)}
+                                </div>
+                              )}
+                              <div className="flex justify-between items-center pt-1">
+                                <span className="text-muted-foreground italic">{refund.reason}</span>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDownloadCreditNote(refund)}
+                                >
+                                  <FileDown className="h-4 w-4 mr-2" />
+                                  Credit Note
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  )}
+
                   {order.shipping_address && (
                     <>
                       <Separator />
                       <div>
                         <h4 className="font-medium mb-2">Shipping Address</h4>
                         <div className="text-sm text-muted-foreground">
+                          {order.shipping_service && (
+                            <p className="font-medium">{SHIPPING_SERVICE_LABELS[order.shipping_service]}</p>
+                          )}
                           {typeof order.shipping_address === 'object' ? (
-                            <div>
-                              <p>{order.shipping_address.street}</p>
-                              <p>{order.shipping_address.city}, {order.shipping_address.province}</p>
-                              <p>{order.shipping_address.postal_code}, {order.shipping_address.country}</p>
-                            </div>
+                            <OrderAddressLines address={order.shipping_address.shippingAddress} />
                           ) : (
                             <p>{String(order.shipping_address)}</p>
                           )}
                         </div>
                       </div>
+                      {order.billing_address && (
+                        <div>
+                          <h4 className="font-medium mb-2">Billing Address</h4>
+                          <div className="text-sm text-muted-foreground">
+                            <OrderAddressLines address={order.billing_address} />
+                          </div>
+                        </div>
+                      )}
                     </>
                   )}
 
+                  {order.status === 'awaiting_approval' && (
+                    <p className="text-sm rounded-lg bg-amber-50 text-amber-800 p-3">
+                      This order is over your spending limit. Your company's approvers have been asked to approve it.
+                    </p>
+                  )}
+
+                  {order.payment_method === 'eft' && order.status !== 'cancelled' && order.status !== 'awaiting_approval' && (
+                    <EftPaymentDetails
+                      paymentReference={order.payment_reference}
+                      total={order.total}
+                      paymentStatus={order.payment_status}
+                      orderId={order.id}
+                      onProofUploaded={refresh}
+                    />
+                  )}
+
                   <div className="pt-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setSelectedOrder(selectedOrder?.id === order.id ? null : order)}
-                      className="w-full"
-                    >
-                      <Eye className="h-4 w-4 mr-2" />
-                      {selectedOrder?.id === order.id ? 'Hide Details' : 'View Details'}
-                    </Button>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSelectedOrder(selectedOrder?.id === order.id ? null : order)}
+                        className="flex-1"
+                      >
+                        <Eye className="h-4 w-4 mr-2" />
+                        {selectedOrder?.id === order.id ? 'Hide Details' : 'View Details'}
+                      </Button>
+                      {order.status !== 'cancelled' && order.status !== 'awaiting_approval' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownloadInvoice(order)}
+                        >
+                          <FileDown className="h-4 w-4 mr-2" />
+                          Tax Invoice
+                        </Button>
+                      )}
+                    </div>
 
                     {selectedOrder?.id === order.id && (
                       <div className="mt-4 p-4 bg-muted/50 rounded-lg">
@@ -260,18 +589,43 @@ export default function Orders() {
                           </div>
                           <div>
                             <span className="font-medium">Status:</span>
-                            <span className="ml-2 capitalize">{order.status}</span>
+                            <span className="ml-2">{ORDER_STATUS_LABELS[order.status]}</span>
                           </div>
                           <div>
                             <span className="font-medium">Total Items:</span>
                             <span className="ml-2">
-                              {(order.products as OrderItemDetail[]).reduce((sum, item) => sum + item.quantity, 0)}
+                              {order.items.reduce((sum, item) => sum + item.quantity, 0)}
                             </span>
                           </div>
                           <div>
                             <span className="font-medium">Last Updated:</span>
                             <span className="ml-2">{formatDate(order.updated_at)}</span>
                           </div>
+                          {order.approvals && order.approvals.length > 0 && (
+                            <>
+                              <Separator />
+                              <div>
+                                <span className="font-medium block mb-2">Approvals</span>
+                                {order.approvals.map((approval) => (
+                                  <div key={approval.id} className="mb-2 last:mb-0">
+                                    <p>
+                                      {APPROVAL_DECISION_LABELS[approval.decision]} by{" "}
+                                      {approval.decider?.full_name || approval.decider?.email || "an approver"}
+                                      <span className="text-muted-foreground"> · {formatDate(approval.created_at)}</span>
+                                    </p>
+                                    {approval.comment && (
+                                      <p className="text-muted-foreground italic">{approval.comment}</p>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                            </>
+                          )}
+                          <Separator />
+                          <div>
+                            <span className="font-medium block mb-3">Status History</span>
+                            <OrderStatusTimeline history={order.status_history} />
+                          </div>
                         </div>
                       </div>
                     )}
@@ -1,34 +1,30 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/lib/supabaseClient";
+import { paymentMethods as paymentMethodsApi, type PaymentMethod } from "@/lib/supabaseClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
+import type { CardDetails } from "@shared/api";
+import { getCardExpiryStatus } from "@shared/payments";
 import { CreditCard, Plus, Trash2, Shield, AlertCircle, CheckCircle } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CardDetailsForm,
+  emptyCardForm,
+  parseCardForm,
+} from "@/components/payments/CardDetailsForm";
 
-interface PaymentMethod {
-  id: string;
-  user_id: string;
-  type: 'card' | 'bank' | 'ewallet';
-  provider: string;
-  last_four: string;
-  is_default: boolean;
-  expires_at?: string;
-  created_at: string;
-  updated_at: string;
-}
+const getExpiryStatus = (method: PaymentMethod) =>
+  method.exp_month && method.exp_year
+    ? getCardExpiryStatus(method.exp_month, method.exp_year)
+    : null;
 
 export default function PaymentMethods() {
   const { user } = useAuth();
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddingPayment, setIsAddingPayment] = useState(false);
-  const [newPaymentType, setNewPaymentType] = useState<'card' | 'bank' | 'ewallet'>('card');
 
   useEffect(() => {
     if (user) {
@@ -37,61 +33,29 @@ export default function PaymentMethods() {
   }, [user]);
 
   const loadPaymentMethods = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('payment_methods')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('is_default', { ascending: false })
-        .order('created_at', { ascending: false });
+    if (!user) return;
 
-      if (error) throw error;
-      setPaymentMethods(data || []);
-    } catch (error) {
-      console.error('Error loading payment methods:', error);
-      toast.error('Failed to load payment methods');
-    } finally {
-      setLoading(false);
-    }
+    setPaymentMethods(await paymentMethodsApi.getAll(user.id));
+    setLoading(false);
   };
 
-  const handleAddPaymentMethod = async (formData: {
-    type: 'card' | 'bank' | 'ewallet';
-    provider: string;
-    lastFour: string;
-    expiresAt?: string;
-  }) => {
-    if (!user) return;
-
+  const handleAddPaymentMethod = async (card: CardDetails) => {
     try {
-      const { error } = await supabase
-        .from('payment_methods')
-        .insert({
-          user_id: user.id,
-          type: formData.type,
-          provider: formData.provider,
-          last_four: formData.lastFour,
-          expires_at: formData.expiresAt || null,
-          is_default: paymentMethods.length === 0, // First payment method is default
-        });
+      // The card goes to our server, which stores only the provider's token
+      await paymentMethodsApi.saveCard({ card });
 
-      if (error) throw error;
-
-      toast.success('Payment method added successfully');
+      toast.success('Card saved successfully');
       loadPaymentMethods();
       setIsAddingPayment(false);
     } catch (error) {
       console.error('Error adding payment method:', error);
-      toast.error('Failed to add payment method');
+      toast.error(error instanceof Error ? error.message : 'Failed to save card');
     }
   };
 
   const handleDeletePaymentMethod = async (paymentMethodId: string) => {
     try {
-      const { error } = await supabase
-        .from('payment_methods')
-        .delete()
-        .eq('id', paymentMethodId);
+      const { error } = await paymentMethodsApi.remove(paymentMethodId);
 
       if (error) throw error;
 
@@ -104,20 +68,8 @@ export default function PaymentMethods() {
   };
 
   const handleSetDefault = async (paymentMethodId: string) => {
-    if (!user) return;
-
     try {
-      // Remove default from all payment methods
-      await supabase
-        .from('payment_methods')
-        .update({ is_default: false })
-        .eq('user_id', user.id);
-
-      // Set new default
-      const { error } = await supabase
-        .from('payment_methods')
-        .update({ is_default: true })
-        .eq('id', paymentMethodId);
+      const { error } = await paymentMethodsApi.setDefault(paymentMethodId);
 
       if (error) throw error;
 
@@ -129,23 +81,13 @@ export default function PaymentMethods() {
     }
   };
 
-  const getPaymentMethodIcon = (type: string) => {
-    switch (type) {
-      case 'card':
-        return <CreditCard className="h-5 w-5" />;
-      case 'bank':
-        return <CreditCard className="h-5 w-5" />;
-      case 'ewallet':
-        return <Shield className="h-5 w-5" />;
-      default:
-        return <CreditCard className="h-5 w-5" />;
-    }
+  const formatExpiry = (method: PaymentMethod) => {
+    if (!method.exp_month || !method.exp_year) return null;
+    return `${String(method.exp_month).padStart(2, '0')}/${String(method.exp_year).slice(-2)}`;
   };
 
-  const formatExpiryDate = (expiresAt: string) => {
-    const date = new Date(expiresAt);
-    return date.toLocaleDateString('en-US', { year: '2-digit', month: '2-digit' });
-  };
+  const expiredCount = paymentMethods.filter((m) => getExpiryStatus(m) === 'expired').length;
+  const expiringCount = paymentMethods.filter((m) => getExpiryStatus(m) === 'expiring_soon').length;
 
   if (!user) {
     return (
@@ -183,6 +125,24 @@ export default function PaymentMethods() {
           </CardContent>
         </Card>
 
+        {(expiredCount > 0 || expiringCount > 0) && (
+          <Card className="mb-6 bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border-yellow-500/20">
+            <CardContent className="p-4">
+              <div className="flex items-start space-x-3">
+                <AlertCircle className="h-5 w-5 text-yellow-400 mt-0.5" />
+                <div>
+                  <h3 className="text-white font-semibold">Card Expiry</h3>
+                  <p className="text-gray-300 text-sm">
+                    {expiredCount > 0 && `${expiredCount} saved card${expiredCount === 1 ? ' has' : 's have'} expired and can no longer be used. `}
+                    {expiringCount > 0 && `${expiringCount} saved card${expiringCount === 1 ? ' expires' : 's expire'} soon. `}
+                    Add a new card to keep checkout quick.
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Existing Payment Methods */}
           <div className="space-y-4">
@@ -192,14 +152,10 @@ export default function PaymentMethods() {
                 <DialogTrigger asChild>
                   <Button className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red">
                     <Plus className="h-4 w-4 mr-2" />
-                    Add Method
+                    Add Card
                   </Button>
                 </DialogTrigger>
-                <AddPaymentMethodDialog 
-                  onAdd={handleAddPaymentMethod}
-                  type={newPaymentType}
-                  onTypeChange={setNewPaymentType}
-                />
+                <AddPaymentMethodDialog onAdd={handleAddPaymentMethod} />
               </Dialog>
             </div>
 
@@ -231,12 +187,12 @@ export default function PaymentMethods() {
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-3">
                         <div className="p-2 bg-gray-700/50 rounded-lg">
-                          {getPaymentMethodIcon(method.type)}
+                          <CreditCard className="h-5 w-5" />
                         </div>
                         <div>
                           <div className="flex items-center space-x-2">
                             <span className="text-white font-medium">
-                              {method.provider} ••••{method.last_four}
+                              {method.brand || 'Card'} ••••{method.last4}
                             </span>
                             {method.is_default && (
                               <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
@@ -245,19 +201,26 @@ export default function PaymentMethods() {
                             )}
                           </div>
                           <div className="flex items-center space-x-4 mt-1">
-                            <span className="text-gray-400 text-sm capitalize">
-                              {method.type}
-                            </span>
-                            {method.expires_at && (
+                            {formatExpiry(method) && (
                               <span className="text-gray-400 text-sm">
-                                Expires {formatExpiryDate(method.expires_at)}
+                                {getExpiryStatus(method) === 'expired' ? 'Expired' : 'Expires'} {formatExpiry(method)}
                               </span>
                             )}
+                            {getExpiryStatus(method) === 'expired' && (
+                              <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                                Expired
+                              </Badge>
+                            )}
+                            {getExpiryStatus(method) === 'expiring_soon' && (
+                              <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                                Expires Soon
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
-                        {!method.is_default && (
+                        {!method.is_default && getExpiryStatus(method) !== 'expired' && (
                           <Button
                             variant="ghost"
                             size="sm"
@@ -315,17 +278,6 @@ export default function PaymentMethods() {
               </CardContent>
             </Card>
 
-            <Card className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border-yellow-500/20">
-              <CardContent className="p-4">
-                <div className="flex items-start space-x-3">
-                  <AlertCircle className="h-5 w-5 text-yellow-400 mt-0.5" />
-                  <div>
-                    <h3 className="text-white font-semibold">Development Notice</h3>
-                    <p className="text-gray-300 text-sm">Payment integration is currently in development. For now, orders will use manual payment processing.</p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
           </div>
         </div>
       </div>
@@ -333,147 +285,56 @@ export default function PaymentMethods() {
   );
 }
 
-function AddPaymentMethodDialog({ 
-  onAdd, 
-  type, 
-  onTypeChange 
-}: { 
-  onAdd: (data: any) => void;
-  type: 'card' | 'bank' | 'ewallet';
-  onTypeChange: (type: 'card' | 'bank' | 'ewallet') => void;
+function AddPaymentMethodDialog({
+  onAdd
+}: {
+  onAdd: (card: CardDetails) => Promise<void>;
 }) {
-  const [formData, setFormData] = useState({
-    provider: '',
-    lastFour: '',
-    expiryMonth: '',
-    expiryYear: ''
-  });
+  const [card, setCard] = useState(emptyCardForm);
+  const [saving, setSaving] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const expiresAt = type === 'card' && formData.expiryMonth && formData.expiryYear 
-      ? `${formData.expiryYear}-${formData.expiryMonth.padStart(2, '0')}-01`
-      : undefined;
 
-    onAdd({
-      type,
-      provider: formData.provider,
-      lastFour: formData.lastFour,
-      expiresAt
-    });
-
-    setFormData({ provider: '', lastFour: '', expiryMonth: '', expiryYear: '' });
-  };
-
-  const getProviderOptions = () => {
-    switch (type) {
-      case 'card':
-        return ['Visa', 'Mastercard', 'American Express'];
-      case 'bank':
-        return ['Standard Bank', 'FNB', 'Nedbank', 'ABSA', 'Capitec'];
-      case 'ewallet':
-        return ['PayFast', 'Ozow', 'Zapper'];
-      default:
-        return [];
+    const parsed = parseCardForm(card);
+    if ('error' in parsed) {
+      toast.error(parsed.error);
+      return;
     }
+
+    setSaving(true);
+    await onAdd(parsed.card);
+    setSaving(false);
+    setCard(emptyCardForm);
   };
 
   return (
     <DialogContent className="bg-gray-900 border-gray-700 max-w-md">
       <DialogHeader>
-        <DialogTitle className="text-white">Add Payment Method</DialogTitle>
+        <DialogTitle className="text-white">Add Card</DialogTitle>
         <DialogDescription>
-          Add a new payment method for faster checkout
+          Save a credit or debit card for faster checkout
         </DialogDescription>
       </DialogHeader>
-      
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <Label htmlFor="type" className="text-white">Payment Type</Label>
-          <Select value={type} onValueChange={onTypeChange}>
-            <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent className="bg-gray-800 border-gray-600">
-              <SelectItem value="card">Credit/Debit Card</SelectItem>
-              <SelectItem value="bank">Bank Account</SelectItem>
-              <SelectItem value="ewallet">E-Wallet</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        <div>
-          <Label htmlFor="provider" className="text-white">Provider</Label>
-          <Select value={formData.provider} onValueChange={(value) => setFormData(prev => ({ ...prev, provider: value }))}>
-            <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
-              <SelectValue placeholder="Select provider" />
-            </SelectTrigger>
-            <SelectContent className="bg-gray-800 border-gray-600">
-              {getProviderOptions().map(option => (
-                <SelectItem key={option} value={option}>{option}</SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
 
-        <div>
-          <Label htmlFor="lastFour" className="text-white">
-            Last 4 Digits
-          </Label>
-          <Input
-            id="lastFour"
-            value={formData.lastFour}
-            onChange={(e) => setFormData(prev => ({ ...prev, lastFour: e.target.value.slice(0, 4) }))}
-            className="bg-gray-800 border-gray-600 text-white"
-            placeholder="1234"
-            maxLength={4}
-            required
-          />
-        </div>
-
-        {type === 'card' && (
-          <div className="grid grid-cols-2 gap-2">
-            <div>
-              <Label htmlFor="expiryMonth" className="text-white">Month</Label>
-              <Select value={formData.expiryMonth} onValueChange={(value) => setFormData(prev => ({ ...prev, expiryMonth: value }))}>
-                <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
-                  <SelectValue placeholder="MM" />
-                </SelectTrigger>
-                <SelectContent className="bg-gray-800 border-gray-600">
-                  {Array.from({length: 12}, (_, i) => (
-                    <SelectItem key={i+1} value={(i+1).toString()}>{(i+1).toString().padStart(2, '0')}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <Label htmlFor="expiryYear" className="text-white">Year</Label>
-              <Select value={formData.expiryYear} onValueChange={(value) => setFormData(prev => ({ ...prev, expiryYear: value }))}>
-                <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
-                  <SelectValue placeholder="YYYY" />
-                </SelectTrigger>
-                <SelectContent className="bg-gray-800 border-gray-600">
-                  {Array.from({length: 10}, (_, i) => {
-                    const year = new Date().getFullYear() + i;
-                    return <SelectItem key={year} value={year.toString()}>{year}</SelectItem>
-                  })}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        )}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <CardDetailsForm
+          value={card}
+          onChange={setCard}
+          inputClassName="bg-gray-800 border-gray-600 text-white"
+          labelClassName="text-white"
+        />
 
         <DialogFooter>
           <Button
             type="submit"
             className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red"
-            disabled={!formData.provider || !formData.lastFour}
+            disabled={saving}
           >
-            Add Payment Method
+            {saving ? 'Saving...' : 'Save Card'}
           </Button>
         </DialogFooter>
       </form>
     </DialogContent>
   );
-}
\ No newline at end of file
+}
@@ -1,17 +1,30 @@
-import { useState, useMemo } from "react";
-import { Link, useParams } from "react-router-dom";
+import { Fragment, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ProductGrid } from "@/components/ProductGrid";
-import { useProductsByCategory } from "@/hooks/useProducts";
-import { getCategoryDisplayName } from "@/data/products";
+import { FacetFilters } from "@/components/FacetFilters";
+import { useFilteredProducts } from "@/hooks/useProducts";
+import { useCategories } from "@/hooks/useCategories";
+import { categoryHref, resolveCategoryPath } from "@shared/categories";
+import NotFound from "./NotFound";
+import {
+  countActiveFilters,
+  EMPTY_PRODUCT_FILTERS,
+  parseProductFilters,
+  PRODUCT_SORT_LABELS,
+  PRODUCT_SORTS,
+  ProductFilters,
+  ProductSort,
+  writeProductFilters,
+} from "@shared/facets";
 import {
-  Filter,
   Grid,
   List,
-  ChevronDown,
+  Loader2,
   SlidersHorizontal,
   Sparkles,
+  X,
 } from "lucide-react";
 import {
   Select,
@@ -22,52 +35,60 @@ import {
 } from "@/components/ui/select";
 
 export default function ProductCategory() {
-  const { category } = useParams();
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
-  const [sortBy, setSortBy] = useState("newest");
-  const [priceRange, setPriceRange] = useState("all");
-
-  const categoryDisplayName = getCategoryDisplayName(category || "");
-  const { products, loading, error } = useProductsByCategory(category || "");
-
-  // Filter and sort products
-  const filteredProducts = useMemo(() => {
-    let filtered = [...products];
-
-    // Filter by price range
-    if (priceRange !== "all") {
-      switch (priceRange) {
-        case "under-100":
-          filtered = filtered.filter(p => p.price < 100);
-          break;
-        case "100-500":
-          filtered = filtered.filter(p => p.price >= 100 && p.price <= 500);
-          break;
-        case "over-500":
-          filtered = filtered.filter(p => p.price > 500);
-          break;
-      }
-    }
+  // "/workwear/safety-boots" gives category "workwear" and "*" "safety-boots"
+  const { category: topLevel = "", "*": subPath = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Filters, sort and view live in the URL so filtered views can be shared
+  const filters = parseProductFilters(searchParams);
+  const viewMode = searchParams.get("view") === "list" ? "list" : "grid";
+  const activeFilters = countActiveFilters(filters);
+
+  const { categories, loading: categoriesLoading, error: categoriesError } = useCategories();
+  const path = resolveCategoryPath(categories, [topLevel, ...subPath.split("/")].filter(Boolean));
+  const category = path ? path[path.length - 1] : null;
+  const subcategories = category
+    ? categories.filter((candidate) => candidate.parent_id === category.id)
+    : [];
+
+  const { products, total, facets, loading, error, hasMore, loadingMore, loadMore } =
+    useFilteredProducts(category?.slug ?? "", filters);
+
+  const setFilters = (next: ProductFilters) => {
+    setSearchParams(writeProductFilters(next, searchParams), { replace: true });
+  };
 
-    // Sort products
-    switch (sortBy) {
-      case "price-low":
-        filtered.sort((a, b) => a.price - b.price);
-        break;
-      case "price-high":
-        filtered.sort((a, b) => b.price - a.price);
-        break;
-      case "name":
-        filtered.sort((a, b) => a.title.localeCompare(b.title));
-        break;
-      case "newest":
-      default:
-        filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-        break;
+  const setViewMode = (mode: "grid" | "list") => {
+    const params = new URLSearchParams(searchParams);
+    if (mode === "list") {
+      params.set("view", "list");
+    } else {
+      params.delete("view");
     }
+    setSearchParams(params, { replace: true });
+  };
 
-    return filtered;
-  }, [products, sortBy, priceRange]);
+  if (categoriesLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  if (categoriesError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-gray-300">{categoriesError}</p>
+      </div>
+    );
+  }
+
+  // Unknown slugs, and subcategories under the wrong parent
+  if (!path || !category) {
+    return <NotFound />;
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -78,9 +99,20 @@ export default function ProductCategory() {
             <Link to="/" className="hover:text-brand-red transition-colors">
               Home
             </Link>
+            {path.slice(0, -1).map((ancestor) => (
+              <Fragment key={ancestor.id}>
+                <span>/</span>
+                <Link
+                  to={categoryHref(categories, ancestor.slug)}
+                  className="hover:text-brand-red transition-colors"
+                >
+                  {ancestor.name}
+                </Link>
+              </Fragment>
+            ))}
             <span>/</span>
             <span className="text-foreground font-medium">
-              {categoryDisplayName}
+              {category.name}
             </span>
           </div>
         </div>
@@ -96,16 +128,30 @@ export default function ProductCategory() {
             <div className="flex items-center justify-center space-x-3">
               <Badge className="bg-gradient-to-r from-brand-red to-red-600 text-white font-bold px-4 py-2 rounded-full border-0 shadow-lg">
                 <Sparkles className="h-4 w-4 mr-2" />
-                {categoryDisplayName}
+                {category.name}
               </Badge>
             </div>
             <h1 className="text-4xl md:text-5xl lg:text-6xl font-black text-white leading-tight">
-              Premium <span className="gradient-text">{categoryDisplayName}</span>
+              Premium <span className="gradient-text">{category.name}</span>
             </h1>
             <p className="text-lg md:text-xl text-gray-300 max-w-2xl mx-auto leading-relaxed">
-              Discover our curated collection of high-quality {categoryDisplayName.toLowerCase()} 
-              designed to meet your professional needs.
+              {category.description ||
+                `Discover our curated collection of high-quality ${category.name.toLowerCase()} designed to meet your professional needs.`}
             </p>
+            {subcategories.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-3">
+                {subcategories.map((subcategory) => (
+                  <Link
+                    key={subcategory.id}
+                    to={categoryHref(categories, subcategory.slug)}
+                    className="px-4 py-2 rounded-full bg-white/10 border border-white/20 text-sm text-white hover:bg-brand-red/20 hover:border-brand-red/50 transition-colors"
+                  >
+                    {subcategory.name}
+                    <span className="ml-2 text-white/50">{subcategory.product_count}</span>
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -116,30 +162,43 @@ export default function ProductCategory() {
         <div className="flex flex-col lg:flex-row gap-4 mb-8 p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10">
           <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-4">
             {/* Sort By */}
-            <Select value={sortBy} onValueChange={setSortBy}>
+            <Select
+              value={filters.sort}
+              onValueChange={(sort) => setFilters({ ...filters, sort: sort as ProductSort })}
+            >
               <SelectTrigger className="bg-white/10 border-white/20 text-white">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="newest">Newest First</SelectItem>
-                <SelectItem value="price-low">Price: Low to High</SelectItem>
-                <SelectItem value="price-high">Price: High to Low</SelectItem>
-                <SelectItem value="name">Name A-Z</SelectItem>
+                {PRODUCT_SORTS.map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {PRODUCT_SORT_LABELS[sort]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
-            {/* Price Range */}
-            <Select value={priceRange} onValueChange={setPriceRange}>
-              <SelectTrigger className="bg-white/10 border-white/20 text-white">
-                <SelectValue placeholder="Price range" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Prices</SelectItem>
-                <SelectItem value="under-100">Under R100</SelectItem>
-                <SelectItem value="100-500">R100 - R500</SelectItem>
-                <SelectItem value="over-500">Over R500</SelectItem>
-              </SelectContent>
-            </Select>
+            {/* Filters toggle (the panel is always shown on large screens) */}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowFilters(!showFilters)}
+                className="flex-1 lg:hidden bg-white/10 border-white/20 text-white hover:bg-white/20"
+              >
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Filters{activeFilters > 0 && ` (${activeFilters})`}
+              </Button>
+              {activeFilters > 0 && (
+                <Button
+                  variant="ghost"
+                  onClick={() => setFilters({ ...EMPTY_PRODUCT_FILTERS, sort: filters.sort })}
+                  className="flex-1 text-white/80 hover:bg-white/10 hover:text-white"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
 
             {/* View Mode */}
             <div className="flex rounded-lg bg-white/10 border border-white/20 p-1">
@@ -167,18 +226,30 @@ export default function ProductCategory() {
           {/* Results Count */}
           <div className="flex items-center text-gray-300">
             <span className="text-sm">
-              {loading ? "Loading..." : `${filteredProducts.length} products found`}
+              {loading ? "Loading..." : `${total} products found`}
             </span>
           </div>
         </div>
 
-        {/* Products Grid */}
-        <ProductGrid
-          products={filteredProducts}
-          loading={loading}
-          error={error}
-          columns={viewMode === "grid" ? 3 : 2}
-        />
+        <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-8">
+          {/* Facets */}
+          <aside
+            className={`${showFilters ? "block" : "hidden"} lg:block h-fit p-6 rounded-2xl bg-white/5 backdrop-blur-lg border border-white/10`}
+          >
+            <FacetFilters facets={facets} filters={filters} onChange={setFilters} />
+          </aside>
+
+          {/* Products Grid */}
+          <ProductGrid
+            products={products}
+            loading={loading}
+            error={error}
+            columns={viewMode === "grid" ? 3 : 2}
+            hasMore={hasMore}
+            loadingMore={loadingMore}
+            onLoadMore={loadMore}
+          />
+        </div>
       </div>
     </div>
   );
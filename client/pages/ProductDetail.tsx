@@ -1,10 +1,17 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { useCart } from "@/contexts/CartContext";
 import { useProduct } from "@/hooks/useProducts";
+import { useCategories } from "@/hooks/useCategories";
+import { PriceTierHint } from "@/components/PriceTierHint";
+import { BrandingOptions } from "@/components/branding/BrandingOptions";
+import { findVariant, VariantOptions } from "@shared/variants";
+import { categoryAncestry, categoryHref } from "@shared/categories";
+import { LineCustomisation, validateCustomisation } from "@shared/customisation";
+import { toast } from "sonner";
 import {
   ArrowLeft,
   ShoppingCart,
@@ -22,20 +29,49 @@ export default function ProductDetail() {
   const navigate = useNavigate();
   const { addToCart } = useCart();
   const { product, loading, error } = useProduct(id || "");
+  const { categories } = useCategories();
   const [quantity, setQuantity] = useState(1);
   const [isLiked, setIsLiked] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<VariantOptions>({});
+  const [customisation, setCustomisation] = useState<LineCustomisation | null>(null);
+
+  // Products sold by size/colour need a variant chosen on every axis
+  const axes = product?.variant_axes ?? [];
+  const hasVariants = axes.length > 0;
+  const activeVariants = (product?.variants ?? []).filter(v => v.is_active);
+  const selectedVariant = hasVariants ? findVariant(activeVariants, selectedOptions) : undefined;
+  const availableStock = hasVariants ? selectedVariant?.stock ?? 0 : product?.stock ?? 0;
+  const canAddToCart = (!hasVariants || !!selectedVariant) && availableStock > 0;
 
   const handleAddToCart = async () => {
-    if (product) {
-      await addToCart(product, quantity);
+    if (!product || !canAddToCart) return;
+
+    if (customisation) {
+      const option = product.decoration_options?.find(o => o.id === customisation.option_id);
+      const problem = validateCustomisation(option, customisation);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
     }
+
+    await addToCart(product, quantity, selectedVariant ?? null, customisation);
   };
 
   const adjustQuantity = (delta: number) => {
-    const newQuantity = Math.max(1, Math.min(product?.stock || 1, quantity + delta));
+    const newQuantity = Math.max(1, Math.min(availableStock || 1, quantity + delta));
     setQuantity(newQuantity);
   };
 
+  const selectOption = (axis: string, value: string) => {
+    setSelectedOptions(prev => ({ ...prev, [axis]: value }));
+    setQuantity(1);
+  };
+
+  // A value is offered while some active variant with it still has stock
+  const isOptionAvailable = (axis: string, value: string) =>
+    activeVariants.some(v => v.options[axis] === value && v.stock > 0);
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-16">
@@ -66,6 +102,12 @@ export default function ProductDetail() {
     );
   }
 
+  // Top-level category first; the bare slug until categories have loaded
+  const categoryTrail = categoryAncestry(categories, product.category);
+  const categoryName = categoryTrail.length > 0
+    ? categoryTrail[categoryTrail.length - 1].name
+    : product.category;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Breadcrumb */}
@@ -75,13 +117,29 @@ export default function ProductDetail() {
             <Link to="/" className="hover:text-brand-red transition-colors">
               Home
             </Link>
-            <span>/</span>
-            <Link 
-              to={`/${product.category}`} 
-              className="hover:text-brand-red transition-colors"
-            >
-              {product.category}
-            </Link>
+            {categoryTrail.length > 0 ? (
+              categoryTrail.map((category) => (
+                <Fragment key={category.id}>
+                  <span>/</span>
+                  <Link
+                    to={categoryHref(categories, category.slug)}
+                    className="hover:text-brand-red transition-colors"
+                  >
+                    {category.name}
+                  </Link>
+                </Fragment>
+              ))
+            ) : (
+              <>
+                <span>/</span>
+                <Link 
+                  to={`/${product.category}`} 
+                  className="hover:text-brand-red transition-colors"
+                >
+                  {product.category}
+                </Link>
+              </>
+            )}
             <span>/</span>
             <span className="text-foreground font-medium">
               {product.title}
@@ -120,29 +178,66 @@ export default function ProductDetail() {
           <div className="space-y-6">
             <div>
               <Badge className="mb-4 bg-gradient-to-r from-brand-red/20 to-red-600/20 text-brand-red border border-brand-red/30">
-                {product.category}
+                {categoryName}
               </Badge>
               <h1 className="text-3xl md:text-4xl font-bold text-white mb-4">
                 {product.title}
               </h1>
               <div className="flex items-center space-x-4 mb-6">
                 <span className="text-3xl font-bold text-white">
-                  R{product.price.toFixed(2)}
+                  R{(product.price + Number(selectedVariant?.price_delta ?? 0)).toFixed(2)}
                 </span>
-                <Badge className={`${
-                  product.stock > 10 ? 'bg-green-500/20 text-green-400 border-green-500/30' :
-                  product.stock > 0 ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
-                  'bg-red-500/20 text-red-400 border-red-500/30'
-                }`}>
-                  {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
-                </Badge>
+                {(!hasVariants || selectedVariant) && (
+                  <Badge className={`${
+                    availableStock > 10 ? 'bg-green-500/20 text-green-400 border-green-500/30' :
+                    availableStock > 0 ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
+                    'bg-red-500/20 text-red-400 border-red-500/30'
+                  }`}>
+                    {availableStock > 0 ? `${availableStock} in stock` : 'Out of stock'}
+                  </Badge>
+                )}
               </div>
+              <PriceTierHint product={product} className="block -mt-4 mb-6 text-sm" />
             </div>
 
             <p className="text-gray-300 leading-relaxed">
               {product.description}
             </p>
 
+            {/* Variant Selectors */}
+            {axes.map(axis => (
+              <div key={axis.name} className="space-y-2">
+                <span className="text-white font-medium">
+                  {axis.name}:
+                  {selectedOptions[axis.name] && (
+                    <span className="text-gray-300 font-normal ml-2">{selectedOptions[axis.name]}</span>
+                  )}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  {axis.values.map(value => (
+                    <Button
+                      key={value}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => selectOption(axis.name, value)}
+                      disabled={!isOptionAvailable(axis.name, value)}
+                      className={`border-white/20 text-white hover:bg-white/10 ${
+                        selectedOptions[axis.name] === value ? 'bg-brand-red/30 border-brand-red' : 'bg-transparent'
+                      }`}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <BrandingOptions
+              product={product}
+              value={customisation}
+              onChange={setCustomisation}
+            />
+
             {/* Quantity Selector */}
             <div className="space-y-4">
               <div className="flex items-center space-x-4">
@@ -164,7 +259,7 @@ export default function ProductDetail() {
                     variant="ghost"
                     size="sm"
                     onClick={() => adjustQuantity(1)}
-                    disabled={quantity >= (product.stock || 0)}
+                    disabled={quantity >= availableStock}
                     className="px-3 py-2 text-white hover:bg-white/10"
                   >
                     <Plus className="h-4 w-4" />
@@ -176,11 +271,13 @@ export default function ProductDetail() {
               <div className="flex space-x-4">
                 <Button
                   onClick={handleAddToCart}
-                  disabled={product.stock <= 0}
+                  disabled={!canAddToCart}
                   className="flex-1 bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red text-white font-semibold py-3 rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300"
                 >
                   <ShoppingCart className="h-5 w-5 mr-2" />
-                  {product.stock > 0 ? 'Add to Cart' : 'Out of Stock'}
+                  {hasVariants && !selectedVariant
+                    ? 'Select Options'
+                    : availableStock > 0 ? 'Add to Cart' : 'Out of Stock'}
                 </Button>
                 <Button
                   variant="outline"
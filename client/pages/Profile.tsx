@@ -8,12 +8,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { Profile as ProfileType } from "@/lib/supabaseClient";
+import { AddressBook } from "@/components/addresses/AddressBook";
+import { CompanySettings } from "@/components/company/CompanySettings";
 import {
   User,
   Mail,
   Phone,
   Building,
-  MapPin,
   Save,
   Loader2,
   Edit3,
@@ -30,13 +31,6 @@ export default function Profile() {
   const [formData, setFormData] = useState({
     full_name: "",
     phone: "",
-    address: {
-      street: "",
-      city: "",
-      province: "",
-      postal_code: "",
-      country: "South Africa"
-    }
   });
 
   useEffect(() => {
@@ -44,13 +38,6 @@ export default function Profile() {
       setFormData({
         full_name: profile.full_name || "",
         phone: profile.phone || "",
-        address: profile.address || {
-          street: "",
-          city: "",
-          province: "",
-          postal_code: "",
-          country: "South Africa"
-        }
       });
     }
   }, [profile]);
@@ -63,7 +50,6 @@ export default function Profile() {
       const updates: Partial<ProfileType> = {
         full_name: formData.full_name,
         phone: formData.phone,
-        address: formData.address,
         updated_at: new Date().toISOString()
       };
 
@@ -129,8 +115,10 @@ export default function Profile() {
         </div>
 
         <Tabs defaultValue="profile" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="profile">Profile Information</TabsTrigger>
+            <TabsTrigger value="addresses">Addresses</TabsTrigger>
+            <TabsTrigger value="company">Company</TabsTrigger>
             <TabsTrigger value="security">Account Security</TabsTrigger>
             <TabsTrigger value="payments">Payment Methods</TabsTrigger>
           </TabsList>
@@ -212,88 +200,6 @@ export default function Profile() {
                         title="Email cannot be changed here"
                       />
                     </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="country" className="flex items-center text-sm font-medium">
-                        <MapPin className="h-4 w-4 mr-2" />
-                        Country
-                      </Label>
-                      <Input
-                        id="country"
-                        value={formData.address.country}
-                        onChange={(e) => setFormData({ 
-                          ...formData, 
-                          address: { ...formData.address, country: e.target.value }
-                        })}
-                        disabled={!isEditing}
-                        className={!isEditing ? "bg-muted" : ""}
-                      />
-                    </div>
-                  </div>
-
-                  <div className="space-y-4">
-                    <h3 className="text-lg font-semibold">Address Information</h3>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="street">Street Address</Label>
-                        <Input
-                          id="street"
-                          value={formData.address.street}
-                          onChange={(e) => setFormData({ 
-                            ...formData, 
-                            address: { ...formData.address, street: e.target.value }
-                          })}
-                          disabled={!isEditing}
-                          placeholder="123 Main Street"
-                          className={!isEditing ? "bg-muted" : ""}
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="city">City</Label>
-                        <Input
-                          id="city"
-                          value={formData.address.city}
-                          onChange={(e) => setFormData({ 
-                            ...formData, 
-                            address: { ...formData.address, city: e.target.value }
-                          })}
-                          disabled={!isEditing}
-                          placeholder="Cape Town"
-                          className={!isEditing ? "bg-muted" : ""}
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="province">Province</Label>
-                        <Input
-                          id="province"
-                          value={formData.address.province}
-                          onChange={(e) => setFormData({ 
-                            ...formData, 
-                            address: { ...formData.address, province: e.target.value }
-                          })}
-                          disabled={!isEditing}
-                          placeholder="Western Cape"
-                          className={!isEditing ? "bg-muted" : ""}
-                        />
-                      </div>
-
-                      <div className="space-y-2">
-                        <Label htmlFor="postal_code">Postal Code</Label>
-                        <Input
-                          id="postal_code"
-                          value={formData.address.postal_code}
-                          onChange={(e) => setFormData({ 
-                            ...formData, 
-                            address: { ...formData.address, postal_code: e.target.value }
-                          })}
-                          disabled={!isEditing}
-                          placeholder="8000"
-                          className={!isEditing ? "bg-muted" : ""}
-                        />
-                      </div>
-                    </div>
                   </div>
 
                   {isEditing && (
@@ -322,6 +228,14 @@ export default function Profile() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="addresses" className="space-y-6">
+            <AddressBook userId={user.id} />
+          </TabsContent>
+
+          <TabsContent value="company" className="space-y-6">
+            <CompanySettings userId={user.id} />
+          </TabsContent>
+
           <TabsContent value="security" className="space-y-6">
             <Card>
               <CardHeader>
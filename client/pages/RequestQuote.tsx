@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AuthModal } from "@/components/auth/AuthModal";
+import { AddressFields } from "@/components/addresses/AddressFields";
+import { CustomisationSummary } from "@/components/branding/CustomisationSummary";
+import {
+  getCartItemDecoration,
+  getCartItemTotal,
+  useCart,
+} from "@/contexts/CartContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { quotes } from "@/lib/supabaseClient";
+import { DEFAULT_COUNTRY, validateAddress } from "@shared/addresses";
+import { formatVariantLabel } from "@shared/variants";
+import type { OrderCustomerInfo, OrderAddress } from "@shared/api";
+import { toast } from "sonner";
+import { ArrowLeft, FileText, Loader2, MapPin, User } from "lucide-react";
+
+export default function RequestQuote() {
+  const { state, refreshCart } = useCart();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [authModalOpen, setAuthModalOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  const [customerInfo, setCustomerInfo] = useState<OrderCustomerInfo>({
+    firstName: "",
+    lastName: "",
+    email: "",
+    phone: "",
+    company: "",
+  });
+
+  const [shippingAddress, setShippingAddress] = useState<OrderAddress>({
+    address: "",
+    city: "",
+    province: "",
+    postalCode: "",
+    country: DEFAULT_COUNTRY,
+  });
+
+  useEffect(() => {
+    if (user?.email) {
+      setCustomerInfo((prev) =>
+        prev.email ? prev : { ...prev, email: user.email! },
+      );
+    }
+  }, [user]);
+
+  const updateCustomer = (field: keyof OrderCustomerInfo, value: string) =>
+    setCustomerInfo({ ...customerInfo, [field]: value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) {
+      setAuthModalOpen(true);
+      return;
+    }
+    const addressError = validateAddress(shippingAddress);
+    if (addressError) {
+      toast.error(addressError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await quotes.request({
+        items: state.items.map((item) => ({
+          product_id: item.product_id,
+          variant_id: item.variant_id,
+          customisation: item.customisation,
+          quantity: item.quantity,
+        })),
+        customer: customerInfo,
+        shipping_address: shippingAddress,
+        notes,
+      });
+      // The server moves the quoted lines out of the cart
+      await refreshCart();
+
+      toast.success("Quote requested. We'll be in touch shortly.");
+      navigate("/orders");
+    } catch (error) {
+      console.error("Quote request failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to request quote",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (state.items.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <p className="text-muted-foreground mb-6">
+          Add the items you need priced to your cart, then request a quote.
+        </p>
+        <Link to="/">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Start Shopping
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-black border-b border-gray-800">
+        <div className="container mx-auto px-4 py-3 sm:py-4">
+          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+            <Link to="/" className="hover:text-brand-red transition-colors">
+              Home
+            </Link>
+            <span>/</span>
+            <Link to="/cart" className="hover:text-brand-red transition-colors">
+              Cart
+            </Link>
+            <span>/</span>
+            <span className="text-foreground font-medium">Request a Quote</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 sm:py-8">
+        <div className="mb-6 sm:mb-8">
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-2">
+            Request a Quote
+          </h1>
+          <p className="text-muted-foreground">
+            Our sales team will confirm pricing, freight and lead times. You can
+            accept the quote from your orders page to place the order.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid lg:grid-cols-3 gap-6 lg:gap-8">
+            <div className="lg:col-span-2 space-y-6">
+              <Card className="mobile-card">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-lg sm:text-xl">
+                    <User className="h-5 w-5 mr-2 text-brand-red" />
+                    Contact Details
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="firstName">First Name *</Label>
+                    <Input
+                      id="firstName"
+                      required
+                      value={customerInfo.firstName}
+                      onChange={(e) =>
+                        updateCustomer("firstName", e.target.value)
+                      }
+                      className="h-12 rounded-xl text-base"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lastName">Last Name *</Label>
+                    <Input
+                      id="lastName"
+                      required
+                      value={customerInfo.lastName}
+                      onChange={(e) =>
+                        updateCustomer("lastName", e.target.value)
+                      }
+                      className="h-12 rounded-xl text-base"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email Address *</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      required
+                      value={customerInfo.email}
+                      onChange={(e) => updateCustomer("email", e.target.value)}
+                      className="h-12 rounded-xl text-base"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Phone Number *</Label>
+                    <Input
+                      id="phone"
+                      required
+                      value={customerInfo.phone}
+                      onChange={(e) => updateCustomer("phone", e.target.value)}
+                      className="h-12 rounded-xl text-base"
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="company">Company</Label>
+                    <Input
+                      id="company"
+                      value={customerInfo.company}
+                      onChange={(e) =>
+                        updateCustomer("company", e.target.value)
+                      }
+                      className="h-12 rounded-xl text-base"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="mobile-card">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-lg sm:text-xl">
+                    <MapPin className="h-5 w-5 mr-2 text-brand-red" />
+                    Delivery Address
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AddressFields
+                    idPrefix="delivery"
+                    value={shippingAddress}
+                    onChange={setShippingAddress}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card className="mobile-card">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center text-lg sm:text-xl">
+                    <FileText className="h-5 w-5 mr-2 text-brand-red" />
+                    Notes
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Textarea
+                    rows={4}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Required delivery date, purchase order number, procurement requirements..."
+                    className="rounded-xl text-base"
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="lg:col-span-1">
+              <Card className="lg:sticky lg:top-4 mobile-card">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg sm:text-xl">
+                    Items to Quote
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-3">
+                    {state.items.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex justify-between text-sm border-b border-border/50 pb-2 last:border-b-0"
+                      >
+                        <div className="flex-1 pr-2">
+                          <div className="font-medium">
+                            {item.product.name}
+                            {item.variant &&
+                              ` (${formatVariantLabel(item.variant.options, item.product.variant_axes)})`}
+                          </div>
+                          <div className="text-muted-foreground">
+                            Qty: {item.quantity}
+                          </div>
+                          <CustomisationSummary
+                            customisation={item.customisation}
+                            setupFee={getCartItemDecoration(item)?.setup_fee}
+                            className="text-xs text-muted-foreground"
+                          />
+                        </div>
+                        <div className="font-medium">
+                          R{getCartItemTotal(item, state.items).toFixed(2)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex justify-between font-semibold border-t border-border pt-3">
+                    <span>Catalogue subtotal</span>
+                    <span>R{state.total.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Excludes VAT and delivery. Final prices are confirmed on the
+                    quote.
+                  </p>
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="w-full bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red text-white font-bold py-4 rounded-xl"
+                  >
+                    {isSubmitting ? (
+                      <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                    ) : (
+                      <FileText className="h-5 w-5 mr-2" />
+                    )}
+                    {user ? "Request Quote" : "Sign In to Request Quote"}
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      <AuthModal
+        isOpen={authModalOpen}
+        onClose={() => setAuthModalOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Link, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { SEO } from "@/components/SEO";
+import { ProductGrid } from "@/components/ProductGrid";
+import { useProductSearch } from "@/hooks/useProducts";
+import { isSearchable, SEARCH_PAGE_SIZE } from "@shared/search";
+import { ChevronLeft, ChevronRight, Search as SearchIcon } from "lucide-react";
+
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = (searchParams.get("q") ?? "").trim();
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const { products, total, loading, error } = useProductSearch(query, page);
+
+  const pageCount = Math.ceil(total / SEARCH_PAGE_SIZE);
+  const firstShown = (page - 1) * SEARCH_PAGE_SIZE + 1;
+  const lastShown = firstShown + products.length - 1;
+
+  const goToPage = (next: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (next > 1) {
+      params.set("page", String(next));
+    } else {
+      params.delete("page");
+    }
+    setSearchParams(params);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const summary = () => {
+    if (!isSearchable(query)) return "Enter at least two letters to search.";
+    if (loading) return "Searching products...";
+    if (error || total === 0) return null;
+    if (pageCount > 1) {
+      return `Showing ${firstShown}–${lastShown} of ${total} products`;
+    }
+    return `Found ${total} product${total !== 1 ? "s" : ""}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900">
+      <SEO
+        title={query ? `Search: ${query} | APEX` : "Search | APEX"}
+        url={`https://apex-promotions.com/search?q=${encodeURIComponent(query)}`}
+      />
+
+      <section className="py-16 sm:py-20">
+        <div className="container mx-auto px-4">
+          <div className="text-center mb-12">
+            <h1 className="text-3xl sm:text-4xl font-bold text-white mb-4">
+              {query ? `Search Results for "${query}"` : "Search"}
+            </h1>
+            <p className="text-gray-300">{summary()}</p>
+          </div>
+
+          {isSearchable(query) && (loading || error || total > 0) && (
+            <ProductGrid
+              products={products}
+              loading={loading}
+              error={error}
+              columns={3}
+              highlight={query}
+            />
+          )}
+
+          {isSearchable(query) && !loading && !error && total === 0 && (
+            <div className="text-center max-w-md mx-auto">
+              <SearchIcon className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+              <p className="text-white font-medium mb-2">
+                No products match "{query}"
+              </p>
+              <p className="text-gray-400 mb-6">
+                Check the spelling, use fewer words, or browse our categories.
+              </p>
+              <Link to="/">
+                <Button className="bg-gradient-to-r from-brand-red to-red-600 hover:from-red-600 hover:to-brand-red">
+                  Browse All Categories
+                </Button>
+              </Link>
+            </div>
+          )}
+
+          {!loading && pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-12">
+              <Button
+                variant="outline"
+                disabled={page <= 1}
+                onClick={() => goToPage(page - 1)}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-gray-300 text-sm">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                disabled={page >= pageCount}
+                onClick={() => goToPage(page + 1)}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
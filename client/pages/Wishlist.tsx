@@ -6,7 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { WishlistButton } from '@/components/wishlist/WishlistButton';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import {
   Heart,
@@ -21,6 +21,7 @@ import {
 export default function Wishlist() {
   const { user, loading: authLoading } = useAuth();
   const { addToCart } = useCart();
+  const navigate = useNavigate();
   const [wishlistItems, setWishlistItems] = useState<WishlistItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState<string | null>(null);
@@ -55,6 +56,12 @@ export default function Wishlist() {
       return;
     }
 
+    // Size/colour must be chosen on the product page
+    if (product.variant_axes?.length) {
+      navigate(`/product/${product.id}`);
+      return;
+    }
+
     setAddingToCart(product.id.toString());
     
     try {
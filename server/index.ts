@@ -1,8 +1,40 @@
 import express from "express";
 import cors from "cors";
+import { handleDecideOrderApproval } from "./routes/approvals";
+import {
+  handleAcceptCompanyInvite,
+  handleCreateCompany,
+  handleDeleteCompanyInvite,
+  handleInviteCompanyMember,
+  handleRemoveCompanyMember,
+  handleUpdateCompanyMember,
+} from "./routes/companies";
 import { handleDemo } from "./routes/demo";
+import {
+  handleCreditNotePdf,
+  handleOrderInvoice,
+  handleQuotePdf,
+} from "./routes/documents";
+import { handlePlaceOrder } from "./routes/orders";
+import { getActivePaymentProvider } from "./lib/paymentProviders";
+import {
+  handleConfirmPayment,
+  handlePaymentOptions,
+  handlePayOrder,
+  handleSavePaymentMethod,
+} from "./routes/payments";
+import {
+  handleAcceptQuote,
+  handleDeclineQuote,
+  handleRequestQuote,
+} from "./routes/quotes";
+import { handleCreateRefund } from "./routes/refunds";
+import { handlePaymentWebhook } from "./routes/webhooks";
 
 export function createServer() {
+  // Fail now, not at the first card payment, on an unknown PAYMENT_PROVIDER
+  getActivePaymentProvider();
+
   const app = express();
 
   // Middleware
@@ -10,6 +42,14 @@ export function createServer() {
     origin: true, // Allow all origins in development
     credentials: true
   }));
+  // Webhook signatures cover the raw body, so this route is registered
+  // before the JSON parser can consume it
+  app.post(
+    "/api/webhooks/payments/:provider",
+    express.raw({ type: "*/*" }),
+    handlePaymentWebhook,
+  );
+
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -20,5 +60,34 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Orders
+  app.post("/api/orders", handlePlaceOrder);
+  app.get("/api/orders/:id/invoice.pdf", handleOrderInvoice);
+  app.post("/api/orders/:id/approval", handleDecideOrderApproval);
+
+  // Payments
+  app.post("/api/orders/:id/payments", handlePayOrder);
+  app.post("/api/orders/:id/payments/confirm", handleConfirmPayment);
+  app.post("/api/payment-methods", handleSavePaymentMethod);
+  app.get("/api/payment-options", handlePaymentOptions);
+
+  // Refunds
+  app.post("/api/orders/:id/refunds", handleCreateRefund);
+  app.get("/api/refunds/:id/credit-note.pdf", handleCreditNotePdf);
+
+  // Quotes
+  app.post("/api/quotes", handleRequestQuote);
+  app.post("/api/quotes/:id/accept", handleAcceptQuote);
+  app.post("/api/quotes/:id/decline", handleDeclineQuote);
+  app.get("/api/quotes/:id/quote.pdf", handleQuotePdf);
+
+  // Companies
+  app.post("/api/companies", handleCreateCompany);
+  app.post("/api/companies/:id/invites", handleInviteCompanyMember);
+  app.post("/api/companies/:id/invites/accept", handleAcceptCompanyInvite);
+  app.delete("/api/companies/:id/invites/:userId", handleDeleteCompanyInvite);
+  app.patch("/api/companies/:id/members/:userId", handleUpdateCompanyMember);
+  app.delete("/api/companies/:id/members/:userId", handleRemoveCompanyMember);
+
   return app;
 }
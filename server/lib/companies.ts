@@ -0,0 +1,38 @@
+import { canViewCompanyOrders, CompanyRole } from "../../shared/companies";
+import { getSupabaseAdmin, isAdminUser } from "./supabase";
+
+/**
+ * The user's role in a company, or null when they are not a member
+ */
+export async function getCompanyRole(
+  companyId: string,
+  userId: string,
+): Promise<CompanyRole | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("company_members")
+    .select("role")
+    .eq("company_id", companyId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return (data?.role as CompanyRole) ?? null;
+}
+
+/**
+ * Whether the user may see an order and its documents: the person who placed
+ * it, an owner or approver of the company it was placed for, or an admin
+ */
+export async function canViewOrder(
+  userId: string,
+  order: { user_id: string | null; company_id?: string | null },
+): Promise<boolean> {
+  if (order.user_id === userId) return true;
+  if (
+    order.company_id &&
+    canViewCompanyOrders(await getCompanyRole(order.company_id, userId))
+  ) {
+    return true;
+  }
+  return isAdminUser(userId);
+}
@@ -0,0 +1,203 @@
+import PDFDocument from "pdfkit";
+import { VAT_RATE } from "../../shared/pricing";
+
+/**
+ * Seller details printed on every document. A tax invoice must carry the
+ * VAT number, so set COMPANY_VAT_NUMBER in production.
+ */
+export const getSellerDetails = () => ({
+  name: process.env.COMPANY_NAME || "APEX",
+  vatNumber: process.env.COMPANY_VAT_NUMBER || "",
+  address: process.env.COMPANY_ADDRESS || "",
+  email: process.env.COMPANY_EMAIL || "",
+  phone: process.env.COMPANY_PHONE || "",
+});
+
+export interface DocumentParty {
+  name: string;
+  company?: string;
+  vatNumber?: string; // the customer's, for company accounts
+  email?: string;
+  phone?: string;
+  address: string[];
+}
+
+export interface DocumentLine {
+  description: string;
+  detail?: string; // variant, SKU and branding
+  quantity: number;
+  unit_price: number;
+  setup_fee: number;
+  line_total: number; // excluding VAT
+}
+
+/**
+ * Everything printed on an invoice, quote or credit note; amounts are in Rand
+ */
+export interface SalesDocument {
+  title: "TAX INVOICE" | "QUOTATION" | "CREDIT NOTE";
+  number: string;
+  date: string;
+  meta: [string, string][]; // e.g. ["Order", "#1A2B3C4D"], ["Valid until", "..."]
+  billTo: DocumentParty;
+  lines: DocumentLine[];
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+  notes?: string | null;
+}
+
+const BRAND_RED = "#dc2626";
+const MUTED = "#6b7280";
+const PAGE_MARGIN = 50;
+
+const COLUMNS = [
+  { label: "Description", x: 50, width: 215, align: "left" },
+  { label: "Qty", x: 270, width: 40, align: "right" },
+  { label: "Unit (excl.)", x: 315, width: 75, align: "right" },
+  { label: "Setup", x: 395, width: 60, align: "right" },
+  { label: "Total (excl.)", x: 460, width: 85, align: "right" },
+] as const;
+
+const formatRand = (amount: number) =>
+  `R ${Number(amount).toLocaleString("en-ZA", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Render an invoice, quote or credit note as an A4 PDF
+ */
+export function renderDocumentPdf(document: SalesDocument): Promise<Buffer> {
+  const seller = getSellerDetails();
+  const pdf = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: {
+      Title: `${document.title} ${document.number}`,
+      Author: seller.name,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+  });
+
+  // Header: seller on the left, document title and number on the right
+  pdf.font("Helvetica-Bold").fontSize(22).fillColor(BRAND_RED);
+  pdf.text(seller.name, PAGE_MARGIN, PAGE_MARGIN);
+  pdf.font("Helvetica").fontSize(9).fillColor(MUTED);
+  [
+    seller.address,
+    seller.email,
+    seller.phone,
+    seller.vatNumber && `VAT No: ${seller.vatNumber}`,
+  ]
+    .filter(Boolean)
+    .forEach((line) => pdf.text(line));
+
+  pdf.font("Helvetica-Bold").fontSize(16).fillColor("black");
+  pdf.text(document.title, 300, PAGE_MARGIN, { width: 245, align: "right" });
+  pdf.font("Helvetica").fontSize(10);
+  [
+    ["Number", document.number],
+    ["Date", document.date],
+    ...document.meta,
+  ].forEach(([label, value]) =>
+    pdf.text(`${label}: ${value}`, { width: 245, align: "right" }),
+  );
+
+  // Bill to
+  let y = Math.max(pdf.y, 150) + 20;
+  pdf.font("Helvetica-Bold").fontSize(10).text("Bill to", PAGE_MARGIN, y);
+  pdf.font("Helvetica").fontSize(10);
+  [
+    document.billTo.company,
+    document.billTo.vatNumber && `VAT No: ${document.billTo.vatNumber}`,
+    document.billTo.name,
+    ...document.billTo.address,
+    document.billTo.email,
+    document.billTo.phone,
+  ]
+    .filter(Boolean)
+    .forEach((line) => pdf.text(line));
+
+  // Line items
+  y = pdf.y + 25;
+  pdf.rect(PAGE_MARGIN, y - 5, 495, 20).fill("#f3f4f6");
+  pdf.font("Helvetica-Bold").fontSize(9).fillColor("black");
+  COLUMNS.forEach((column) =>
+    pdf.text(column.label, column.x, y, {
+      width: column.width,
+      align: column.align,
+    }),
+  );
+  y += 22;
+
+  pdf.font("Helvetica").fontSize(9);
+  for (const line of document.lines) {
+    const description = line.detail
+      ? `${line.description}\n${line.detail}`
+      : line.description;
+    const rowHeight = Math.max(
+      pdf.heightOfString(description, { width: COLUMNS[0].width }),
+      12,
+    );
+    if (y + rowHeight > pdf.page.height - 200) {
+      pdf.addPage();
+      y = PAGE_MARGIN;
+    }
+
+    [
+      description,
+      String(line.quantity),
+      formatRand(line.unit_price),
+      line.setup_fee > 0 ? formatRand(line.setup_fee) : "-",
+      formatRand(line.line_total),
+    ].forEach((value, index) =>
+      pdf.text(value, COLUMNS[index].x, y, {
+        width: COLUMNS[index].width,
+        align: COLUMNS[index].align,
+      }),
+    );
+    y += rowHeight + 8;
+    pdf
+      .moveTo(PAGE_MARGIN, y - 4)
+      .lineTo(545, y - 4)
+      .strokeColor("#e5e7eb")
+      .stroke();
+  }
+
+  // Totals, with the VAT breakdown a South African tax invoice requires
+  y += 10;
+  const totals: [string, number][] = [
+    ["Subtotal (excl. VAT)", document.subtotal],
+    ["Delivery", document.shipping],
+    [`VAT @ ${Math.round(VAT_RATE * 100)}%`, document.tax],
+  ];
+  totals.forEach(([label, amount]) => {
+    pdf.text(label, 315, y, { width: 140, align: "right" });
+    pdf.text(formatRand(amount), 460, y, { width: 85, align: "right" });
+    y += 16;
+  });
+  pdf.font("Helvetica-Bold").fontSize(11);
+  pdf.text("Total (incl. VAT)", 315, y + 4, { width: 140, align: "right" });
+  pdf.text(formatRand(document.total), 460, y + 4, {
+    width: 85,
+    align: "right",
+  });
+
+  if (document.notes) {
+    pdf.font("Helvetica-Bold").fontSize(10).fillColor("black");
+    pdf.text("Notes", PAGE_MARGIN, y + 40);
+    pdf.font("Helvetica").fontSize(9).fillColor(MUTED);
+    pdf.text(document.notes, { width: 495 });
+  }
+
+  pdf.end();
+  return done;
+}
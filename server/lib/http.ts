@@ -0,0 +1,10 @@
+import { Response } from "express";
+import { ApiErrorResponse } from "@shared/api";
+
+/**
+ * Send a JSON error body in the shape every /api route uses
+ */
+export function sendError(res: Response, status: number, error: string) {
+  const body: ApiErrorResponse = { error };
+  res.status(status).json(body);
+}
@@ -0,0 +1,167 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { CardDetails } from "@shared/api";
+import { isValidCardNumber } from "../../shared/payments";
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentWebhookEvent,
+  ProviderIntent,
+} from "./paymentProvider";
+
+/**
+ * Test cards, by last four digits. Any other Luhn-valid number succeeds,
+ * e.g. 4242 4242 4242 4242.
+ */
+const DECLINED_LAST4 = "0002"; // 4000 0000 0000 0002
+const THREE_D_SECURE_LAST4 = "3220"; // 4000 0000 0000 3220
+
+export const MOCK_WEBHOOK_SIGNATURE_HEADER = "x-mock-signature";
+
+// Intents waiting on 3-D Secure; lost on restart, which is fine for local testing
+const pendingIntents = new Map<string, ProviderIntent>();
+
+// No default: a secret anyone can read would let them sign a forged
+// payment.succeeded event
+function getWebhookSecret(): string {
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET is not set");
+  }
+  return secret;
+}
+
+const detectBrand = (number: string) =>
+  number.startsWith("4")
+    ? "Visa"
+    : /^5[1-5]/.test(number)
+      ? "Mastercard"
+      : /^3[47]/.test(number)
+        ? "American Express"
+        : "Card";
+
+/**
+ * HMAC-SHA256 of the raw body, hex encoded, as sent in the signature header
+ */
+export const signMockWebhook = (rawBody: string | Buffer): string =>
+  createHmac("sha256", getWebhookSecret()).update(rawBody).digest("hex");
+
+/**
+ * Local stand-in for a card gateway. Tokens carry the card's last four digits
+ * so the test-card outcome survives a server restart.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async tokeniseCard(card: CardDetails) {
+    const number = card.number.replace(/[\s-]/g, "");
+    if (!isValidCardNumber(number)) {
+      throw new PaymentProviderError("invalid_card", "Card number is invalid");
+    }
+
+    const last4 = number.slice(-4);
+    return {
+      token: `mock_pm_${last4}_${randomUUID()}`,
+      brand: detectBrand(number),
+      last4,
+      exp_month: card.exp_month,
+      exp_year: card.exp_year,
+    };
+  },
+
+  async createIntent({ amount, payment_method_token }) {
+    const last4 = payment_method_token.match(/^mock_pm_(\d{4})_/)?.[1];
+    if (!last4) {
+      throw new PaymentProviderError(
+        "invalid_payment_method",
+        "Payment method was not issued by this provider",
+      );
+    }
+
+    const intent: ProviderIntent = {
+      id: `mock_pi_${randomUUID()}`,
+      status: "succeeded",
+      amount,
+    };
+
+    if (last4 === DECLINED_LAST4) {
+      intent.status = "failed";
+      intent.failure_reason = "Your card was declined";
+    } else if (last4 === THREE_D_SECURE_LAST4) {
+      intent.status = "requires_action";
+      pendingIntents.set(intent.id, intent);
+    }
+
+    return intent;
+  },
+
+  async confirmIntent(intentId, { authentication }) {
+    const intent = pendingIntents.get(intentId);
+    if (!intent) {
+      throw new PaymentProviderError(
+        "intent_not_found",
+        "This payment has expired. Please try again.",
+      );
+    }
+    pendingIntents.delete(intentId);
+
+    return authentication === "approved"
+      ? { ...intent, status: "succeeded" }
+      : {
+          ...intent,
+          status: "failed",
+          failure_reason: "3-D Secure authentication failed",
+        };
+  },
+
+  async refund({ intent_id, amount }) {
+    if (!intent_id.startsWith("mock_pi_")) {
+      throw new PaymentProviderError(
+        "intent_not_found",
+        "Payment was not taken by this provider",
+      );
+    }
+
+    return { id: `mock_re_${randomUUID()}`, status: "succeeded", amount };
+  },
+
+  parseWebhook(rawBody, headers) {
+    const signature = headers[MOCK_WEBHOOK_SIGNATURE_HEADER];
+    const expected = Buffer.from(signMockWebhook(rawBody));
+    if (
+      typeof signature !== "string" ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), expected)
+    ) {
+      throw new PaymentProviderError(
+        "invalid_signature",
+        "Webhook signature does not match",
+      );
+    }
+
+    // { id, type, data: { intent_id, amount } }
+    let payload;
+    try {
+      payload = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentProviderError(
+        "invalid_event",
+        "Webhook body is not JSON",
+      );
+    }
+    const event: PaymentWebhookEvent = {
+      id: payload.id,
+      type: payload.type,
+      intent_id: payload.data?.intent_id,
+      amount: payload.data?.amount,
+      payload,
+    };
+    if (!event.id || !event.type || !event.intent_id) {
+      throw new PaymentProviderError(
+        "invalid_event",
+        "Webhook event is missing id, type or intent",
+      );
+    }
+
+    return event;
+  },
+};
@@ -0,0 +1,282 @@
+import { Response } from "express";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import {
+  PlaceOrderErrorResponse,
+  PlaceOrderLine,
+  StockIssue,
+} from "@shared/api";
+import {
+  DEFAULT_COUNTRY,
+  normalisePostalCode,
+  SA_PROVINCES,
+  validatePostalCode,
+} from "../../shared/addresses";
+import {
+  resolveUnitPrice,
+  roundCurrency,
+  VAT_RATE,
+} from "../../shared/pricing";
+import { ShippingItem } from "../../shared/shipping";
+import { formatVariantLabel, VariantAxis } from "../../shared/variants";
+import {
+  customisationKey,
+  DECORATION_METHODS,
+  DecorationOption,
+  LineCustomisation,
+  validateCustomisation,
+} from "../../shared/customisation";
+
+const customisationSchema = z.object({
+  option_id: z.string().uuid(),
+  method: z.enum(DECORATION_METHODS),
+  position: z.string().trim().min(1, "Please choose a branding position"),
+  colours: z.array(z.string().trim().min(1)).max(20),
+  artwork_file_id: z.string().uuid().nullable().optional(),
+  artwork_path: z.string().nullable().optional(),
+  artwork_name: z.string().nullable().optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const orderLinesSchema = z
+  .array(
+    z.object({
+      product_id: z.string().uuid(),
+      variant_id: z.string().uuid().nullable().optional(),
+      customisation: customisationSchema.nullable().optional(),
+      quantity: z.number().int().positive(),
+    }),
+  )
+  .min(1, "Your cart is empty");
+
+export const customerSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  email: z.string().trim().email("A valid email address is required"),
+  phone: z.string().trim().min(1, "Phone number is required"),
+  company: z.string().trim().optional(),
+});
+
+// Delivery and billing addresses; we only deliver within South Africa
+export const addressSchema = z.object({
+  address: z.string().trim().min(1, "Street address is required"),
+  city: z.string().trim().min(1, "City is required"),
+  province: z.enum(SA_PROVINCES, {
+    errorMap: () => ({ message: "Please choose a province" }),
+  }),
+  postalCode: z
+    .string()
+    .superRefine((value, ctx) => {
+      const problem = validatePostalCode(value);
+      if (problem)
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    })
+    .transform(normalisePostalCode),
+  country: z.literal(DEFAULT_COUNTRY).default(DEFAULT_COUNTRY),
+});
+
+/**
+ * Line as written to order_items / quote_items by place_order() and request_quote()
+ */
+export interface PricedOrderLine {
+  product_id: string;
+  variant_id: string | null;
+  sku: string | null;
+  variant_label: string | null;
+  product_name: string;
+  unit_price: number;
+  quantity: number;
+  vat_rate: number;
+  customisation: LineCustomisation | null;
+  customisation_key: string;
+  setup_fee: number;
+}
+
+export type PriceOrderLinesResult =
+  | { error: string }
+  | {
+      lines: PricedOrderLine[];
+      stockIssues: StockIssue[];
+      shippingItems: ShippingItem[];
+    };
+
+/**
+ * Collapse duplicate cart lines for the same product, variant and branding into one
+ */
+const mergeLines = (lines: PlaceOrderLine[]): PlaceOrderLine[] => {
+  const merged = new Map<string, PlaceOrderLine>();
+  for (const line of lines) {
+    const variant_id = line.variant_id ?? null;
+    const customisation = line.customisation ?? null;
+    const key = `${line.product_id}:${variant_id}:${customisationKey(customisation)}`;
+    merged.set(key, {
+      product_id: line.product_id,
+      variant_id,
+      customisation,
+      quantity: (merged.get(key)?.quantity || 0) + line.quantity,
+    });
+  }
+  return Array.from(merged.values());
+};
+
+// Stock is held per variant, or per product for products without variants
+const stockKey = (line: { product_id: string; variant_id?: string | null }) =>
+  `${line.product_id}:${line.variant_id ?? null}`;
+
+/**
+ * Reprice cart lines from the products table, applying volume price tiers,
+ * variant price adjustments and branding fees, and collect the weights and
+ * dimensions shipping is charged on. Lines that current stock
+ * cannot cover are reported in `stockIssues`; the caller decides whether
+ * that blocks it.
+ */
+export async function priceOrderLines(
+  supabase: SupabaseClient,
+  userId: string | null,
+  requestedLines: PlaceOrderLine[],
+): Promise<PriceOrderLinesResult> {
+  const items = mergeLines(requestedLines);
+
+  const { data: productRows, error: productsError } = await supabase
+    .from("products")
+    .select(
+      "id, name, price, stock, is_active, variant_axes, weight_kg, length_cm, width_cm, height_cm, price_tiers:product_price_tiers(min_quantity, unit_price), variants:product_variants(id, sku, options, price_delta, stock, is_active), decoration_options:product_decoration_options(*)",
+    )
+    .in(
+      "id",
+      items.map((item) => item.product_id),
+    );
+
+  if (productsError) throw productsError;
+
+  // Volume tiers apply to the product's total quantity across all variants;
+  // stock is checked against every line drawing on the same variant
+  const productQuantities = new Map<string, number>();
+  const stockQuantities = new Map<string, number>();
+  for (const item of items) {
+    productQuantities.set(
+      item.product_id,
+      (productQuantities.get(item.product_id) || 0) + item.quantity,
+    );
+    stockQuantities.set(
+      stockKey(item),
+      (stockQuantities.get(stockKey(item)) || 0) + item.quantity,
+    );
+  }
+
+  const lines: PricedOrderLine[] = [];
+  const stockIssues: StockIssue[] = [];
+  const shippingItems: ShippingItem[] = [];
+  for (const item of items) {
+    const product = productRows?.find((row) => row.id === item.product_id);
+    if (!product || !product.is_active) {
+      return { error: "A product in your cart is no longer available" };
+    }
+
+    const axes: VariantAxis[] = product.variant_axes || [];
+    const variant = item.variant_id
+      ? product.variants?.find((row) => row.id === item.variant_id)
+      : undefined;
+    if (axes.length > 0 && !item.variant_id) {
+      return { error: `Please choose options for ${product.name}` };
+    }
+    if (item.variant_id && (!variant || !variant.is_active)) {
+      return {
+        error: `The selected option for ${product.name} is no longer available`,
+      };
+    }
+
+    const variantLabel = variant
+      ? formatVariantLabel(variant.options, axes)
+      : null;
+    const available = variant ? variant.stock : product.stock;
+    const requested = stockQuantities.get(stockKey(item));
+    const reported = stockIssues.some(
+      (issue) => stockKey(issue) === stockKey(item),
+    );
+    if (available < requested && !reported) {
+      stockIssues.push({
+        product_id: product.id,
+        variant_id: variant?.id ?? null,
+        name: variantLabel ? `${product.name} (${variantLabel})` : product.name,
+        requested,
+        available,
+      });
+    }
+
+    const customisation = item.customisation as LineCustomisation | null;
+    let decoration: DecorationOption | undefined;
+    if (customisation) {
+      decoration = product.decoration_options?.find(
+        (option) => option.id === customisation.option_id,
+      );
+      const problem = validateCustomisation(decoration, customisation);
+      if (problem) {
+        return { error: `${product.name}: ${problem}` };
+      }
+      // Artwork must be the customer's own upload
+      if (
+        customisation.artwork_path &&
+        !customisation.artwork_path.startsWith(`${userId}/`)
+      ) {
+        return { error: "Invalid artwork file" };
+      }
+    }
+
+    const unitPrice =
+      resolveUnitPrice(
+        product.price,
+        product.price_tiers,
+        productQuantities.get(product.id),
+      ) +
+      Number(variant?.price_delta ?? 0) +
+      Number(decoration?.unit_fee ?? 0);
+
+    lines.push({
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      sku: variant?.sku ?? null,
+      variant_label: variantLabel,
+      product_name: product.name,
+      unit_price: roundCurrency(unitPrice),
+      quantity: item.quantity,
+      vat_rate: VAT_RATE,
+      customisation: customisation
+        ? { ...customisation, method: decoration.method }
+        : null,
+      customisation_key: customisationKey(customisation),
+      setup_fee: Number(decoration?.setup_fee ?? 0),
+    });
+    shippingItems.push({
+      weight_kg: product.weight_kg,
+      length_cm: product.length_cm,
+      width_cm: product.width_cm,
+      height_cm: product.height_cm,
+      quantity: item.quantity,
+    });
+  }
+
+  return { lines, stockIssues, shippingItems };
+}
+
+/**
+ * Sum of line totals excluding VAT, setup fees included
+ */
+export const subtotalOf = (lines: PricedOrderLine[]): number =>
+  roundCurrency(
+    lines.reduce(
+      (sum, line) => sum + line.unit_price * line.quantity + line.setup_fee,
+      0,
+    ),
+  );
+
+/**
+ * 409 response listing the lines current stock cannot cover
+ */
+export function sendStockIssues(res: Response, stockIssues: StockIssue[]) {
+  const body: PlaceOrderErrorResponse = {
+    error: "Some items in your cart are no longer in stock",
+    stock_issues: stockIssues,
+  };
+  res.status(409).json(body);
+}
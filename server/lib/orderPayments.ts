@@ -0,0 +1,41 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Record a received payment through record_order_payment(), which also moves a
+ * pending order on to processing. Returns false when the order was already
+ * paid or has been cancelled, so repeated notifications are harmless.
+ */
+export async function markOrderPaid(
+  supabase: SupabaseClient,
+  orderId: string,
+  amount: number,
+  note: string,
+): Promise<boolean> {
+  const { error } = await supabase.rpc("record_order_payment", {
+    p_order_id: orderId,
+    p_amount: amount,
+    p_note: note,
+  });
+
+  if (error?.message === "order_not_payable") return false;
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Record a declined card payment, as a payment.failed webhook does. Orders
+ * already paid or refunded keep their status, as a later retry may have
+ * succeeded.
+ */
+export async function markOrderPaymentFailed(
+  supabase: SupabaseClient,
+  orderId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("orders")
+    .update({ payment_status: "failed" })
+    .eq("id", orderId)
+    .not("payment_status", "in", "(paid,refunded)");
+
+  if (error) throw error;
+}
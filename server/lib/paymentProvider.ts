@@ -0,0 +1,96 @@
+import type { IncomingHttpHeaders } from "http";
+import type { CardDetails, PaymentIntentStatus } from "@shared/api";
+
+/**
+ * A card exchanged for a reusable provider token. Only these display fields
+ * are ever stored on our side.
+ */
+export interface TokenisedCard {
+  token: string;
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
+export interface ProviderIntent {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number; // Rand, VAT inclusive
+  failure_reason?: string;
+}
+
+export interface CreateIntentInput {
+  amount: number;
+  currency: "ZAR";
+  reference: string; // orders.payment_reference, shown on the customer's statement
+  payment_method_token: string;
+}
+
+export interface ConfirmIntentInput {
+  // Outcome of the customer's 3-D Secure challenge
+  authentication: "approved" | "rejected";
+}
+
+export interface RefundInput {
+  intent_id: string;
+  amount: number;
+  reason?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  status: "succeeded" | "failed";
+  amount: number;
+}
+
+export type PaymentWebhookEventType =
+  | "payment.succeeded"
+  | "payment.failed"
+  | "refund.succeeded";
+
+/**
+ * A webhook normalised across providers. `id` is the provider's event id,
+ * which stays the same when the provider retries a delivery.
+ */
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intent_id: string;
+  amount?: number;
+  payload: unknown;
+}
+
+/**
+ * One payment gateway. Add a gateway (PayFast, Yoco, ...) by implementing this
+ * and registering it in paymentProviders.ts.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  tokeniseCard(card: CardDetails): Promise<TokenisedCard>;
+  createIntent(input: CreateIntentInput): Promise<ProviderIntent>;
+  confirmIntent(
+    intentId: string,
+    input: ConfirmIntentInput,
+  ): Promise<ProviderIntent>;
+  refund(input: RefundInput): Promise<ProviderRefund>;
+  /** Verify the signature over the raw request body and parse the event */
+  parseWebhook(
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders,
+  ): PaymentWebhookEvent;
+}
+
+/**
+ * Raised by providers for problems the customer or caller can act on,
+ * e.g. `invalid_card`, `intent_not_found`, `invalid_signature`
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
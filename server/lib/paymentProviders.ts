@@ -0,0 +1,40 @@
+import { mockPaymentProvider } from "./mockPaymentProvider";
+import type { PaymentProvider } from "./paymentProvider";
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+};
+
+// The mock gateway approves any Luhn-valid card, so production never uses it,
+// for new payments, saved cards or webhooks
+const isAvailable = (provider: PaymentProvider) =>
+  provider !== mockPaymentProvider || process.env.NODE_ENV !== "production";
+
+/**
+ * The provider new card payments go through, chosen with PAYMENT_PROVIDER.
+ * Null when it is not set: card payments are then switched off rather than
+ * falling back to a gateway that charges nothing. An unknown name throws;
+ * createServer() checks it at startup.
+ */
+export function getActivePaymentProvider(): PaymentProvider | null {
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) return null;
+
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+  if (!isAvailable(provider)) {
+    throw new Error(`PAYMENT_PROVIDER "${name}" cannot be used in production`);
+  }
+  return provider;
+}
+
+/**
+ * Look up a provider by the name stored against a payment or saved method,
+ * or named in a webhook URL
+ */
+export const getPaymentProvider = (name: string): PaymentProvider | null => {
+  const provider = providers[name];
+  return provider && isAvailable(provider) ? provider : null;
+};
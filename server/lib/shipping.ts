@@ -0,0 +1,18 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { ShippingConfig } from "../../shared/shipping";
+
+/**
+ * Current shipping zones and rate tables, as admins configured them
+ */
+export async function loadShippingConfig(
+  supabase: SupabaseClient,
+): Promise<ShippingConfig> {
+  const [zones, rates] = await Promise.all([
+    supabase.from("shipping_zones").select("*"),
+    supabase.from("shipping_rates").select("*"),
+  ]);
+  if (zones.error) throw zones.error;
+  if (rates.error) throw rates.error;
+
+  return { zones: zones.data ?? [], rates: rates.data ?? [] };
+}
@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+import { createClient, SupabaseClient, User } from "@supabase/supabase-js";
+import { sendError } from "./http";
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Service-role Supabase client. Bypasses RLS, so it must never leave the server.
+ * Created lazily so the dev server can boot without the service key configured.
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) return adminClient;
+
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing");
+  }
+
+  adminClient = createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  return adminClient;
+}
+
+/**
+ * Resolve the signed-in user from the `Authorization: Bearer <access token>` header
+ */
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+
+  const token = header.slice("Bearer ".length);
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+  if (error) return null;
+
+  return data.user;
+}
+
+/**
+ * For routes guests may also use. Resolves to `{ user: null }` only when no
+ * Authorization header was sent. A header whose token is invalid or expired
+ * gets a 401, so a signed-in customer is never silently treated as a guest;
+ * the result is then undefined and the caller should return.
+ */
+export async function getUserOrGuest(
+  req: Request,
+  res: Response,
+): Promise<{ user: User | null } | undefined> {
+  if (!req.headers.authorization) return { user: null };
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    sendError(res, 401, "Your session has expired. Please sign in again.");
+    return undefined;
+  }
+  return { user };
+}
+
+/**
+ * Whether the user's profile grants admin access, matching the RLS admin check
+ */
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const { data } = await getSupabaseAdmin()
+    .from("profiles")
+    .select("is_admin, role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  return Boolean(data && (data.is_admin || data.role === "admin"));
+}
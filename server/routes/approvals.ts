@@ -0,0 +1,81 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  APPROVAL_DECISIONS,
+  ApprovalDecision,
+  validateApprovalDecision,
+} from "../../shared/approvals";
+import { sendError } from "../lib/http";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabase";
+
+const decideApprovalSchema = z.object({
+  decision: z.enum(APPROVAL_DECISIONS),
+  comment: z.string().trim().max(1000).nullable().optional(),
+});
+
+// Errors raised by decide_order_approval() that the approver can act on
+const DECIDE_APPROVAL_ERRORS: Record<string, [number, string]> = {
+  order_not_found: [404, "Order not found"],
+  not_an_approver: [404, "Order not found"],
+  order_not_awaiting_approval: [
+    409,
+    "This order has already been approved or rejected",
+  ],
+  cannot_approve_own_order: [
+    403,
+    "Another approver must decide on your own order",
+  ],
+  comment_required: [400, "Please say why the order is rejected"],
+};
+
+/**
+ * POST /api/orders/:id/approval
+ * Owners and approvers of the order's company approve it (it becomes pending
+ * and can be paid) or reject it with a reason (it is cancelled). The decision
+ * is kept in order_approvals and the buyer is notified.
+ */
+export const handleDecideOrderApproval: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const parsed = decideApprovalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+    const decision = parsed.data.decision as ApprovalDecision;
+    const decisionError = validateApprovalDecision(
+      decision,
+      parsed.data.comment,
+    );
+    if (decisionError) {
+      return sendError(res, 400, decisionError);
+    }
+
+    const { data: approval, error } = await getSupabaseAdmin().rpc(
+      "decide_order_approval",
+      {
+        p_order_id: req.params.id,
+        p_decided_by: user.id,
+        p_decision: decision,
+        p_comment: parsed.data.comment ?? null,
+      },
+    );
+
+    if (error && DECIDE_APPROVAL_ERRORS[error.message]) {
+      const [status, message] = DECIDE_APPROVAL_ERRORS[error.message];
+      return sendError(res, status, message);
+    }
+    if (error) {
+      console.error("Error recording approval:", error);
+      return sendError(res, 500, "Failed to record the decision");
+    }
+
+    res.status(201).json(approval);
+  } catch (error) {
+    console.error("Order approval failed:", error);
+    sendError(res, 500, "Failed to record the decision");
+  }
+};
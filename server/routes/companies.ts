@@ -0,0 +1,349 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  COMPANY_ROLES,
+  CompanyRole,
+  canManageCompany,
+  normaliseVatNumber,
+  validateVatNumber,
+  wouldRemoveLastOwner,
+} from "../../shared/companies";
+import { sendError } from "../lib/http";
+import { getRequestUser, getSupabaseAdmin, isAdminUser } from "../lib/supabase";
+
+const createCompanySchema = z.object({
+  name: z.string().trim().min(1, "Company name is required").max(200),
+  vat_number: z.string().nullable().optional(),
+  owner_email: z.string().trim().email("Enter a valid email").optional(),
+});
+
+const inviteMemberSchema = z.object({
+  email: z.string().trim().email("Enter a valid email"),
+  role: z.enum(COMPANY_ROLES),
+});
+
+const updateMemberSchema = z
+  .object({
+    role: z.enum(COMPANY_ROLES).optional(),
+    spending_limit: z
+      .number()
+      .min(0, "Spending limits cannot be negative")
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (body) => body.role !== undefined || body.spending_limit !== undefined,
+    "Nothing to update",
+  );
+
+const findProfileByEmail = async (email: string) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from("profiles")
+    .select("id")
+    .eq("email", email.toLowerCase())
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+const loadMembers = async (companyId: string) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from("company_members")
+    .select("user_id, role")
+    .eq("company_id", companyId);
+  if (error) throw error;
+  return (data ?? []) as { user_id: string; role: CompanyRole }[];
+};
+
+/**
+ * POST /api/companies
+ * Signed-in customers create a company and become its owner. Admins can set
+ * one up for an existing customer with owner_email.
+ */
+export const handleCreateCompany: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to create a company account");
+    }
+
+    const parsed = createCompanySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+    const vatError = validateVatNumber(parsed.data.vat_number);
+    if (vatError) {
+      return sendError(res, 400, vatError);
+    }
+
+    let ownerId = user.id;
+    if (parsed.data.owner_email) {
+      if (!(await isAdminUser(user.id))) {
+        return sendError(
+          res,
+          403,
+          "Only admins can create companies for others",
+        );
+      }
+      const owner = await findProfileByEmail(parsed.data.owner_email);
+      if (!owner) {
+        return sendError(res, 404, "No account uses that email");
+      }
+      ownerId = owner.id;
+    }
+
+    const { data: company, error } = await getSupabaseAdmin().rpc(
+      "create_company",
+      {
+        p_owner_id: ownerId,
+        p_name: parsed.data.name,
+        p_vat_number: normaliseVatNumber(parsed.data.vat_number),
+      },
+    );
+
+    if (error?.message === "already_in_company") {
+      return sendError(res, 409, "This account already belongs to a company");
+    }
+    if (error) {
+      console.error("Error creating company:", error);
+      return sendError(res, 500, "Failed to create company");
+    }
+
+    res.status(201).json(company);
+  } catch (error) {
+    console.error("Company creation failed:", error);
+    sendError(res, 500, "Failed to create company");
+  }
+};
+
+/**
+ * POST /api/companies/:id/invites
+ * Owners and admins invite an existing customer by email. They only join,
+ * and their orders only go to the company, once they accept. Inviting the
+ * same person again updates the role they are offered.
+ */
+export const handleInviteCompanyMember: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const parsed = inviteMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const companyId = req.params.id;
+    const members = await loadMembers(companyId);
+    const callerRole = members.find((m) => m.user_id === user.id)?.role;
+    if (!canManageCompany(callerRole) && !(await isAdminUser(user.id))) {
+      return sendError(res, 403, "Only company owners can invite members");
+    }
+
+    const profile = await findProfileByEmail(parsed.data.email);
+    if (!profile) {
+      return sendError(
+        res,
+        404,
+        "No account uses that email. Ask them to sign up first.",
+      );
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: membership, error: membershipError } = await supabase
+      .from("company_members")
+      .select("company_id")
+      .eq("user_id", profile.id)
+      .maybeSingle();
+    if (membershipError) throw membershipError;
+    if (membership) {
+      return sendError(
+        res,
+        409,
+        "This person already belongs to a company account",
+      );
+    }
+
+    const { data: invite, error } = await supabase
+      .from("company_invites")
+      .upsert({
+        company_id: companyId,
+        user_id: profile.id,
+        email: parsed.data.email.toLowerCase(),
+        role: parsed.data.role,
+        invited_by: user.id,
+      })
+      .select()
+      .single();
+    if (error) throw error;
+
+    res.status(201).json(invite);
+  } catch (error) {
+    console.error("Inviting company member failed:", error);
+    sendError(res, 500, "Failed to send invitation");
+  }
+};
+
+/**
+ * POST /api/companies/:id/invites/accept
+ * The signed-in customer accepts their invitation and joins the company.
+ */
+export const handleAcceptCompanyInvite: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const { data: member, error } = await getSupabaseAdmin()
+      .rpc("accept_company_invite", {
+        p_user_id: user.id,
+        p_company_id: req.params.id,
+      })
+      .single();
+
+    if (error?.message === "invite_not_found") {
+      return sendError(res, 404, "This invitation is no longer open");
+    }
+    if (error?.message === "already_in_company") {
+      return sendError(res, 409, "You already belong to a company account");
+    }
+    if (error) throw error;
+
+    res.json(member);
+  } catch (error) {
+    console.error("Accepting company invite failed:", error);
+    sendError(res, 500, "Failed to accept invitation");
+  }
+};
+
+/**
+ * DELETE /api/companies/:id/invites/:userId
+ * The invitee declines, or an owner or admin withdraws the invitation.
+ */
+export const handleDeleteCompanyInvite: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const { id: companyId, userId } = req.params;
+    if (userId !== user.id) {
+      const members = await loadMembers(companyId);
+      const callerRole = members.find((m) => m.user_id === user.id)?.role;
+      if (!canManageCompany(callerRole) && !(await isAdminUser(user.id))) {
+        return sendError(
+          res,
+          403,
+          "Only company owners can withdraw invitations",
+        );
+      }
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from("company_invites")
+      .delete()
+      .eq("company_id", companyId)
+      .eq("user_id", userId);
+    if (error) throw error;
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Removing company invite failed:", error);
+    sendError(res, 500, "Failed to remove invitation");
+  }
+};
+
+/**
+ * PATCH /api/companies/:id/members/:userId
+ * Owners and admins change a member's role or spending limit; the company
+ * keeps an owner.
+ */
+export const handleUpdateCompanyMember: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const parsed = updateMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const { id: companyId, userId } = req.params;
+    const members = await loadMembers(companyId);
+    const callerRole = members.find((m) => m.user_id === user.id)?.role;
+    if (!canManageCompany(callerRole) && !(await isAdminUser(user.id))) {
+      return sendError(res, 403, "Only company owners can change members");
+    }
+    if (!members.some((m) => m.user_id === userId)) {
+      return sendError(res, 404, "Member not found");
+    }
+    if (
+      parsed.data.role &&
+      wouldRemoveLastOwner(members, userId, parsed.data.role)
+    ) {
+      return sendError(res, 409, "A company needs at least one owner");
+    }
+
+    const { data: member, error } = await getSupabaseAdmin()
+      .from("company_members")
+      .update(parsed.data)
+      .eq("company_id", companyId)
+      .eq("user_id", userId)
+      .select("*, profile:profiles(id, email, full_name)")
+      .single();
+    if (error) throw error;
+
+    res.json(member);
+  } catch (error) {
+    console.error("Updating company member failed:", error);
+    sendError(res, 500, "Failed to update member");
+  }
+};
+
+/**
+ * DELETE /api/companies/:id/members/:userId
+ * Owners and admins remove members, and anyone can leave; the company keeps
+ * an owner. Orders already placed stay with the company.
+ */
+export const handleRemoveCompanyMember: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+
+    const { id: companyId, userId } = req.params;
+    const members = await loadMembers(companyId);
+    const callerRole = members.find((m) => m.user_id === user.id)?.role;
+    if (
+      userId !== user.id &&
+      !canManageCompany(callerRole) &&
+      !(await isAdminUser(user.id))
+    ) {
+      return sendError(res, 403, "Only company owners can remove members");
+    }
+    if (!members.some((m) => m.user_id === userId)) {
+      return sendError(res, 404, "Member not found");
+    }
+    if (wouldRemoveLastOwner(members, userId, null)) {
+      return sendError(res, 409, "A company needs at least one owner");
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from("company_members")
+      .delete()
+      .eq("company_id", companyId)
+      .eq("user_id", userId);
+    if (error) throw error;
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Removing company member failed:", error);
+    sendError(res, 500, "Failed to remove member");
+  }
+};
@@ -0,0 +1,296 @@
+import { RequestHandler, Response } from "express";
+import type { OrderCustomerInfo, OrderAddress } from "@shared/api";
+import {
+  describeCustomisation,
+  LineCustomisation,
+} from "../../shared/customisation";
+import { toDateString } from "../../shared/quotes";
+import {
+  DocumentLine,
+  DocumentParty,
+  renderDocumentPdf,
+  SalesDocument,
+} from "../lib/documentPdf";
+import { canViewOrder } from "../lib/companies";
+import { sendError } from "../lib/http";
+import { getRequestUser, getSupabaseAdmin, isAdminUser } from "../lib/supabase";
+
+// Errors raised by issue_invoice() that the customer can act on
+const ISSUE_INVOICE_ERRORS: Record<string, [number, string]> = {
+  order_not_found: [404, "Order not found"],
+  order_cancelled: [409, "Cancelled orders are not invoiced"],
+  order_awaiting_approval: [
+    409,
+    "The invoice is available once your company approves the order",
+  ],
+};
+
+interface DocumentItemRow {
+  product_name: string;
+  variant_label: string | null;
+  sku: string | null;
+  customisation: LineCustomisation | null;
+  quantity: number;
+  unit_price: number;
+  setup_fee: number | null;
+  line_total: number;
+}
+
+const shortReference = (id: string) => `#${id.slice(-8).toUpperCase()}`;
+
+const toDocumentLine = (item: DocumentItemRow): DocumentLine => ({
+  description: item.variant_label
+    ? `${item.product_name} (${item.variant_label})`
+    : item.product_name,
+  detail:
+    [
+      item.sku && `SKU ${item.sku}`,
+      item.customisation && describeCustomisation(item.customisation),
+    ]
+      .filter(Boolean)
+      .join(" · ") || undefined,
+  quantity: item.quantity,
+  unit_price: Number(item.unit_price),
+  setup_fee: Number(item.setup_fee ?? 0),
+  line_total: Number(item.line_total),
+});
+
+// orders.shipping_address and quotes.shipping_address hold the checkout form.
+// Orders placed for a company account are billed to the company, and to the
+// billing address when the customer gave one.
+const toBillTo = (
+  details: {
+    customerInfo?: OrderCustomerInfo;
+    shippingAddress?: OrderAddress;
+  } | null,
+  fallbackEmail?: string | null,
+  company?: { name: string; vat_number: string | null } | null,
+  billingAddress?: OrderAddress | null,
+): DocumentParty => {
+  const customer = details?.customerInfo;
+  const address = billingAddress ?? details?.shippingAddress;
+  return {
+    name: customer ? `${customer.firstName} ${customer.lastName}` : "",
+    company: company?.name || customer?.company || undefined,
+    vatNumber: company?.vat_number || undefined,
+    email: customer?.email || fallbackEmail || undefined,
+    phone: customer?.phone || undefined,
+    address: address
+      ? [
+          address.address,
+          `${address.city}, ${address.province}, ${address.postalCode}`,
+          address.country,
+        ]
+      : [],
+  };
+};
+
+async function sendPdf(
+  res: Response,
+  filename: string,
+  document: SalesDocument,
+) {
+  const pdf = await renderDocumentPdf(document);
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+  res.send(pdf);
+}
+
+/**
+ * GET /api/orders/:id/invoice.pdf
+ * The order's owner or an admin. The invoice number is issued on the first
+ * download and reused afterwards.
+ */
+export const handleOrderInvoice: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to download invoices");
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select("*, order_items(*), company:companies(name, vat_number)")
+      .eq("id", req.params.id)
+      .maybeSingle();
+
+    if (orderError) {
+      console.error("Error loading order for invoice:", orderError);
+      return sendError(res, 500, "Failed to create invoice");
+    }
+    // Someone else's order is reported as missing rather than forbidden
+    if (!order || !(await canViewOrder(user.id, order))) {
+      return sendError(res, 404, "Order not found");
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase.rpc(
+      "issue_invoice",
+      { p_order_id: order.id },
+    );
+    if (invoiceError && ISSUE_INVOICE_ERRORS[invoiceError.message]) {
+      const [status, message] = ISSUE_INVOICE_ERRORS[invoiceError.message];
+      return sendError(res, status, message);
+    }
+    if (invoiceError) {
+      console.error("Error issuing invoice:", invoiceError);
+      return sendError(res, 500, "Failed to create invoice");
+    }
+
+    await sendPdf(res, `${invoice.invoice_number}.pdf`, {
+      title: "TAX INVOICE",
+      number: invoice.invoice_number,
+      date: toDateString(new Date(invoice.issued_at)),
+      meta: [
+        ["Order", shortReference(order.id)],
+        ["Order date", toDateString(new Date(order.created_at))],
+      ],
+      billTo: toBillTo(
+        order.shipping_address,
+        order.guest_email,
+        order.company,
+        order.billing_address,
+      ),
+      lines: (order.order_items ?? []).map(toDocumentLine),
+      subtotal: Number(order.subtotal),
+      shipping: Number(order.shipping_fee),
+      tax: Number(order.tax),
+      total: Number(order.total),
+    });
+  } catch (error) {
+    console.error("Invoice download failed:", error);
+    sendError(res, 500, "Failed to create invoice");
+  }
+};
+
+/**
+ * GET /api/quotes/:id/quote.pdf
+ * The quote's owner or an admin, once sales have priced it.
+ */
+export const handleQuotePdf: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to download quotes");
+    }
+
+    const { data: quote, error } = await getSupabaseAdmin()
+      .from("quotes")
+      .select("*, quote_items(*)")
+      .eq("id", req.params.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading quote for PDF:", error);
+      return sendError(res, 500, "Failed to create quote PDF");
+    }
+    if (
+      !quote ||
+      (quote.user_id !== user.id && !(await isAdminUser(user.id)))
+    ) {
+      return sendError(res, 404, "Quote not found");
+    }
+    if (quote.status === "requested") {
+      return sendError(res, 409, "This quote has not been priced yet");
+    }
+
+    const reference = shortReference(quote.id);
+    await sendPdf(res, `Quote-${reference.slice(1)}.pdf`, {
+      title: "QUOTATION",
+      number: reference,
+      date: toDateString(new Date(quote.sent_at ?? quote.created_at)),
+      meta: quote.valid_until ? [["Valid until", quote.valid_until]] : [],
+      billTo: toBillTo(quote.shipping_address),
+      lines: (quote.quote_items ?? []).map(toDocumentLine),
+      subtotal: Number(quote.subtotal),
+      shipping: Number(quote.shipping_fee),
+      tax: Number(quote.tax),
+      total: Number(quote.total),
+      notes: quote.admin_notes,
+    });
+  } catch (error) {
+    console.error("Quote PDF download failed:", error);
+    sendError(res, 500, "Failed to create quote PDF");
+  }
+};
+
+/**
+ * GET /api/refunds/:id/credit-note.pdf
+ * The order's owner or an admin. Lists only the units the refund covers.
+ */
+export const handleCreditNotePdf: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to download credit notes");
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: refund, error } = await supabase
+      .from("refunds")
+      .select(
+        "*, order:orders(id, user_id, company_id, guest_email, shipping_address, billing_address, company:companies(name, vat_number)), refund_items(*, order_item:order_items(*))",
+      )
+      .eq("id", req.params.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading refund for credit note:", error);
+      return sendError(res, 500, "Failed to create credit note");
+    }
+    if (!refund || !(await canViewOrder(user.id, refund.order))) {
+      return sendError(res, 404, "Credit note not found");
+    }
+
+    const { data: invoice } = await supabase
+      .from("invoices")
+      .select("invoice_number")
+      .eq("order_id", refund.order.id)
+      .maybeSingle();
+
+    await sendPdf(res, `${refund.credit_note_number}.pdf`, {
+      title: "CREDIT NOTE",
+      number: refund.credit_note_number,
+      date: toDateString(new Date(refund.created_at)),
+      meta: [
+        ["Order", shortReference(refund.order.id)],
+        ...(invoice
+          ? [["Invoice", invoice.invoice_number] as [string, string]]
+          : []),
+      ],
+      billTo: toBillTo(
+        refund.order.shipping_address,
+        refund.order.guest_email,
+        refund.order.company,
+        refund.order.billing_address,
+      ),
+      lines: (refund.refund_items ?? []).map(
+        (item: {
+          quantity: number;
+          subtotal: number;
+          order_item: DocumentItemRow;
+        }) => {
+          const unitPrice = Number(item.order_item.unit_price);
+          return toDocumentLine({
+            ...item.order_item,
+            quantity: item.quantity,
+            // The setup fee is only credited with the last units of a line
+            setup_fee:
+              Math.round(
+                (Number(item.subtotal) - unitPrice * item.quantity) * 100,
+              ) / 100,
+            line_total: Number(item.subtotal),
+          });
+        },
+      ),
+      subtotal: Number(refund.subtotal),
+      shipping: Number(refund.shipping),
+      tax: Number(refund.tax),
+      total: Number(refund.total),
+      notes: refund.reason,
+    });
+  } catch (error) {
+    console.error("Credit note download failed:", error);
+    sendError(res, 500, "Failed to create credit note");
+  }
+};
@@ -0,0 +1,147 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { PlaceOrderLine, PlaceOrderResponse } from "@shared/api";
+import { calculateOrderTotals } from "../../shared/pricing";
+import {
+  calculateShipping,
+  DEFAULT_SHIPPING_SERVICE,
+  SHIPPING_SERVICE_LEVELS,
+  ShippingServiceLevel,
+} from "../../shared/shipping";
+import { sendError } from "../lib/http";
+import {
+  addressSchema,
+  customerSchema,
+  orderLinesSchema,
+  priceOrderLines,
+  sendStockIssues,
+  subtotalOf,
+} from "../lib/orderLines";
+import { getActivePaymentProvider } from "../lib/paymentProviders";
+import { loadShippingConfig } from "../lib/shipping";
+import { getSupabaseAdmin, getUserOrGuest } from "../lib/supabase";
+
+const placeOrderSchema = z.object({
+  items: orderLinesSchema,
+  customer: customerSchema,
+  shipping_address: addressSchema,
+  billing_address: addressSchema.nullable().optional(),
+  shipping_service: z
+    .enum(SHIPPING_SERVICE_LEVELS)
+    .default(DEFAULT_SHIPPING_SERVICE),
+  payment_method: z.enum(["eft", "pending", "card"]),
+});
+
+/**
+ * POST /api/orders
+ * Works for signed-in customers and guests (no Authorization header). An
+ * expired or invalid token is a 401, not a guest order.
+ * Reprices the cart from the products table (applying volume price tiers,
+ * variant price adjustments and branding fees), recomputes shipping from the
+ * zone rate tables for the chosen service level and VAT, then reserves stock,
+ * writes the order and clears the ordered cart lines in one transaction.
+ * billing_address is only sent when it differs from the delivery address.
+ */
+export const handlePlaceOrder: RequestHandler = async (req, res) => {
+  try {
+    // Guests may check out; their order is keyed on the customer email instead
+    const caller = await getUserOrGuest(req, res);
+    if (!caller) return;
+    const { user } = caller;
+
+    const parsed = placeOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const {
+      customer,
+      shipping_address,
+      billing_address,
+      shipping_service,
+      payment_method,
+    } = parsed.data;
+    if (payment_method === "card" && !getActivePaymentProvider()) {
+      return sendError(
+        res,
+        400,
+        "Card payments are not available. Please choose another payment method.",
+      );
+    }
+    const supabase = getSupabaseAdmin();
+
+    const priced = await priceOrderLines(
+      supabase,
+      user?.id ?? null,
+      parsed.data.items as PlaceOrderLine[],
+    );
+    if ("error" in priced) {
+      return sendError(res, 400, priced.error);
+    }
+    if (priced.stockIssues.length > 0) {
+      return sendStockIssues(res, priced.stockIssues);
+    }
+
+    const subtotal = subtotalOf(priced.lines);
+    const shipping = calculateShipping(
+      await loadShippingConfig(supabase),
+      shipping_service as ShippingServiceLevel,
+      {
+        items: priced.shippingItems,
+        subtotal,
+        province: shipping_address.province,
+        postalCode: shipping_address.postalCode,
+      },
+    );
+    if (shipping === null) {
+      return sendError(
+        res,
+        400,
+        "This delivery option is not available for your address",
+      );
+    }
+
+    const totals = calculateOrderTotals(subtotal, shipping);
+
+    const { data: order, error: orderError } = await supabase.rpc(
+      "place_order",
+      {
+        p_user_id: user?.id ?? null,
+        p_items: priced.lines,
+        p_subtotal: totals.subtotal,
+        p_shipping_fee: totals.shipping,
+        p_tax: totals.tax,
+        p_total: totals.total,
+        p_shipping_address: {
+          customerInfo: customer,
+          shippingAddress: shipping_address,
+        },
+        p_payment_method: payment_method,
+        p_billing_address: billing_address ?? null,
+        p_shipping_service: shipping_service,
+      },
+    );
+
+    // Another checkout may have taken the last units after the check above;
+    // place_order re-checks under row locks and reports every short line
+    if (orderError?.message === "insufficient_stock") {
+      return sendStockIssues(res, JSON.parse(orderError.details));
+    }
+    if (orderError) {
+      console.error("Error placing order:", orderError);
+      return sendError(res, 500, "Failed to place order");
+    }
+
+    const response: PlaceOrderResponse = {
+      order_id: order.id,
+      status: order.status,
+      payment_method,
+      payment_reference: order.payment_reference,
+      ...totals,
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Order placement failed:", error);
+    sendError(res, 500, "Failed to place order");
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Request, Response } from "express";
+import { handlePayOrder } from "./payments";
+
+// Records order updates and answers lookups with the order below
+const db = vi.hoisted(() => {
+  const state = {
+    order: null as Record<string, unknown> | null,
+    updates: [] as Record<string, unknown>[],
+  };
+  const query = {
+    select: () => query,
+    eq: () => query,
+    not: () => query,
+    update: (values: Record<string, unknown>) => {
+      state.updates.push(values);
+      return query;
+    },
+    maybeSingle: async () => ({ data: state.order, error: null }),
+    then: (resolve: (result: { error: null }) => void) =>
+      resolve({ error: null }),
+  };
+  return { state, client: { from: () => query } };
+});
+
+vi.mock("../lib/supabase", () => ({
+  getUserOrGuest: async () => ({ user: null }),
+  getSupabaseAdmin: () => db.client,
+}));
+
+const guestCardOrder = {
+  id: "order-1",
+  user_id: null,
+  status: "pending",
+  total: 1150,
+  payment_method: "card",
+  payment_status: "unpaid",
+  payment_reference: "APX-000001",
+};
+
+const payWithCard = async (number: string) => {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  const req = {
+    params: { id: guestCardOrder.id },
+    headers: {},
+    body: { card: { number, exp_month: 12, exp_year: 2099, cvc: "123" } },
+  };
+  await handlePayOrder(
+    req as unknown as Request,
+    res as unknown as Response,
+    vi.fn(),
+  );
+  return res;
+};
+
+describe("handlePayOrder", () => {
+  beforeEach(() => {
+    vi.stubEnv("PAYMENT_PROVIDER", "mock");
+    db.state.order = { ...guestCardOrder };
+    db.state.updates = [];
+  });
+
+  it("should mark the payment failed when the card is declined", async () => {
+    const res = await payWithCard("4000000000000002");
+    expect(res.statusCode).toBe(402);
+    expect(res.body).toEqual({ error: "Your card was declined" });
+    expect(db.state.updates).toContainEqual({ payment_status: "failed" });
+  });
+
+  it("should leave the payment status alone while 3-D Secure is pending", async () => {
+    const res = await payWithCard("4000000000003220");
+    expect(res.body).toMatchObject({ status: "requires_action" });
+    expect(db.state.updates).not.toContainEqual({ payment_status: "failed" });
+  });
+});
@@ -0,0 +1,319 @@
+import { RequestHandler, Response } from "express";
+import { z } from "zod";
+import type {
+  CardDetails,
+  ConfirmPaymentRequest,
+  PaymentIntentResponse,
+  PaymentOptionsResponse,
+} from "@shared/api";
+import { getCardExpiryStatus } from "../../shared/payments";
+import { sendError } from "../lib/http";
+import { markOrderPaid, markOrderPaymentFailed } from "../lib/orderPayments";
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  ProviderIntent,
+} from "../lib/paymentProvider";
+import {
+  getActivePaymentProvider,
+  getPaymentProvider,
+} from "../lib/paymentProviders";
+import { getSupabaseAdmin, getUserOrGuest } from "../lib/supabase";
+
+const cardSchema = z.object({
+  number: z.string().trim().min(12, "Card number is invalid"),
+  exp_month: z.number().int().min(1).max(12),
+  exp_year: z.number().int().min(2000),
+  cvc: z
+    .string()
+    .trim()
+    .regex(/^\d{3,4}$/, "Security code is invalid"),
+  name: z.string().trim().max(100).optional(),
+});
+
+const savePaymentMethodSchema = z.object({ card: cardSchema });
+
+const payOrderSchema = z
+  .object({
+    payment_method_id: z.string().uuid().optional(),
+    card: cardSchema.optional(),
+  })
+  .refine((body) => body.payment_method_id || body.card, {
+    message: "Choose a saved card or enter card details",
+  });
+
+const CARDS_UNAVAILABLE = "Card payments are not available at the moment";
+
+const confirmPaymentSchema = z.object({
+  authentication: z.enum(["approved", "rejected"]),
+});
+
+// Provider errors the customer can act on; anything else is a 500
+const PROVIDER_ERROR_STATUS: Record<string, number> = {
+  invalid_card: 400,
+  invalid_payment_method: 400,
+  intent_not_found: 409,
+};
+
+function sendProviderError(res: Response, error: unknown, fallback: string) {
+  if (
+    error instanceof PaymentProviderError &&
+    PROVIDER_ERROR_STATUS[error.code]
+  ) {
+    return sendError(res, PROVIDER_ERROR_STATUS[error.code], error.message);
+  }
+  console.error(fallback, error);
+  sendError(res, 500, fallback);
+}
+
+/**
+ * Load a card order the caller may pay: their own, or a guest order (which
+ * only its customer knows the id of). Sends the error response otherwise.
+ */
+async function loadPayableOrder(
+  res: Response,
+  orderId: string,
+  userId: string | null,
+) {
+  const { data: order, error } = await getSupabaseAdmin()
+    .from("orders")
+    .select(
+      "id, user_id, status, total, payment_method, payment_status, payment_reference, payment_provider, payment_intent_id",
+    )
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!order || (order.user_id && order.user_id !== userId)) {
+    sendError(res, 404, "Order not found");
+    return null;
+  }
+  if (order.payment_method !== "card") {
+    sendError(res, 409, "This order is not paid by card");
+    return null;
+  }
+  if (order.payment_status === "paid" || order.status === "cancelled") {
+    sendError(res, 409, "This order no longer needs payment");
+    return null;
+  }
+  if (order.status === "awaiting_approval") {
+    sendError(res, 409, "This order can be paid once it has been approved");
+    return null;
+  }
+  return order;
+}
+
+/**
+ * Settle the order when the intent succeeded and reply in the shared shape.
+ * A failed intent marks the payment failed and is a 402 so the client shows
+ * the decline reason.
+ */
+async function respondWithIntent(
+  res: Response,
+  order: { id: string },
+  intent: ProviderIntent,
+  providerName: string,
+) {
+  if (intent.status === "failed") {
+    await markOrderPaymentFailed(getSupabaseAdmin(), order.id);
+    return sendError(res, 402, intent.failure_reason || "Payment failed");
+  }
+
+  if (intent.status === "succeeded") {
+    await markOrderPaid(
+      getSupabaseAdmin(),
+      order.id,
+      intent.amount,
+      `Card payment received (${providerName} ${intent.id})`,
+    );
+  }
+
+  const response: PaymentIntentResponse = {
+    intent_id: intent.id,
+    status: intent.status,
+    ...(intent.status === "requires_action" && {
+      next_action: { type: "three_d_secure" as const },
+    }),
+  };
+  res.json(response);
+}
+
+/**
+ * GET /api/payment-options
+ * Which payment methods checkout may offer. Cards need a configured provider.
+ */
+export const handlePaymentOptions: RequestHandler = (_req, res) => {
+  const response: PaymentOptionsResponse = {
+    card: getActivePaymentProvider() !== null,
+  };
+  res.json(response);
+};
+
+/**
+ * POST /api/payment-methods
+ * Tokenises a card with the active provider and saves it to the customer's
+ * account. Only the token and display details are stored.
+ */
+export const handleSavePaymentMethod: RequestHandler = async (req, res) => {
+  try {
+    const caller = await getUserOrGuest(req, res);
+    if (!caller) return;
+    const { user } = caller;
+    if (!user) {
+      return sendError(res, 401, "Please sign in to save a card");
+    }
+
+    const parsed = savePaymentMethodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const provider = getActivePaymentProvider();
+    if (!provider) {
+      return sendError(res, 503, CARDS_UNAVAILABLE);
+    }
+    const card = await provider.tokeniseCard(parsed.data.card as CardDetails);
+
+    const supabase = getSupabaseAdmin();
+    const { count } = await supabase
+      .from("payment_methods")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+
+    const { data: method, error } = await supabase
+      .from("payment_methods")
+      .insert({
+        user_id: user.id,
+        provider: provider.name,
+        provider_pm_id: card.token,
+        brand: card.brand,
+        last4: card.last4,
+        exp_month: card.exp_month,
+        exp_year: card.exp_year,
+        is_default: !count, // the first card becomes the default
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving payment method:", error);
+      return sendError(res, 500, "Failed to save card");
+    }
+
+    res.status(201).json(method);
+  } catch (error) {
+    sendProviderError(res, error, "Failed to save card");
+  }
+};
+
+/**
+ * POST /api/orders/:id/payments
+ * Charges a card order with a saved card or a new one. Responds with
+ * `requires_action` when the bank wants 3-D Secure first.
+ */
+export const handlePayOrder: RequestHandler = async (req, res) => {
+  try {
+    // Guests pay their own orders; an expired token is a 401, not a guest
+    const caller = await getUserOrGuest(req, res);
+    if (!caller) return;
+    const { user } = caller;
+
+    const parsed = payOrderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const order = await loadPayableOrder(res, req.params.id, user?.id ?? null);
+    if (!order) return;
+
+    const supabase = getSupabaseAdmin();
+    let provider: PaymentProvider;
+    let token: string;
+
+    if (parsed.data.payment_method_id) {
+      if (!user) {
+        return sendError(res, 401, "Please sign in to use a saved card");
+      }
+      const { data: method } = await supabase
+        .from("payment_methods")
+        .select("provider, provider_pm_id, exp_month, exp_year")
+        .eq("id", parsed.data.payment_method_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      // Saved cards are charged by the provider that issued their token
+      const savedProvider = method && getPaymentProvider(method.provider);
+      if (!savedProvider) {
+        return sendError(res, 400, "This saved card can no longer be used");
+      }
+      if (
+        method.exp_month &&
+        method.exp_year &&
+        getCardExpiryStatus(method.exp_month, method.exp_year) === "expired"
+      ) {
+        return sendError(res, 400, "This saved card has expired");
+      }
+      provider = savedProvider;
+      token = method.provider_pm_id;
+    } else {
+      const activeProvider = getActivePaymentProvider();
+      if (!activeProvider) {
+        return sendError(res, 503, CARDS_UNAVAILABLE);
+      }
+      provider = activeProvider;
+      token = (await provider.tokeniseCard(parsed.data.card as CardDetails))
+        .token;
+    }
+
+    const intent = await provider.createIntent({
+      amount: Number(order.total),
+      currency: "ZAR",
+      reference: order.payment_reference,
+      payment_method_token: token,
+    });
+
+    const { error: updateError } = await supabase
+      .from("orders")
+      .update({ payment_provider: provider.name, payment_intent_id: intent.id })
+      .eq("id", order.id);
+    if (updateError) throw updateError;
+
+    await respondWithIntent(res, order, intent, provider.name);
+  } catch (error) {
+    sendProviderError(res, error, "Failed to process payment");
+  }
+};
+
+/**
+ * POST /api/orders/:id/payments/confirm
+ * Completes a payment after the customer's 3-D Secure challenge
+ */
+export const handleConfirmPayment: RequestHandler = async (req, res) => {
+  try {
+    const caller = await getUserOrGuest(req, res);
+    if (!caller) return;
+    const { user } = caller;
+
+    const parsed = confirmPaymentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const order = await loadPayableOrder(res, req.params.id, user?.id ?? null);
+    if (!order) return;
+
+    const provider =
+      order.payment_provider && getPaymentProvider(order.payment_provider);
+    if (!provider || !order.payment_intent_id) {
+      return sendError(res, 409, "There is no payment to confirm");
+    }
+
+    const intent = await provider.confirmIntent(
+      order.payment_intent_id,
+      parsed.data as ConfirmPaymentRequest,
+    );
+    await respondWithIntent(res, order, intent, provider.name);
+  } catch (error) {
+    sendProviderError(res, error, "Failed to confirm payment");
+  }
+};
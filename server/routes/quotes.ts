@@ -0,0 +1,204 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  PlaceOrderLine,
+  PlaceOrderResponse,
+  RequestQuoteResponse,
+} from "@shared/api";
+import { calculateOrderTotals } from "../../shared/pricing";
+import {
+  calculateShipping,
+  DEFAULT_SHIPPING_SERVICE,
+} from "../../shared/shipping";
+import { sendError } from "../lib/http";
+import {
+  addressSchema,
+  customerSchema,
+  orderLinesSchema,
+  priceOrderLines,
+  sendStockIssues,
+  subtotalOf,
+} from "../lib/orderLines";
+import { loadShippingConfig } from "../lib/shipping";
+import { getRequestUser, getSupabaseAdmin } from "../lib/supabase";
+
+const requestQuoteSchema = z.object({
+  items: orderLinesSchema,
+  customer: customerSchema,
+  shipping_address: addressSchema,
+  notes: z.string().trim().max(2000).optional(),
+});
+
+const acceptQuoteSchema = z.object({
+  payment_method: z.enum(["eft", "pending"]),
+});
+
+// Errors raised by accept_quote() that the customer can act on
+const ACCEPT_QUOTE_ERRORS: Record<string, [number, string]> = {
+  quote_not_found: [404, "Quote not found"],
+  quote_not_open: [409, "This quote can no longer be accepted"],
+  quote_expired: [409, "This quote has expired. Please request a new one."],
+};
+
+/**
+ * POST /api/quotes
+ * Signed-in customers only, since the quote is answered on their account.
+ * Prices the cart like an order (stock is not reserved until the quote is
+ * accepted), stores the quote and clears the quoted cart lines.
+ */
+export const handleRequestQuote: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to request a quote");
+    }
+
+    const parsed = requestQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const { customer, shipping_address, notes } = parsed.data;
+    const supabase = getSupabaseAdmin();
+
+    const priced = await priceOrderLines(
+      supabase,
+      user.id,
+      parsed.data.items as PlaceOrderLine[],
+    );
+    if ("error" in priced) {
+      return sendError(res, 400, priced.error);
+    }
+
+    // Starts from the economy rate; sales set the final freight when they
+    // answer, including where no rate applies
+    const subtotal = subtotalOf(priced.lines);
+    const shipping = calculateShipping(
+      await loadShippingConfig(supabase),
+      DEFAULT_SHIPPING_SERVICE,
+      {
+        items: priced.shippingItems,
+        subtotal,
+        province: shipping_address.province,
+        postalCode: shipping_address.postalCode,
+      },
+    );
+    const totals = calculateOrderTotals(subtotal, shipping ?? 0);
+
+    const { data: quote, error: quoteError } = await supabase.rpc(
+      "request_quote",
+      {
+        p_user_id: user.id,
+        p_items: priced.lines,
+        p_notes: notes ?? null,
+        p_shipping_address: {
+          customerInfo: customer,
+          shippingAddress: shipping_address,
+        },
+        p_subtotal: totals.subtotal,
+        p_shipping_fee: totals.shipping,
+        p_tax: totals.tax,
+        p_total: totals.total,
+      },
+    );
+
+    if (quoteError) {
+      console.error("Error requesting quote:", quoteError);
+      return sendError(res, 500, "Failed to request quote");
+    }
+
+    const response: RequestQuoteResponse = { quote_id: quote.id };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Quote request failed:", error);
+    sendError(res, 500, "Failed to request quote");
+  }
+};
+
+/**
+ * POST /api/quotes/:id/accept
+ * Places an order at the quoted prices. Stock is reserved now, so lines the
+ * warehouse can no longer cover are reported like at checkout.
+ */
+export const handleAcceptQuote: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to accept this quote");
+    }
+
+    const parsed = acceptQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const { data: order, error: orderError } = await getSupabaseAdmin().rpc(
+      "accept_quote",
+      {
+        p_quote_id: req.params.id,
+        p_user_id: user.id,
+        p_payment_method: parsed.data.payment_method,
+      },
+    );
+
+    if (orderError?.message === "insufficient_stock") {
+      return sendStockIssues(res, JSON.parse(orderError.details));
+    }
+    if (orderError && ACCEPT_QUOTE_ERRORS[orderError.message]) {
+      const [status, message] = ACCEPT_QUOTE_ERRORS[orderError.message];
+      return sendError(res, status, message);
+    }
+    if (orderError) {
+      console.error("Error accepting quote:", orderError);
+      return sendError(res, 500, "Failed to accept quote");
+    }
+
+    const response: PlaceOrderResponse = {
+      order_id: order.id,
+      status: order.status,
+      payment_method: parsed.data.payment_method,
+      payment_reference: order.payment_reference,
+      subtotal: Number(order.subtotal),
+      shipping: Number(order.shipping_fee),
+      tax: Number(order.tax),
+      total: Number(order.total),
+    };
+    res.status(201).json(response);
+  } catch (error) {
+    console.error("Quote acceptance failed:", error);
+    sendError(res, 500, "Failed to accept quote");
+  }
+};
+
+/**
+ * POST /api/quotes/:id/decline
+ */
+export const handleDeclineQuote: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in to decline this quote");
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from("quotes")
+      .update({ status: "declined", responded_at: new Date().toISOString() })
+      .eq("id", req.params.id)
+      .eq("user_id", user.id)
+      .in("status", ["requested", "sent"])
+      .select("id");
+
+    if (error) {
+      console.error("Error declining quote:", error);
+      return sendError(res, 500, "Failed to decline quote");
+    }
+    if (!data?.length) {
+      return sendError(res, 409, "This quote can no longer be declined");
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Quote decline failed:", error);
+    sendError(res, 500, "Failed to decline quote");
+  }
+};
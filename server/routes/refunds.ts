@@ -0,0 +1,155 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import {
+  calculateRefund,
+  RefundMethod,
+  RefundSelection,
+  validateRefundSelection,
+} from "../../shared/refunds";
+import { sendError } from "../lib/http";
+import { PaymentProviderError } from "../lib/paymentProvider";
+import { getPaymentProvider } from "../lib/paymentProviders";
+import { getRequestUser, getSupabaseAdmin, isAdminUser } from "../lib/supabase";
+
+const createRefundSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        order_item_id: z.string().uuid(),
+        quantity: z.number().int().min(1, "Quantity must be at least 1"),
+      }),
+    )
+    .min(1, "Choose at least one item to cancel"),
+  reason: z.string().trim().min(1, "Please give a reason").max(500),
+  refund_shipping: z.boolean().optional(),
+});
+
+// Errors raised by record_order_refund() that the admin can act on
+const RECORD_REFUND_ERRORS: Record<string, [number, string]> = {
+  order_not_found: [404, "Order not found"],
+  order_cancelled: [409, "This order has already been cancelled"],
+  invalid_refund_quantity: [
+    409,
+    "Some of these items have already been cancelled",
+  ],
+  shipping_already_refunded: [409, "Shipping has already been refunded"],
+};
+
+/**
+ * POST /api/orders/:id/refunds
+ * Admins only. Cancels units of the order's lines, returns their stock if the
+ * order has not shipped and records a credit note. Card payments are refunded through the gateway that
+ * took them; anything else paid is marked for a manual refund.
+ */
+export const handleCreateRefund: RequestHandler = async (req, res) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) {
+      return sendError(res, 401, "Please sign in");
+    }
+    if (!(await isAdminUser(user.id))) {
+      return sendError(res, 403, "Only admins can refund orders");
+    }
+
+    const parsed = createRefundSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendError(res, 400, parsed.error.issues[0].message);
+    }
+
+    const supabase = getSupabaseAdmin();
+    const { data: order, error: orderError } = await supabase
+      .from("orders")
+      .select(
+        "id, status, shipping_fee, payment_method, payment_status, payment_provider, payment_intent_id, order_items(*)",
+      )
+      .eq("id", req.params.id)
+      .maybeSingle();
+
+    if (orderError) throw orderError;
+    if (!order) {
+      return sendError(res, 404, "Order not found");
+    }
+    if (order.status === "cancelled") {
+      return sendError(res, 409, "This order has already been cancelled");
+    }
+
+    const selections = parsed.data.items as RefundSelection[];
+    const selectionError = validateRefundSelection(
+      order.order_items,
+      selections,
+    );
+    if (selectionError) {
+      return sendError(res, 400, selectionError);
+    }
+
+    const refund = calculateRefund(
+      order.order_items,
+      selections,
+      parsed.data.refund_shipping ? Number(order.shipping_fee ?? 0) : 0,
+    );
+
+    let method: RefundMethod =
+      order.payment_status === "paid" ? "manual" : "none";
+    const provider =
+      order.payment_status === "paid" &&
+      order.payment_method === "card" &&
+      order.payment_intent_id &&
+      getPaymentProvider(order.payment_provider);
+    let providerRefundId: string | null = null;
+
+    if (provider && refund.total > 0) {
+      const providerRefund = await provider.refund({
+        intent_id: order.payment_intent_id,
+        amount: refund.total,
+        reason: parsed.data.reason,
+      });
+      if (providerRefund.status !== "succeeded") {
+        return sendError(
+          res,
+          502,
+          "The card refund was declined by the gateway",
+        );
+      }
+      method = "provider";
+      providerRefundId = providerRefund.id;
+    }
+
+    const { data: recorded, error: refundError } = await supabase.rpc(
+      "record_order_refund",
+      {
+        p_order_id: order.id,
+        p_lines: refund.lines,
+        p_reason: parsed.data.reason,
+        p_shipping: refund.shipping,
+        p_method: method,
+        p_provider: method === "provider" ? provider.name : null,
+        p_provider_refund_id: providerRefundId,
+        p_created_by: user.id,
+      },
+    );
+
+    if (refundError) {
+      if (providerRefundId) {
+        // The money has gone back already; this needs a person to reconcile
+        console.error(
+          `Card refund ${providerRefundId} for order ${order.id} was not recorded:`,
+          refundError,
+        );
+      }
+      if (RECORD_REFUND_ERRORS[refundError.message]) {
+        const [status, message] = RECORD_REFUND_ERRORS[refundError.message];
+        return sendError(res, status, message);
+      }
+      console.error("Error recording refund:", refundError);
+      return sendError(res, 500, "Failed to record refund");
+    }
+
+    res.status(201).json(recorded);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return sendError(res, 502, error.message);
+    }
+    console.error("Refund failed:", error);
+    sendError(res, 500, "Failed to refund order");
+  }
+};
@@ -0,0 +1,62 @@
+import { RequestHandler } from "express";
+import { sendError } from "../lib/http";
+import { PaymentProviderError } from "../lib/paymentProvider";
+import { getPaymentProvider } from "../lib/paymentProviders";
+import { getSupabaseAdmin } from "../lib/supabase";
+
+// Bad signatures are 401 so they stand out in the gateway's delivery log
+const WEBHOOK_ERROR_STATUS: Record<string, number> = {
+  invalid_signature: 401,
+  invalid_event: 400,
+};
+
+/**
+ * POST /api/webhooks/payments/:provider
+ * Receives payment notifications from a gateway. The body must arrive
+ * unparsed (see server/index.ts) because the signature covers the raw bytes.
+ * Each event is applied once; redeliveries reply 200 without changing
+ * anything, and a 500 makes the gateway retry later.
+ */
+export const handlePaymentWebhook: RequestHandler = async (req, res) => {
+  const provider = getPaymentProvider(req.params.provider);
+  if (!provider) {
+    return sendError(res, 404, "Unknown payment provider");
+  }
+  if (!Buffer.isBuffer(req.body)) {
+    return sendError(res, 400, "Webhook body is missing");
+  }
+
+  let event;
+  try {
+    event = provider.parseWebhook(req.body, req.headers);
+  } catch (error) {
+    if (
+      error instanceof PaymentProviderError &&
+      WEBHOOK_ERROR_STATUS[error.code]
+    ) {
+      return sendError(res, WEBHOOK_ERROR_STATUS[error.code], error.message);
+    }
+    console.error("Error parsing payment webhook:", error);
+    return sendError(res, 400, "Invalid webhook");
+  }
+
+  try {
+    const { data: outcome, error } = await getSupabaseAdmin().rpc(
+      "apply_payment_event",
+      {
+        p_provider: provider.name,
+        p_event_id: event.id,
+        p_event_type: event.type,
+        p_intent_id: event.intent_id,
+        p_amount: event.amount ?? null,
+        p_payload: event.payload,
+      },
+    );
+    if (error) throw error;
+
+    res.json({ received: true, outcome });
+  } catch (error) {
+    console.error("Error applying payment webhook:", error);
+    sendError(res, 500, "Failed to process webhook");
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * Sends a signed mock-provider webhook to a running server, for testing the
+ * webhook route without a real gateway.
+ *
+ *   npm run webhook:replay -- <type> <intent_id> [amount] [--event-id <id>] [--url <base>]
+ *
+ * type is payment.succeeded, payment.failed or refund.succeeded. Pass the same
+ * --event-id twice to check that a redelivery is ignored. The server and this
+ * script must share MOCK_PAYMENT_WEBHOOK_SECRET.
+ */
+import { randomUUID } from "crypto";
+import {
+  MOCK_WEBHOOK_SIGNATURE_HEADER,
+  signMockWebhook,
+} from "../lib/mockPaymentProvider";
+import type { PaymentWebhookEventType } from "../lib/paymentProvider";
+
+const EVENT_TYPES: PaymentWebhookEventType[] = [
+  "payment.succeeded",
+  "payment.failed",
+  "refund.succeeded",
+];
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const eventId = readFlag(args, "--event-id") ?? `mock_evt_${randomUUID()}`;
+  const baseUrl =
+    readFlag(args, "--url") ?? `http://localhost:${process.env.PORT || 5000}`;
+  const [type, intentId, amount] = args;
+
+  if (!EVENT_TYPES.includes(type as PaymentWebhookEventType) || !intentId) {
+    console.error(
+      `Usage: npm run webhook:replay -- <${EVENT_TYPES.join("|")}> <intent_id> [amount] [--event-id <id>] [--url <base>]`,
+    );
+    process.exit(1);
+  }
+
+  const body = JSON.stringify({
+    id: eventId,
+    type,
+    data: {
+      intent_id: intentId,
+      ...(amount !== undefined && { amount: Number(amount) }),
+    },
+  });
+
+  const response = await fetch(`${baseUrl}/api/webhooks/payments/mock`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [MOCK_WEBHOOK_SIGNATURE_HEADER]: signMockWebhook(body),
+    },
+    body,
+  });
+
+  console.log(`${eventId} -> ${response.status} ${await response.text()}`);
+  if (!response.ok) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  normaliseProvince,
+  toOrderAddress,
+  validateAddress,
+  validatePostalCode,
+} from "./addresses";
+
+describe("normaliseProvince", () => {
+  it("should match names regardless of case and spacing", () => {
+    expect(normaliseProvince("western cape")).toBe("Western Cape");
+    expect(normaliseProvince("Kwazulu Natal")).toBe("KwaZulu-Natal");
+    expect(normaliseProvince(" GAUTENG ")).toBe("Gauteng");
+  });
+
+  it("should match common abbreviations", () => {
+    expect(normaliseProvince("KZN")).toBe("KwaZulu-Natal");
+    expect(normaliseProvince("gp")).toBe("Gauteng");
+    expect(normaliseProvince("N.W.")).toBe("North West");
+  });
+
+  it("should return null for anything else", () => {
+    expect(normaliseProvince("Transvaal")).toBeNull();
+    expect(normaliseProvince("")).toBeNull();
+    expect(normaliseProvince(null)).toBeNull();
+  });
+});
+
+describe("validatePostalCode", () => {
+  it("should accept four digits, ignoring spaces", () => {
+    expect(validatePostalCode("8001")).toBeNull();
+    expect(validatePostalCode("0 157")).toBeNull();
+  });
+
+  it("should reject other formats", () => {
+    expect(validatePostalCode("800")).toMatch(/4 digits/);
+    expect(validatePostalCode("80012")).toMatch(/4 digits/);
+    expect(validatePostalCode("SW1A")).toMatch(/4 digits/);
+    expect(validatePostalCode(" ")).toMatch(/required/);
+  });
+});
+
+describe("validateAddress", () => {
+  const address = {
+    address: "12 Long Street",
+    city: "Cape Town",
+    province: "Western Cape",
+    postalCode: "8001",
+  };
+
+  it("should accept a complete address", () => {
+    expect(validateAddress(address)).toBeNull();
+  });
+
+  it("should report the first missing or invalid field", () => {
+    expect(validateAddress({ ...address, address: " " })).toMatch(/Street/);
+    expect(validateAddress({ ...address, city: "" })).toMatch(/City/);
+    expect(validateAddress({ ...address, province: "WC" })).toMatch(/province/);
+    expect(validateAddress({ ...address, postalCode: "12" })).toMatch(
+      /4 digits/,
+    );
+  });
+});
+
+describe("toOrderAddress", () => {
+  it("should map a saved address to the checkout shape", () => {
+    expect(
+      toOrderAddress({
+        address: "1 Smith Street",
+        city: "Durban",
+        province: "kzn",
+        postal_code: "4001",
+        country: null,
+      }),
+    ).toEqual({
+      address: "1 Smith Street",
+      city: "Durban",
+      province: "KwaZulu-Natal",
+      postalCode: "4001",
+      country: "South Africa",
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import type { OrderAddress } from "./api";
+
+/**
+ * South African addresses, shared by the address book, company addresses and
+ * checkout. We only deliver within South Africa.
+ */
+
+export const SA_PROVINCES = [
+  "Eastern Cape",
+  "Free State",
+  "Gauteng",
+  "KwaZulu-Natal",
+  "Limpopo",
+  "Mpumalanga",
+  "North West",
+  "Northern Cape",
+  "Western Cape",
+] as const;
+
+export type Province = (typeof SA_PROVINCES)[number];
+
+export const DEFAULT_COUNTRY = "South Africa";
+
+const provinceKey = (value: string) =>
+  value.toLowerCase().replace(/[^a-z]/g, "");
+
+// Full names plus the usual abbreviations, keyed without spaces or dashes
+const PROVINCES_BY_KEY: Record<string, Province> = {
+  ...Object.fromEntries(SA_PROVINCES.map((p) => [provinceKey(p), p])),
+  ec: "Eastern Cape",
+  fs: "Free State",
+  gp: "Gauteng",
+  kzn: "KwaZulu-Natal",
+  natal: "KwaZulu-Natal",
+  lp: "Limpopo",
+  mp: "Mpumalanga",
+  nw: "North West",
+  nc: "Northern Cape",
+  wc: "Western Cape",
+};
+
+/**
+ * Matches a free-text province ("kzn", "western cape") to the list, or null.
+ * Older profile and company addresses were typed in by hand.
+ */
+export const normaliseProvince = (
+  value: string | null | undefined,
+): Province | null => PROVINCES_BY_KEY[provinceKey(value ?? "")] ?? null;
+
+export const normalisePostalCode = (value: string | null | undefined) =>
+  (value ?? "").replace(/\s/g, "");
+
+/**
+ * Problem with a postal code, or null when it is valid. South African postal
+ * codes are four digits.
+ */
+export function validatePostalCode(
+  value: string | null | undefined,
+): string | null {
+  const postalCode = normalisePostalCode(value);
+  if (!postalCode) {
+    return "Postal code is required";
+  }
+  if (!/^\d{4}$/.test(postalCode)) {
+    return "Postal codes are 4 digits";
+  }
+  return null;
+}
+
+/**
+ * First problem with a delivery or billing address, or null when it is valid
+ */
+export function validateAddress(
+  address: Pick<OrderAddress, "address" | "city" | "province" | "postalCode">,
+): string | null {
+  if (!address.address?.trim()) {
+    return "Street address is required";
+  }
+  if (!address.city?.trim()) {
+    return "City is required";
+  }
+  if (!SA_PROVINCES.includes(address.province as Province)) {
+    return "Please choose a province";
+  }
+  return validatePostalCode(address.postalCode);
+}
+
+/**
+ * Address book and company address rows as sent with an order
+ */
+export const toOrderAddress = (saved: {
+  address: string;
+  city: string;
+  province: string;
+  postal_code: string;
+  country?: string | null;
+}): OrderAddress => ({
+  address: saved.address,
+  city: saved.city,
+  province: normaliseProvince(saved.province) ?? saved.province,
+  postalCode: saved.postal_code,
+  country: saved.country || DEFAULT_COUNTRY,
+});
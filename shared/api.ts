@@ -4,9 +4,229 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import type { ApprovalDecision } from "./approvals";
+import type { CompanyRole } from "./companies";
+import type { LineCustomisation } from "./customisation";
+import type { OrderStatus } from "./orderStatus";
+import type { ShippingServiceLevel } from "./shipping";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Error body returned by every /api route on failure
+ */
+export interface ApiErrorResponse {
+  error: string;
+}
+
+/**
+ * Customer contact details captured at checkout
+ */
+export interface OrderCustomerInfo {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  company?: string;
+}
+
+/**
+ * Delivery or billing address captured at checkout. See shared/addresses for
+ * the provinces and postal-code rules.
+ */
+export interface OrderAddress {
+  address: string;
+  city: string;
+  province: string;
+  postalCode: string;
+  country: string;
+}
+
+export type OrderPaymentMethod = "eft" | "pending" | "card";
+
+/**
+ * Cart line sent to POST /api/orders. Prices are deliberately absent:
+ * the server reloads them from the products table.
+ */
+export interface PlaceOrderLine {
+  product_id: string;
+  variant_id?: string | null; // required for products sold by size/colour
+  customisation?: LineCustomisation | null; // branding; fees are added server-side
+  quantity: number;
+}
+
+/**
+ * Request body for POST /api/orders
+ */
+export interface PlaceOrderRequest {
+  items: PlaceOrderLine[];
+  customer: OrderCustomerInfo;
+  shipping_address: OrderAddress;
+  billing_address?: OrderAddress | null; // left out when it is the delivery address
+  shipping_service?: ShippingServiceLevel; // economy when left out
+  payment_method: OrderPaymentMethod;
+}
+
+/**
+ * Response body for POST /api/orders
+ */
+export interface PlaceOrderResponse {
+  order_id: string;
+  status: OrderStatus; // awaiting_approval when over a company buyer's spending limit
+  payment_method: OrderPaymentMethod;
+  payment_reference: string; // quoted by the customer on their bank transfer
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * A cart line that cannot be fulfilled from current stock
+ */
+export interface StockIssue {
+  product_id: string;
+  variant_id?: string | null;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Error body for POST /api/orders. `stock_issues` is set on 409 responses.
+ */
+export interface PlaceOrderErrorResponse extends ApiErrorResponse {
+  stock_issues?: StockIssue[];
+}
+
+/**
+ * Request body for POST /api/quotes. Lines are priced from the catalogue;
+ * sales adjust them before the quote is sent.
+ */
+export interface RequestQuoteRequest {
+  items: PlaceOrderLine[];
+  customer: OrderCustomerInfo;
+  shipping_address: OrderAddress;
+  notes?: string;
+}
+
+/**
+ * Response body for POST /api/quotes
+ */
+export interface RequestQuoteResponse {
+  quote_id: string;
+}
+
+/**
+ * Request body for POST /api/quotes/:id/accept. Responds with PlaceOrderResponse.
+ */
+export interface AcceptQuoteRequest {
+  payment_method: OrderPaymentMethod;
+}
+
+/**
+ * Card as typed by the customer. Only ever sent to our server, which hands it
+ * straight to the payment provider for a token.
+ */
+export interface CardDetails {
+  number: string;
+  exp_month: number;
+  exp_year: number;
+  cvc: string;
+  name?: string;
+}
+
+/**
+ * Request body for POST /api/payment-methods. Responds with the saved method.
+ */
+export interface SavePaymentMethodRequest {
+  card: CardDetails;
+}
+
+/**
+ * Request body for POST /api/orders/:id/payments: a saved method or a new card
+ */
+export interface PayOrderRequest {
+  payment_method_id?: string;
+  card?: CardDetails;
+}
+
+export type PaymentIntentStatus = "requires_action" | "succeeded" | "failed";
+
+/**
+ * Response body for POST /api/orders/:id/payments and .../payments/confirm.
+ * `requires_action` means the customer must complete 3-D Secure first.
+ */
+export interface PaymentIntentResponse {
+  intent_id: string;
+  status: PaymentIntentStatus;
+  next_action?: { type: "three_d_secure" };
+}
+
+/**
+ * Request body for POST /api/orders/:id/payments/confirm, sent once the
+ * customer has finished the 3-D Secure challenge
+ */
+export interface ConfirmPaymentRequest {
+  authentication: "approved" | "rejected";
+}
+
+/**
+ * Response body for GET /api/payment-options. `card` is false when no card
+ * gateway is configured, and checkout then leaves the card option out.
+ */
+export interface PaymentOptionsResponse {
+  card: boolean;
+}
+
+/**
+ * Request body for POST /api/orders/:id/refunds (admin only). Cancels units of
+ * the given lines, returns their stock and refunds them under a credit note.
+ */
+export interface CreateRefundRequest {
+  items: { order_item_id: string; quantity: number }[];
+  reason: string;
+  refund_shipping?: boolean;
+}
+
+/**
+ * Request body for POST /api/companies. The caller becomes the owner; admins
+ * can instead set the company up for an existing customer by email.
+ */
+export interface CreateCompanyRequest {
+  name: string;
+  vat_number?: string | null;
+  owner_email?: string; // admins only
+}
+
+/**
+ * Request body for POST /api/companies/:id/invites. The person must already
+ * have an account and not belong to another company; they join once they
+ * accept.
+ */
+export interface InviteCompanyMemberRequest {
+  email: string;
+  role: CompanyRole;
+}
+
+/**
+ * Request body for PATCH /api/companies/:id/members/:userId. Orders over the
+ * spending limit (including VAT) need approval; null removes the limit.
+ */
+export interface UpdateCompanyMemberRequest {
+  role?: CompanyRole;
+  spending_limit?: number | null;
+}
+
+/**
+ * Request body for POST /api/orders/:id/approval. A rejection needs a comment.
+ */
+export interface DecideOrderApprovalRequest {
+  decision: ApprovalDecision;
+  comment?: string | null;
+}
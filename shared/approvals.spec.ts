@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { requiresApproval, validateApprovalDecision } from "./approvals";
+
+describe("requiresApproval", () => {
+  it("should hold orders over the member's limit", () => {
+    expect(requiresApproval(5000.01, 5000)).toBe(true);
+    expect(requiresApproval(5000, 5000)).toBe(false);
+  });
+
+  it("should never hold orders for members without a limit", () => {
+    expect(requiresApproval(250000, null)).toBe(false);
+    expect(requiresApproval(250000, undefined)).toBe(false);
+  });
+
+  it("should hold every order when the limit is zero", () => {
+    expect(requiresApproval(0.01, 0)).toBe(true);
+  });
+});
+
+describe("validateApprovalDecision", () => {
+  it("should accept approvals with or without a comment", () => {
+    expect(validateApprovalDecision("approved", null)).toBeNull();
+    expect(validateApprovalDecision("approved", "Budget code 4410")).toBeNull();
+  });
+
+  it("should require a reason to reject", () => {
+    expect(validateApprovalDecision("rejected", "  ")).toMatch(/say why/);
+    expect(
+      validateApprovalDecision("rejected", "Use the Durban stock instead"),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Purchase approvals for company accounts. A member's order above their
+ * spending limit waits in awaiting_approval until an owner or approver of the
+ * company approves it (it becomes pending) or rejects it (it is cancelled).
+ */
+
+export const APPROVAL_DECISIONS = ["approved", "rejected"] as const;
+
+export type ApprovalDecision = (typeof APPROVAL_DECISIONS)[number];
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+/**
+ * Whether an order total (including VAT) is over a member's spending limit.
+ * Members without a limit never need approval.
+ */
+export const requiresApproval = (
+  total: number,
+  spendingLimit: number | null | undefined,
+) => spendingLimit != null && total > Number(spendingLimit);
+
+/**
+ * Problem with an approval decision, or null when it can be recorded.
+ * Rejections must say why so the buyer can fix the order.
+ */
+export function validateApprovalDecision(
+  decision: ApprovalDecision,
+  comment: string | null | undefined,
+): string | null {
+  if (!APPROVAL_DECISIONS.includes(decision)) {
+    return "Choose to approve or reject the order";
+  }
+  if (decision === "rejected" && !comment?.trim()) {
+    return "Please say why the order is rejected";
+  }
+  return null;
+}
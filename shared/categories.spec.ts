@@ -0,0 +1,240 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCategoryTree,
+  Category,
+  categoryAncestry,
+  categoryHref,
+  descendantIds,
+  flattenCategoryTree,
+  resolveCategoryPath,
+  slugify,
+  validateCategory,
+} from "./categories";
+
+const category = (fields: Partial<Category>): Category => ({
+  id: "id",
+  parent_id: null,
+  slug: "slug",
+  name: "Name",
+  description: null,
+  image_url: null,
+  sort_order: 0,
+  is_active: true,
+  product_count: 0,
+  ...fields,
+});
+
+const categories = [
+  category({
+    id: "gifts",
+    slug: "corporate-gifts",
+    name: "Corporate Gifts",
+    sort_order: 1,
+  }),
+  category({
+    id: "workwear",
+    slug: "workwear",
+    name: "Workwear",
+    sort_order: 0,
+  }),
+  category({
+    id: "boots",
+    parent_id: "workwear",
+    slug: "safety-boots",
+    name: "Safety Boots",
+    sort_order: 1,
+  }),
+  category({
+    id: "hi-vis",
+    parent_id: "workwear",
+    slug: "hi-vis",
+    name: "Hi-Vis",
+    sort_order: 0,
+  }),
+  category({ id: "vests", parent_id: "hi-vis", slug: "vests", name: "Vests" }),
+];
+
+describe("buildCategoryTree", () => {
+  it("should nest subcategories in sort order", () => {
+    const tree = buildCategoryTree(categories);
+    expect(tree.map((node) => node.slug)).toEqual([
+      "workwear",
+      "corporate-gifts",
+    ]);
+    expect(tree[0].children.map((node) => node.slug)).toEqual([
+      "hi-vis",
+      "safety-boots",
+    ]);
+    expect(tree[0].children[0].children.map((node) => node.slug)).toEqual([
+      "vests",
+    ]);
+  });
+
+  it("should leave out categories whose parent is missing", () => {
+    const tree = buildCategoryTree(categories.filter((c) => c.id !== "hi-vis"));
+    expect(
+      flattenCategoryTree(tree).map(({ category }) => category.slug),
+    ).toEqual(["workwear", "safety-boots", "corporate-gifts"]);
+  });
+});
+
+describe("flattenCategoryTree", () => {
+  it("should list categories in display order with their depth", () => {
+    expect(
+      flattenCategoryTree(buildCategoryTree(categories)).map(
+        ({ category, depth }) => [category.slug, depth],
+      ),
+    ).toEqual([
+      ["workwear", 0],
+      ["hi-vis", 1],
+      ["vests", 2],
+      ["safety-boots", 1],
+      ["corporate-gifts", 0],
+    ]);
+  });
+});
+
+describe("categoryAncestry", () => {
+  it("should return the chain from the top level down", () => {
+    expect(categoryAncestry(categories, "vests").map((c) => c.slug)).toEqual([
+      "workwear",
+      "hi-vis",
+      "vests",
+    ]);
+  });
+
+  it("should return nothing for unknown slugs or broken chains", () => {
+    expect(categoryAncestry(categories, "caps")).toEqual([]);
+    expect(
+      categoryAncestry(
+        categories.filter((c) => c.id !== "hi-vis"),
+        "vests",
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("categoryHref", () => {
+  it("should build nested URLs", () => {
+    expect(categoryHref(categories, "vests")).toBe("/workwear/hi-vis/vests");
+    expect(categoryHref(categories, "corporate-gifts")).toBe(
+      "/corporate-gifts",
+    );
+  });
+
+  it("should fall back to the slug alone", () => {
+    expect(categoryHref(categories, "caps")).toBe("/caps");
+  });
+});
+
+describe("resolveCategoryPath", () => {
+  it("should resolve each level of a nested path", () => {
+    expect(
+      resolveCategoryPath(categories, ["workwear", "hi-vis", "vests"])?.map(
+        (c) => c.id,
+      ),
+    ).toEqual(["workwear", "hi-vis", "vests"]);
+  });
+
+  it("should reject unknown slugs", () => {
+    expect(resolveCategoryPath(categories, ["workwear", "caps"])).toBeNull();
+    expect(resolveCategoryPath(categories, [])).toBeNull();
+  });
+
+  it("should reject subcategories under the wrong parent or at the top", () => {
+    expect(
+      resolveCategoryPath(categories, ["corporate-gifts", "vests"]),
+    ).toBeNull();
+    expect(resolveCategoryPath(categories, ["safety-boots"])).toBeNull();
+  });
+});
+
+describe("descendantIds", () => {
+  it("should find subcategories at every depth", () => {
+    expect([...descendantIds(categories, "workwear")].sort()).toEqual([
+      "boots",
+      "hi-vis",
+      "vests",
+    ]);
+    expect(descendantIds(categories, "vests").size).toBe(0);
+  });
+});
+
+describe("slugify", () => {
+  it("should turn names into URL slugs", () => {
+    expect(slugify("Headwear & Accessories")).toBe("headwear-and-accessories");
+    expect(slugify("  Café Mugs (Ceramic) ")).toBe("cafe-mugs-ceramic");
+  });
+});
+
+describe("validateCategory", () => {
+  it("should accept a new subcategory", () => {
+    expect(
+      validateCategory(
+        { name: "Gloves", slug: "gloves", parent_id: "workwear" },
+        categories,
+      ),
+    ).toBeNull();
+  });
+
+  it("should require a name and a well-formed slug", () => {
+    expect(
+      validateCategory(
+        { name: " ", slug: "gloves", parent_id: null },
+        categories,
+      ),
+    ).toBe("Give the category a name");
+    expect(
+      validateCategory(
+        { name: "Gloves", slug: "Gloves--", parent_id: null },
+        categories,
+      ),
+    ).toMatch(/lowercase letters/);
+  });
+
+  it("should reject slugs taken by pages or other categories", () => {
+    expect(
+      validateCategory(
+        { name: "Cart", slug: "cart", parent_id: null },
+        categories,
+      ),
+    ).toMatch(/another page/);
+    expect(
+      validateCategory(
+        { name: "Boots", slug: "safety-boots", parent_id: null },
+        categories,
+      ),
+    ).toMatch(/already uses/);
+    expect(
+      validateCategory(
+        {
+          id: "boots",
+          name: "Boots",
+          slug: "safety-boots",
+          parent_id: "workwear",
+        },
+        categories,
+      ),
+    ).toBeNull();
+  });
+
+  it("should not let a category move under itself or its subcategories", () => {
+    expect(
+      validateCategory(
+        {
+          id: "workwear",
+          name: "Workwear",
+          slug: "workwear",
+          parent_id: "vests",
+        },
+        categories,
+      ),
+    ).toMatch(/cannot be moved/);
+    expect(
+      validateCategory(
+        { id: "hi-vis", name: "Hi-Vis", slug: "hi-vis", parent_id: "hi-vis" },
+        categories,
+      ),
+    ).toMatch(/cannot be moved/);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * The category tree. Categories are rows in the categories table with an
+ * optional parent; products reference a category by slug. A subcategory's
+ * storefront URL is its path of slugs from the top, e.g.
+ * /workwear/safety-boots, and a category's listing includes the products of
+ * its subcategories.
+ */
+
+export interface Category {
+  id: string;
+  parent_id: string | null; // null: top level
+  slug: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  sort_order: number;
+  is_active: boolean;
+  product_count: number; // active products, subcategories included
+}
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+// First path segments the storefront already routes to its own pages
+export const RESERVED_CATEGORY_SLUGS = [
+  "admin",
+  "cart",
+  "checkout",
+  "order-confirmation",
+  "orders",
+  "payment-methods",
+  "product",
+  "profile",
+  "request-quote",
+  "search",
+  "wishlist",
+];
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const bySortOrder = (a: Category, b: Category) =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+/**
+ * Nest categories under their parents, each level in sort order. Categories
+ * whose parent is missing (a hidden parent, for shoppers) are left out, as
+ * there is no path to them.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }]),
+  );
+  const roots: CategoryNode[] = [];
+
+  for (const node of [...nodes.values()].sort(bySortOrder)) {
+    if (node.parent_id === null) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parent_id)?.children.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * The tree as a flat list in display order, with each category's depth, for
+ * indented pickers and tables
+ */
+export function flattenCategoryTree(
+  tree: CategoryNode[],
+  depth = 0,
+): { category: CategoryNode; depth: number }[] {
+  return tree.flatMap((category) => [
+    { category, depth },
+    ...flattenCategoryTree(category.children, depth + 1),
+  ]);
+}
+
+/**
+ * A category and its ancestors, top level first. Empty if the slug is unknown
+ * or its chain of parents is broken.
+ */
+export function categoryAncestry(
+  categories: Category[],
+  slug: string,
+): Category[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const chain: Category[] = [];
+  let current = categories.find((category) => category.slug === slug);
+
+  while (current) {
+    if (chain.includes(current)) return [];
+    chain.unshift(current);
+    if (current.parent_id === null) return chain;
+    current = byId.get(current.parent_id);
+  }
+  return [];
+}
+
+/**
+ * Storefront URL of a category, e.g. /workwear/safety-boots
+ */
+export const categoryHref = (categories: Category[], slug: string): string => {
+  const ancestry = categoryAncestry(categories, slug);
+  return ancestry.length > 0
+    ? `/${ancestry.map((category) => category.slug).join("/")}`
+    : `/${slug}`;
+};
+
+/**
+ * The categories named by a URL path, top level first, or null when any
+ * slug is unknown or is not a subcategory of the one before it
+ */
+export function resolveCategoryPath(
+  categories: Category[],
+  slugs: string[],
+): Category[] | null {
+  if (slugs.length === 0) return null;
+  const path: Category[] = [];
+  for (const slug of slugs) {
+    const parentId = path.length > 0 ? path[path.length - 1].id : null;
+    const category = categories.find(
+      (candidate) =>
+        candidate.slug === slug && candidate.parent_id === parentId,
+    );
+    if (!category) return null;
+    path.push(category);
+  }
+  return path;
+}
+
+/**
+ * Ids of a category's subcategories at every depth
+ */
+export function descendantIds(categories: Category[], id: string): Set<string> {
+  const found = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const category of categories) {
+      if (category.parent_id === parentId && !found.has(category.id)) {
+        found.add(category.id);
+        queue.push(category.id);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * URL slug for a category name: "Headwear & Accessories" becomes
+ * headwear-and-accessories
+ */
+export const slugify = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Problem with a category about to be saved, or null if it can be saved.
+ * The database enforces the slug format, unique slugs and an acyclic tree
+ * too; this gives the admin a readable message first.
+ */
+export function validateCategory(
+  category: Pick<Category, "name" | "slug" | "parent_id"> & { id?: string },
+  categories: Category[],
+): string | null {
+  if (!category.name.trim()) {
+    return "Give the category a name";
+  }
+  if (!SLUG_PATTERN.test(category.slug)) {
+    return "The URL name may only contain lowercase letters, numbers and single hyphens";
+  }
+  if (RESERVED_CATEGORY_SLUGS.includes(category.slug)) {
+    return `"${category.slug}" is already used by another page`;
+  }
+  if (
+    categories.some(
+      (other) => other.slug === category.slug && other.id !== category.id,
+    )
+  ) {
+    return `Another category already uses "${category.slug}"`;
+  }
+  if (category.id && category.parent_id) {
+    if (
+      category.parent_id === category.id ||
+      descendantIds(categories, category.id).has(category.parent_id)
+    ) {
+      return "A category cannot be moved under itself or one of its subcategories";
+    }
+  }
+  return null;
+}
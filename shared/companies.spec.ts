@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  normaliseVatNumber,
+  validateVatNumber,
+  wouldRemoveLastOwner,
+} from "./companies";
+
+describe("validateVatNumber", () => {
+  it("should accept ten digits starting with 4, ignoring spacing", () => {
+    expect(validateVatNumber("4123456789")).toBeNull();
+    expect(validateVatNumber("412 345 6789")).toBeNull();
+    expect(normaliseVatNumber("412-345-6789")).toBe("4123456789");
+  });
+
+  it("should treat a blank VAT number as not registered", () => {
+    expect(validateVatNumber("  ")).toBeNull();
+    expect(normaliseVatNumber("  ")).toBeNull();
+  });
+
+  it("should reject other formats", () => {
+    expect(validateVatNumber("5123456789")).toMatch(/10 digits/);
+    expect(validateVatNumber("412345678")).toMatch(/10 digits/);
+  });
+});
+
+describe("wouldRemoveLastOwner", () => {
+  const members = [
+    { user_id: "thandi", role: "owner" as const },
+    { user_id: "pieter", role: "buyer" as const },
+  ];
+
+  it("should block demoting or removing the only owner", () => {
+    expect(wouldRemoveLastOwner(members, "thandi", "buyer")).toBe(true);
+    expect(wouldRemoveLastOwner(members, "thandi", null)).toBe(true);
+  });
+
+  it("should allow changes that keep an owner", () => {
+    expect(wouldRemoveLastOwner(members, "pieter", null)).toBe(false);
+    expect(
+      wouldRemoveLastOwner(
+        [...members, { user_id: "ayesha", role: "owner" }],
+        "thandi",
+        "approver",
+      ),
+    ).toBe(false);
+  });
+});
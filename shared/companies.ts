@@ -0,0 +1,63 @@
+/**
+ * Company (B2B) accounts shared between client and server. Several staff
+ * order against one company; their role decides what else they can do.
+ */
+
+/**
+ * owner: manages the company, its members and addresses, and sees and
+ * approves every order; buyer: orders for the company; approver: also sees
+ * every order and approves those over a buyer's spending limit.
+ */
+export const COMPANY_ROLES = ["owner", "buyer", "approver"] as const;
+
+export type CompanyRole = (typeof COMPANY_ROLES)[number];
+
+export const COMPANY_ROLE_LABELS: Record<CompanyRole, string> = {
+  owner: "Owner",
+  buyer: "Buyer",
+  approver: "Approver",
+};
+
+export const canManageCompany = (role: CompanyRole | null | undefined) =>
+  role === "owner";
+
+export const canViewCompanyOrders = (role: CompanyRole | null | undefined) =>
+  role === "owner" || role === "approver";
+
+export const canApproveOrders = canViewCompanyOrders;
+
+/**
+ * South African VAT numbers are ten digits starting with 4. Spaces and
+ * dashes are dropped; an empty value means the company is not registered.
+ */
+export const normaliseVatNumber = (value: string | null | undefined) =>
+  (value ?? "").replace(/[\s-]/g, "") || null;
+
+/**
+ * Problem with a VAT number, or null when it is valid or left out
+ */
+export function validateVatNumber(
+  value: string | null | undefined,
+): string | null {
+  const vatNumber = normaliseVatNumber(value);
+  if (vatNumber && !/^4\d{9}$/.test(vatNumber)) {
+    return "VAT numbers are 10 digits starting with 4";
+  }
+  return null;
+}
+
+/**
+ * Whether changing a member's role (or removing them, with a null role)
+ * would leave the company without an owner
+ */
+export function wouldRemoveLastOwner(
+  members: { user_id: string; role: CompanyRole }[],
+  userId: string,
+  newRole: CompanyRole | null,
+): boolean {
+  const member = members.find((m) => m.user_id === userId);
+  if (!member || member.role !== "owner" || newRole === "owner") {
+    return false;
+  }
+  return !members.some((m) => m.role === "owner" && m.user_id !== userId);
+}
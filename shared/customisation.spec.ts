@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  customisationKey,
+  DecorationOption,
+  describeCustomisation,
+  LineCustomisation,
+  validateCustomisation,
+} from "./customisation";
+
+const option: DecorationOption = {
+  id: "opt-1",
+  method: "embroidery",
+  positions: ["Left chest", "Back"],
+  max_colours: 2,
+  setup_fee: 350,
+  unit_fee: 25,
+};
+
+const customisation: LineCustomisation = {
+  option_id: "opt-1",
+  method: "embroidery",
+  position: "Left chest",
+  colours: ["Navy", "White"],
+};
+
+describe("validateCustomisation", () => {
+  it("should accept a position and colours the option allows", () => {
+    expect(validateCustomisation(option, customisation)).toBeNull();
+  });
+
+  it("should reject an unknown position", () => {
+    expect(
+      validateCustomisation(option, { ...customisation, position: "Sleeve" }),
+    ).toMatch(/position/);
+  });
+
+  it("should reject too many colours", () => {
+    expect(
+      validateCustomisation(option, {
+        ...customisation,
+        colours: ["Navy", "White", "Red"],
+      }),
+    ).toMatch(/at most 2 colours/);
+  });
+
+  it("should allow any number of colours for full colour methods", () => {
+    expect(
+      validateCustomisation(
+        { ...option, method: "digital_print", max_colours: null },
+        { ...customisation, colours: ["A", "B", "C", "D"] },
+      ),
+    ).toBeNull();
+  });
+
+  it("should reject a missing option", () => {
+    expect(validateCustomisation(undefined, customisation)).toMatch(
+      /no longer available/,
+    );
+  });
+});
+
+describe("customisationKey", () => {
+  it("should be empty without customisation", () => {
+    expect(customisationKey(null)).toBe("");
+  });
+
+  it("should match for identical branding", () => {
+    expect(customisationKey({ ...customisation })).toBe(
+      customisationKey(customisation),
+    );
+  });
+
+  it("should differ when the position changes", () => {
+    expect(customisationKey({ ...customisation, position: "Back" })).not.toBe(
+      customisationKey(customisation),
+    );
+  });
+});
+
+describe("describeCustomisation", () => {
+  it("should summarise method, position and colours", () => {
+    expect(describeCustomisation(customisation)).toBe(
+      "Embroidery, Left chest, Navy/White",
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Branding (decoration) options for products and the per-line customisation
+ * a customer chooses. Shared so the cart preview and the server agree on fees.
+ */
+
+export const DECORATION_METHODS = [
+  "embroidery",
+  "screen_print",
+  "heat_transfer",
+  "digital_print",
+  "pad_print",
+  "laser_engraving",
+] as const;
+
+export type DecorationMethod = (typeof DECORATION_METHODS)[number];
+
+export const DECORATION_METHOD_LABELS: Record<DecorationMethod, string> = {
+  embroidery: "Embroidery",
+  screen_print: "Screen Print",
+  heat_transfer: "Heat Transfer",
+  digital_print: "Digital Print",
+  pad_print: "Pad Print",
+  laser_engraving: "Laser Engraving",
+};
+
+/**
+ * A way a product can be branded, configured per product by admins
+ */
+export interface DecorationOption {
+  id: string;
+  method: DecorationMethod;
+  positions: string[]; // e.g. ["Left chest", "Back"]
+  max_colours: number | null; // null for full colour methods
+  setup_fee: number; // charged once per cart line
+  unit_fee: number; // added to every unit's price
+}
+
+/**
+ * What the customer asked for on one cart/order line
+ */
+export interface LineCustomisation {
+  option_id: string;
+  method: DecorationMethod;
+  position: string;
+  colours: string[];
+  artwork_file_id?: string | null; // media_files id
+  artwork_path?: string | null; // path in the artwork storage bucket
+  artwork_name?: string | null;
+  notes?: string;
+}
+
+/**
+ * Stable identity for a customisation so identical branding on the same
+ * product shares a cart line. Empty for unbranded lines.
+ */
+export function customisationKey(
+  customisation: LineCustomisation | null | undefined,
+): string {
+  if (!customisation) return "";
+  return JSON.stringify([
+    customisation.option_id,
+    customisation.position,
+    customisation.colours,
+    customisation.artwork_file_id ?? null,
+    customisation.notes?.trim() ?? "",
+  ]);
+}
+
+/**
+ * Reason the customisation does not fit the option, or null when valid
+ */
+export function validateCustomisation(
+  option: DecorationOption | undefined,
+  customisation: LineCustomisation,
+): string | null {
+  if (!option) {
+    return "The selected branding option is no longer available";
+  }
+  if (!option.positions.includes(customisation.position)) {
+    return `Please choose a branding position for ${DECORATION_METHOD_LABELS[option.method]}`;
+  }
+  if (
+    option.max_colours !== null &&
+    customisation.colours.length > option.max_colours
+  ) {
+    return `${DECORATION_METHOD_LABELS[option.method]} allows at most ${option.max_colours} colours`;
+  }
+  return null;
+}
+
+/**
+ * Short description for cart and order lines, e.g. "Embroidery, Left chest, Navy/White"
+ */
+export function describeCustomisation(
+  customisation: LineCustomisation,
+): string {
+  return [
+    DECORATION_METHOD_LABELS[customisation.method] ?? customisation.method,
+    customisation.position,
+    customisation.colours.join("/"),
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
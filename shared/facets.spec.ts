@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  countActiveFilters,
+  EMPTY_PRODUCT_FILTERS,
+  parseProductFilters,
+  sortSizes,
+  toFilterPayload,
+  writeProductFilters,
+} from "./facets";
+
+describe("parseProductFilters", () => {
+  it("should read every filter from the query string", () => {
+    expect(
+      parseProductFilters(
+        new URLSearchParams(
+          "min_price=100&max_price=500&rating=4&in_stock=1&colour=Navy&colour=Black&size=M&method=embroidery&sort=price-low",
+        ),
+      ),
+    ).toEqual({
+      minPrice: 100,
+      maxPrice: 500,
+      minRating: 4,
+      inStock: true,
+      colours: ["Navy", "Black"],
+      sizes: ["M"],
+      methods: ["embroidery"],
+      sort: "price-low",
+    });
+  });
+
+  it("should ignore malformed values", () => {
+    expect(
+      parseProductFilters(
+        new URLSearchParams(
+          "min_price=cheap&max_price=-5&rating=7&in_stock=yes&method=glitter&sort=random",
+        ),
+      ),
+    ).toEqual(EMPTY_PRODUCT_FILTERS);
+  });
+});
+
+describe("writeProductFilters", () => {
+  it("should round-trip through the query string", () => {
+    const filters = {
+      ...EMPTY_PRODUCT_FILTERS,
+      minPrice: 50,
+      inStock: true,
+      colours: ["Navy", "Bottle Green"],
+      sort: "rating" as const,
+    };
+    expect(parseProductFilters(writeProductFilters(filters))).toEqual(filters);
+  });
+
+  it("should leave defaults out and keep other parameters", () => {
+    expect(
+      writeProductFilters(
+        EMPTY_PRODUCT_FILTERS,
+        new URLSearchParams("view=list&colour=Navy"),
+      ).toString(),
+    ).toBe("view=list");
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("should count a price range once and each chosen value", () => {
+    expect(countActiveFilters(EMPTY_PRODUCT_FILTERS)).toBe(0);
+    expect(
+      countActiveFilters({
+        ...EMPTY_PRODUCT_FILTERS,
+        minPrice: 10,
+        maxPrice: 20,
+        sizes: ["S", "M"],
+        sort: "name",
+      }),
+    ).toBe(3);
+  });
+});
+
+describe("toFilterPayload", () => {
+  it("should use the database argument names and drop the sort", () => {
+    expect(toFilterPayload({ ...EMPTY_PRODUCT_FILTERS, minRating: 3 })).toEqual(
+      {
+        min_price: null,
+        max_price: null,
+        min_rating: 3,
+        in_stock: false,
+        colours: [],
+        sizes: [],
+        methods: [],
+      },
+    );
+  });
+});
+
+describe("sortSizes", () => {
+  it("should order clothing sizes, then numbers, then the rest", () => {
+    const values = ["XL", "one size", "32", "S", "M", "28", "2XL"];
+    expect(
+      sortSizes(values.map((value) => ({ value, count: 1 }))).map(
+        (size) => size.value,
+      ),
+    ).toEqual(["S", "M", "XL", "2XL", "28", "32", "one size"]);
+  });
+});
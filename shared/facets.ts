@@ -0,0 +1,193 @@
+/**
+ * Filters and sort order for product listings, and the facet counts shown
+ * next to them. Filtering and counting happen in filter_products() and
+ * product_facets(); these helpers keep the URL query string and the filter
+ * object in step so filtered views can be shared and bookmarked.
+ */
+
+import { DECORATION_METHODS, DecorationMethod } from "./customisation";
+
+export const PRODUCT_SORTS = [
+  "newest",
+  "price-low",
+  "price-high",
+  "rating",
+  "name",
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  newest: "Newest First",
+  "price-low": "Price: Low to High",
+  "price-high": "Price: High to Low",
+  rating: "Top Rated",
+  name: "Name A-Z",
+};
+
+// "4 stars & up" and so on
+export const RATING_FACETS = [4, 3, 2, 1] as const;
+
+export interface ProductFilters {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  inStock: boolean;
+  colours: string[];
+  sizes: string[];
+  methods: DecorationMethod[];
+  sort: ProductSort;
+}
+
+export const EMPTY_PRODUCT_FILTERS: ProductFilters = {
+  minPrice: null,
+  maxPrice: null,
+  minRating: null,
+  inStock: false,
+  colours: [],
+  sizes: [],
+  methods: [],
+  sort: "newest",
+};
+
+export interface FacetCount<T extends string | number = string> {
+  value: T;
+  count: number;
+}
+
+// Counts for each facet value, ignoring that facet's own filter so other
+// values stay selectable
+export interface ProductFacets {
+  price: { min: number; max: number } | null; // null when nothing matches
+  ratings: FacetCount<number>[];
+  in_stock: number;
+  colours: FacetCount[];
+  sizes: FacetCount[];
+  methods: FacetCount<DecorationMethod>[];
+}
+
+const readNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+const unique = (values: string[]): string[] =>
+  Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
+
+/**
+ * Filters from a listing's query string. Unknown or malformed values are
+ * ignored rather than rejected, since the URL may have been edited by hand.
+ */
+export function parseProductFilters(params: URLSearchParams): ProductFilters {
+  const sort = params.get("sort") as ProductSort;
+  const rating = readNumber(params.get("rating"));
+
+  return {
+    minPrice: readNumber(params.get("min_price")),
+    maxPrice: readNumber(params.get("max_price")),
+    minRating: RATING_FACETS.some((value) => value === rating) ? rating : null,
+    inStock: params.get("in_stock") === "1",
+    colours: unique(params.getAll("colour")),
+    sizes: unique(params.getAll("size")),
+    methods: unique(params.getAll("method")).filter(
+      (method): method is DecorationMethod =>
+        (DECORATION_METHODS as readonly string[]).includes(method),
+    ),
+    sort: PRODUCT_SORTS.includes(sort) ? sort : "newest",
+  };
+}
+
+/**
+ * Write filters into a query string, keeping unrelated parameters. Defaults
+ * are left out so an unfiltered listing has a clean URL.
+ */
+export function writeProductFilters(
+  filters: ProductFilters,
+  params: URLSearchParams = new URLSearchParams(),
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of [
+    "min_price",
+    "max_price",
+    "rating",
+    "in_stock",
+    "colour",
+    "size",
+    "method",
+    "sort",
+  ]) {
+    next.delete(key);
+  }
+
+  if (filters.minPrice !== null) {
+    next.set("min_price", String(filters.minPrice));
+  }
+  if (filters.maxPrice !== null) {
+    next.set("max_price", String(filters.maxPrice));
+  }
+  if (filters.minRating !== null) next.set("rating", String(filters.minRating));
+  if (filters.inStock) next.set("in_stock", "1");
+  filters.colours.forEach((colour) => next.append("colour", colour));
+  filters.sizes.forEach((size) => next.append("size", size));
+  filters.methods.forEach((method) => next.append("method", method));
+  if (filters.sort !== "newest") next.set("sort", filters.sort);
+  return next;
+}
+
+/**
+ * Number of filters applied, for the "Clear filters" button. Sorting is not a filter.
+ */
+export const countActiveFilters = (filters: ProductFilters): number =>
+  (filters.minPrice !== null || filters.maxPrice !== null ? 1 : 0) +
+  (filters.minRating !== null ? 1 : 0) +
+  (filters.inStock ? 1 : 0) +
+  filters.colours.length +
+  filters.sizes.length +
+  filters.methods.length;
+
+/**
+ * The p_filters argument of filter_products() and product_facets()
+ */
+export const toFilterPayload = (filters: ProductFilters) => ({
+  min_price: filters.minPrice,
+  max_price: filters.maxPrice,
+  min_rating: filters.minRating,
+  in_stock: filters.inStock,
+  colours: filters.colours,
+  sizes: filters.sizes,
+  methods: filters.methods,
+});
+
+// Clothing sizes smallest first; anything else sorts after these
+const SIZE_ORDER = [
+  "XXS",
+  "XS",
+  "S",
+  "M",
+  "L",
+  "XL",
+  "XXL",
+  "2XL",
+  "XXXL",
+  "3XL",
+  "4XL",
+  "5XL",
+];
+
+/**
+ * Size facet values in the order shoppers expect: S, M, L rather than L, M, S.
+ * Numeric sizes (shoes, waists) sort by number.
+ */
+export function sortSizes<T extends { value: string }>(sizes: T[]): T[] {
+  const rank = (value: string) => {
+    const index = SIZE_ORDER.indexOf(value.toUpperCase());
+    return index >= 0 ? index : SIZE_ORDER.length;
+  };
+  return [...sizes].sort(
+    (a, b) =>
+      rank(a.value) - rank(b.value) ||
+      (Number(a.value) || Infinity) - (Number(b.value) || Infinity) ||
+      a.value.localeCompare(b.value),
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { canTransitionOrderStatus, getNextOrderStatuses } from "./orderStatus";
+
+describe("order status transitions", () => {
+  it("should move forward through fulfilment", () => {
+    expect(canTransitionOrderStatus("pending", "processing")).toBe(true);
+    expect(canTransitionOrderStatus("processing", "shipped")).toBe(true);
+    expect(canTransitionOrderStatus("shipped", "completed")).toBe(true);
+  });
+
+  it("should allow cancelling until the order ships", () => {
+    expect(canTransitionOrderStatus("pending", "cancelled")).toBe(true);
+    expect(canTransitionOrderStatus("processing", "cancelled")).toBe(true);
+    expect(canTransitionOrderStatus("shipped", "cancelled")).toBe(false);
+  });
+
+  it("should not allow moving backwards", () => {
+    expect(canTransitionOrderStatus("completed", "pending")).toBe(false);
+    expect(canTransitionOrderStatus("shipped", "processing")).toBe(false);
+  });
+
+  it("should only allow cancelling an order awaiting approval", () => {
+    expect(getNextOrderStatuses("awaiting_approval")).toEqual(["cancelled"]);
+  });
+
+  it("should treat completed and cancelled as final", () => {
+    expect(getNextOrderStatuses("completed")).toEqual([]);
+    expect(getNextOrderStatuses("cancelled")).toEqual([]);
+  });
+});
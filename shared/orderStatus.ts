@@ -0,0 +1,52 @@
+/**
+ * Order lifecycle shared between client and server.
+ * Mirrors the transition graph enforced by the enforce_order_status_transition trigger.
+ */
+
+export const ORDER_STATUSES = [
+  "awaiting_approval",
+  "pending",
+  "processing",
+  "shipped",
+  "completed",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  awaiting_approval: "Awaiting approval",
+  pending: "Pending",
+  processing: "Processing",
+  shipped: "Shipped",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * An approver's decision also moves an order out of awaiting_approval, to
+ * pending or cancelled, but only through decide_order_approval(); these are
+ * the changes anyone else with access may make.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_approval: ["cancelled"],
+  pending: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["completed"],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses an order may move to next from `status`
+ */
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] ?? [];
+}
+
+export function canTransitionOrderStatus(
+  from: OrderStatus,
+  to: OrderStatus,
+): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
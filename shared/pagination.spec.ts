@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { nextPageOffset, normalisePage, pageRange } from "./pagination";
+
+describe("normalisePage", () => {
+  it("should default to the first page", () => {
+    expect(normalisePage()).toEqual({ offset: 0, limit: 24 });
+  });
+
+  it("should keep offsets and limits in range", () => {
+    expect(normalisePage({ offset: -5, limit: 1000 })).toEqual({
+      offset: 0,
+      limit: 100,
+    });
+    expect(normalisePage({ offset: 10.7, limit: 0 })).toEqual({
+      offset: 10,
+      limit: 1,
+    });
+  });
+});
+
+describe("pageRange", () => {
+  it("should return an inclusive range", () => {
+    expect(pageRange({ offset: 48, limit: 24 })).toEqual([48, 71]);
+  });
+});
+
+describe("nextPageOffset", () => {
+  it("should continue after the rows loaded so far", () => {
+    expect(nextPageOffset(24, 60, 24)).toBe(24);
+  });
+
+  it("should stop when everything is loaded or a page comes back empty", () => {
+    expect(nextPageOffset(60, 60, 12)).toBeUndefined();
+    expect(nextPageOffset(48, 60, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Paging for product listings. Pages are fetched by offset so every helper
+ * can share one shape, whether it reads a table with .range() or calls a
+ * database function with p_limit/p_offset.
+ */
+
+export const PRODUCT_PAGE_SIZE = 24;
+
+// Largest page a caller may ask for
+export const MAX_PAGE_SIZE = 100;
+
+export interface PageRequest {
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Offset and limit with defaults applied and limits kept sane
+ */
+export function normalisePage({
+  offset = 0,
+  limit = PRODUCT_PAGE_SIZE,
+}: PageRequest = {}): Required<PageRequest> {
+  return {
+    offset: Math.max(0, Math.floor(offset) || 0),
+    limit: Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(limit) || 1)),
+  };
+}
+
+/**
+ * Inclusive row range for Supabase's .range(from, to)
+ */
+export function pageRange(page: PageRequest = {}): [number, number] {
+  const { offset, limit } = normalisePage(page);
+  return [offset, offset + limit - 1];
+}
+
+/**
+ * Offset of the page after `loaded` rows, or undefined once everything is
+ * loaded. An empty page also ends paging, in case rows were deleted meanwhile.
+ */
+export function nextPageOffset(
+  loaded: number,
+  total: number,
+  lastPageSize: number,
+): number | undefined {
+  return lastPageSize > 0 && loaded < total ? loaded : undefined;
+}
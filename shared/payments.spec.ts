@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCardExpiryStatus,
+  getPaymentShortfall,
+  isValidCardNumber,
+  parseCardExpiry,
+  validateProofOfPayment,
+} from "./payments";
+
+describe("validateProofOfPayment", () => {
+  it("should accept PDFs and images up to 5 MB", () => {
+    expect(
+      validateProofOfPayment({ type: "application/pdf", size: 120_000 }),
+    ).toBeNull();
+    expect(
+      validateProofOfPayment({ type: "image/png", size: 5 * 1024 * 1024 }),
+    ).toBeNull();
+  });
+
+  it("should reject other file types", () => {
+    expect(
+      validateProofOfPayment({ type: "application/zip", size: 1000 }),
+    ).toMatch(/PDF, JPG or PNG/);
+  });
+
+  it("should reject files over 5 MB", () => {
+    expect(
+      validateProofOfPayment({ type: "image/jpeg", size: 6 * 1024 * 1024 }),
+    ).toMatch(/5 MB/);
+  });
+});
+
+describe("getPaymentShortfall", () => {
+  it("should return the amount still owed without float noise", () => {
+    expect(getPaymentShortfall(1437.5, 1400.1)).toBe(37.4);
+    expect(getPaymentShortfall(1437.5, 1437.5)).toBe(0);
+  });
+
+  it("should go negative on overpayment", () => {
+    expect(getPaymentShortfall(100, 120)).toBe(-20);
+  });
+});
+
+describe("isValidCardNumber", () => {
+  it("should accept Luhn-valid numbers with spacing", () => {
+    expect(isValidCardNumber("4242 4242 4242 4242")).toBe(true);
+    expect(isValidCardNumber("4000-0000-0000-3220")).toBe(true);
+  });
+
+  it("should reject bad check digits and non-digits", () => {
+    expect(isValidCardNumber("4242 4242 4242 4241")).toBe(false);
+    expect(isValidCardNumber("4242 abcd")).toBe(false);
+  });
+});
+
+describe("parseCardExpiry", () => {
+  const now = new Date("2025-09-20T10:00:00Z");
+
+  it("should parse MM/YY", () => {
+    expect(parseCardExpiry("08/27", now)).toEqual({
+      exp_month: 8,
+      exp_year: 2027,
+    });
+  });
+
+  it("should keep a card valid through its expiry month", () => {
+    expect(parseCardExpiry("09/25", now)).not.toBeNull();
+    expect(parseCardExpiry("08/25", now)).toBeNull();
+  });
+
+  it("should reject malformed expiries", () => {
+    expect(parseCardExpiry("13/27", now)).toBeNull();
+    expect(parseCardExpiry("0827", now)).toBeNull();
+  });
+});
+
+describe("getCardExpiryStatus", () => {
+  const now = new Date("2025-09-20T10:00:00Z");
+
+  it("should warn in the expiry month and the month before", () => {
+    expect(getCardExpiryStatus(9, 2025, now)).toBe("expiring_soon");
+    expect(getCardExpiryStatus(10, 2025, now)).toBe("expiring_soon");
+    expect(getCardExpiryStatus(11, 2025, now)).toBe("valid");
+  });
+
+  it("should flag cards past their expiry month", () => {
+    expect(getCardExpiryStatus(8, 2025, now)).toBe("expired");
+    expect(getCardExpiryStatus(12, 2024, now)).toBe("expired");
+  });
+});
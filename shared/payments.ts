@@ -0,0 +1,112 @@
+/**
+ * Payment tracking and card checks shared between client and server.
+ * PAYMENT_STATUSES mirrors the orders.payment_status check constraint.
+ */
+
+export const PAYMENT_STATUSES = [
+  "unpaid",
+  "proof_submitted",
+  "paid",
+  "failed",
+  "refunded",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Awaiting payment",
+  proof_submitted: "Proof of payment received",
+  paid: "Paid",
+  failed: "Payment failed",
+  refunded: "Refunded",
+};
+
+export const PROOF_OF_PAYMENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+];
+export const MAX_PROOF_OF_PAYMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Problem with a proof-of-payment upload, or null when it can be sent
+ */
+export function validateProofOfPayment(file: {
+  type: string;
+  size: number;
+}): string | null {
+  if (!PROOF_OF_PAYMENT_TYPES.includes(file.type)) {
+    return "Upload your proof of payment as a PDF, JPG or PNG";
+  }
+  if (file.size > MAX_PROOF_OF_PAYMENT_BYTES) {
+    return "Proof of payment must be 5 MB or smaller";
+  }
+  return null;
+}
+
+/**
+ * Amount still owed after a payment; negative when the customer overpaid
+ */
+export const getPaymentShortfall = (
+  total: number,
+  amountPaid: number,
+): number => Math.round((total - amountPaid) * 100) / 100;
+
+/**
+ * Luhn check for a card number; spaces and dashes are ignored
+ */
+export function isValidCardNumber(number: string): boolean {
+  const digits = number.replace(/[\s-]/g, "");
+  if (!/^\d{12,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Parse an "MM/YY" expiry; null when malformed or already expired
+ */
+export function parseCardExpiry(
+  expiry: string,
+  now = new Date(),
+): { exp_month: number; exp_year: number } | null {
+  const match = expiry.trim().match(/^(\d{1,2})\s*\/\s*(\d{2})$/);
+  if (!match) return null;
+
+  const exp_month = Number(match[1]);
+  const exp_year = 2000 + Number(match[2]);
+  if (exp_month < 1 || exp_month > 12) return null;
+
+  // Cards are valid through the last day of their expiry month
+  if (new Date(exp_year, exp_month, 1) <= now) return null;
+
+  return { exp_month, exp_year };
+}
+
+export type CardExpiryStatus = "valid" | "expiring_soon" | "expired";
+
+// Saved cards are flagged this many months before they lapse
+export const CARD_EXPIRY_WARNING_MONTHS = 2;
+
+/**
+ * Whether a saved card has expired or lapses within the warning window
+ */
+export function getCardExpiryStatus(
+  exp_month: number,
+  exp_year: number,
+  now = new Date(),
+): CardExpiryStatus {
+  const monthsLeft =
+    exp_year * 12 + (exp_month - 1) - (now.getFullYear() * 12 + now.getMonth());
+  if (monthsLeft < 0) return "expired";
+  if (monthsLeft < CARD_EXPIRY_WARNING_MONTHS) return "expiring_soon";
+  return "valid";
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateOrderTotals,
+  getLowestPriceTier,
+  resolveUnitPrice,
+  roundCurrency,
+} from "./pricing";
+
+describe("calculateOrderTotals", () => {
+  it("should add shipping and VAT on the subtotal", () => {
+    expect(calculateOrderTotals(100, 50)).toEqual({
+      subtotal: 100,
+      shipping: 50,
+      tax: 15,
+      total: 165,
+    });
+  });
+
+  it("should not charge VAT on shipping", () => {
+    expect(calculateOrderTotals(500, 0)).toEqual({
+      subtotal: 500,
+      shipping: 0,
+      tax: 75,
+      total: 575,
+    });
+  });
+
+  it("should round VAT to cents", () => {
+    expect(calculateOrderTotals(89.99, 0).tax).toBe(13.5);
+  });
+});
+
+describe("roundCurrency", () => {
+  it("should round to two decimals", () => {
+    expect(roundCurrency(12.346)).toBe(12.35);
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+  });
+});
+
+describe("resolveUnitPrice", () => {
+  const tiers = [
+    { min_quantity: 200, unit_price: 95 },
+    { min_quantity: 50, unit_price: 110 },
+  ];
+
+  it("should use the base price below the first tier", () => {
+    expect(resolveUnitPrice(129, tiers, 1)).toBe(129);
+    expect(resolveUnitPrice(129, tiers, 49)).toBe(129);
+  });
+
+  it("should use the largest tier the quantity reaches", () => {
+    expect(resolveUnitPrice(129, tiers, 50)).toBe(110);
+    expect(resolveUnitPrice(129, tiers, 199)).toBe(110);
+    expect(resolveUnitPrice(129, tiers, 200)).toBe(95);
+  });
+
+  it("should fall back to the base price without tiers", () => {
+    expect(resolveUnitPrice(129, undefined, 500)).toBe(129);
+  });
+});
+
+describe("getLowestPriceTier", () => {
+  it("should return the cheapest tier", () => {
+    expect(
+      getLowestPriceTier([
+        { min_quantity: 50, unit_price: 110 },
+        { min_quantity: 200, unit_price: 95 },
+      ]),
+    ).toEqual({ min_quantity: 200, unit_price: 95 });
+  });
+
+  it("should return null without tiers", () => {
+    expect(getLowestPriceTier([])).toBeNull();
+  });
+});
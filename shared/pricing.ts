@@ -0,0 +1,79 @@
+/**
+ * Order pricing rules shared between the checkout page and the server.
+ * The server is the source of truth; the client only uses these to preview totals.
+ */
+
+export const VAT_RATE = 0.15;
+
+export interface OrderTotals {
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Round to cents so that client previews and stored totals agree
+ */
+export const roundCurrency = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+/**
+ * Calculate VAT and grand total for a cart subtotal (in Rand) and the
+ * shipping fee from shared/shipping
+ */
+export function calculateOrderTotals(
+  subtotal: number,
+  shipping: number,
+): OrderTotals {
+  const tax = roundCurrency(subtotal * VAT_RATE);
+
+  return {
+    subtotal: roundCurrency(subtotal),
+    shipping: roundCurrency(shipping),
+    tax,
+    total: roundCurrency(subtotal + shipping + tax),
+  };
+}
+
+/**
+ * Bulk price for a product: applies from min_quantity units upwards.
+ * Quantities below the lowest tier pay the product's base price.
+ */
+export interface PriceTier {
+  min_quantity: number;
+  unit_price: number;
+}
+
+/**
+ * Tiers ordered by min_quantity, smallest first
+ */
+export const sortPriceTiers = (tiers: PriceTier[] = []): PriceTier[] =>
+  [...tiers].sort((a, b) => a.min_quantity - b.min_quantity);
+
+/**
+ * Unit price for a line of `quantity` units, using the largest tier reached
+ */
+export function resolveUnitPrice(
+  basePrice: number,
+  tiers: PriceTier[] = [],
+  quantity: number,
+): number {
+  const tier = sortPriceTiers(tiers)
+    .filter((t) => t.min_quantity <= quantity)
+    .pop();
+  return tier ? Number(tier.unit_price) : Number(basePrice);
+}
+
+/**
+ * Cheapest tier, used for "from R.. at 200+" hints; null without tiers
+ */
+export function getLowestPriceTier(tiers: PriceTier[] = []): PriceTier | null {
+  return tiers.reduce<PriceTier | null>(
+    (lowest, tier) =>
+      !lowest || Number(tier.unit_price) < Number(lowest.unit_price)
+        ? tier
+        : lowest,
+    null,
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateQuoteTotals,
+  canAcceptQuote,
+  canSendQuote,
+  defaultQuoteValidUntil,
+  getQuoteDisplayStatus,
+} from "./quotes";
+
+const today = new Date("2025-09-20T10:00:00Z");
+
+describe("quote status", () => {
+  it("should keep a sent quote open through its validity date", () => {
+    const quote = { status: "sent" as const, valid_until: "2025-09-20" };
+    expect(getQuoteDisplayStatus(quote, today)).toBe("sent");
+    expect(canAcceptQuote(quote, today)).toBe(true);
+  });
+
+  it("should show a sent quote as expired after its validity date", () => {
+    const quote = { status: "sent" as const, valid_until: "2025-09-19" };
+    expect(getQuoteDisplayStatus(quote, today)).toBe("expired");
+    expect(canAcceptQuote(quote, today)).toBe(false);
+  });
+
+  it("should only allow accepting sent quotes", () => {
+    expect(canAcceptQuote({ status: "requested" }, today)).toBe(false);
+    expect(
+      canAcceptQuote({ status: "accepted", valid_until: "2025-10-01" }, today),
+    ).toBe(false);
+  });
+
+  it("should let sales revise a quote until the customer responds", () => {
+    expect(canSendQuote("requested")).toBe(true);
+    expect(canSendQuote("sent")).toBe(true);
+    expect(canSendQuote("accepted")).toBe(false);
+    expect(canSendQuote("declined")).toBe(false);
+  });
+
+  it("should default validity to two weeks", () => {
+    expect(defaultQuoteValidUntil(today)).toBe("2025-10-04");
+  });
+});
+
+describe("calculateQuoteTotals", () => {
+  it("should include setup fees and the quoted freight", () => {
+    expect(
+      calculateQuoteTotals(
+        [
+          { unit_price: 95.5, quantity: 200, setup_fee: 350 },
+          { unit_price: 40, quantity: 10 },
+        ],
+        250,
+      ),
+    ).toEqual({
+      subtotal: 19850,
+      shipping: 250,
+      tax: 2977.5,
+      total: 23077.5,
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Quote lifecycle shared between client and server.
+ * A quote is requested from the cart, priced and sent by sales, then either
+ * accepted (which places an order at the quoted prices) or declined.
+ */
+
+import { roundCurrency, VAT_RATE } from "./pricing";
+
+export const QUOTE_STATUSES = [
+  "requested",
+  "sent",
+  "accepted",
+  "declined",
+] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+// A sent quote past its valid_until date is shown as expired; it is not stored
+export type QuoteDisplayStatus = QuoteStatus | "expired";
+
+export const QUOTE_STATUS_LABELS: Record<QuoteDisplayStatus, string> = {
+  requested: "Awaiting quote",
+  sent: "Quote ready",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+// Default validity offered when sales send a quote
+export const QUOTE_VALIDITY_DAYS = 14;
+
+/**
+ * Calendar date as YYYY-MM-DD (UTC), the format of quotes.valid_until
+ */
+export const toDateString = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+/**
+ * Default valid_until for a quote sent on `from`
+ */
+export function defaultQuoteValidUntil(from: Date = new Date()): string {
+  const date = new Date(from);
+  date.setUTCDate(date.getUTCDate() + QUOTE_VALIDITY_DAYS);
+  return toDateString(date);
+}
+
+/**
+ * Status to show the customer; the quote stays valid through valid_until
+ */
+export function getQuoteDisplayStatus(
+  quote: { status: QuoteStatus; valid_until?: string | null },
+  today: Date = new Date(),
+): QuoteDisplayStatus {
+  if (
+    quote.status === "sent" &&
+    quote.valid_until &&
+    quote.valid_until < toDateString(today)
+  ) {
+    return "expired";
+  }
+  return quote.status;
+}
+
+export function canAcceptQuote(
+  quote: { status: QuoteStatus; valid_until?: string | null },
+  today: Date = new Date(),
+): boolean {
+  return getQuoteDisplayStatus(quote, today) === "sent";
+}
+
+/**
+ * Sales may revise a quote until the customer responds
+ */
+export const canSendQuote = (status: QuoteStatus): boolean =>
+  status === "requested" || status === "sent";
+
+export interface QuoteLinePrice {
+  unit_price: number;
+  quantity: number;
+  setup_fee?: number;
+}
+
+/**
+ * Totals for quoted lines with a freight amount chosen by sales.
+ * Mirrors the arithmetic in send_quote().
+ */
+export function calculateQuoteTotals(
+  lines: QuoteLinePrice[],
+  shipping: number,
+) {
+  const subtotal = roundCurrency(
+    lines.reduce(
+      (sum, line) =>
+        sum + line.unit_price * line.quantity + Number(line.setup_fee ?? 0),
+      0,
+    ),
+  );
+  const tax = roundCurrency(subtotal * VAT_RATE);
+
+  return {
+    subtotal,
+    shipping: roundCurrency(shipping),
+    tax,
+    total: roundCurrency(subtotal + shipping + tax),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { calculateRefund, validateRefundSelection } from "./refunds";
+
+const shirts = {
+  id: "shirts",
+  unit_price: 100,
+  quantity: 300,
+  cancelled_quantity: 0,
+  setup_fee: 450,
+  vat_rate: 0.15,
+};
+const caps = {
+  id: "caps",
+  unit_price: 39.99,
+  quantity: 10,
+  cancelled_quantity: 4,
+  setup_fee: 0,
+  vat_rate: 0.15,
+};
+
+describe("validateRefundSelection", () => {
+  it("should accept quantities up to what is left on the line", () => {
+    expect(
+      validateRefundSelection(
+        [shirts, caps],
+        [{ order_item_id: "caps", quantity: 6 }],
+      ),
+    ).toBeNull();
+  });
+
+  it("should reject cancelling more than is left", () => {
+    expect(
+      validateRefundSelection(
+        [shirts, caps],
+        [{ order_item_id: "caps", quantity: 7 }],
+      ),
+    ).toMatch(/already been cancelled/);
+  });
+
+  it("should reject empty selections and unknown lines", () => {
+    expect(
+      validateRefundSelection(
+        [shirts],
+        [{ order_item_id: "shirts", quantity: 0 }],
+      ),
+    ).toMatch(/at least one/);
+    expect(
+      validateRefundSelection(
+        [shirts],
+        [{ order_item_id: "hats", quantity: 1 }],
+      ),
+    ).toMatch(/items of this order/);
+  });
+});
+
+describe("calculateRefund", () => {
+  it("should refund part of a line without its setup fee", () => {
+    const refund = calculateRefund(
+      [shirts],
+      [{ order_item_id: "shirts", quantity: 50 }],
+    );
+    expect(refund.lines[0]).toMatchObject({
+      subtotal: 5000,
+      tax: 750,
+      amount: 5750,
+    });
+    expect(refund.total).toBe(5750);
+  });
+
+  it("should return the setup fee with the last units of a line", () => {
+    const refund = calculateRefund(
+      [shirts],
+      [{ order_item_id: "shirts", quantity: 300 }],
+    );
+    expect(refund.subtotal).toBe(30450);
+    expect(refund.tax).toBe(4567.5);
+  });
+
+  it("should add shipping and round to cents", () => {
+    const refund = calculateRefund(
+      [caps],
+      [{ order_item_id: "caps", quantity: 3 }],
+      50,
+    );
+    expect(refund.subtotal).toBe(119.97);
+    expect(refund.tax).toBe(18);
+    expect(refund.total).toBe(187.97);
+  });
+});
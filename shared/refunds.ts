@@ -0,0 +1,135 @@
+/**
+ * Refunds and partial cancellations shared between client and server.
+ * Cancelling units of an order line refunds them, and returns their stock
+ * while the order has not shipped. Each refund is issued as a numbered credit
+ * note.
+ */
+
+import { roundCurrency } from "./pricing";
+
+/**
+ * How the money went back: through the card gateway, by hand (e.g. an EFT
+ * back to the customer), or not at all because the order was never paid.
+ */
+export const REFUND_METHODS = ["provider", "manual", "none"] as const;
+
+export type RefundMethod = (typeof REFUND_METHODS)[number];
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  provider: "Refunded to card",
+  manual: "Manual refund",
+  none: "Credited (order unpaid)",
+};
+
+/**
+ * The order line fields a refund is worked out from
+ */
+export interface RefundableLine {
+  id: string;
+  unit_price: number;
+  quantity: number;
+  cancelled_quantity: number;
+  setup_fee: number;
+  vat_rate: number;
+}
+
+export interface RefundSelection {
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface RefundLineAmount {
+  order_item_id: string;
+  quantity: number;
+  subtotal: number; // excluding VAT, including any setup fee returned
+  tax: number;
+  amount: number;
+}
+
+export interface RefundTotals {
+  lines: RefundLineAmount[];
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Units of a line that have not been cancelled yet
+ */
+export const getRemainingQuantity = (line: RefundableLine): number =>
+  line.quantity - (line.cancelled_quantity ?? 0);
+
+/**
+ * Problem with a selection of lines to cancel, or null when it is valid
+ */
+export function validateRefundSelection(
+  lines: RefundableLine[],
+  selections: RefundSelection[],
+): string | null {
+  const chosen = selections.filter((s) => s.quantity > 0);
+  if (chosen.length === 0) {
+    return "Choose at least one item to cancel";
+  }
+
+  const seen = new Set<string>();
+  for (const selection of chosen) {
+    const line = lines.find((l) => l.id === selection.order_item_id);
+    if (!line || seen.has(selection.order_item_id)) {
+      return "Refund lines must be items of this order";
+    }
+    seen.add(selection.order_item_id);
+
+    if (
+      !Number.isInteger(selection.quantity) ||
+      selection.quantity > getRemainingQuantity(line)
+    ) {
+      return "You can only cancel items that have not already been cancelled";
+    }
+  }
+  return null;
+}
+
+/**
+ * Amount refunded for cancelling the selected units. The once-off setup fee
+ * is returned with the last units of a line, and shipping only when asked.
+ */
+export function calculateRefund(
+  lines: RefundableLine[],
+  selections: RefundSelection[],
+  shipping = 0,
+): RefundTotals {
+  const refundLines = selections
+    .filter((s) => s.quantity > 0)
+    .map((selection) => {
+      const line = lines.find((l) => l.id === selection.order_item_id)!;
+      const closesLine = selection.quantity === getRemainingQuantity(line);
+      const subtotal = roundCurrency(
+        Number(line.unit_price) * selection.quantity +
+          (closesLine ? Number(line.setup_fee ?? 0) : 0),
+      );
+      const tax = roundCurrency(subtotal * Number(line.vat_rate));
+      return {
+        order_item_id: selection.order_item_id,
+        quantity: selection.quantity,
+        subtotal,
+        tax,
+        amount: roundCurrency(subtotal + tax),
+      };
+    });
+
+  const subtotal = roundCurrency(
+    refundLines.reduce((sum, line) => sum + line.subtotal, 0),
+  );
+  const tax = roundCurrency(
+    refundLines.reduce((sum, line) => sum + line.tax, 0),
+  );
+
+  return {
+    lines: refundLines,
+    subtotal,
+    shipping: roundCurrency(shipping),
+    tax,
+    total: roundCurrency(subtotal + shipping + tax),
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  addRecentSearch,
+  highlightMatches,
+  isSearchable,
+  matchesQuery,
+  matchesTerm,
+  searchTerms,
+  trigramSimilarity,
+} from "./search";
+
+describe("searchTerms", () => {
+  it("should lowercase, split on punctuation and drop repeats", () => {
+    expect(searchTerms("Blue  HOODIE, blue")).toEqual(["blue", "hoodie"]);
+    expect(searchTerms("t-shirt")).toEqual(["t", "shirt"]);
+    expect(searchTerms("  ")).toEqual([]);
+  });
+});
+
+describe("isSearchable", () => {
+  it("should need at least two characters", () => {
+    expect(isSearchable("a")).toBe(false);
+    expect(isSearchable("!!")).toBe(false);
+    expect(isSearchable("ab")).toBe(true);
+  });
+});
+
+describe("trigramSimilarity", () => {
+  it("should match pg_trgm for near misses", () => {
+    expect(trigramSimilarity("hodie", "hoodie")).toBeCloseTo(0.625);
+    expect(trigramSimilarity("cap", "cap")).toBe(1);
+    expect(trigramSimilarity("cap", "mug")).toBe(0);
+  });
+});
+
+describe("matchesTerm", () => {
+  it("should match prefixes, endings and typos", () => {
+    expect(matchesTerm("Hoodie", "hood")).toBe(true);
+    expect(matchesTerm("Hoodie", "hoodies")).toBe(true);
+    expect(matchesTerm("Hoodie", "hodie")).toBe(true);
+    expect(matchesTerm("Hoodie", "mug")).toBe(false);
+  });
+
+  it("should not match short words inside longer terms", () => {
+    expect(matchesTerm("a", "apron")).toBe(false);
+  });
+});
+
+describe("matchesQuery", () => {
+  it("should need every term to match a word", () => {
+    expect(matchesQuery("Headwear & Accessories", "head")).toBe(true);
+    expect(matchesQuery("Corporate Clothing", "clothng corporate")).toBe(true);
+    expect(matchesQuery("Corporate Clothing", "corporate gifts")).toBe(false);
+    expect(matchesQuery("Workwear", "")).toBe(false);
+  });
+});
+
+describe("addRecentSearch", () => {
+  it("should put the newest search first without repeats", () => {
+    expect(addRecentSearch(["caps", "Hoodie"], " hoodie ")).toEqual([
+      "hoodie",
+      "caps",
+    ]);
+  });
+
+  it("should keep the list short", () => {
+    expect(addRecentSearch(["b1", "c1", "d1"], "a1", 3)).toEqual([
+      "a1",
+      "b1",
+      "c1",
+    ]);
+  });
+
+  it("should ignore queries too short to search", () => {
+    expect(addRecentSearch(["caps"], "a")).toEqual(["caps"]);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("should split text into matched and unmatched runs", () => {
+    expect(highlightMatches("Blue Fleece Hoodie", "hodie")).toEqual([
+      { text: "Blue Fleece ", match: false },
+      { text: "Hoodie", match: true },
+    ]);
+  });
+
+  it("should mark every matching word", () => {
+    expect(highlightMatches("Blue Hoodie, blue", "blue hoodie")).toEqual([
+      { text: "Blue", match: true },
+      { text: " ", match: false },
+      { text: "Hoodie", match: true },
+      { text: ", ", match: false },
+      { text: "blue", match: true },
+    ]);
+  });
+
+  it("should leave text alone without terms", () => {
+    expect(highlightMatches("Cap", "")).toEqual([
+      { text: "Cap", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Product search. Matching and ranking happen in search_products(); these
+ * helpers mirror its tokenising and typo tolerance so the results page can
+ * highlight what matched.
+ */
+
+export const SEARCH_PAGE_SIZE = 24;
+
+// Shorter queries match almost everything
+export const MIN_QUERY_LENGTH = 2;
+
+// pg_trgm.word_similarity_threshold in search_products()
+export const TYPO_SIMILARITY = 0.5;
+
+// Products shown in the search-as-you-type dropdown
+export const SUGGESTION_LIMIT = 6;
+
+export const RECENT_SEARCH_LIMIT = 5;
+
+/**
+ * Lowercase words of a query, as search_products() splits it
+ */
+export const searchTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      (query ?? "")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean),
+    ),
+  );
+
+/**
+ * Whether a query is long enough to search for
+ */
+export const isSearchable = (query: string): boolean =>
+  searchTerms(query).join(" ").length >= MIN_QUERY_LENGTH;
+
+// pg_trgm pads each word with two spaces in front and one behind
+const trigrams = (word: string): Set<string> => {
+  const padded = `  ${word.toLowerCase()} `;
+  const result = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+};
+
+/**
+ * pg_trgm similarity of two words: shared trigrams over all trigrams, 0 to 1
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  let shared = 0;
+  left.forEach((trigram) => {
+    if (right.has(trigram)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Whether a word in a product's text matches a search term: as a prefix
+ * ("hood" in "hoodie"), a plural or other ending ("hoodies" for "hoodie"),
+ * or a near miss ("hodie")
+ */
+export function matchesTerm(word: string, term: string): boolean {
+  const lower = word.toLowerCase();
+  return (
+    lower.startsWith(term) ||
+    (lower.length >= 3 && term.startsWith(lower)) ||
+    trigramSimilarity(lower, term) >= TYPO_SIMILARITY
+  );
+}
+
+/**
+ * Whether every term of a query matches a word of the text
+ */
+export function matchesQuery(text: string, query: string): boolean {
+  const terms = searchTerms(query);
+  const words = searchTerms(text);
+  return (
+    terms.length > 0 &&
+    terms.every((term) => words.some((word) => matchesTerm(word, term)))
+  );
+}
+
+/**
+ * Recent searches with `query` moved to the front, newest first
+ */
+export function addRecentSearch(
+  recent: string[],
+  query: string,
+  limit = RECENT_SEARCH_LIMIT,
+): string[] {
+  const trimmed = query.trim().replace(/\s+/g, " ");
+  if (!isSearchable(trimmed)) return recent;
+  return [
+    trimmed,
+    ...recent.filter((item) => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, limit);
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into matched and unmatched runs for highlighting
+ */
+export function highlightMatches(
+  text: string,
+  query: string,
+): HighlightSegment[] {
+  const terms = searchTerms(query);
+  const segments: HighlightSegment[] = [];
+
+  for (const part of (text ?? "").split(/([A-Za-z0-9]+)/)) {
+    if (!part) continue;
+    const match =
+      /^[A-Za-z0-9]+$/.test(part) &&
+      terms.some((term) => matchesTerm(part, term));
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, match });
+    }
+  }
+  return segments;
+}
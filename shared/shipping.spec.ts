@@ -0,0 +1,234 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateShipping,
+  findShippingZone,
+  getShippingOptions,
+  itemWeight,
+  parcelWeight,
+  ShippingConfig,
+  ShippingRate,
+  validatePostalCodeEntries,
+  validateShippingRate,
+} from "./shipping";
+
+const rate = (fields: Partial<ShippingRate>): ShippingRate => ({
+  id: "rate",
+  zone_id: null,
+  service_level: "economy",
+  min_weight_kg: 0,
+  max_weight_kg: null,
+  base_fee: 0,
+  per_kg_fee: 0,
+  free_over: null,
+  delivery_estimate: null,
+  ...fields,
+});
+
+const config: ShippingConfig = {
+  zones: [
+    {
+      id: "rest",
+      name: "Rest of South Africa",
+      provinces: ["Limpopo", "Northern Cape"],
+      postal_codes: [],
+      sort_order: 2,
+    },
+    {
+      id: "wc",
+      name: "Western Cape",
+      provinces: ["Western Cape"],
+      postal_codes: [],
+      sort_order: 1,
+    },
+    {
+      id: "ct",
+      name: "Cape Town Metro",
+      provinces: [],
+      postal_codes: ["7400-8099"],
+      sort_order: 0,
+    },
+  ],
+  rates: [
+    rate({ zone_id: "ct", max_weight_kg: 5, base_fee: 50, free_over: 500 }),
+    rate({ zone_id: "ct", min_weight_kg: 5, base_fee: 80, per_kg_fee: 3 }),
+    rate({ zone_id: "wc", max_weight_kg: 5, base_fee: 50, free_over: 500 }),
+    rate({ zone_id: "wc", min_weight_kg: 5, base_fee: 110, per_kg_fee: 5 }),
+    rate({ zone_id: "rest", max_weight_kg: 5, base_fee: 50, free_over: 500 }),
+    rate({ zone_id: "rest", min_weight_kg: 5, base_fee: 400, per_kg_fee: 7.5 }),
+    rate({ zone_id: "ct", service_level: "express", base_fee: 95 }),
+    rate({
+      service_level: "collect",
+      delivery_estimate: "Ready in 1 working day",
+    }),
+  ],
+};
+
+const limpopo = { province: "Limpopo", postalCode: "0699" };
+
+describe("itemWeight", () => {
+  it("should use the heavier of actual and volumetric weight", () => {
+    expect(itemWeight({ weight_kg: 2, quantity: 1 })).toBe(2);
+    expect(
+      itemWeight({
+        weight_kg: 1,
+        length_cm: 50,
+        width_cm: 40,
+        height_cm: 30,
+        quantity: 1,
+      }),
+    ).toBe(12);
+  });
+
+  it("should assume a default weight for unweighed products", () => {
+    expect(itemWeight({ quantity: 1 })).toBe(0.5);
+  });
+});
+
+describe("parcelWeight", () => {
+  it("should multiply by quantity", () => {
+    expect(
+      parcelWeight([
+        { weight_kg: 1.6, quantity: 30 },
+        { weight_kg: 0.25, quantity: 2 },
+      ]),
+    ).toBe(48.5);
+  });
+});
+
+describe("findShippingZone", () => {
+  it("should match postal codes before provinces", () => {
+    expect(
+      findShippingZone(config.zones, {
+        province: "Western Cape",
+        postalCode: "8001",
+      })?.id,
+    ).toBe("ct");
+    expect(
+      findShippingZone(config.zones, {
+        province: "Western Cape",
+        postalCode: "7600",
+      })?.id,
+    ).toBe("ct");
+    expect(
+      findShippingZone(config.zones, {
+        province: "western cape",
+        postalCode: "6665",
+      })?.id,
+    ).toBe("wc");
+  });
+
+  it("should return null when no zone covers the address", () => {
+    expect(
+      findShippingZone(config.zones, {
+        province: "Gauteng",
+        postalCode: "2000",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getShippingOptions", () => {
+  it("should keep the free-over-R500 rule for light parcels", () => {
+    const request = {
+      items: [{ weight_kg: 1, quantity: 2 }],
+      subtotal: 499,
+      ...limpopo,
+    };
+    expect(calculateShipping(config, "economy", request)).toBe(50);
+    expect(
+      calculateShipping(config, "economy", { ...request, subtotal: 500 }),
+    ).toBe(0);
+  });
+
+  it("should charge heavy parcels per started kg whatever the subtotal", () => {
+    // 30 pairs of safety boots at 1.6 kg: 48 kg, 43 kg above the band start
+    expect(
+      calculateShipping(config, "economy", {
+        items: [{ weight_kg: 1.6, quantity: 30 }],
+        subtotal: 15000,
+        ...limpopo,
+      }),
+    ).toBe(722.5);
+  });
+
+  it("should only offer services with a rate for the zone or every zone", () => {
+    const request = {
+      items: [{ weight_kg: 1, quantity: 1 }],
+      subtotal: 100,
+    };
+    expect(
+      getShippingOptions(config, {
+        ...request,
+        province: "Western Cape",
+        postalCode: "8001",
+      }).map((option) => [option.service_level, option.fee, option.zone]),
+    ).toEqual([
+      ["economy", 50, "Cape Town Metro"],
+      ["express", 95, "Cape Town Metro"],
+      ["collect", 0, null],
+    ]);
+    expect(
+      getShippingOptions(config, { ...request, ...limpopo }).map(
+        (option) => option.service_level,
+      ),
+    ).toEqual(["economy", "collect"]);
+  });
+
+  it("should only offer collection outside every zone", () => {
+    expect(
+      getShippingOptions(config, {
+        items: [{ weight_kg: 1, quantity: 1 }],
+        subtotal: 100,
+        province: "Gauteng",
+        postalCode: "2000",
+      }).map((option) => option.service_level),
+    ).toEqual(["collect"]);
+  });
+
+  it("should return null for a service that is not offered", () => {
+    expect(
+      calculateShipping(config, "express", {
+        items: [{ weight_kg: 1, quantity: 1 }],
+        subtotal: 100,
+        ...limpopo,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("validatePostalCodeEntries", () => {
+  it("should accept codes and ranges", () => {
+    expect(validatePostalCodeEntries(["8001", "7400-8099"])).toBeNull();
+  });
+
+  it("should reject malformed entries", () => {
+    expect(validatePostalCodeEntries(["800"])).toMatch(/not a postal code/);
+    expect(validatePostalCodeEntries(["7400-"])).toMatch(/not a postal code/);
+    expect(validatePostalCodeEntries(["8099-7400"])).toMatch(/starts after/);
+  });
+});
+
+describe("validateShippingRate", () => {
+  const band = {
+    min_weight_kg: 5,
+    max_weight_kg: 30,
+    base_fee: 80,
+    per_kg_fee: 3,
+    free_over: null,
+  };
+
+  it("should accept a valid band", () => {
+    expect(validateShippingRate(band)).toBeNull();
+    expect(validateShippingRate({ ...band, max_weight_kg: null })).toBeNull();
+  });
+
+  it("should reject inverted bands and negative fees", () => {
+    expect(validateShippingRate({ ...band, max_weight_kg: 5 })).toMatch(
+      /end above/,
+    );
+    expect(validateShippingRate({ ...band, base_fee: -1 })).toMatch(/negative/);
+    expect(validateShippingRate({ ...band, free_over: -1 })).toMatch(
+      /threshold/,
+    );
+  });
+});
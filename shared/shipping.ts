@@ -0,0 +1,245 @@
+/**
+ * Shipping rules shared between the checkout page and the server. Zones and
+ * their rate tables live in shipping_zones / shipping_rates and are managed by
+ * admins; the server recalculates the fee from them when an order is placed.
+ */
+import { normalisePostalCode, normaliseProvince, Province } from "./addresses";
+import { roundCurrency } from "./pricing";
+
+export const SHIPPING_SERVICE_LEVELS = [
+  "economy",
+  "express",
+  "collect",
+] as const;
+
+export type ShippingServiceLevel = (typeof SHIPPING_SERVICE_LEVELS)[number];
+
+export const SHIPPING_SERVICE_LABELS: Record<ShippingServiceLevel, string> = {
+  economy: "Economy",
+  express: "Express",
+  collect: "Collect in Cape Town",
+};
+
+export const DEFAULT_SHIPPING_SERVICE: ShippingServiceLevel = "economy";
+
+// Charged for products nobody has weighed yet
+export const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+// Couriers bill bulky parcels on L x W x H (cm) / 5000
+export const VOLUMETRIC_DIVISOR = 5000;
+
+/**
+ * Delivery area. Postal codes and ranges ("7400-8099") are matched before
+ * provinces, so a metro can be cheaper than the rest of its province.
+ */
+export interface ShippingZone {
+  id: string;
+  name: string;
+  provinces: Province[];
+  postal_codes: string[];
+  sort_order: number;
+}
+
+/**
+ * One weight band of a zone's rate table for one service level. A band
+ * covers parcels heavier than min_weight_kg up to and including
+ * max_weight_kg (no limit when null); bands starting at 0 include 0 kg.
+ */
+export interface ShippingRate {
+  id: string;
+  zone_id: string | null; // null: applies to every address, e.g. collection
+  service_level: ShippingServiceLevel;
+  min_weight_kg: number;
+  max_weight_kg: number | null;
+  base_fee: number;
+  per_kg_fee: number; // per started kg above min_weight_kg
+  free_over: number | null; // order subtotal (excl. VAT) from which the band is free
+  delivery_estimate: string | null;
+}
+
+export interface ShippingConfig {
+  zones: ShippingZone[];
+  rates: ShippingRate[];
+}
+
+export interface ShippingItem {
+  weight_kg?: number | null;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+  quantity: number;
+}
+
+export interface ShippingRequest {
+  items: ShippingItem[];
+  subtotal: number;
+  province?: string | null;
+  postalCode?: string | null;
+}
+
+export interface ShippingOption {
+  service_level: ShippingServiceLevel;
+  label: string;
+  fee: number;
+  delivery_estimate: string | null;
+  zone: string | null;
+}
+
+/**
+ * Billable weight of one unit: its actual or volumetric weight, whichever is more
+ */
+export function itemWeight(item: ShippingItem): number {
+  const actual = Number(item.weight_kg) || DEFAULT_ITEM_WEIGHT_KG;
+  const volume =
+    Number(item.length_cm) * Number(item.width_cm) * Number(item.height_cm);
+  return Math.max(actual, volume / VOLUMETRIC_DIVISOR || 0);
+}
+
+/**
+ * Billable weight of the whole parcel in kg, rounded to grams
+ */
+export const parcelWeight = (items: ShippingItem[]): number =>
+  Math.round(
+    items.reduce((sum, item) => sum + itemWeight(item) * item.quantity, 0) *
+      1000,
+  ) / 1000;
+
+/**
+ * Whether a postal code matches an entry such as "8001" or "7400-8099"
+ */
+export function matchesPostalCode(entry: string, postalCode: string): boolean {
+  const [from, to = from] = entry.split("-").map((part) => part.trim());
+  return postalCode >= from && postalCode <= to;
+}
+
+/**
+ * Zone delivering to an address: a postal-code match first, then the first
+ * zone (by sort_order) that covers the province. Null when none does.
+ */
+export function findShippingZone(
+  zones: ShippingZone[],
+  address: { province?: string | null; postalCode?: string | null },
+): ShippingZone | null {
+  const sorted = [...zones].sort((a, b) => a.sort_order - b.sort_order);
+  const postalCode = normalisePostalCode(address.postalCode ?? "");
+  const province = normaliseProvince(address.province);
+
+  const byPostalCode = postalCode
+    ? sorted.find((zone) =>
+        zone.postal_codes.some((entry) => matchesPostalCode(entry, postalCode)),
+      )
+    : undefined;
+  const byProvince = province
+    ? sorted.find((zone) => zone.provinces.includes(province))
+    : undefined;
+  return byPostalCode ?? byProvince ?? null;
+}
+
+const inBand = (rate: ShippingRate, weight: number) =>
+  (weight > Number(rate.min_weight_kg) || Number(rate.min_weight_kg) === 0) &&
+  (rate.max_weight_kg == null || weight <= Number(rate.max_weight_kg));
+
+/**
+ * Fee for a parcel within a rate's band, or free above its threshold
+ */
+export function rateFee(
+  rate: ShippingRate,
+  weight: number,
+  subtotal: number,
+): number {
+  if (rate.free_over != null && subtotal >= Number(rate.free_over)) return 0;
+  const extraKg = Math.max(0, Math.ceil(weight - Number(rate.min_weight_kg)));
+  return roundCurrency(
+    Number(rate.base_fee) + extraKg * Number(rate.per_kg_fee),
+  );
+}
+
+/**
+ * Delivery options for a parcel, in SHIPPING_SERVICE_LEVELS order. A service
+ * is offered when the address's zone, or every zone, has a band for the
+ * parcel's weight; zone-specific rates win over nationwide ones.
+ */
+export function getShippingOptions(
+  config: ShippingConfig,
+  request: ShippingRequest,
+): ShippingOption[] {
+  const zone = findShippingZone(config.zones, request);
+  const weight = parcelWeight(request.items);
+
+  return SHIPPING_SERVICE_LEVELS.flatMap((service_level) => {
+    const bands = config.rates.filter(
+      (rate) => rate.service_level === service_level && inBand(rate, weight),
+    );
+    const rate =
+      (zone && bands.find((band) => band.zone_id === zone.id)) ||
+      bands.find((band) => band.zone_id === null);
+    if (!rate) return [];
+
+    return [
+      {
+        service_level,
+        label: SHIPPING_SERVICE_LABELS[service_level],
+        fee: rateFee(rate, weight, request.subtotal),
+        delivery_estimate: rate.delivery_estimate,
+        zone: rate.zone_id ? zone.name : null,
+      },
+    ];
+  });
+}
+
+/**
+ * Fee for one service level, or null when it is not offered for the parcel
+ */
+export function calculateShipping(
+  config: ShippingConfig,
+  serviceLevel: ShippingServiceLevel,
+  request: ShippingRequest,
+): number | null {
+  const option = getShippingOptions(config, request).find(
+    (candidate) => candidate.service_level === serviceLevel,
+  );
+  return option ? option.fee : null;
+}
+
+/**
+ * Problem with a zone's postal codes ("8001, 7400-8099"), or null when valid
+ */
+export function validatePostalCodeEntries(entries: string[]): string | null {
+  for (const entry of entries) {
+    const [from, to = from, ...rest] = entry.split("-").map((p) => p.trim());
+    if (rest.length > 0 || !/^\d{4}$/.test(from) || !/^\d{4}$/.test(to)) {
+      return `"${entry}" is not a postal code or range such as 7400-8099`;
+    }
+    if (from > to) {
+      return `"${entry}" starts after it ends`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Problem with a rate table row, or null when it can be saved
+ */
+export function validateShippingRate(
+  rate: Pick<
+    ShippingRate,
+    "min_weight_kg" | "max_weight_kg" | "base_fee" | "per_kg_fee" | "free_over"
+  >,
+): string | null {
+  if (!(rate.min_weight_kg >= 0)) {
+    return "The band must start at 0 kg or more";
+  }
+  if (
+    rate.max_weight_kg != null &&
+    !(rate.max_weight_kg > rate.min_weight_kg)
+  ) {
+    return "The band must end above where it starts";
+  }
+  if (!(rate.base_fee >= 0) || !(rate.per_kg_fee >= 0)) {
+    return "Fees cannot be negative";
+  }
+  if (rate.free_over != null && !(rate.free_over >= 0)) {
+    return "The free-shipping threshold cannot be negative";
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildVariantMatrix,
+  findVariant,
+  formatVariantLabel,
+  variantOptionsKey,
+} from "./variants";
+
+const axes = [
+  { name: "Size", values: ["M", "L"] },
+  { name: "Colour", values: ["Navy", "White"] },
+];
+
+describe("buildVariantMatrix", () => {
+  it("should combine every value of every axis", () => {
+    expect(buildVariantMatrix(axes)).toEqual([
+      { Size: "M", Colour: "Navy" },
+      { Size: "M", Colour: "White" },
+      { Size: "L", Colour: "Navy" },
+      { Size: "L", Colour: "White" },
+    ]);
+  });
+
+  it("should ignore axes without values", () => {
+    expect(
+      buildVariantMatrix([
+        { name: "Size", values: ["S"] },
+        { name: "Colour", values: [] },
+      ]),
+    ).toEqual([{ Size: "S" }]);
+  });
+
+  it("should return no variants without axes", () => {
+    expect(buildVariantMatrix([])).toEqual([]);
+  });
+});
+
+describe("variantOptionsKey", () => {
+  it("should not depend on property order", () => {
+    expect(variantOptionsKey({ Size: "M", Colour: "Navy" })).toBe(
+      variantOptionsKey({ Colour: "Navy", Size: "M" }),
+    );
+  });
+});
+
+describe("formatVariantLabel", () => {
+  it("should follow the axis order", () => {
+    expect(formatVariantLabel({ Colour: "Navy", Size: "M" }, axes)).toBe(
+      "M / Navy",
+    );
+  });
+});
+
+describe("findVariant", () => {
+  const variants = [
+    { id: "a", options: { Size: "M", Colour: "Navy" } },
+    { id: "b", options: { Size: "L", Colour: "Navy" } },
+  ];
+
+  it("should find the variant matching all options", () => {
+    expect(findVariant(variants, { Colour: "Navy", Size: "L" })?.id).toBe("b");
+  });
+
+  it("should return undefined while an axis is unselected", () => {
+    expect(findVariant(variants, { Size: "L" })).toBeUndefined();
+  });
+});
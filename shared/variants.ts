@@ -0,0 +1,63 @@
+/**
+ * Product variants (size, colour, ...) shared between client and server.
+ * A product lists its option axes; each variant picks one value per axis.
+ */
+
+export interface VariantAxis {
+  name: string; // e.g. "Size"
+  values: string[]; // e.g. ["S", "M", "L"]
+}
+
+// Axis name -> chosen value, e.g. { Size: "M", Colour: "Navy" }
+export type VariantOptions = Record<string, string>;
+
+/**
+ * Every combination of axis values, in axis order. Used to build the
+ * admin variant matrix.
+ */
+export function buildVariantMatrix(axes: VariantAxis[]): VariantOptions[] {
+  return axes
+    .filter((axis) => axis.values.length > 0)
+    .reduce<VariantOptions[]>(
+      (combinations, axis) =>
+        combinations.flatMap((options) =>
+          axis.values.map((value) => ({ ...options, [axis.name]: value })),
+        ),
+      [{}],
+    )
+    .filter((options) => Object.keys(options).length > 0);
+}
+
+/**
+ * Stable key for a set of options, independent of property order
+ */
+export const variantOptionsKey = (options: VariantOptions): string =>
+  Object.keys(options)
+    .sort()
+    .map((name) => `${name}=${options[name]}`)
+    .join("|");
+
+/**
+ * Human readable label, e.g. "M / Navy", following the product's axis order
+ */
+export function formatVariantLabel(
+  options: VariantOptions,
+  axes: VariantAxis[] = [],
+): string {
+  const ordered = axes
+    .map((axis) => axis.name)
+    .filter((name) => name in options);
+  const rest = Object.keys(options).filter((name) => !ordered.includes(name));
+  return [...ordered, ...rest].map((name) => options[name]).join(" / ");
+}
+
+/**
+ * The variant matching every chosen option, or undefined until all axes are chosen
+ */
+export function findVariant<T extends { options: VariantOptions }>(
+  variants: T[],
+  selected: VariantOptions,
+): T | undefined {
+  const key = variantOptionsKey(selected);
+  return variants.find((variant) => variantOptionsKey(variant.options) === key);
+}
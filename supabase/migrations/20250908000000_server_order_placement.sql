@@ -0,0 +1,58 @@
+/*
+  # Server-side Order Placement
+
+  Orders are now created by POST /api/orders, which reprices the cart from
+  the products table and recomputes shipping and VAT before writing.
+
+  Changes:
+  - orders: subtotal, shipping_fee and tax columns so the stored total can be audited
+  - place_order(): writes the order and clears the ordered cart lines in one transaction
+  - Drops the client INSERT policy on orders so totals can no longer be posted from the browser
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal numeric(10,2) CHECK (subtotal >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_fee numeric(10,2) CHECK (shipping_fee >= 0);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax numeric(10,2) CHECK (tax >= 0);
+
+-- Orders may only be created through the server (service role bypasses RLS)
+DROP POLICY IF EXISTS "Users can create own orders" ON orders;
+
+-- Insert an order and remove its products from the customer's cart atomically
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_products jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  INSERT INTO orders (
+    user_id, products, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method
+  )
+  VALUES (
+    p_user_id, p_products, p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_user_id
+    AND product_id IN (
+      SELECT (line->>'product_id')::uuid
+      FROM jsonb_array_elements(p_products) AS line
+    );
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server's service role may place orders
+REVOKE EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) TO service_role;
@@ -0,0 +1,121 @@
+/*
+  # Stock Reservation
+
+  Placing an order now decrements products.stock, and cancelling it returns
+  the stock. Both happen inside the same transaction as the order write.
+
+  Changes:
+  - orders.stock_reserved: true while the order holds stock. Orders placed before
+    this migration never decremented stock, so they are not restocked on cancel.
+  - place_order(): locks the ordered product rows, fails with 'insufficient_stock'
+    (DETAIL holds a JSON array of short lines) or decrements stock
+  - release_order_stock trigger: returns stock when an order moves to 'cancelled'
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stock_reserved boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_products jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_products) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock, name INTO v_stock, v_name
+    FROM products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_products) AS line
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  INSERT INTO orders (
+    user_id, products, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id, p_products, p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_user_id
+    AND product_id IN (
+      SELECT (line->>'product_id')::uuid
+      FROM jsonb_array_elements(p_products) AS line
+    );
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) TO service_role;
+
+-- Return reserved stock when an order is cancelled (e.g. via orders.updateStatus)
+CREATE OR REPLACE FUNCTION release_order_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND OLD.stock_reserved THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT (line->>'product_id')::uuid AS product_id,
+             SUM((line->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(OLD.products) AS line
+      GROUP BY 1
+    ) AS lines
+    WHERE p.id = lines.product_id;
+
+    NEW.stock_reserved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS release_order_stock ON orders;
+CREATE TRIGGER release_order_stock
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION release_order_stock();
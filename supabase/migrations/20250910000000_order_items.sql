@@ -0,0 +1,204 @@
+/*
+  # Normalised Order Items
+
+  Replaces the untyped orders.products JSONB blob with an order_items table.
+  Each line snapshots the product name, unit price and VAT at the time of
+  purchase so later catalogue edits do not rewrite order history.
+
+  Changes:
+  - order_items: one row per order line, product_id is kept when the product still exists
+  - Backfills order_items from orders.products (older rows used either 'title' or 'name')
+  - Drops orders.products
+  - place_order() and release_order_stock() now read and write order_items
+*/
+
+CREATE TABLE IF NOT EXISTS order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  vat_rate numeric(5,4) NOT NULL DEFAULT 0.15 CHECK (vat_rate >= 0),
+  vat_amount numeric(10,2) NOT NULL CHECK (vat_amount >= 0),
+  line_total numeric(10,2) NOT NULL CHECK (line_total >= 0), -- unit_price * quantity, excluding VAT
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+ALTER TABLE order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order items" ON order_items;
+CREATE POLICY "Users can view own order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_items.order_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all order items" ON order_items;
+CREATE POLICY "Admins can view all order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Backfill existing orders from the JSONB blob
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'products'
+  ) THEN
+    INSERT INTO order_items (
+      order_id, product_id, product_name, unit_price, quantity,
+      vat_rate, vat_amount, line_total, created_at
+    )
+    SELECT
+      o.id,
+      p.id,
+      COALESCE(line->>'title', line->>'name', 'Unknown product'),
+      COALESCE((line->>'price')::numeric, 0),
+      GREATEST(COALESCE((line->>'quantity')::integer, 1), 1),
+      0.15,
+      ROUND(COALESCE((line->>'price')::numeric, 0) * GREATEST(COALESCE((line->>'quantity')::integer, 1), 1) * 0.15, 2),
+      ROUND(COALESCE((line->>'price')::numeric, 0) * GREATEST(COALESCE((line->>'quantity')::integer, 1), 1), 2),
+      o.created_at
+    FROM orders o
+    CROSS JOIN LATERAL jsonb_array_elements(o.products) AS line
+    LEFT JOIN products p
+      ON line->>'product_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      AND p.id = (line->>'product_id')::uuid
+    WHERE jsonb_typeof(o.products) = 'array'
+      AND NOT EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id);
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text);
+
+ALTER TABLE orders DROP COLUMN IF EXISTS products;
+
+-- p_items: [{product_id, product_name, unit_price, quantity, vat_rate}]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock, name INTO v_stock, v_name
+    FROM products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  INSERT INTO orders (
+    user_id, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id, p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, product_name, unit_price, quantity,
+    vat_rate, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer, 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  DELETE FROM cart_items
+  WHERE user_id = p_user_id
+    AND product_id IN (
+      SELECT (line->>'product_id')::uuid
+      FROM jsonb_array_elements(p_items) AS line
+    );
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION release_order_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND OLD.stock_reserved THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM order_items
+      WHERE order_id = OLD.id AND product_id IS NOT NULL
+      GROUP BY product_id
+    ) AS lines
+    WHERE p.id = lines.product_id;
+
+    NEW.stock_reserved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
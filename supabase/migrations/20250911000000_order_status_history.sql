@@ -0,0 +1,149 @@
+/*
+  # Order Status State Machine and History
+
+  Order status changes now follow a fixed transition graph (see shared/orderStatus.ts):
+    pending    -> processing, cancelled
+    processing -> shipped, cancelled
+    shipped    -> completed
+    completed and cancelled are final
+
+  Changes:
+  - enforce_order_status_transition trigger: rejects any other status change
+  - order_status_history: who moved an order to which status, when, with an optional note
+  - update_order_status(): changes status and records the note in one call
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own order status history" ON order_status_history;
+CREATE POLICY "Users can view own order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_status_history.order_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all order status history" ON order_status_history;
+CREATE POLICY "Admins can view all order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Reject status changes that are not in the transition graph
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'cancelled')) OR
+    (OLD.status = 'processing' AND NEW.status IN ('shipped', 'cancelled')) OR
+    (OLD.status = 'shipped' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Record every status change. update_order_status() passes its note through
+-- the transaction-local app.order_status_note setting.
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    -- Orders are inserted by the service role, so credit the customer
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'INSERT' THEN NEW.user_id END),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_order_status_change ON orders;
+CREATE TRIGGER record_order_status_change
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW EXECUTE FUNCTION record_order_status_change();
+
+-- Change an order's status with an optional note. Runs with the caller's
+-- permissions, so the existing admin update policy still applies.
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, text, text) TO authenticated;
+
+-- Seed history for existing orders so every timeline starts at creation
+INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+SELECT o.id, NULL, 'pending', o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+INSERT INTO order_status_history (order_id, from_status, to_status, created_at)
+SELECT o.id, 'pending', o.status, o.updated_at
+FROM orders o
+WHERE o.status <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM order_status_history h
+    WHERE h.order_id = o.id AND h.to_status = o.status
+  );
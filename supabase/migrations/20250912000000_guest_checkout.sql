@@ -0,0 +1,143 @@
+/*
+  # Guest Checkout
+
+  Shoppers can add to cart and check out without an account. Their cart lives in
+  localStorage and is merged into cart_items when they sign in.
+
+  Changes:
+  - orders.user_id is nullable; guest orders store the customer email in guest_email
+  - place_order(): accepts a NULL p_user_id for guest orders
+  - merge_guest_cart(): adds guest cart lines to the caller's cart, summing quantities
+*/
+
+ALTER TABLE orders ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS guest_email text;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_customer_check;
+ALTER TABLE orders ADD CONSTRAINT orders_customer_check
+  CHECK (user_id IS NOT NULL OR guest_email IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email ON orders(guest_email) WHERE guest_email IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock, name INTO v_stock, v_name
+    FROM products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_shipping_address->'customerInfo'->>'email' END,
+    p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, product_name, unit_price, quantity,
+    vat_rate, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer, 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  -- Guest carts live in the browser, so there is nothing to clear for them
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items
+    WHERE user_id = p_user_id
+      AND product_id IN (
+        SELECT (line->>'product_id')::uuid
+        FROM jsonb_array_elements(p_items) AS line
+      );
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_items: [{product_id, quantity}]. Runs as the caller so cart RLS applies.
+CREATE OR REPLACE FUNCTION merge_guest_cart(p_items jsonb)
+RETURNS SETOF cart_items AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO cart_items (user_id, product_id, quantity)
+  SELECT auth.uid(), lines.product_id, lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1
+  ) AS lines
+  WHERE lines.quantity > 0
+    AND EXISTS (SELECT 1 FROM products p WHERE p.id = lines.product_id AND p.is_active)
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION merge_guest_cart(jsonb) TO authenticated;
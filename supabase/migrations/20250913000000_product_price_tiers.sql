@@ -0,0 +1,64 @@
+/*
+  # Volume Pricing Tiers
+
+  Bulk corporate orders (polos, tote bags by the hundred) get a lower unit
+  price once a line reaches a tier's minimum quantity. Quantities below the
+  lowest tier pay products.price.
+
+  Changes:
+  - product_price_tiers: unit price per product from min_quantity units upwards
+  - set_product_price_tiers(): replaces a product's tiers in one statement (admins only via RLS)
+*/
+
+CREATE TABLE IF NOT EXISTS product_price_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  min_quantity integer NOT NULL CHECK (min_quantity > 1),
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, min_quantity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_price_tiers_product_id ON product_price_tiers(product_id);
+
+ALTER TABLE product_price_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view price tiers" ON product_price_tiers;
+CREATE POLICY "Anyone can view price tiers"
+  ON product_price_tiers FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage price tiers" ON product_price_tiers;
+CREATE POLICY "Admins can manage price tiers"
+  ON product_price_tiers FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- p_tiers: [{min_quantity, unit_price}]. Runs as the caller so the admin policy applies.
+CREATE OR REPLACE FUNCTION set_product_price_tiers(p_product_id uuid, p_tiers jsonb)
+RETURNS SETOF product_price_tiers AS $$
+BEGIN
+  DELETE FROM product_price_tiers WHERE product_id = p_product_id;
+
+  RETURN QUERY
+  INSERT INTO product_price_tiers (product_id, min_quantity, unit_price)
+  SELECT p_product_id,
+         (tier->>'min_quantity')::integer,
+         (tier->>'unit_price')::numeric
+  FROM jsonb_array_elements(p_tiers) AS tier
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_product_price_tiers(uuid, jsonb) TO authenticated;
@@ -0,0 +1,320 @@
+/*
+  # Product Variants
+
+  Apparel such as polos and hoodies comes in several sizes and colours. Each
+  product lists its option axes and every variant picks one value per axis,
+  with its own SKU, stock and price adjustment on top of the product price.
+
+  Changes:
+  - products.variant_axes: [{name, values}] option axes, empty for simple products
+  - product_variants: one row per option combination
+  - products.stock is kept equal to the total stock of its active variants
+  - cart_items.variant_id: a cart may hold several variants of one product
+  - order_items: variant_id, sku and variant_label snapshot
+  - place_order(), release_order_stock() and merge_guest_cart() reserve, return
+    and merge stock per variant
+  - set_product_variants(): replaces a product's axes and variant matrix (admins only via RLS)
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_axes jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  sku text UNIQUE NOT NULL,
+  options jsonb NOT NULL, -- {"Size": "M", "Colour": "Navy"}
+  price_delta numeric(10,2) NOT NULL DEFAULT 0,
+  stock integer NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view variants" ON product_variants;
+CREATE POLICY "Anyone can view variants"
+  ON product_variants FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage variants" ON product_variants;
+CREATE POLICY "Admins can manage variants"
+  ON product_variants FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Keep listing stock badges right for products sold by variant.
+-- Products whose last variant is removed keep their current stock.
+CREATE OR REPLACE FUNCTION sync_product_stock_from_variants()
+RETURNS trigger AS $$
+DECLARE
+  v_product_id uuid := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE products
+  SET stock = COALESCE((
+    SELECT SUM(stock) FROM product_variants
+    WHERE product_id = v_product_id AND is_active
+  ), 0)
+  WHERE id = v_product_id
+    AND EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_product_stock_from_variants ON product_variants;
+CREATE TRIGGER sync_product_stock_from_variants
+  AFTER INSERT OR UPDATE OF stock, is_active OR DELETE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION sync_product_stock_from_variants();
+
+-- Cart lines are unique per product and variant; NULL variant means a simple product
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_id_product_id_key;
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_product_variant_key;
+ALTER TABLE cart_items ADD CONSTRAINT cart_items_user_product_variant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_label text; -- e.g. "M / Navy"
+
+-- p_items: [{product_id, variant_id, sku, variant_label, product_name, unit_price, quantity, vat_rate}]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock.
+  -- Variant lines reserve variant stock; simple products reserve product stock.
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF v_line.variant_id IS NULL THEN
+      SELECT stock, name INTO v_stock, v_name
+      FROM products
+      WHERE id = v_line.product_id
+      FOR UPDATE;
+    ELSE
+      SELECT v.stock,
+             p.name || ' (' || (SELECT string_agg(value, ' / ') FROM jsonb_each_text(v.options)) || ')'
+      INTO v_stock, v_name
+      FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      WHERE v.id = v_line.variant_id AND v.product_id = v_line.product_id
+      FOR UPDATE OF v;
+    END IF;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  UPDATE product_variants v
+  SET stock = v.stock - lines.quantity
+  FROM (
+    SELECT (line->>'variant_id')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NOT NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE v.id = lines.variant_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_shipping_address->'customerInfo'->>'email' END,
+    p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, sku, variant_label, product_name,
+    unit_price, quantity, vat_rate, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    NULLIF(line->>'variant_id', '')::uuid,
+    line->>'sku',
+    line->>'variant_label',
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer, 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  -- Guest carts live in the browser, so there is nothing to clear for them
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items c
+    USING jsonb_array_elements(p_items) AS line
+    WHERE c.user_id = p_user_id
+      AND c.product_id = (line->>'product_id')::uuid
+      AND c.variant_id IS NOT DISTINCT FROM NULLIF(line->>'variant_id', '')::uuid;
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION release_order_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND OLD.stock_reserved THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM order_items
+      WHERE order_id = OLD.id AND product_id IS NOT NULL AND variant_id IS NULL
+      GROUP BY product_id
+    ) AS lines
+    WHERE p.id = lines.product_id;
+
+    UPDATE product_variants v
+    SET stock = v.stock + lines.quantity
+    FROM (
+      SELECT variant_id, SUM(quantity) AS quantity
+      FROM order_items
+      WHERE order_id = OLD.id AND variant_id IS NOT NULL
+      GROUP BY variant_id
+    ) AS lines
+    WHERE v.id = lines.variant_id;
+
+    NEW.stock_reserved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_items: [{product_id, variant_id, quantity}]. Runs as the caller so cart RLS applies.
+CREATE OR REPLACE FUNCTION merge_guest_cart(p_items jsonb)
+RETURNS SETOF cart_items AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO cart_items (user_id, product_id, variant_id, quantity)
+  SELECT auth.uid(), lines.product_id, lines.variant_id, lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2
+  ) AS lines
+  WHERE lines.quantity > 0
+    AND EXISTS (SELECT 1 FROM products p WHERE p.id = lines.product_id AND p.is_active)
+    AND (
+      lines.variant_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM product_variants v
+        WHERE v.id = lines.variant_id AND v.product_id = lines.product_id AND v.is_active
+      )
+    )
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_axes: [{name, values}], p_variants: [{sku, options, price_delta, stock, is_active}].
+-- Variants are matched on their options so existing ids (and cart lines) survive edits;
+-- combinations no longer listed are removed. Runs as the caller so the admin policy applies.
+CREATE OR REPLACE FUNCTION set_product_variants(p_product_id uuid, p_axes jsonb, p_variants jsonb)
+RETURNS SETOF product_variants AS $$
+BEGIN
+  UPDATE products
+  SET variant_axes = p_axes, updated_at = now()
+  WHERE id = p_product_id;
+
+  DELETE FROM product_variants v
+  WHERE v.product_id = p_product_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_variants) AS variant
+      WHERE variant->'options' = v.options
+    );
+
+  RETURN QUERY
+  INSERT INTO product_variants (product_id, sku, options, price_delta, stock, is_active)
+  SELECT p_product_id,
+         variant->>'sku',
+         variant->'options',
+         COALESCE((variant->>'price_delta')::numeric, 0),
+         COALESCE((variant->>'stock')::integer, 0),
+         COALESCE((variant->>'is_active')::boolean, true)
+  FROM jsonb_array_elements(p_variants) AS variant
+  ON CONFLICT (product_id, options)
+  DO UPDATE SET
+    sku = EXCLUDED.sku,
+    price_delta = EXCLUDED.price_delta,
+    stock = EXCLUDED.stock,
+    is_active = EXCLUDED.is_active,
+    updated_at = now()
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_product_variants(uuid, jsonb, jsonb) TO authenticated;
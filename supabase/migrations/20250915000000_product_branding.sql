@@ -0,0 +1,289 @@
+/*
+  # Product Branding Options and Artwork
+
+  Customers choose how a product is branded (embroidery, printing, ...), where,
+  in which colours, and upload their logo. The choice travels with the cart
+  line into the order so production can see exactly what to print.
+
+  Changes:
+  - product_decoration_options: per product branding method, positions, colour limit,
+    once-off setup fee and per-unit fee
+  - artwork storage bucket (private); customers upload into a folder named after their user id
+  - media_files.bucket: which storage bucket file_path lives in
+  - cart_items.customisation / customisation_key: branding per cart line; lines with
+    different branding for the same product and variant are kept apart
+  - order_items.customisation / setup_fee; line_total now includes the setup fee
+  - place_order() and merge_guest_cart() carry the customisation
+  - set_product_decoration_options(): replaces a product's branding options (admins only via RLS)
+*/
+
+CREATE TABLE IF NOT EXISTS product_decoration_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  method text NOT NULL CHECK (method IN (
+    'embroidery', 'screen_print', 'heat_transfer', 'digital_print', 'pad_print', 'laser_engraving'
+  )),
+  positions text[] NOT NULL DEFAULT '{}',
+  max_colours integer CHECK (max_colours > 0), -- NULL for full colour methods
+  setup_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (setup_fee >= 0),
+  unit_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (unit_fee >= 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(product_id, method)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_decoration_options_product_id ON product_decoration_options(product_id);
+
+ALTER TABLE product_decoration_options ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view decoration options" ON product_decoration_options;
+CREATE POLICY "Anyone can view decoration options"
+  ON product_decoration_options FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage decoration options" ON product_decoration_options;
+CREATE POLICY "Admins can manage decoration options"
+  ON product_decoration_options FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- p_options: [{method, positions, max_colours, setup_fee, unit_fee}]. Runs as the caller so the admin policy applies.
+CREATE OR REPLACE FUNCTION set_product_decoration_options(p_product_id uuid, p_options jsonb)
+RETURNS SETOF product_decoration_options AS $$
+BEGIN
+  DELETE FROM product_decoration_options o
+  WHERE o.product_id = p_product_id
+    AND o.method NOT IN (SELECT option->>'method' FROM jsonb_array_elements(p_options) AS option);
+
+  -- Upsert on method so ids referenced by existing cart lines stay valid
+  RETURN QUERY
+  INSERT INTO product_decoration_options (product_id, method, positions, max_colours, setup_fee, unit_fee)
+  SELECT p_product_id,
+         option->>'method',
+         ARRAY(SELECT jsonb_array_elements_text(option->'positions')),
+         NULLIF(option->>'max_colours', '')::integer,
+         COALESCE((option->>'setup_fee')::numeric, 0),
+         COALESCE((option->>'unit_fee')::numeric, 0)
+  FROM jsonb_array_elements(p_options) AS option
+  ON CONFLICT (product_id, method)
+  DO UPDATE SET
+    positions = EXCLUDED.positions,
+    max_colours = EXCLUDED.max_colours,
+    setup_fee = EXCLUDED.setup_fee,
+    unit_fee = EXCLUDED.unit_fee
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_product_decoration_options(uuid, jsonb) TO authenticated;
+
+-- Artwork uploads
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS bucket text NOT NULL DEFAULT 'products';
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('artwork', 'artwork', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Artwork: users upload own" ON storage.objects;
+CREATE POLICY "Artwork: users upload own" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'artwork' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Artwork: users read own" ON storage.objects;
+CREATE POLICY "Artwork: users read own" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'artwork' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Artwork: admin read access" ON storage.objects;
+CREATE POLICY "Artwork: admin read access" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'artwork'
+    AND EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.role = 'admin' OR p.is_admin = true)
+    )
+  );
+
+-- Cart and order lines
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS customisation jsonb;
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS customisation_key text NOT NULL DEFAULT ''; -- see customisationKey() in shared/customisation
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS cart_items_user_product_variant_key;
+ALTER TABLE cart_items ADD CONSTRAINT cart_items_user_product_variant_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id, customisation_key);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS customisation jsonb;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS setup_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (setup_fee >= 0);
+
+-- p_items: [{product_id, variant_id, sku, variant_label, product_name, unit_price, quantity,
+--            vat_rate, customisation, customisation_key, setup_fee}]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock.
+  -- Variant lines reserve variant stock; simple products reserve product stock.
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF v_line.variant_id IS NULL THEN
+      SELECT stock, name INTO v_stock, v_name
+      FROM products
+      WHERE id = v_line.product_id
+      FOR UPDATE;
+    ELSE
+      SELECT v.stock,
+             p.name || ' (' || (SELECT string_agg(value, ' / ') FROM jsonb_each_text(v.options)) || ')'
+      INTO v_stock, v_name
+      FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      WHERE v.id = v_line.variant_id AND v.product_id = v_line.product_id
+      FOR UPDATE OF v;
+    END IF;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  UPDATE product_variants v
+  SET stock = v.stock - lines.quantity
+  FROM (
+    SELECT (line->>'variant_id')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NOT NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE v.id = lines.variant_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, subtotal, shipping_fee, tax, total,
+    status, shipping_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_shipping_address->'customerInfo'->>'email' END,
+    p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, sku, variant_label, product_name,
+    unit_price, quantity, vat_rate, customisation, setup_fee, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    NULLIF(line->>'variant_id', '')::uuid,
+    line->>'sku',
+    line->>'variant_label',
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    NULLIF(line->'customisation', 'null'::jsonb),
+    COALESCE((line->>'setup_fee')::numeric, 0),
+    ROUND(((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0)) * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0), 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  -- Guest carts live in the browser, so there is nothing to clear for them
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items c
+    USING jsonb_array_elements(p_items) AS line
+    WHERE c.user_id = p_user_id
+      AND c.product_id = (line->>'product_id')::uuid
+      AND c.variant_id IS NOT DISTINCT FROM NULLIF(line->>'variant_id', '')::uuid
+      AND c.customisation_key = COALESCE(line->>'customisation_key', '');
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_items: [{product_id, variant_id, customisation, customisation_key, quantity}]. Runs as the caller so cart RLS applies.
+CREATE OR REPLACE FUNCTION merge_guest_cart(p_items jsonb)
+RETURNS SETOF cart_items AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO cart_items (user_id, product_id, variant_id, customisation, customisation_key, quantity)
+  SELECT auth.uid(), lines.product_id, lines.variant_id, lines.customisation, lines.customisation_key, lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           COALESCE(line->>'customisation_key', '') AS customisation_key,
+           (array_agg(NULLIF(line->'customisation', 'null'::jsonb)))[1] AS customisation,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2, 3
+  ) AS lines
+  WHERE lines.quantity > 0
+    AND EXISTS (SELECT 1 FROM products p WHERE p.id = lines.product_id AND p.is_active)
+    AND (
+      lines.variant_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM product_variants v
+        WHERE v.id = lines.variant_id AND v.product_id = lines.product_id AND v.is_active
+      )
+    )
+  ON CONFLICT (user_id, product_id, variant_id, customisation_key)
+  DO UPDATE SET quantity = cart_items.quantity + EXCLUDED.quantity
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,299 @@
+/*
+  # Request-a-Quote Workflow
+
+  Corporate buyers often need a formal quote before procurement approves a
+  purchase. A quote is requested from the cart at catalogue prices, sales
+  adjust prices, freight and validity and send it back, and the customer
+  accepts it (placing an order at the quoted prices) or declines it.
+
+  Changes:
+  - quotes: one per request, with the customer's notes, delivery details, validity and totals
+  - quote_items: quoted lines, shaped like order_items so acceptance can copy them across
+  - request_quote(): writes the quote and clears the quoted cart lines (server only)
+  - send_quote(): sales reprice lines and send the quote (admins only via RLS)
+  - accept_quote(): places the order at the quoted prices through place_order() (server only)
+*/
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'sent', 'accepted', 'declined')),
+  notes text,        -- from the customer
+  admin_notes text,  -- from sales, shown to the customer with the quote
+  valid_until date,  -- set when sent; the quote can be accepted through this date
+  shipping_address jsonb NOT NULL, -- same shape as orders.shipping_address
+  subtotal numeric(10,2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  shipping_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (shipping_fee >= 0),
+  tax numeric(10,2) NOT NULL DEFAULT 0 CHECK (tax >= 0),
+  total numeric(10,2) NOT NULL DEFAULT 0 CHECK (total >= 0),
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  sent_at timestamptz,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS quote_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id uuid REFERENCES quotes(id) ON DELETE CASCADE NOT NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  sku text,
+  variant_label text,
+  product_name text NOT NULL,
+  unit_price numeric(10,2) NOT NULL CHECK (unit_price >= 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  vat_rate numeric(5,4) NOT NULL DEFAULT 0.15 CHECK (vat_rate >= 0),
+  customisation jsonb,
+  customisation_key text NOT NULL DEFAULT '', -- see customisationKey() in shared/customisation
+  setup_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (setup_fee >= 0),
+  line_total numeric(10,2) NOT NULL CHECK (line_total >= 0), -- unit_price * quantity + setup_fee, excluding VAT
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_user_id ON quotes(user_id);
+CREATE INDEX IF NOT EXISTS idx_quotes_status ON quotes(status);
+CREATE INDEX IF NOT EXISTS idx_quote_items_quote_id ON quote_items(quote_id);
+
+DROP TRIGGER IF EXISTS update_quotes_updated_at ON quotes;
+CREATE TRIGGER update_quotes_updated_at
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quote_items ENABLE ROW LEVEL SECURITY;
+
+-- Customers only read their quotes; requests and responses go through the API
+DROP POLICY IF EXISTS "Users can view own quotes" ON quotes;
+CREATE POLICY "Users can view own quotes"
+  ON quotes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can manage quotes" ON quotes;
+CREATE POLICY "Admins can manage quotes"
+  ON quotes FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own quote items" ON quote_items;
+CREATE POLICY "Users can view own quote items"
+  ON quote_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes q
+      WHERE q.id = quote_items.quote_id AND q.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage quote items" ON quote_items;
+CREATE POLICY "Admins can manage quote items"
+  ON quote_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- p_items: same shape as place_order(). Totals are the catalogue prices at
+-- request time; sales replace them in send_quote().
+CREATE OR REPLACE FUNCTION request_quote(
+  p_user_id uuid,
+  p_items jsonb,
+  p_notes text,
+  p_shipping_address jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric
+)
+RETURNS quotes AS $$
+DECLARE
+  v_quote quotes;
+BEGIN
+  INSERT INTO quotes (user_id, notes, shipping_address, subtotal, shipping_fee, tax, total)
+  VALUES (p_user_id, NULLIF(trim(p_notes), ''), p_shipping_address, p_subtotal, p_shipping_fee, p_tax, p_total)
+  RETURNING * INTO v_quote;
+
+  INSERT INTO quote_items (
+    quote_id, product_id, variant_id, sku, variant_label, product_name,
+    unit_price, quantity, vat_rate, customisation, customisation_key, setup_fee, line_total
+  )
+  SELECT
+    v_quote.id,
+    (line->>'product_id')::uuid,
+    NULLIF(line->>'variant_id', '')::uuid,
+    line->>'sku',
+    line->>'variant_label',
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    NULLIF(line->'customisation', 'null'::jsonb),
+    COALESCE(line->>'customisation_key', ''),
+    COALESCE((line->>'setup_fee')::numeric, 0),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0), 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  DELETE FROM cart_items c
+  USING jsonb_array_elements(p_items) AS line
+  WHERE c.user_id = p_user_id
+    AND c.product_id = (line->>'product_id')::uuid
+    AND c.variant_id IS NOT DISTINCT FROM NULLIF(line->>'variant_id', '')::uuid
+    AND c.customisation_key = COALESCE(line->>'customisation_key', '');
+
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION request_quote(uuid, jsonb, text, jsonb, numeric, numeric, numeric, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_quote(uuid, jsonb, text, jsonb, numeric, numeric, numeric, numeric) TO service_role;
+
+-- p_items: [{id, unit_price, setup_fee}] for lines being repriced; other lines
+-- keep their price. Runs as the caller so the admin policies apply.
+-- Totals mirror calculateQuoteTotals() in shared/quotes.ts.
+CREATE OR REPLACE FUNCTION send_quote(
+  p_quote_id uuid,
+  p_items jsonb,
+  p_shipping_fee numeric,
+  p_valid_until date,
+  p_admin_notes text DEFAULT NULL
+)
+RETURNS quotes AS $$
+DECLARE
+  v_quote quotes;
+  v_subtotal numeric;
+  v_tax numeric;
+  v_shipping numeric := ROUND(p_shipping_fee, 2);
+BEGIN
+  SELECT * INTO v_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF v_quote.id IS NULL THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id;
+  END IF;
+  IF v_quote.status NOT IN ('requested', 'sent') THEN
+    RAISE EXCEPTION 'Quote has already been %', v_quote.status;
+  END IF;
+  IF p_valid_until < current_date THEN
+    RAISE EXCEPTION 'Valid until date must not be in the past';
+  END IF;
+
+  UPDATE quote_items qi
+  SET unit_price = (line->>'unit_price')::numeric,
+      setup_fee = COALESCE((line->>'setup_fee')::numeric, qi.setup_fee),
+      line_total = ROUND((line->>'unit_price')::numeric * qi.quantity + COALESCE((line->>'setup_fee')::numeric, qi.setup_fee), 2)
+  FROM jsonb_array_elements(p_items) AS line
+  WHERE qi.quote_id = p_quote_id
+    AND qi.id = (line->>'id')::uuid;
+
+  SELECT COALESCE(SUM(line_total), 0), ROUND(COALESCE(SUM(line_total * vat_rate), 0), 2)
+  INTO v_subtotal, v_tax
+  FROM quote_items
+  WHERE quote_id = p_quote_id;
+
+  UPDATE quotes
+  SET status = 'sent',
+      subtotal = v_subtotal,
+      shipping_fee = v_shipping,
+      tax = v_tax,
+      total = v_subtotal + v_shipping + v_tax,
+      valid_until = p_valid_until,
+      admin_notes = NULLIF(trim(p_admin_notes), ''),
+      sent_at = now()
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  RETURN v_quote;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION send_quote(uuid, jsonb, numeric, date, text) TO authenticated;
+
+-- Places an order at the quoted prices. Raises quote_not_found, quote_not_open
+-- or quote_expired, or insufficient_stock from place_order().
+CREATE OR REPLACE FUNCTION accept_quote(
+  p_quote_id uuid,
+  p_user_id uuid,
+  p_payment_method text
+)
+RETURNS orders AS $$
+DECLARE
+  v_quote quotes;
+  v_order orders;
+BEGIN
+  -- Lock the quote so a double submit cannot place two orders
+  SELECT * INTO v_quote
+  FROM quotes
+  WHERE id = p_quote_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_quote.id IS NULL THEN
+    RAISE EXCEPTION 'quote_not_found';
+  END IF;
+  IF v_quote.status <> 'sent' THEN
+    RAISE EXCEPTION 'quote_not_open';
+  END IF;
+  IF v_quote.valid_until < current_date THEN
+    RAISE EXCEPTION 'quote_expired';
+  END IF;
+
+  v_order := place_order(
+    p_user_id,
+    (
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', qi.product_id,
+        'variant_id', qi.variant_id,
+        'sku', qi.sku,
+        'variant_label', qi.variant_label,
+        'product_name', qi.product_name,
+        'unit_price', qi.unit_price,
+        'quantity', qi.quantity,
+        'vat_rate', qi.vat_rate,
+        'customisation', qi.customisation,
+        'customisation_key', qi.customisation_key,
+        'setup_fee', qi.setup_fee
+      ))
+      FROM quote_items qi
+      WHERE qi.quote_id = p_quote_id
+    ),
+    v_quote.subtotal,
+    v_quote.shipping_fee,
+    v_quote.tax,
+    v_quote.total,
+    v_quote.shipping_address,
+    p_payment_method
+  );
+
+  UPDATE quotes
+  SET status = 'accepted',
+      order_id = v_order.id,
+      responded_at = now()
+  WHERE id = p_quote_id;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION accept_quote(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_quote(uuid, uuid, text) TO service_role;
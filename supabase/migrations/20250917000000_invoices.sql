@@ -0,0 +1,92 @@
+/*
+  # Tax Invoices
+
+  South African customers need a VAT invoice for each order. Invoice numbers
+  must be sequential without gaps, so they come from a locked counter row
+  rather than a sequence (sequences skip values on rolled-back transactions).
+  An order gets its number the first time its invoice is downloaded and keeps
+  it for every later download.
+
+  Changes:
+  - document_counters: last number issued per document kind
+  - invoices: one per order, with its INV-000001 style number
+  - issue_invoice(): returns the order's invoice, numbering it on first use (server only)
+*/
+
+CREATE TABLE IF NOT EXISTS document_counters (
+  kind text PRIMARY KEY,
+  last_value integer NOT NULL DEFAULT 0 CHECK (last_value >= 0)
+);
+
+INSERT INTO document_counters (kind) VALUES ('invoice')
+ON CONFLICT (kind) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE RESTRICT NOT NULL UNIQUE,
+  invoice_number text NOT NULL UNIQUE,
+  issued_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE document_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own invoices" ON invoices;
+CREATE POLICY "Users can view own invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = invoices.order_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all invoices" ON invoices;
+CREATE POLICY "Admins can view all invoices"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION issue_invoice(p_order_id uuid)
+RETURNS invoices AS $$
+DECLARE
+  v_order orders;
+  v_invoice invoices;
+  v_number integer;
+BEGIN
+  -- Lock the order so two first downloads cannot both take a number
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE order_id = p_order_id;
+  IF v_invoice.id IS NOT NULL THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'order_cancelled';
+  END IF;
+
+  UPDATE document_counters
+  SET last_value = last_value + 1
+  WHERE kind = 'invoice'
+  RETURNING last_value INTO v_number;
+
+  INSERT INTO invoices (order_id, invoice_number)
+  VALUES (p_order_id, 'INV-' || lpad(v_number::text, 6, '0'))
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_invoice(uuid) TO service_role;
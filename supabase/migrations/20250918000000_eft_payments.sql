@@ -0,0 +1,148 @@
+/*
+  # EFT Payments
+
+  Orders paid by bank transfer are matched to bank statement lines by a
+  reference the customer quotes on their payment. Customers can upload proof
+  of payment, and admins reconcile received payments against orders.
+
+  Changes:
+  - orders.payment_reference: unique bank reference (APX100001), set on insert and backfilled
+  - orders.payment_status: unpaid -> proof_submitted -> paid (see shared/payments.ts)
+  - orders.proof_of_payment_path / proof_submitted_at: upload in the payment-proofs bucket
+  - orders.paid_at / amount_paid: recorded when an admin reconciles the payment
+  - payment-proofs storage bucket: customers upload into their own folder, admins read all
+  - submit_proof_of_payment(): attaches an upload to the customer's own order
+  - record_order_payment(): admins mark an order paid and move it on to processing
+*/
+
+CREATE SEQUENCE IF NOT EXISTS order_payment_reference_seq START 100001;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_reference text UNIQUE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_status text NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'proof_submitted', 'paid'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS proof_of_payment_path text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS proof_submitted_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS paid_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS amount_paid numeric(10,2) CHECK (amount_paid >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);
+
+CREATE OR REPLACE FUNCTION set_order_payment_reference()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.payment_reference IS NULL THEN
+    NEW.payment_reference := 'APX' || nextval('order_payment_reference_seq');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_order_payment_reference ON orders;
+CREATE TRIGGER set_order_payment_reference
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_order_payment_reference();
+
+UPDATE orders
+SET payment_reference = 'APX' || nextval('order_payment_reference_seq')
+WHERE payment_reference IS NULL;
+
+ALTER TABLE orders ALTER COLUMN payment_reference SET NOT NULL;
+
+-- Proof of payment uploads
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Payment proofs: users upload own" ON storage.objects;
+CREATE POLICY "Payment proofs: users upload own" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Payment proofs: users read own" ON storage.objects;
+CREATE POLICY "Payment proofs: users read own" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Payment proofs: admin read access" ON storage.objects;
+CREATE POLICY "Payment proofs: admin read access" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'payment-proofs'
+    AND EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.role = 'admin' OR p.is_admin = true)
+    )
+  );
+
+-- Customers cannot update orders directly, so this only touches the proof
+-- columns of an unpaid order they own, with a file from their own folder.
+CREATE OR REPLACE FUNCTION submit_proof_of_payment(
+  p_order_id uuid,
+  p_path text
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF (storage.foldername(p_path))[1] IS DISTINCT FROM auth.uid()::text THEN
+    RAISE EXCEPTION 'invalid_proof_path';
+  END IF;
+
+  UPDATE orders
+  SET proof_of_payment_path = p_path,
+      proof_submitted_at = now(),
+      payment_status = 'proof_submitted'
+  WHERE id = p_order_id
+    AND user_id = auth.uid()
+    AND payment_status <> 'paid'
+    AND status <> 'cancelled'
+  RETURNING * INTO v_order;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_payable';
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION submit_proof_of_payment(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_proof_of_payment(uuid, text) TO authenticated;
+
+-- Runs with the caller's permissions, so the admin update policy on orders
+-- applies. Pending orders move to processing with the payment in the note.
+CREATE OR REPLACE FUNCTION record_order_payment(
+  p_order_id uuid,
+  p_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  UPDATE orders
+  SET payment_status = 'paid',
+      paid_at = now(),
+      amount_paid = p_amount
+  WHERE id = p_order_id
+    AND payment_status <> 'paid'
+    AND status <> 'cancelled'
+  RETURNING * INTO v_order;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_payable';
+  END IF;
+
+  IF v_order.status = 'pending' THEN
+    v_order := update_order_status(
+      p_order_id,
+      'processing',
+      COALESCE(NULLIF(p_note, ''), 'Payment of R' || to_char(p_amount, 'FM999999990.00') || ' received')
+    );
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_order_payment(uuid, numeric, text) TO authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Card Payments
+
+  Card payments go through a pluggable gateway (server/lib/paymentProvider.ts).
+  The order remembers which gateway took the payment and the gateway's intent
+  id, so confirmations, refunds and webhooks can find it again.
+
+  Changes:
+  - orders.payment_provider: gateway name, e.g. 'mock'
+  - orders.payment_intent_id: the gateway's id for the latest payment attempt
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_provider text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS payment_intent_id text;
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_intent_id ON orders(payment_intent_id);
@@ -0,0 +1,114 @@
+/*
+  # Payment Webhooks
+
+  Card gateways report payment outcomes asynchronously. Every verified webhook
+  is stored once, keyed by the gateway's event id, and applied to the order it
+  belongs to in the same transaction, so a redelivered event changes nothing.
+
+  Changes:
+  - orders.payment_status: adds 'failed' and 'refunded'
+  - payment_events: one row per gateway event with its outcome; admins can read
+  - apply_payment_event(): records an event and moves its order to paid, failed or refunded
+*/
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('unpaid', 'proof_submitted', 'paid', 'failed', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  intent_id text,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  outcome text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON payment_events(order_id);
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Payment events: admin read access" ON payment_events;
+CREATE POLICY "Payment events: admin read access" ON payment_events
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Returns the outcome: 'duplicate' when the event was already received,
+-- otherwise paid, failed, refunded, partially_refunded, ignored or
+-- order_not_found. Anything that raises rolls the event back as well, so the
+-- gateway's retry is processed afresh.
+CREATE OR REPLACE FUNCTION apply_payment_event(
+  p_provider text,
+  p_event_id text,
+  p_event_type text,
+  p_intent_id text,
+  p_amount numeric,
+  p_payload jsonb
+)
+RETURNS text AS $$
+DECLARE
+  v_event_id uuid;
+  v_order orders;
+  v_outcome text := 'ignored';
+BEGIN
+  INSERT INTO payment_events (provider, event_id, event_type, intent_id, payload)
+  VALUES (p_provider, p_event_id, p_event_type, p_intent_id, COALESCE(p_payload, '{}'::jsonb))
+  ON CONFLICT (provider, event_id) DO NOTHING
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE payment_provider = p_provider AND payment_intent_id = p_intent_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    v_outcome := 'order_not_found';
+  ELSIF p_event_type = 'payment.succeeded' THEN
+    IF v_order.payment_status NOT IN ('paid', 'refunded') AND v_order.status <> 'cancelled' THEN
+      PERFORM record_order_payment(
+        v_order.id,
+        COALESCE(p_amount, v_order.total),
+        'Card payment received (' || p_provider || ' ' || p_intent_id || ')'
+      );
+      v_outcome := 'paid';
+    END IF;
+  ELSIF p_event_type = 'payment.failed' THEN
+    IF v_order.payment_status NOT IN ('paid', 'refunded') THEN
+      UPDATE orders SET payment_status = 'failed' WHERE id = v_order.id;
+      v_outcome := 'failed';
+    END IF;
+  ELSIF p_event_type = 'refund.succeeded' THEN
+    IF v_order.payment_status = 'paid' THEN
+      IF p_amount IS NULL OR p_amount >= COALESCE(v_order.amount_paid, v_order.total) THEN
+        UPDATE orders SET payment_status = 'refunded' WHERE id = v_order.id;
+        v_outcome := 'refunded';
+      ELSE
+        v_outcome := 'partially_refunded';
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE payment_events
+  SET order_id = v_order.id,
+      outcome = v_outcome
+  WHERE id = v_event_id;
+
+  RETURN v_outcome;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_payment_event(text, text, text, text, numeric, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_payment_event(text, text, text, text, numeric, jsonb) TO service_role;
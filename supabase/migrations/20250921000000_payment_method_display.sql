@@ -0,0 +1,73 @@
+/*
+  # Payment Method Display Fields
+
+  Saved cards keep the gateway token in provider_pm_id. The details shown to
+  the customer now live in their own columns instead of loose metadata, so
+  expiry can be checked and warned about.
+
+  Changes:
+  - payment_methods.brand / last4 / exp_month / exp_year: backfilled from metadata
+  - one default payment method per user, enforced by a partial unique index
+  - set_default_payment_method(): switches the default in a single call
+*/
+
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS brand text;
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS last4 text
+  CHECK (last4 ~ '^[0-9]{4}$');
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS exp_month integer
+  CHECK (exp_month BETWEEN 1 AND 12);
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS exp_year integer
+  CHECK (exp_year >= 2000);
+
+UPDATE payment_methods
+SET brand = metadata->>'brand',
+    last4 = CASE WHEN metadata->>'last4' ~ '^[0-9]{4}$' THEN metadata->>'last4' END,
+    exp_month = CASE WHEN metadata->>'exp_month' ~ '^([1-9]|1[0-2])$' THEN (metadata->>'exp_month')::integer END,
+    exp_year = CASE WHEN metadata->>'exp_year' ~ '^20[0-9]{2}$' THEN (metadata->>'exp_year')::integer END
+WHERE metadata IS NOT NULL AND last4 IS NULL;
+
+-- Keep only the newest default per user before enforcing a single default
+UPDATE payment_methods pm
+SET is_default = false
+WHERE pm.is_default
+  AND EXISTS (
+    SELECT 1 FROM payment_methods newer
+    WHERE newer.user_id = pm.user_id
+      AND newer.is_default
+      AND (newer.created_at, newer.id) > (pm.created_at, pm.id)
+  );
+
+DROP INDEX IF EXISTS idx_payment_methods_default;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_methods_one_default
+  ON payment_methods(user_id) WHERE is_default;
+
+-- Runs with the caller's permissions, so the payment_methods policy limits it
+-- to the customer's own cards. Both updates commit together.
+CREATE OR REPLACE FUNCTION set_default_payment_method(p_method_id uuid)
+RETURNS payment_methods AS $$
+DECLARE
+  v_method payment_methods;
+BEGIN
+  SELECT * INTO v_method
+  FROM payment_methods
+  WHERE id = p_method_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_method.id IS NULL THEN
+    RAISE EXCEPTION 'payment_method_not_found';
+  END IF;
+
+  UPDATE payment_methods
+  SET is_default = false
+  WHERE user_id = v_method.user_id AND is_default AND id <> p_method_id;
+
+  UPDATE payment_methods
+  SET is_default = true
+  WHERE id = p_method_id
+  RETURNING * INTO v_method;
+
+  RETURN v_method;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_default_payment_method(uuid) TO authenticated;
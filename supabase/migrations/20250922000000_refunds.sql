@@ -0,0 +1,261 @@
+/*
+  # Refunds and Partial Cancellations
+
+  Admins can cancel some units of an order line instead of the whole order.
+  Cancelled units go back into stock and are refunded, through the card
+  gateway when the order was paid by card or by hand otherwise. Every refund
+  is a credit note with a gap-free CN-000001 style number.
+
+  Changes:
+  - order_items.cancelled_quantity: units cancelled so far
+  - refunds: one per credit note, with how the money was returned
+  - refund_items: the units of each order line a refund covers
+  - record_order_refund(): cancels the units, restocks them and issues the credit note (server only)
+  - release_order_stock(): cancelling an order only returns units not already cancelled
+*/
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS cancelled_quantity integer NOT NULL DEFAULT 0
+  CHECK (cancelled_quantity >= 0 AND cancelled_quantity <= quantity);
+
+INSERT INTO document_counters (kind) VALUES ('credit_note')
+ON CONFLICT (kind) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE RESTRICT NOT NULL,
+  credit_note_number text NOT NULL UNIQUE,
+  reason text NOT NULL,
+  method text NOT NULL CHECK (method IN ('provider', 'manual', 'none')),
+  provider text,
+  provider_refund_id text,
+  subtotal numeric(10,2) NOT NULL CHECK (subtotal >= 0),
+  shipping numeric(10,2) NOT NULL DEFAULT 0 CHECK (shipping >= 0),
+  tax numeric(10,2) NOT NULL CHECK (tax >= 0),
+  total numeric(10,2) NOT NULL CHECK (total >= 0),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id uuid REFERENCES refunds(id) ON DELETE CASCADE NOT NULL,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE RESTRICT NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  subtotal numeric(10,2) NOT NULL CHECK (subtotal >= 0), -- excluding VAT
+  tax numeric(10,2) NOT NULL CHECK (tax >= 0),
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own refunds" ON refunds;
+CREATE POLICY "Users can view own refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = refunds.order_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all refunds" ON refunds;
+CREATE POLICY "Admins can view all refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own refund items" ON refund_items;
+CREATE POLICY "Users can view own refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM refunds r
+      JOIN orders o ON o.id = r.order_id
+      WHERE r.id = refund_items.refund_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all refund items" ON refund_items;
+CREATE POLICY "Admins can view all refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Units already cancelled were restocked when their refund was recorded
+CREATE OR REPLACE FUNCTION release_order_stock()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND OLD.stock_reserved THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT product_id, SUM(quantity - cancelled_quantity) AS quantity
+      FROM order_items
+      WHERE order_id = OLD.id AND product_id IS NOT NULL AND variant_id IS NULL
+      GROUP BY product_id
+    ) AS lines
+    WHERE p.id = lines.product_id AND lines.quantity > 0;
+
+    UPDATE product_variants v
+    SET stock = v.stock + lines.quantity
+    FROM (
+      SELECT variant_id, SUM(quantity - cancelled_quantity) AS quantity
+      FROM order_items
+      WHERE order_id = OLD.id AND variant_id IS NOT NULL
+      GROUP BY variant_id
+    ) AS lines
+    WHERE v.id = lines.variant_id AND lines.quantity > 0;
+
+    NEW.stock_reserved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_lines: [{order_item_id, quantity, subtotal, tax, amount}], priced by the
+-- server with shared/refunds.ts. Raises order_not_found, order_cancelled,
+-- invalid_refund_quantity or shipping_already_refunded. An order with every
+-- unit cancelled before it ships is cancelled outright.
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_lines jsonb,
+  p_reason text,
+  p_shipping numeric,
+  p_method text,
+  p_provider text,
+  p_provider_refund_id text,
+  p_created_by uuid
+)
+RETURNS refunds AS $$
+DECLARE
+  v_order orders;
+  v_refund refunds;
+  v_line jsonb;
+  v_number integer;
+  v_refunded numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'order_cancelled';
+  END IF;
+  IF COALESCE(p_shipping, 0) > 0 AND EXISTS (
+    SELECT 1 FROM refunds WHERE order_id = p_order_id AND shipping > 0
+  ) THEN
+    RAISE EXCEPTION 'shipping_already_refunded';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    UPDATE order_items
+    SET cancelled_quantity = cancelled_quantity + (v_line->>'quantity')::integer
+    WHERE id = (v_line->>'order_item_id')::uuid
+      AND order_id = p_order_id
+      AND cancelled_quantity + (v_line->>'quantity')::integer <= quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_refund_quantity';
+    END IF;
+  END LOOP;
+
+  -- Orders placed before stock reservation never took stock, so none goes back
+  IF v_order.stock_reserved THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT oi.product_id, SUM((line->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_lines) AS line
+      JOIN order_items oi ON oi.id = (line->>'order_item_id')::uuid
+      WHERE oi.product_id IS NOT NULL AND oi.variant_id IS NULL
+      GROUP BY oi.product_id
+    ) AS lines
+    WHERE p.id = lines.product_id;
+
+    UPDATE product_variants v
+    SET stock = v.stock + lines.quantity
+    FROM (
+      SELECT oi.variant_id, SUM((line->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_lines) AS line
+      JOIN order_items oi ON oi.id = (line->>'order_item_id')::uuid
+      WHERE oi.variant_id IS NOT NULL
+      GROUP BY oi.variant_id
+    ) AS lines
+    WHERE v.id = lines.variant_id;
+  END IF;
+
+  UPDATE document_counters
+  SET last_value = last_value + 1
+  WHERE kind = 'credit_note'
+  RETURNING last_value INTO v_number;
+
+  INSERT INTO refunds (
+    order_id, credit_note_number, reason, method, provider, provider_refund_id,
+    subtotal, shipping, tax, total, created_by
+  )
+  SELECT
+    p_order_id,
+    'CN-' || lpad(v_number::text, 6, '0'),
+    p_reason,
+    p_method,
+    p_provider,
+    p_provider_refund_id,
+    COALESCE(SUM((line->>'subtotal')::numeric), 0),
+    COALESCE(p_shipping, 0),
+    COALESCE(SUM((line->>'tax')::numeric), 0),
+    COALESCE(SUM((line->>'amount')::numeric), 0) + COALESCE(p_shipping, 0),
+    p_created_by
+  FROM jsonb_array_elements(p_lines) AS line
+  RETURNING * INTO v_refund;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, subtotal, tax, amount)
+  SELECT
+    v_refund.id,
+    (line->>'order_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'subtotal')::numeric,
+    (line->>'tax')::numeric,
+    (line->>'amount')::numeric
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  IF v_order.payment_status = 'paid' THEN
+    SELECT SUM(total) INTO v_refunded FROM refunds WHERE order_id = p_order_id;
+    IF v_refunded >= COALESCE(v_order.amount_paid, v_order.total) THEN
+      UPDATE orders SET payment_status = 'refunded' WHERE id = p_order_id;
+    END IF;
+  END IF;
+
+  IF v_order.status IN ('pending', 'processing') AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = p_order_id AND cancelled_quantity < quantity
+  ) THEN
+    PERFORM update_order_status(
+      p_order_id,
+      'cancelled',
+      'All items cancelled (credit note ' || v_refund.credit_note_number || ')'
+    );
+  END IF;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_order_refund(uuid, jsonb, text, numeric, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_order_refund(uuid, jsonb, text, numeric, text, text, text, uuid) TO service_role;
@@ -0,0 +1,289 @@
+/*
+  # Company (B2B) Accounts
+
+  Our customers are mostly companies where several staff order against one
+  account. A company has members with a role (owner, buyer or approver),
+  shared delivery addresses and a VAT number, and every order a member
+  places is attributed to their company.
+
+  Changes:
+  - companies: the account, with its VAT number for tax invoices
+  - company_members: who belongs to which company and in what role (one company per person)
+  - company_addresses: delivery addresses shared by all members, with one default
+  - orders.company_id: set automatically when a member places an order
+  - company_role(): the caller's role in a company, for policies
+  - create_company(): creates a company with its first owner (server only)
+  - Owners and approvers can view all of their company's orders
+*/
+
+CREATE TABLE IF NOT EXISTS companies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  vat_number text CHECK (vat_number ~ '^4[0-9]{9}$'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Members are added and removed through the API, which keeps an owner
+CREATE TABLE IF NOT EXISTS company_members (
+  company_id uuid REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  role text NOT NULL CHECK (role IN ('owner', 'buyer', 'approver')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS company_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id uuid REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  label text NOT NULL,       -- e.g. "Head office", "Durban warehouse"
+  recipient text,
+  phone text,
+  address text NOT NULL,
+  city text NOT NULL,
+  province text NOT NULL,
+  postal_code text NOT NULL,
+  country text NOT NULL DEFAULT 'South Africa',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_company_addresses_company_id ON company_addresses(company_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_addresses_one_default
+  ON company_addresses(company_id) WHERE is_default;
+CREATE INDEX IF NOT EXISTS idx_orders_company_id ON orders(company_id);
+
+DROP TRIGGER IF EXISTS update_companies_updated_at ON companies;
+CREATE TRIGGER update_companies_updated_at
+  BEFORE UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS update_company_addresses_updated_at ON company_addresses;
+CREATE TRIGGER update_company_addresses_updated_at
+  BEFORE UPDATE ON company_addresses
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Making an address the default clears the previous one
+CREATE OR REPLACE FUNCTION clear_default_company_address()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE company_addresses
+    SET is_default = false
+    WHERE company_id = NEW.company_id AND id <> NEW.id AND is_default;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_default_company_address ON company_addresses;
+CREATE TRIGGER clear_default_company_address
+  BEFORE INSERT OR UPDATE OF is_default ON company_addresses
+  FOR EACH ROW EXECUTE FUNCTION clear_default_company_address();
+
+-- Covers place_order() and accepted quotes alike
+CREATE OR REPLACE FUNCTION set_order_company()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.company_id IS NULL AND NEW.user_id IS NOT NULL THEN
+    SELECT company_id INTO NEW.company_id
+    FROM company_members
+    WHERE user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_order_company ON orders;
+CREATE TRIGGER set_order_company
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION set_order_company();
+
+-- Security definer so policies on company_members can use it without recursing
+CREATE OR REPLACE FUNCTION company_role(p_company_id uuid)
+RETURNS text AS $$
+  SELECT role FROM company_members
+  WHERE company_id = p_company_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION company_role(uuid) TO authenticated;
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their company" ON companies;
+CREATE POLICY "Members can view their company"
+  ON companies FOR SELECT
+  TO authenticated
+  USING (company_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can update their company" ON companies;
+CREATE POLICY "Owners can update their company"
+  ON companies FOR UPDATE
+  TO authenticated
+  USING (company_role(id) = 'owner')
+  WITH CHECK (company_role(id) = 'owner');
+
+DROP POLICY IF EXISTS "Admins can manage companies" ON companies;
+CREATE POLICY "Admins can manage companies"
+  ON companies FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view fellow members" ON company_members;
+CREATE POLICY "Members can view fellow members"
+  ON company_members FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins can view all company members" ON company_members;
+CREATE POLICY "Admins can view all company members"
+  ON company_members FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view company addresses" ON company_addresses;
+CREATE POLICY "Members can view company addresses"
+  ON company_addresses FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can manage company addresses" ON company_addresses;
+CREATE POLICY "Owners can manage company addresses"
+  ON company_addresses FOR ALL
+  TO authenticated
+  USING (company_role(company_id) = 'owner')
+  WITH CHECK (company_role(company_id) = 'owner');
+
+DROP POLICY IF EXISTS "Admins can manage company addresses" ON company_addresses;
+CREATE POLICY "Admins can manage company addresses"
+  ON company_addresses FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Lets members see each other's names and emails
+DROP POLICY IF EXISTS "Company members can view fellow members' profiles" ON profiles;
+CREATE POLICY "Company members can view fellow members' profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM company_members m
+      WHERE m.user_id = profiles.id AND company_role(m.company_id) IS NOT NULL
+    )
+  );
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company orders" ON orders;
+CREATE POLICY "Company owners and approvers can view company orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IN ('owner', 'approver'));
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company order items" ON order_items;
+CREATE POLICY "Company owners and approvers can view company order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_items.order_id
+        AND company_role(o.company_id) IN ('owner', 'approver')
+    )
+  );
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company order status history" ON order_status_history;
+CREATE POLICY "Company owners and approvers can view company order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_status_history.order_id
+        AND company_role(o.company_id) IN ('owner', 'approver')
+    )
+  );
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company refunds" ON refunds;
+CREATE POLICY "Company owners and approvers can view company refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = refunds.order_id
+        AND company_role(o.company_id) IN ('owner', 'approver')
+    )
+  );
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company refund items" ON refund_items;
+CREATE POLICY "Company owners and approvers can view company refund items"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM refunds r
+      JOIN orders o ON o.id = r.order_id
+      WHERE r.id = refund_items.refund_id
+        AND company_role(o.company_id) IN ('owner', 'approver')
+    )
+  );
+
+-- Raises already_in_company when the owner belongs to a company already
+CREATE OR REPLACE FUNCTION create_company(
+  p_owner_id uuid,
+  p_name text,
+  p_vat_number text
+)
+RETURNS companies AS $$
+DECLARE
+  v_company companies;
+BEGIN
+  IF EXISTS (SELECT 1 FROM company_members WHERE user_id = p_owner_id) THEN
+    RAISE EXCEPTION 'already_in_company';
+  END IF;
+
+  INSERT INTO companies (name, vat_number, created_by)
+  VALUES (trim(p_name), p_vat_number, p_owner_id)
+  RETURNING * INTO v_company;
+
+  INSERT INTO company_members (company_id, user_id, role)
+  VALUES (v_company.id, p_owner_id, 'owner');
+
+  RETURN v_company;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_company(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_company(uuid, text, text) TO service_role;
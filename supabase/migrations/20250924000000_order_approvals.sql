@@ -0,0 +1,239 @@
+/*
+  # Purchase Approvals for Company Accounts
+
+  Company owners can give members a spending limit. An order over the
+  buyer's limit (total including VAT) is held in the new awaiting_approval
+  status with its stock reserved, and the company's owners and approvers are
+  notified. One of them approves it (it becomes pending and can be paid) or
+  rejects it with a reason (it is cancelled and the stock goes back).
+
+  Changes:
+  - company_members.spending_limit: null means no limit
+  - orders.status: adds awaiting_approval; it can only move on to pending through an approval, or be cancelled
+  - set_order_company(): also holds orders over the buyer's spending limit
+  - order_approvals: audit trail of every decision, with who made it and why
+  - notifications: in-app messages, e.g. approval requests and decisions
+  - decide_order_approval(): records a decision and moves the order on (server only)
+*/
+
+ALTER TABLE company_members ADD COLUMN IF NOT EXISTS spending_limit numeric(10,2)
+  CHECK (spending_limit >= 0);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('awaiting_approval', 'pending', 'processing', 'shipped', 'completed', 'cancelled'));
+
+CREATE TABLE IF NOT EXISTS order_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  company_id uuid REFERENCES companies(id) ON DELETE SET NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  comment text,
+  decided_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL, -- approval_requested, order_approved, order_rejected
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  message text NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_approvals_order_id ON order_approvals(order_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, created_at) WHERE read_at IS NULL;
+
+ALTER TABLE order_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view approvals of own orders" ON order_approvals;
+CREATE POLICY "Users can view approvals of own orders"
+  ON order_approvals FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_approvals.order_id AND o.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Company owners and approvers can view company approvals" ON order_approvals;
+CREATE POLICY "Company owners and approvers can view company approvals"
+  ON order_approvals FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) IN ('owner', 'approver'));
+
+DROP POLICY IF EXISTS "Admins can view all order approvals" ON order_approvals;
+CREATE POLICY "Admins can view all order approvals"
+  ON order_approvals FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Only read_at changes in practice; the rest is written by the database
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON notifications;
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Attributes the order to the buyer's company and holds it for approval when
+-- it is over their spending limit. Covers place_order() and accepted quotes.
+CREATE OR REPLACE FUNCTION set_order_company()
+RETURNS trigger AS $$
+DECLARE
+  v_limit numeric;
+BEGIN
+  IF NEW.company_id IS NULL AND NEW.user_id IS NOT NULL THEN
+    SELECT company_id, spending_limit INTO NEW.company_id, v_limit
+    FROM company_members
+    WHERE user_id = NEW.user_id;
+
+    IF NEW.status = 'pending' AND v_limit IS NOT NULL AND NEW.total > v_limit THEN
+      NEW.status := 'awaiting_approval';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Let the company's owners and approvers (other than the buyer) know
+CREATE OR REPLACE FUNCTION notify_order_approvers()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (user_id, kind, order_id, message)
+  SELECT
+    m.user_id,
+    'approval_requested',
+    NEW.id,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ',
+        NEW.shipping_address->'customerInfo'->>'firstName',
+        NEW.shipping_address->'customerInfo'->>'lastName'
+      )), ''),
+      'A buyer'
+    ) || ' needs approval for order #' || upper(right(NEW.id::text, 8))
+      || ' (R ' || to_char(NEW.total, 'FM999G999G990D00') || ')'
+  FROM company_members m
+  WHERE m.company_id = NEW.company_id
+    AND m.role IN ('owner', 'approver')
+    AND m.user_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_order_approvers ON orders;
+CREATE TRIGGER notify_order_approvers
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'awaiting_approval')
+  EXECUTE FUNCTION notify_order_approvers();
+
+-- awaiting_approval -> pending is only allowed while decide_order_approval()
+-- has set app.order_approval
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'awaiting_approval' AND NEW.status = 'cancelled') OR
+    (OLD.status = 'awaiting_approval' AND NEW.status = 'pending'
+      AND current_setting('app.order_approval', true) = 'on') OR
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'cancelled')) OR
+    (OLD.status = 'processing' AND NEW.status IN ('shipped', 'cancelled')) OR
+    (OLD.status = 'shipped' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Raises order_not_found, order_not_awaiting_approval, not_an_approver,
+-- cannot_approve_own_order or comment_required. The approver's role is
+-- checked here as well as in the API so the audit trail can be trusted.
+CREATE OR REPLACE FUNCTION decide_order_approval(
+  p_order_id uuid,
+  p_decided_by uuid,
+  p_decision text,
+  p_comment text
+)
+RETURNS order_approvals AS $$
+DECLARE
+  v_order orders;
+  v_approval order_approvals;
+  v_decider text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+  IF v_order.status <> 'awaiting_approval' THEN
+    RAISE EXCEPTION 'order_not_awaiting_approval';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM company_members
+    WHERE company_id = v_order.company_id
+      AND user_id = p_decided_by
+      AND role IN ('owner', 'approver')
+  ) THEN
+    RAISE EXCEPTION 'not_an_approver';
+  END IF;
+  IF p_decided_by = v_order.user_id THEN
+    RAISE EXCEPTION 'cannot_approve_own_order';
+  END IF;
+  IF p_decision = 'rejected' AND NULLIF(trim(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'comment_required';
+  END IF;
+
+  INSERT INTO order_approvals (order_id, company_id, decision, comment, decided_by)
+  VALUES (p_order_id, v_order.company_id, p_decision, NULLIF(trim(p_comment), ''), p_decided_by)
+  RETURNING * INTO v_approval;
+
+  SELECT COALESCE(full_name, email) INTO v_decider FROM profiles WHERE id = p_decided_by;
+
+  PERFORM set_config('app.order_approval', 'on', true);
+  PERFORM update_order_status(
+    p_order_id,
+    CASE WHEN p_decision = 'approved' THEN 'pending' ELSE 'cancelled' END,
+    initcap(p_decision) || ' by ' || COALESCE(v_decider, 'an approver')
+      || COALESCE(': ' || v_approval.comment, '')
+  );
+  PERFORM set_config('app.order_approval', '', true);
+
+  INSERT INTO notifications (user_id, kind, order_id, message)
+  VALUES (
+    v_order.user_id,
+    'order_' || p_decision,
+    p_order_id,
+    'Order #' || upper(right(p_order_id::text, 8)) || ' was ' || p_decision
+      || ' by ' || COALESCE(v_decider, 'an approver')
+      || COALESCE(': ' || v_approval.comment, '')
+  );
+
+  RETURN v_approval;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION decide_order_approval(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION decide_order_approval(uuid, uuid, text, text) TO service_role;
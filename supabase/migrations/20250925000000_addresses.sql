@@ -0,0 +1,297 @@
+/*
+  # Address Book
+
+  Customers keep delivery and billing addresses in an address book instead of
+  the untyped profiles.address blob, and an order can be billed to a
+  different address than the one it is delivered to. Company addresses stay
+  in company_addresses (shared by all members, managed by owners); both now
+  use the same province list and postal-code rule.
+
+  Changes:
+  - sa_province: the nine provinces, matching SA_PROVINCES in shared/addresses
+  - sa_province_from_text(): matches hand-typed provinces ("kzn", "western cape")
+  - addresses: a customer's saved addresses, with one default for delivery and one for billing
+  - profiles.address is copied into the address book where it is complete, and no longer written
+  - company_addresses.province becomes sa_province; new postal codes must be 4 digits
+  - orders.billing_address: null when it is the delivery address
+  - place_order(): takes the billing address
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE sa_province AS ENUM (
+    'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal', 'Limpopo',
+    'Mpumalanga', 'North West', 'Northern Cape', 'Western Cape'
+  );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Same matching as normaliseProvince() in shared/addresses; null when unknown
+CREATE OR REPLACE FUNCTION sa_province_from_text(p_value text)
+RETURNS sa_province AS $$
+  SELECT (CASE regexp_replace(lower(COALESCE(p_value, '')), '[^a-z]', '', 'g')
+    WHEN 'easterncape' THEN 'Eastern Cape'
+    WHEN 'ec' THEN 'Eastern Cape'
+    WHEN 'freestate' THEN 'Free State'
+    WHEN 'fs' THEN 'Free State'
+    WHEN 'gauteng' THEN 'Gauteng'
+    WHEN 'gp' THEN 'Gauteng'
+    WHEN 'kwazulunatal' THEN 'KwaZulu-Natal'
+    WHEN 'kzn' THEN 'KwaZulu-Natal'
+    WHEN 'natal' THEN 'KwaZulu-Natal'
+    WHEN 'limpopo' THEN 'Limpopo'
+    WHEN 'lp' THEN 'Limpopo'
+    WHEN 'mpumalanga' THEN 'Mpumalanga'
+    WHEN 'mp' THEN 'Mpumalanga'
+    WHEN 'northwest' THEN 'North West'
+    WHEN 'nw' THEN 'North West'
+    WHEN 'northerncape' THEN 'Northern Cape'
+    WHEN 'nc' THEN 'Northern Cape'
+    WHEN 'westerncape' THEN 'Western Cape'
+    WHEN 'wc' THEN 'Western Cape'
+  END)::sa_province;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  label text NOT NULL,       -- e.g. "Home", "Office"
+  recipient text,
+  phone text,
+  address text NOT NULL CHECK (length(trim(address)) > 0),
+  city text NOT NULL CHECK (length(trim(city)) > 0),
+  province sa_province NOT NULL,
+  postal_code text NOT NULL CHECK (postal_code ~ '^[0-9]{4}$'),
+  country text NOT NULL DEFAULT 'South Africa' CHECK (country = 'South Africa'),
+  is_default_shipping boolean NOT NULL DEFAULT false,
+  is_default_billing boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user_id ON addresses(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_one_default_shipping
+  ON addresses(user_id) WHERE is_default_shipping;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_one_default_billing
+  ON addresses(user_id) WHERE is_default_billing;
+
+DROP TRIGGER IF EXISTS update_addresses_updated_at ON addresses;
+CREATE TRIGGER update_addresses_updated_at
+  BEFORE UPDATE ON addresses
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Making an address a default clears the previous one
+CREATE OR REPLACE FUNCTION clear_default_address()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_default_shipping THEN
+    UPDATE addresses
+    SET is_default_shipping = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_shipping;
+  END IF;
+  IF NEW.is_default_billing THEN
+    UPDATE addresses
+    SET is_default_billing = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default_billing;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_default_address ON addresses;
+CREATE TRIGGER clear_default_address
+  BEFORE INSERT OR UPDATE OF is_default_shipping, is_default_billing ON addresses
+  FOR EACH ROW EXECUTE FUNCTION clear_default_address();
+
+ALTER TABLE addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own addresses" ON addresses;
+CREATE POLICY "Users can manage own addresses"
+  ON addresses FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view all addresses" ON addresses;
+CREATE POLICY "Admins can view all addresses"
+  ON addresses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+-- Profile addresses that are complete become the default delivery and
+-- billing address; the rest have to be re-entered in the address book
+INSERT INTO addresses (
+  user_id, label, recipient, phone, address, city, province, postal_code,
+  is_default_shipping, is_default_billing
+)
+SELECT
+  p.id,
+  'Home',
+  p.full_name,
+  p.phone,
+  trim(p.address->>'street'),
+  trim(p.address->>'city'),
+  sa_province_from_text(p.address->>'province'),
+  regexp_replace(p.address->>'postal_code', '\s', '', 'g'),
+  true,
+  true
+FROM profiles p
+WHERE NULLIF(trim(p.address->>'street'), '') IS NOT NULL
+  AND NULLIF(trim(p.address->>'city'), '') IS NOT NULL
+  AND sa_province_from_text(p.address->>'province') IS NOT NULL
+  AND regexp_replace(p.address->>'postal_code', '\s', '', 'g') ~ '^[0-9]{4}$'
+  AND NOT EXISTS (SELECT 1 FROM addresses a WHERE a.user_id = p.id);
+
+COMMENT ON COLUMN profiles.address IS 'Superseded by the addresses table; no longer written';
+
+-- Company addresses were typed in by hand until now. A province that cannot
+-- be matched stops the migration so it can be corrected first.
+ALTER TABLE company_addresses
+  ALTER COLUMN province TYPE sa_province USING sa_province_from_text(province);
+ALTER TABLE company_addresses DROP CONSTRAINT IF EXISTS company_addresses_postal_code_check;
+ALTER TABLE company_addresses ADD CONSTRAINT company_addresses_postal_code_check
+  CHECK (postal_code ~ '^[0-9]{4}$') NOT VALID;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_address jsonb;
+
+-- Replaced rather than overloaded; accept_quote() keeps calling it without a
+-- billing address
+DROP FUNCTION IF EXISTS place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text);
+
+-- p_items: [{product_id, variant_id, sku, variant_label, product_name, unit_price, quantity,
+--            vat_rate, customisation, customisation_key, setup_fee}]
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text,
+  p_billing_address jsonb DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock.
+  -- Variant lines reserve variant stock; simple products reserve product stock.
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF v_line.variant_id IS NULL THEN
+      SELECT stock, name INTO v_stock, v_name
+      FROM products
+      WHERE id = v_line.product_id
+      FOR UPDATE;
+    ELSE
+      SELECT v.stock,
+             p.name || ' (' || (SELECT string_agg(value, ' / ') FROM jsonb_each_text(v.options)) || ')'
+      INTO v_stock, v_name
+      FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      WHERE v.id = v_line.variant_id AND v.product_id = v_line.product_id
+      FOR UPDATE OF v;
+    END IF;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  UPDATE product_variants v
+  SET stock = v.stock - lines.quantity
+  FROM (
+    SELECT (line->>'variant_id')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NOT NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE v.id = lines.variant_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, subtotal, shipping_fee, tax, total,
+    status, shipping_address, billing_address, payment_method, stock_reserved
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_shipping_address->'customerInfo'->>'email' END,
+    p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_billing_address, p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, sku, variant_label, product_name,
+    unit_price, quantity, vat_rate, customisation, setup_fee, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    NULLIF(line->>'variant_id', '')::uuid,
+    line->>'sku',
+    line->>'variant_label',
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    NULLIF(line->'customisation', 'null'::jsonb),
+    COALESCE((line->>'setup_fee')::numeric, 0),
+    ROUND(((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0)) * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0), 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  -- Guest carts live in the browser, so there is nothing to clear for them
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items c
+    USING jsonb_array_elements(p_items) AS line
+    WHERE c.user_id = p_user_id
+      AND c.product_id = (line->>'product_id')::uuid
+      AND c.variant_id IS NOT DISTINCT FROM NULLIF(line->>'variant_id', '')::uuid
+      AND c.customisation_key = COALESCE(line->>'customisation_key', '');
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text, jsonb) TO service_role;
@@ -0,0 +1,276 @@
+/*
+  # Shipping Rules
+
+  Shipping was a flat R50, free from R500, whatever the weight or destination.
+  Fees now come from admin-managed zones and rate tables, evaluated by
+  shared/shipping on the checkout page and again by the server.
+
+  Changes:
+  - products: weight_kg and packed dimensions (length_cm, width_cm, height_cm)
+  - shipping_zones: delivery areas by province and by postal code or range
+  - shipping_rates: fee per zone, service level and weight band, optionally
+    free from an order subtotal; rates without a zone apply everywhere
+  - seeded zones and rates: parcels up to 5 kg keep the old R50 / free from R500
+    rule; heavier parcels and express delivery are charged per kg by zone, and
+    collection from the Cape Town warehouse is free
+  - orders.shipping_service: economy, express or collect
+  - place_order(): takes the service level
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_kg numeric(8,3) CHECK (weight_kg > 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS length_cm numeric(8,1) CHECK (length_cm > 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS width_cm numeric(8,1) CHECK (width_cm > 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS height_cm numeric(8,1) CHECK (height_cm > 0);
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  provinces sa_province[] NOT NULL DEFAULT '{}',
+  -- "8001" or "7400-8099"; matched before provinces
+  postal_codes text[] NOT NULL DEFAULT '{}'
+    CHECK (array_to_string(postal_codes, ',') ~ '^([0-9]{4}(-[0-9]{4})?(,|$))*$'),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id uuid REFERENCES shipping_zones(id) ON DELETE CASCADE, -- NULL: every address
+  service_level text NOT NULL CHECK (service_level IN ('economy', 'express', 'collect')),
+  min_weight_kg numeric(8,3) NOT NULL DEFAULT 0 CHECK (min_weight_kg >= 0),
+  max_weight_kg numeric(8,3) CHECK (max_weight_kg > min_weight_kg),
+  base_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (base_fee >= 0),
+  per_kg_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (per_kg_fee >= 0),
+  free_over numeric(10,2) CHECK (free_over >= 0),
+  delivery_estimate text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_id ON shipping_rates(zone_id);
+
+DROP TRIGGER IF EXISTS update_shipping_zones_updated_at ON shipping_zones;
+CREATE TRIGGER update_shipping_zones_updated_at
+  BEFORE UPDATE ON shipping_zones
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+DROP TRIGGER IF EXISTS update_shipping_rates_updated_at ON shipping_rates;
+CREATE TRIGGER update_shipping_rates_updated_at
+  BEFORE UPDATE ON shipping_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shipping_rates ENABLE ROW LEVEL SECURITY;
+
+-- Guests see delivery options at checkout too
+DROP POLICY IF EXISTS "Anyone can view shipping zones" ON shipping_zones;
+CREATE POLICY "Anyone can view shipping zones"
+  ON shipping_zones FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage shipping zones" ON shipping_zones;
+CREATE POLICY "Admins can manage shipping zones"
+  ON shipping_zones FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Anyone can view shipping rates" ON shipping_rates;
+CREATE POLICY "Anyone can view shipping rates"
+  ON shipping_rates FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage shipping rates" ON shipping_rates;
+CREATE POLICY "Admins can manage shipping rates"
+  ON shipping_rates FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+INSERT INTO shipping_zones (name, provinces, postal_codes, sort_order) VALUES
+  ('Cape Town Metro', '{}', '{7400-8099}', 0),
+  ('Western Cape', '{Western Cape}', '{}', 1),
+  ('Gauteng & KwaZulu-Natal', '{Gauteng,KwaZulu-Natal}', '{}', 2),
+  ('Rest of South Africa', '{Eastern Cape,Free State,Limpopo,Mpumalanga,North West,Northern Cape}', '{}', 3)
+ON CONFLICT (name) DO NOTHING;
+
+-- Seeded once; admins own the rate tables from here on
+INSERT INTO shipping_rates (
+  zone_id, service_level, min_weight_kg, max_weight_kg, base_fee, per_kg_fee, free_over, delivery_estimate
+)
+SELECT z.id, r.service_level, r.min_weight_kg, r.max_weight_kg, r.base_fee, r.per_kg_fee, r.free_over, r.delivery_estimate
+FROM (VALUES
+  ('Cape Town Metro', 'economy', 0, 5, 50, 0, 500, '1-2 working days'),
+  ('Cape Town Metro', 'economy', 5, 30, 80, 3, NULL, '1-2 working days'),
+  ('Cape Town Metro', 'economy', 30, NULL, 150, 2.5, NULL, '2-3 working days'),
+  ('Cape Town Metro', 'express', 0, NULL, 95, 8, NULL, 'Next working day'),
+  ('Western Cape', 'economy', 0, 5, 50, 0, 500, '2-3 working days'),
+  ('Western Cape', 'economy', 5, 30, 110, 5, NULL, '2-3 working days'),
+  ('Western Cape', 'economy', 30, NULL, 220, 4, NULL, '3-4 working days'),
+  ('Western Cape', 'express', 0, NULL, 130, 12, NULL, '1-2 working days'),
+  ('Gauteng & KwaZulu-Natal', 'economy', 0, 5, 50, 0, 500, '2-4 working days'),
+  ('Gauteng & KwaZulu-Natal', 'economy', 5, 30, 130, 6, NULL, '2-4 working days'),
+  ('Gauteng & KwaZulu-Natal', 'economy', 30, NULL, 280, 5, NULL, '3-5 working days'),
+  ('Gauteng & KwaZulu-Natal', 'express', 0, NULL, 150, 14, NULL, '1-2 working days'),
+  ('Rest of South Africa', 'economy', 0, 5, 50, 0, 500, '3-6 working days'),
+  ('Rest of South Africa', 'economy', 5, 30, 180, 9, NULL, '3-6 working days'),
+  ('Rest of South Africa', 'economy', 30, NULL, 400, 7.5, NULL, '4-7 working days'),
+  ('Rest of South Africa', 'express', 0, NULL, 210, 18, NULL, '2-3 working days')
+) AS r(zone, service_level, min_weight_kg, max_weight_kg, base_fee, per_kg_fee, free_over, delivery_estimate)
+JOIN shipping_zones z ON z.name = r.zone
+WHERE NOT EXISTS (SELECT 1 FROM shipping_rates);
+
+INSERT INTO shipping_rates (zone_id, service_level, base_fee, delivery_estimate)
+SELECT NULL, 'collect', 0, 'Ready to collect in 1 working day'
+WHERE NOT EXISTS (SELECT 1 FROM shipping_rates WHERE service_level = 'collect');
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_service text NOT NULL DEFAULT 'economy';
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_shipping_service_check;
+ALTER TABLE orders ADD CONSTRAINT orders_shipping_service_check
+  CHECK (shipping_service IN ('economy', 'express', 'collect'));
+
+-- Replaced rather than overloaded; accept_quote() keeps calling it without a
+-- billing address or service level
+DROP FUNCTION IF EXISTS place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text, jsonb);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_user_id uuid,
+  p_items jsonb,
+  p_subtotal numeric,
+  p_shipping_fee numeric,
+  p_tax numeric,
+  p_total numeric,
+  p_shipping_address jsonb,
+  p_payment_method text,
+  p_billing_address jsonb DEFAULT NULL,
+  p_shipping_service text DEFAULT 'economy'
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+  v_line record;
+  v_stock integer;
+  v_name text;
+  v_issues jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock.
+  -- Variant lines reserve variant stock; simple products reserve product stock.
+  FOR v_line IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           NULLIF(line->>'variant_id', '')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF v_line.variant_id IS NULL THEN
+      SELECT stock, name INTO v_stock, v_name
+      FROM products
+      WHERE id = v_line.product_id
+      FOR UPDATE;
+    ELSE
+      SELECT v.stock,
+             p.name || ' (' || (SELECT string_agg(value, ' / ') FROM jsonb_each_text(v.options)) || ')'
+      INTO v_stock, v_name
+      FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      WHERE v.id = v_line.variant_id AND v.product_id = v_line.product_id
+      FOR UPDATE OF v;
+    END IF;
+
+    IF v_stock IS NULL OR v_stock < v_line.quantity THEN
+      v_issues := v_issues || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', COALESCE(v_name, 'Unknown product'),
+        'requested', v_line.quantity,
+        'available', COALESCE(v_stock, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_issues) > 0 THEN
+    RAISE EXCEPTION 'insufficient_stock' USING DETAIL = v_issues::text;
+  END IF;
+
+  UPDATE products p
+  SET stock = p.stock - lines.quantity
+  FROM (
+    SELECT (line->>'product_id')::uuid AS product_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE p.id = lines.product_id;
+
+  UPDATE product_variants v
+  SET stock = v.stock - lines.quantity
+  FROM (
+    SELECT (line->>'variant_id')::uuid AS variant_id,
+           SUM((line->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE NULLIF(line->>'variant_id', '') IS NOT NULL
+    GROUP BY 1
+  ) AS lines
+  WHERE v.id = lines.variant_id;
+
+  INSERT INTO orders (
+    user_id, guest_email, subtotal, shipping_fee, tax, total,
+    status, shipping_address, billing_address, shipping_service, payment_method,
+    stock_reserved
+  )
+  VALUES (
+    p_user_id,
+    CASE WHEN p_user_id IS NULL THEN p_shipping_address->'customerInfo'->>'email' END,
+    p_subtotal, p_shipping_fee, p_tax, p_total,
+    'pending', p_shipping_address, p_billing_address, p_shipping_service,
+    p_payment_method, true
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, product_id, variant_id, sku, variant_label, product_name,
+    unit_price, quantity, vat_rate, customisation, setup_fee, vat_amount, line_total
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    NULLIF(line->>'variant_id', '')::uuid,
+    line->>'sku',
+    line->>'variant_label',
+    line->>'product_name',
+    (line->>'unit_price')::numeric,
+    (line->>'quantity')::integer,
+    (line->>'vat_rate')::numeric,
+    NULLIF(line->'customisation', 'null'::jsonb),
+    COALESCE((line->>'setup_fee')::numeric, 0),
+    ROUND(((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0)) * (line->>'vat_rate')::numeric, 2),
+    ROUND((line->>'unit_price')::numeric * (line->>'quantity')::integer + COALESCE((line->>'setup_fee')::numeric, 0), 2)
+  FROM jsonb_array_elements(p_items) AS line;
+
+  -- Guest carts live in the browser, so there is nothing to clear for them
+  IF p_user_id IS NOT NULL THEN
+    DELETE FROM cart_items c
+    USING jsonb_array_elements(p_items) AS line
+    WHERE c.user_id = p_user_id
+      AND c.product_id = (line->>'product_id')::uuid
+      AND c.variant_id IS NOT DISTINCT FROM NULLIF(line->>'variant_id', '')::uuid
+      AND c.customisation_key = COALESCE(line->>'customisation_key', '');
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION place_order(uuid, jsonb, numeric, numeric, numeric, numeric, jsonb, text, jsonb, text) TO service_role;
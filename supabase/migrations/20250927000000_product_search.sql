@@ -0,0 +1,70 @@
+/*
+  # Product Search
+
+  Search used to download every active product and filter names in the
+  browser. search_products() matches, ranks and pages results in the
+  database instead, and tolerates typos ("hodie" finds hoodies).
+
+  Changes:
+  - pg_trgm extension
+  - product_search_vector(): name, category and description, weighted in that order
+  - product_search_text(): name and category, for trigram (typo) matching
+  - indexes on both over products
+  - search_products(): ranked page of matching product ids with the total count
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Expression indexes rather than columns, so product rows stay as they were
+CREATE OR REPLACE FUNCTION product_search_vector(p_name text, p_category text, p_description text)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(p_name, '')), 'A') ||
+         setweight(to_tsvector('english', replace(COALESCE(p_category, ''), '-', ' ')), 'B') ||
+         setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION product_search_text(p_name text, p_category text)
+RETURNS text AS $$
+  SELECT lower(COALESCE(p_name, '') || ' ' || replace(COALESCE(p_category, ''), '-', ' '));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+  ON products USING gin(product_search_vector(name, category, description));
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm
+  ON products USING gin(product_search_text(name, category) gin_trgm_ops);
+
+-- The query is split into words like searchTerms() in shared/search. Every
+-- word must match as a prefix ("hood" finds hoodies), or the whole query must
+-- be close to a word run in the name or category (a typo). Full-text rank and
+-- trigram similarity are added, so exact matches come first.
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text,
+  p_limit integer DEFAULT 24,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (id uuid, rank real, total_count bigint) AS $$
+  WITH query AS (
+    SELECT trim(regexp_replace(lower(COALESCE(p_query, '')), '[^a-z0-9]+', ' ', 'g')) AS text
+  ),
+  terms AS (
+    SELECT q.text,
+           to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) AS tsquery
+    FROM query q, regexp_split_to_table(q.text, ' ') AS word
+    WHERE length(q.text) >= 2
+    GROUP BY q.text
+  )
+  SELECT p.id,
+         (ts_rank_cd(product_search_vector(p.name, p.category, p.description), t.tsquery) +
+          word_similarity(t.text, product_search_text(p.name, p.category)))::real,
+         count(*) OVER ()
+  FROM products p, terms t
+  WHERE p.is_active
+    AND (product_search_vector(p.name, p.category, p.description) @@ t.tsquery
+         OR t.text <% product_search_text(p.name, p.category))
+  ORDER BY 2 DESC, p.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+GRANT EXECUTE ON FUNCTION search_products(text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,39 @@
+/*
+  # Product Suggestions
+
+  The header search box suggests products while the shopper types.
+  suggest_products() matches the same way as search_products() but returns
+  the few fields the dropdown shows in one call, without counting every match.
+
+  Changes:
+  - suggest_products(): best matching active products with name, price, image and category
+*/
+
+CREATE OR REPLACE FUNCTION suggest_products(
+  p_query text,
+  p_limit integer DEFAULT 6
+)
+RETURNS TABLE (id uuid, name text, price numeric, image_url text, category text) AS $$
+  WITH query AS (
+    SELECT trim(regexp_replace(lower(COALESCE(p_query, '')), '[^a-z0-9]+', ' ', 'g')) AS text
+  ),
+  terms AS (
+    SELECT q.text,
+           to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) AS tsquery
+    FROM query q, regexp_split_to_table(q.text, ' ') AS word
+    WHERE length(q.text) >= 2
+    GROUP BY q.text
+  )
+  SELECT p.id, p.name, p.price, p.image_url, p.category
+  FROM products p, terms t
+  WHERE p.is_active
+    AND (product_search_vector(p.name, p.category, p.description) @@ t.tsquery
+         OR t.text <% product_search_text(p.name, p.category))
+  ORDER BY ts_rank_cd(product_search_vector(p.name, p.category, p.description), t.tsquery) +
+           word_similarity(t.text, product_search_text(p.name, p.category)) DESC,
+           p.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+GRANT EXECUTE ON FUNCTION suggest_products(text, integer) TO anon, authenticated;
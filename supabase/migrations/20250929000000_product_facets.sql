@@ -0,0 +1,172 @@
+/*
+  # Product Facets
+
+  Category pages downloaded every product in the category and filtered
+  them in the browser with three fixed price buckets. filter_products()
+  filters and sorts in the database, and product_facets() counts how many
+  products each filter value would leave, so the page can show
+  "Navy (12)" next to each choice.
+
+  Filters are passed as jsonb (see toFilterPayload in shared/facets):
+  {min_price, max_price, min_rating, in_stock, colours, sizes, methods}.
+  Colours and sizes come from the variant option axes named Colour/Color
+  and Size; methods from product_decoration_options.
+
+  Changes:
+  - product_matches_filters(): whether a product passes the filters, optionally ignoring one facet
+  - filter_products(): matching product ids in the chosen order with the total count
+  - product_facets(): price range and per-value counts for every facet
+  - index for the category and price filters
+*/
+
+CREATE INDEX IF NOT EXISTS idx_products_category_price ON products(category, price);
+
+-- p_skip names the facet whose own filter is ignored ('price', 'rating',
+-- 'in_stock', 'colours', 'sizes' or 'methods'). Counting a facet without its
+-- own filter keeps its other values selectable.
+CREATE OR REPLACE FUNCTION product_matches_filters(
+  p_product_id uuid,
+  p_price numeric,
+  p_rating numeric,
+  p_stock integer,
+  p_filters jsonb,
+  p_skip text DEFAULT ''
+)
+RETURNS boolean AS $$
+  SELECT
+    (p_skip = 'price' OR (
+      (p_filters->>'min_price' IS NULL OR p_price >= (p_filters->>'min_price')::numeric) AND
+      (p_filters->>'max_price' IS NULL OR p_price <= (p_filters->>'max_price')::numeric)
+    ))
+    AND (p_skip = 'rating' OR p_filters->>'min_rating' IS NULL
+         OR COALESCE(p_rating, 0) >= (p_filters->>'min_rating')::numeric)
+    AND (p_skip = 'in_stock' OR NOT COALESCE((p_filters->>'in_stock')::boolean, false)
+         OR p_stock > 0)
+    AND (p_skip = 'colours' OR jsonb_array_length(COALESCE(p_filters->'colours', '[]')) = 0
+         OR EXISTS (
+           SELECT 1 FROM product_variants v, jsonb_each_text(v.options) o
+           WHERE v.product_id = p_product_id AND v.is_active
+             AND lower(o.key) IN ('colour', 'color')
+             AND p_filters->'colours' ? o.value
+         ))
+    AND (p_skip = 'sizes' OR jsonb_array_length(COALESCE(p_filters->'sizes', '[]')) = 0
+         OR EXISTS (
+           SELECT 1 FROM product_variants v, jsonb_each_text(v.options) o
+           WHERE v.product_id = p_product_id AND v.is_active
+             AND lower(o.key) = 'size'
+             AND p_filters->'sizes' ? o.value
+         ))
+    AND (p_skip = 'methods' OR jsonb_array_length(COALESCE(p_filters->'methods', '[]')) = 0
+         OR EXISTS (
+           SELECT 1 FROM product_decoration_options d
+           WHERE d.product_id = p_product_id
+             AND p_filters->'methods' ? d.method
+         ));
+$$ LANGUAGE sql STABLE;
+
+-- p_category NULL lists every category. p_limit NULL returns every match.
+CREATE OR REPLACE FUNCTION filter_products(
+  p_category text,
+  p_filters jsonb DEFAULT '{}',
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT NULL,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (id uuid, total_count bigint) AS $$
+  SELECT p.id, count(*) OVER ()
+  FROM products p
+  WHERE p.is_active
+    AND (p_category IS NULL OR p.category = p_category)
+    AND product_matches_filters(p.id, p.price, p.rating, p.stock, COALESCE(p_filters, '{}'))
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN p.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN p.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN p.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'name' THEN p.name END ASC,
+    p.created_at DESC,
+    p.id
+  LIMIT p_limit
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION product_facets(
+  p_category text,
+  p_filters jsonb DEFAULT '{}'
+)
+RETURNS jsonb AS $$
+  WITH listed AS (
+    SELECT p.id, p.price, p.rating, p.stock
+    FROM products p
+    WHERE p.is_active
+      AND (p_category IS NULL OR p.category = p_category)
+  ),
+  filters AS (
+    SELECT COALESCE(p_filters, '{}') AS f
+  ),
+  variant_values AS (
+    SELECT l.id, lower(o.key) AS axis, o.value
+    FROM listed l
+    JOIN product_variants v ON v.product_id = l.id AND v.is_active
+    CROSS JOIN jsonb_each_text(v.options) o
+    WHERE lower(o.key) IN ('colour', 'color', 'size')
+  )
+  SELECT jsonb_build_object(
+    'price', (
+      SELECT CASE WHEN count(*) = 0 THEN NULL
+                  ELSE jsonb_build_object('min', floor(min(l.price)), 'max', ceil(max(l.price)))
+             END
+      FROM listed l, filters
+      WHERE product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'price')
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('value', r.value, 'count', (
+               SELECT count(*)
+               FROM listed l, filters
+               WHERE COALESCE(l.rating, 0) >= r.value
+                 AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'rating')
+             )) ORDER BY r.value DESC)
+      FROM unnest(ARRAY[4, 3, 2, 1]) AS r(value)
+    ),
+    'in_stock', (
+      SELECT count(*)
+      FROM listed l, filters
+      WHERE l.stock > 0
+        AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'in_stock')
+    ),
+    'colours', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.value, 'count', c.count) ORDER BY c.value), '[]')
+      FROM (
+        SELECT vv.value, count(DISTINCT l.id) AS count
+        FROM variant_values vv
+        JOIN listed l ON l.id = vv.id, filters
+        WHERE vv.axis IN ('colour', 'color')
+          AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'colours')
+        GROUP BY vv.value
+      ) c
+    ),
+    'sizes', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', s.value, 'count', s.count)), '[]')
+      FROM (
+        SELECT vv.value, count(DISTINCT l.id) AS count
+        FROM variant_values vv
+        JOIN listed l ON l.id = vv.id, filters
+        WHERE vv.axis = 'size'
+          AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'sizes')
+        GROUP BY vv.value
+      ) s
+    ),
+    'methods', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', m.value, 'count', m.count) ORDER BY m.value), '[]')
+      FROM (
+        SELECT d.method AS value, count(*) AS count
+        FROM product_decoration_options d
+        JOIN listed l ON l.id = d.product_id, filters
+        WHERE product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'methods')
+        GROUP BY d.method
+      ) m
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION filter_products(text, jsonb, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_facets(text, jsonb) TO anon, authenticated;
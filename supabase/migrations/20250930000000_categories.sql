@@ -0,0 +1,249 @@
+/*
+  # Categories
+
+  Categories were hardcoded in the storefront and in three admin forms, and
+  products.category was free text, so a typo created a category nobody could
+  browse to and the catch-all /:category route rendered any slug. Categories
+  now live in a table with a parent link, managed from the admin panel. A
+  subcategory's storefront URL is its path from the top, e.g.
+  /workwear/safety-boots; products still reference a category by slug.
+
+  Changes:
+  - categories: slug, name, description, image, sort order, visibility and parent
+  - trigger stopping a category from being moved under its own subcategory
+  - seeded categories: the ones the admin forms offered, plus any other
+    category already used by a product
+  - products.category: normalised to slugs and a foreign key to categories(slug),
+    following renames; its 'general' default is dropped
+  - category_slugs(): a category's slug and those of all its subcategories
+  - category_product_counts(): active products per category, subcategories included
+  - filter_products(), product_facets(): a category lists its subcategories' products
+*/
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid REFERENCES categories(id), -- NULL: top level
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  description text,
+  image_url text,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT c.id, c.parent_id FROM categories c WHERE c.id = NEW.parent_id
+      UNION ALL
+      SELECT c.id, c.parent_id FROM categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be moved under one of its own subcategories';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_category_parent ON categories;
+CREATE TRIGGER check_category_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON categories
+  FOR EACH ROW EXECUTE FUNCTION check_category_parent();
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+
+-- Hidden categories are only visible to admins
+DROP POLICY IF EXISTS "Anyone can view active categories" ON categories;
+CREATE POLICY "Anyone can view active categories"
+  ON categories FOR SELECT
+  USING (is_active);
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON categories;
+CREATE POLICY "Admins can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+INSERT INTO categories (slug, name, description, image_url, sort_order) VALUES
+  ('corporate-gifts', 'Corporate Gifts', 'Premium branded items for your business',
+   'https://images.pexels.com/photos/6373478/pexels-photo-6373478.jpeg?auto=compress&cs=tinysrgb&w=800', 0),
+  ('corporate-clothing', 'Corporate Clothing', 'Professional apparel for your team',
+   'https://images.pexels.com/photos/8532616/pexels-photo-8532616.jpeg?auto=compress&cs=tinysrgb&w=800', 1),
+  ('workwear', 'Workwear', 'Durable clothing for every industry',
+   'https://images.pexels.com/photos/8486911/pexels-photo-8486911.jpeg?auto=compress&cs=tinysrgb&w=800', 2),
+  ('headwear-and-accessories', 'Headwear & Accessories', 'Caps, hats, and promotional accessories',
+   'https://images.pexels.com/photos/1124465/pexels-photo-1124465.jpeg?auto=compress&cs=tinysrgb&w=800', 3),
+  ('gifting', 'Gifting', NULL, NULL, 4),
+  ('display', 'Display', NULL, NULL, 5),
+  ('footwear', 'Footwear', NULL, NULL, 6),
+  ('custom-products', 'Custom Products', NULL, NULL, 7)
+ON CONFLICT (slug) DO NOTHING;
+
+-- "Corporate Gifts" becomes corporate-gifts
+UPDATE products
+SET category = COALESCE(
+  NULLIF(btrim(regexp_replace(lower(category), '[^a-z0-9]+', '-', 'g'), '-'), ''),
+  'general'
+)
+WHERE category !~ '^[a-z0-9]+(-[a-z0-9]+)*$';
+
+INSERT INTO categories (slug, name, sort_order)
+SELECT DISTINCT p.category, initcap(replace(p.category, '-', ' ')), 100
+FROM products p
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER TABLE products ALTER COLUMN category DROP DEFAULT;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_category_fkey;
+ALTER TABLE products
+  ADD CONSTRAINT products_category_fkey
+  FOREIGN KEY (category) REFERENCES categories(slug) ON UPDATE CASCADE;
+
+-- Both run with the caller's rights, so for shoppers hidden subcategories and
+-- their products are left out of listings and counts alike
+CREATE OR REPLACE FUNCTION category_slugs(p_slug text)
+RETURNS SETOF text AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT c.id, c.slug FROM categories c WHERE c.slug = p_slug
+    UNION ALL
+    SELECT c.id, c.slug FROM categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT slug FROM subtree;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION category_product_counts()
+RETURNS TABLE (category_id uuid, product_count bigint) AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT c.id AS root_id, c.id, c.slug FROM categories c
+    UNION ALL
+    SELECT s.root_id, c.id, c.slug FROM categories c JOIN subtree s ON c.parent_id = s.id
+  )
+  SELECT s.root_id, count(p.id)
+  FROM subtree s
+  LEFT JOIN products p ON p.category = s.slug AND p.is_active
+  GROUP BY s.root_id;
+$$ LANGUAGE sql STABLE;
+
+-- As in 20250929000000_product_facets, with subcategories included
+CREATE OR REPLACE FUNCTION filter_products(
+  p_category text,
+  p_filters jsonb DEFAULT '{}',
+  p_sort text DEFAULT 'newest',
+  p_limit integer DEFAULT NULL,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (id uuid, total_count bigint) AS $$
+  SELECT p.id, count(*) OVER ()
+  FROM products p
+  WHERE p.is_active
+    AND (p_category IS NULL OR p.category IN (SELECT category_slugs(p_category)))
+    AND product_matches_filters(p.id, p.price, p.rating, p.stock, COALESCE(p_filters, '{}'))
+  ORDER BY
+    CASE WHEN p_sort = 'price-low' THEN p.price END ASC,
+    CASE WHEN p_sort = 'price-high' THEN p.price END DESC,
+    CASE WHEN p_sort = 'rating' THEN p.rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'name' THEN p.name END ASC,
+    p.created_at DESC,
+    p.id
+  LIMIT p_limit
+  OFFSET GREATEST(p_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION product_facets(
+  p_category text,
+  p_filters jsonb DEFAULT '{}'
+)
+RETURNS jsonb AS $$
+  WITH listed AS (
+    SELECT p.id, p.price, p.rating, p.stock
+    FROM products p
+    WHERE p.is_active
+      AND (p_category IS NULL OR p.category IN (SELECT category_slugs(p_category)))
+  ),
+  filters AS (
+    SELECT COALESCE(p_filters, '{}') AS f
+  ),
+  variant_values AS (
+    SELECT l.id, lower(o.key) AS axis, o.value
+    FROM listed l
+    JOIN product_variants v ON v.product_id = l.id AND v.is_active
+    CROSS JOIN jsonb_each_text(v.options) o
+    WHERE lower(o.key) IN ('colour', 'color', 'size')
+  )
+  SELECT jsonb_build_object(
+    'price', (
+      SELECT CASE WHEN count(*) = 0 THEN NULL
+                  ELSE jsonb_build_object('min', floor(min(l.price)), 'max', ceil(max(l.price)))
+             END
+      FROM listed l, filters
+      WHERE product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'price')
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('value', r.value, 'count', (
+               SELECT count(*)
+               FROM listed l, filters
+               WHERE COALESCE(l.rating, 0) >= r.value
+                 AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'rating')
+             )) ORDER BY r.value DESC)
+      FROM unnest(ARRAY[4, 3, 2, 1]) AS r(value)
+    ),
+    'in_stock', (
+      SELECT count(*)
+      FROM listed l, filters
+      WHERE l.stock > 0
+        AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'in_stock')
+    ),
+    'colours', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.value, 'count', c.count) ORDER BY c.value), '[]')
+      FROM (
+        SELECT vv.value, count(DISTINCT l.id) AS count
+        FROM variant_values vv
+        JOIN listed l ON l.id = vv.id, filters
+        WHERE vv.axis IN ('colour', 'color')
+          AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'colours')
+        GROUP BY vv.value
+      ) c
+    ),
+    'sizes', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', s.value, 'count', s.count)), '[]')
+      FROM (
+        SELECT vv.value, count(DISTINCT l.id) AS count
+        FROM variant_values vv
+        JOIN listed l ON l.id = vv.id, filters
+        WHERE vv.axis = 'size'
+          AND product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'sizes')
+        GROUP BY vv.value
+      ) s
+    ),
+    'methods', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', m.value, 'count', m.count) ORDER BY m.value), '[]')
+      FROM (
+        SELECT d.method AS value, count(*) AS count
+        FROM product_decoration_options d
+        JOIN listed l ON l.id = d.product_id, filters
+        WHERE product_matches_filters(l.id, l.price, l.rating, l.stock, filters.f, 'methods')
+        GROUP BY d.method
+      ) m
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION category_product_counts() TO anon, authenticated;
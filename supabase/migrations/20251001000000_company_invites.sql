@@ -0,0 +1,101 @@
+/*
+  # Company Invitations
+
+  Owners used to add an existing customer to their company directly, and from
+  then on that customer's orders belonged to the company: its owners and
+  approvers could read them and its spending limits applied. Now the owner
+  sends an invitation, and the customer only becomes a member, with all that
+  follows, once they accept it.
+
+  Changes:
+  - company_invites: pending invitations, one per company and person
+  - accept_company_invite(): turns an invitation into a membership (server only)
+  - Invitees can view their invitations and the name of the inviting company
+*/
+
+-- Invitations are sent, accepted and withdrawn through the API
+CREATE TABLE IF NOT EXISTS company_invites (
+  company_id uuid REFERENCES companies(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL, -- as the owner entered it, for the pending list
+  role text NOT NULL CHECK (role IN ('owner', 'buyer', 'approver')),
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (company_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_invites_user_id ON company_invites(user_id);
+
+ALTER TABLE company_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Invitees can view their invitations" ON company_invites;
+CREATE POLICY "Invitees can view their invitations"
+  ON company_invites FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can view their company's invitations" ON company_invites;
+CREATE POLICY "Owners can view their company's invitations"
+  ON company_invites FOR SELECT
+  TO authenticated
+  USING (company_role(company_id) = 'owner');
+
+DROP POLICY IF EXISTS "Admins can view all company invitations" ON company_invites;
+CREATE POLICY "Admins can view all company invitations"
+  ON company_invites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid() AND (p.is_admin = true OR p.role = 'admin')
+    )
+  );
+
+DROP POLICY IF EXISTS "Invitees can view the inviting company" ON companies;
+CREATE POLICY "Invitees can view the inviting company"
+  ON companies FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM company_invites i
+      WHERE i.company_id = companies.id AND i.user_id = auth.uid()
+    )
+  );
+
+-- Raises invite_not_found, or already_in_company when the person joined a
+-- company in the meantime. A person belongs to one company, so accepting
+-- clears their other invitations.
+CREATE OR REPLACE FUNCTION accept_company_invite(
+  p_user_id uuid,
+  p_company_id uuid
+)
+RETURNS company_members AS $$
+DECLARE
+  v_invite company_invites;
+  v_member company_members;
+BEGIN
+  SELECT * INTO v_invite
+  FROM company_invites
+  WHERE company_id = p_company_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_invite.company_id IS NULL THEN
+    RAISE EXCEPTION 'invite_not_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM company_members WHERE user_id = p_user_id) THEN
+    RAISE EXCEPTION 'already_in_company';
+  END IF;
+
+  INSERT INTO company_members (company_id, user_id, role)
+  VALUES (p_company_id, p_user_id, v_invite.role)
+  RETURNING * INTO v_member;
+
+  DELETE FROM company_invites WHERE user_id = p_user_id;
+
+  RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION accept_company_invite(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_company_invite(uuid, uuid) TO service_role;
@@ -0,0 +1,147 @@
+/*
+  # Refunds After Shipping and Before Approval
+
+  record_order_refund() put stock back for every refunded unit, even when the
+  order had already shipped and the goods were with the customer. It also
+  predates purchase approvals, so refunding every unit of an order still
+  awaiting approval left the order open.
+
+  Changes:
+  - record_order_refund(): only restocks units of orders that have not
+    shipped, and cancels orders awaiting approval once every unit is refunded
+*/
+
+-- As in 20250922000000_refunds, but refunded units only go back into stock
+-- while the order has not shipped, and an order awaiting approval counts as
+-- not yet shipped. p_lines: [{order_item_id, quantity, subtotal, tax,
+-- amount}], priced by the server with shared/refunds.ts. Raises
+-- order_not_found, order_cancelled, invalid_refund_quantity or
+-- shipping_already_refunded.
+CREATE OR REPLACE FUNCTION record_order_refund(
+  p_order_id uuid,
+  p_lines jsonb,
+  p_reason text,
+  p_shipping numeric,
+  p_method text,
+  p_provider text,
+  p_provider_refund_id text,
+  p_created_by uuid
+)
+RETURNS refunds AS $$
+DECLARE
+  v_order orders;
+  v_refund refunds;
+  v_line jsonb;
+  v_number integer;
+  v_refunded numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'order_cancelled';
+  END IF;
+  IF COALESCE(p_shipping, 0) > 0 AND EXISTS (
+    SELECT 1 FROM refunds WHERE order_id = p_order_id AND shipping > 0
+  ) THEN
+    RAISE EXCEPTION 'shipping_already_refunded';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    UPDATE order_items
+    SET cancelled_quantity = cancelled_quantity + (v_line->>'quantity')::integer
+    WHERE id = (v_line->>'order_item_id')::uuid
+      AND order_id = p_order_id
+      AND cancelled_quantity + (v_line->>'quantity')::integer <= quantity;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'invalid_refund_quantity';
+    END IF;
+  END LOOP;
+
+  -- Orders placed before stock reservation never took stock, so none goes
+  -- back; nor do units of an order that has shipped, as the customer has them
+  IF v_order.stock_reserved
+    AND v_order.status IN ('awaiting_approval', 'pending', 'processing') THEN
+    UPDATE products p
+    SET stock = p.stock + lines.quantity
+    FROM (
+      SELECT oi.product_id, SUM((line->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_lines) AS line
+      JOIN order_items oi ON oi.id = (line->>'order_item_id')::uuid
+      WHERE oi.product_id IS NOT NULL AND oi.variant_id IS NULL
+      GROUP BY oi.product_id
+    ) AS lines
+    WHERE p.id = lines.product_id;
+
+    UPDATE product_variants v
+    SET stock = v.stock + lines.quantity
+    FROM (
+      SELECT oi.variant_id, SUM((line->>'quantity')::integer) AS quantity
+      FROM jsonb_array_elements(p_lines) AS line
+      JOIN order_items oi ON oi.id = (line->>'order_item_id')::uuid
+      WHERE oi.variant_id IS NOT NULL
+      GROUP BY oi.variant_id
+    ) AS lines
+    WHERE v.id = lines.variant_id;
+  END IF;
+
+  UPDATE document_counters
+  SET last_value = last_value + 1
+  WHERE kind = 'credit_note'
+  RETURNING last_value INTO v_number;
+
+  INSERT INTO refunds (
+    order_id, credit_note_number, reason, method, provider, provider_refund_id,
+    subtotal, shipping, tax, total, created_by
+  )
+  SELECT
+    p_order_id,
+    'CN-' || lpad(v_number::text, 6, '0'),
+    p_reason,
+    p_method,
+    p_provider,
+    p_provider_refund_id,
+    COALESCE(SUM((line->>'subtotal')::numeric), 0),
+    COALESCE(p_shipping, 0),
+    COALESCE(SUM((line->>'tax')::numeric), 0),
+    COALESCE(SUM((line->>'amount')::numeric), 0) + COALESCE(p_shipping, 0),
+    p_created_by
+  FROM jsonb_array_elements(p_lines) AS line
+  RETURNING * INTO v_refund;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, subtotal, tax, amount)
+  SELECT
+    v_refund.id,
+    (line->>'order_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'subtotal')::numeric,
+    (line->>'tax')::numeric,
+    (line->>'amount')::numeric
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  IF v_order.payment_status = 'paid' THEN
+    SELECT SUM(total) INTO v_refunded FROM refunds WHERE order_id = p_order_id;
+    IF v_refunded >= COALESCE(v_order.amount_paid, v_order.total) THEN
+      UPDATE orders SET payment_status = 'refunded' WHERE id = p_order_id;
+    END IF;
+  END IF;
+
+  IF v_order.status IN ('awaiting_approval', 'pending', 'processing') AND NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE order_id = p_order_id AND cancelled_quantity < quantity
+  ) THEN
+    PERFORM update_order_status(
+      p_order_id,
+      'cancelled',
+      'All items cancelled (credit note ' || v_refund.credit_note_number || ')'
+    );
+  END IF;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_order_refund(uuid, jsonb, text, numeric, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_order_refund(uuid, jsonb, text, numeric, text, text, text, uuid) TO service_role;
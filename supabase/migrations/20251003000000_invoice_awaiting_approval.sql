@@ -0,0 +1,54 @@
+/*
+  # Invoices For Orders Awaiting Approval
+
+  issue_invoice() predates purchase approvals and numbered an order while it
+  was still awaiting approval. A rejected order then kept an invoice number,
+  leaving a gap in the sequence.
+
+  Changes:
+  - issue_invoice(): refuses orders awaiting approval, so rejected orders never use up an invoice number
+*/
+
+-- As in 20250917000000_invoices, but an order held for approval may still be
+-- rejected, so it is not given a sequential invoice number yet
+CREATE OR REPLACE FUNCTION issue_invoice(p_order_id uuid)
+RETURNS invoices AS $$
+DECLARE
+  v_order orders;
+  v_invoice invoices;
+  v_number integer;
+BEGIN
+  -- Lock the order so two first downloads cannot both take a number
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'order_not_found';
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE order_id = p_order_id;
+  IF v_invoice.id IS NOT NULL THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'order_cancelled';
+  END IF;
+
+  IF v_order.status = 'awaiting_approval' THEN
+    RAISE EXCEPTION 'order_awaiting_approval';
+  END IF;
+
+  UPDATE document_counters
+  SET last_value = last_value + 1
+  WHERE kind = 'invoice'
+  RETURNING last_value INTO v_number;
+
+  INSERT INTO invoices (order_id, invoice_number)
+  VALUES (p_order_id, 'INV-' || lpad(v_number::text, 6, '0'))
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION issue_invoice(uuid) TO service_role;
@@ -0,0 +1,57 @@
+/*
+  # Payments For Orders Awaiting Approval
+
+  record_order_payment() predates purchase approvals. A payment recorded
+  against an order awaiting approval marked it paid, but the order stayed
+  where it was, and approving it later only moved it on to pending, so a
+  paid order never reached processing.
+
+  Changes:
+  - record_order_payment(): raises order_awaiting_approval until the order is approved
+*/
+
+-- As in 20250918000000_eft_payments, but an order awaiting approval cannot be
+-- paid yet. Raises order_awaiting_approval for those and order_not_payable
+-- for orders already paid or cancelled. Runs with the caller's permissions,
+-- so the admin update policy on orders applies.
+CREATE OR REPLACE FUNCTION record_order_payment(
+  p_order_id uuid,
+  p_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  UPDATE orders
+  SET payment_status = 'paid',
+      paid_at = now(),
+      amount_paid = p_amount
+  WHERE id = p_order_id
+    AND payment_status <> 'paid'
+    AND status NOT IN ('cancelled', 'awaiting_approval')
+  RETURNING * INTO v_order;
+
+  IF v_order.id IS NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM orders
+      WHERE id = p_order_id AND status = 'awaiting_approval'
+    ) THEN
+      RAISE EXCEPTION 'order_awaiting_approval';
+    END IF;
+    RAISE EXCEPTION 'order_not_payable';
+  END IF;
+
+  IF v_order.status = 'pending' THEN
+    v_order := update_order_status(
+      p_order_id,
+      'processing',
+      COALESCE(NULLIF(p_note, ''), 'Payment of R' || to_char(p_amount, 'FM999999990.00') || ' received')
+    );
+  END IF;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_order_payment(uuid, numeric, text) TO authenticated;